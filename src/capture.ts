@@ -0,0 +1,212 @@
+/**
+ * Capture policy for request payloads and function arguments/results.
+ *
+ * Payloads are truncated by default to keep events small. A CaptureConfig on
+ * observer.observe() sets the policy for the session; wrapped clients and
+ * observe() calls can override it. Each event lists what was cut in
+ * `truncated`, so a partial capture is never mistaken for the full payload.
+ */
+
+import type { TruncationMarker } from './models/observability.js';
+
+export interface CaptureConfig {
+  /** Capture payloads in full; limits set alongside (or in a later override) still apply */
+  full?: boolean;
+  /** Messages, contents or inputs kept per request (default: 3) */
+  maxMessages?: number;
+  /** Characters kept per string in function args/results (default: 500) */
+  maxStringLength?: number;
+  /** Nesting depth kept in function args/results (default: 3) */
+  maxDepth?: number;
+  /** Items kept per array in function args/results (default: 10) */
+  maxArrayItems?: number;
+  /** Keys kept per object in function args/results (default: 20) */
+  maxObjectKeys?: number;
+}
+
+export type ResolvedCaptureConfig = Required<Omit<CaptureConfig, 'full'>>;
+
+/**
+ * Capture state for a single call: the effective limits and the truncations made so far.
+ */
+export interface CaptureScope {
+  config: ResolvedCaptureConfig;
+  truncated: TruncationMarker[];
+}
+
+export const DEFAULT_CAPTURE_CONFIG: ResolvedCaptureConfig = {
+  maxMessages: 3,
+  maxStringLength: 500,
+  maxDepth: 3,
+  maxArrayItems: 10,
+  maxObjectKeys: 20,
+};
+
+const FULL_CAPTURE_CONFIG: ResolvedCaptureConfig = {
+  maxMessages: Infinity,
+  maxStringLength: Infinity,
+  maxDepth: Infinity,
+  maxArrayItems: Infinity,
+  maxObjectKeys: Infinity,
+};
+
+// Object keys are always cut to this length; keys are not payload
+const MAX_KEY_LENGTH = 100;
+
+/**
+ * Resolve capture configs, later ones overriding earlier ones.
+ *
+ * full: true (or false) resets every limit to unlimited (or the defaults)
+ * before that config's own limits are applied.
+ */
+export function resolveCaptureConfig(...configs: Array<CaptureConfig | null | undefined>): ResolvedCaptureConfig {
+  let resolved = { ...DEFAULT_CAPTURE_CONFIG };
+  for (const config of configs) {
+    if (!config) {
+      continue;
+    }
+    if (config.full !== undefined) {
+      resolved = { ...(config.full ? FULL_CAPTURE_CONFIG : DEFAULT_CAPTURE_CONFIG) };
+    }
+    for (const key of Object.keys(DEFAULT_CAPTURE_CONFIG) as Array<keyof ResolvedCaptureConfig>) {
+      const value = config[key];
+      if (typeof value === 'number' && value >= 0) {
+        resolved[key] = value;
+      }
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Start capturing a call under the given configs (see resolveCaptureConfig).
+ */
+export function createCaptureScope(...configs: Array<CaptureConfig | null | undefined>): CaptureScope {
+  return { config: resolveCaptureConfig(...configs), truncated: [] };
+}
+
+/**
+ * Keep the first maxMessages items of a request list, marking the field if any were dropped.
+ */
+export function captureList<T>(scope: CaptureScope, field: string, items: T[]): T[] {
+  const limit = scope.config.maxMessages;
+  if (items.length <= limit) {
+    return items;
+  }
+  scope.truncated.push({ field, limit: 'messages', original_size: items.length, kept: limit });
+  return items.slice(0, limit);
+}
+
+/**
+ * Safely serialize a value for storage, applying the scope's limits.
+ *
+ * References back to an enclosing object or array are replaced with '<circular>'.
+ */
+export function captureValue(scope: CaptureScope, field: string, value: unknown, depth = 0): unknown {
+  return captureNested(scope, field, value, depth, new WeakSet());
+}
+
+/**
+ * Serialize a value for captureValue; ancestors holds the objects and arrays being serialized above it.
+ */
+function captureNested(
+  scope: CaptureScope,
+  field: string,
+  value: unknown,
+  depth: number,
+  ancestors: WeakSet<object>
+): unknown {
+  const { config } = scope;
+
+  // Prevent deep recursion
+  if (depth > config.maxDepth) {
+    scope.truncated.push({ field, limit: 'depth', original_size: null, kept: config.maxDepth });
+    return '<nested>';
+  }
+
+  const captureString = (s: string): string => {
+    if (s.length <= config.maxStringLength) {
+      return s;
+    }
+    scope.truncated.push({ field, limit: 'string_length', original_size: s.length, kept: config.maxStringLength });
+    return s.slice(0, config.maxStringLength) + '...';
+  };
+
+  try {
+    if (value === null || value === undefined) {
+      return value;
+    }
+    if (typeof value === 'boolean' || typeof value === 'number') {
+      return value;
+    }
+    if (typeof value === 'string') {
+      return captureString(value);
+    }
+    if (typeof value === 'function') {
+      return `<function ${value.name || 'anonymous'}>`;
+    }
+    if (typeof value === 'object' && ancestors.has(value)) {
+      return '<circular>';
+    }
+    if (Array.isArray(value)) {
+      if (value.length > config.maxArrayItems) {
+        scope.truncated.push({ field, limit: 'array_items', original_size: value.length, kept: config.maxArrayItems });
+      }
+      ancestors.add(value);
+      try {
+        return value
+          .slice(0, config.maxArrayItems)
+          .map((item, i) => captureNested(scope, `${field}[${i}]`, item, depth + 1, ancestors));
+      } finally {
+        ancestors.delete(value);
+      }
+    }
+    if (typeof value === 'object') {
+      // Skip complex objects like API clients, Promises, etc.
+      const constructorName = value.constructor?.name;
+      if (constructorName && constructorName !== 'Object' && constructorName !== 'Array') {
+        // Check if it's an API client or similar complex object
+        if (
+          constructorName.includes('Client') ||
+          constructorName.includes('OpenAI') ||
+          constructorName.includes('Anthropic') ||
+          constructorName.includes('Google') ||
+          constructorName === 'Promise'
+        ) {
+          return `<${constructorName}>`;
+        }
+      }
+
+      // For plain objects, serialize safely
+      const entries = Object.entries(value);
+      if (entries.length > config.maxObjectKeys) {
+        scope.truncated.push({ field, limit: 'object_keys', original_size: entries.length, kept: config.maxObjectKeys });
+      }
+      ancestors.add(value);
+      try {
+        return Object.fromEntries(
+          entries
+            .slice(0, config.maxObjectKeys)
+            .map(([k, v]) => [
+              String(k).slice(0, MAX_KEY_LENGTH),
+              captureNested(scope, `${field}.${k}`, v, depth + 1, ancestors),
+            ])
+        );
+      } finally {
+        ancestors.delete(value);
+      }
+    }
+    return captureString(String(value));
+  } catch {
+    return `<${typeof value}>`;
+  }
+}
+
+/**
+ * Attach the scope's truncation markers to an event, if anything was truncated.
+ */
+export function applyTruncations(event: { truncated?: TruncationMarker[] }, scope: CaptureScope): void {
+  if (scope.truncated.length > 0) {
+    event.truncated = scope.truncated;
+  }
+}
@@ -27,6 +27,12 @@ import {
   resetTracer,
   type ReadableSpan,
 } from './tracer.js';
+import { clearToolCalls } from './providers/tools.js';
+import { clearVideoOperations } from './providers/gemini/generate-videos.js';
+import { reconcileEvents } from './reconcile.js';
+import type { CaptureConfig } from './capture.js';
+import { redactFields, resolveRedactionRules, type RedactionConfig, type RedactionRule } from './redaction.js';
+import { installProviders, type InstalledProvider, type ProviderSelection } from './providers/registry.js';
 
 // SDK version for system labels
 const SDK_VERSION = '0.1.0';
@@ -229,6 +235,12 @@ export interface ObserveOptions {
   apiKey?: string;
   /** Optional dictionary of labels for filtering */
   labels?: Record<string, string>;
+  /** Which registry providers to install (default: all available); client wrappers are not affected */
+  providers?: ProviderSelection;
+  /** Capture limits for payloads (default: truncated previews); wrapped clients and observe() can override */
+  capture?: CaptureConfig;
+  /** Redact PII and secrets from events and labels at flush (default: off) */
+  redaction?: RedactionConfig;
 }
 
 export interface FlushOptions {
@@ -272,19 +284,15 @@ export interface UsageInfo {
   is_rate_limited: boolean;
 }
 
-// Type for OTel instrumentor
-interface OtelInstrumentor {
-  enable(): void;
-  disable(): void;
-}
-
 export class Collector {
   private sessions = new Map<string, Session>();
   private events = new Map<string, Array<Event | FunctionEvent>>();
   private activeSession: string | null = null;
   private apiKey: string | null = null;
   private instrumented = false;
-  private instrumentors: OtelInstrumentor[] = [];
+  private installedProviders: InstalledProvider[] = [];
+  private captureConfig: CaptureConfig | null = null;
+  private redactionRules: RedactionRule[] | null = null;
 
   /**
    * Enable instrumentation and start a new session.
@@ -292,7 +300,7 @@ export class Collector {
    * @throws Error if no API key is provided or API key is invalid
    */
   async observe(options: ObserveOptions = {}): Promise<string> {
-    const { sessionName, apiKey, labels } = options;
+    const { sessionName, apiKey, labels, providers, capture, redaction } = options;
 
     // Store API key (parameter takes precedence over env var)
     this.apiKey = apiKey ?? process.env.AIOBS_API_KEY ?? null;
@@ -309,7 +317,7 @@ export class Collector {
     // Install instrumentation if not already done
     if (!this.instrumented) {
       this.instrumented = true;
-      this.installInstrumentation();
+      this.installInstrumentation(providers);
     }
 
     // Build merged labels: system < env vars < explicit
@@ -343,6 +351,8 @@ export class Collector {
     this.sessions.set(sessionId, session);
     this.events.set(sessionId, []);
     this.activeSession = sessionId;
+    this.captureConfig = capture ?? null;
+    this.redactionRules = redaction ? resolveRedactionRules(redaction) : null;
 
     return sessionId;
   }
@@ -363,6 +373,7 @@ export class Collector {
       });
     }
 
+    clearToolCalls(this, this.activeSession);
     this.activeSession = null;
   }
 
@@ -386,20 +397,30 @@ export class Collector {
     // Collect OTel spans and convert to events
     this.collectOtelSpans();
 
+    // Merge calls captured by both a provider wrapper and OTel instrumentation
+    for (const [sessionId, evs] of this.events) {
+      this.events.set(sessionId, reconcileEvents(evs));
+    }
+
     // Separate standard events from function events
     const standardEvents: ObservedEvent[] = [];
     const functionEvents: ObservedFunctionEvent[] = [];
 
+    // Redact PII and secrets before anything leaves the process
+    const rules = this.redactionRules;
+
     for (const [sessionId, evs] of this.events) {
       for (const ev of evs) {
         if ('name' in ev && ev.provider === 'function') {
+          const fev = ev as FunctionEvent;
           functionEvents.push({
-            ...(ev as FunctionEvent),
+            ...(rules ? redactFields(rules, fev, ['args', 'kwargs', 'result', 'error']) : fev),
             session_id: sessionId,
           });
         } else {
+          const sev = ev as Event;
           standardEvents.push({
-            ...(ev as Event),
+            ...(rules ? redactFields(rules, sev, ['request', 'response', 'error']) : sev),
             session_id: sessionId,
           });
         }
@@ -419,7 +440,9 @@ export class Collector {
 
     // Build export payload
     const exportData: ObservabilityExport = {
-      sessions: Array.from(this.sessions.values()),
+      sessions: Array.from(this.sessions.values()).map((session) =>
+        rules ? redactFields(rules, session, ['labels']) : session
+      ),
       events: standardEvents,
       function_events: functionEvents,
       trace_tree: traceTree,
@@ -445,6 +468,7 @@ export class Collector {
       // Clear in-memory store after successful export
       this.sessions.clear();
       this.events.clear();
+      clearToolCalls(this);
       this.activeSession = null;
 
       return result;
@@ -486,6 +510,7 @@ export class Collector {
     // Clear in-memory store
     this.sessions.clear();
     this.events.clear();
+    clearToolCalls(this);
     this.activeSession = null;
 
     return outputPath;
@@ -588,6 +613,9 @@ export class Collector {
 
   /**
    * Record an event (internal API).
+   *
+   * Provider events recorded here come from the wrappers and are marked with
+   * source 'proxy'; OTel events are converted at flush.
    */
   recordEvent(payload: Event | FunctionEvent): void {
     const sessionId = this.activeSession;
@@ -597,7 +625,7 @@ export class Collector {
 
     const events = this.events.get(sessionId);
     if (events) {
-      events.push(payload);
+      events.push(payload.provider === 'function' ? payload : { ...payload, source: 'proxy' });
     }
   }
 
@@ -619,6 +647,20 @@ export class Collector {
     return null;
   }
 
+  /**
+   * Get the id of the active session, if any.
+   */
+  getSessionId(): string | null {
+    return this.activeSession;
+  }
+
+  /**
+   * Get the capture config set on observe(), if any.
+   */
+  getCaptureConfig(): CaptureConfig | null {
+    return this.captureConfig;
+  }
+
   /**
    * Reset collector state and unpatch providers (for tests/dev).
    */
@@ -627,41 +669,37 @@ export class Collector {
     this.sessions.clear();
     this.events.clear();
     this.apiKey = null;
+    this.captureConfig = null;
+    this.redactionRules = null;
 
-    // Disable instrumentors
-    for (const instrumentor of this.instrumentors) {
+    // Uninstall providers
+    for (const provider of this.installedProviders) {
       try {
-        instrumentor.disable();
+        provider.cleanup?.();
       } catch {
         // Ignore errors
       }
     }
-    this.instrumentors = [];
+    this.installedProviders = [];
     this.instrumented = false;
+    clearToolCalls(this);
+    clearVideoOperations(this);
 
     // Reset OTel tracer
     resetTracer();
   }
 
   /**
-   * Install OpenTelemetry tracer and provider instrumentors.
+   * Install OpenTelemetry tracer and the registered providers.
    */
-  private installInstrumentation(): void {
+  private installInstrumentation(selection: ProviderSelection = {}): void {
     // Initialize OTel tracer
     initTracer();
 
-    // Install OpenAI instrumentor (if available)
-    try {
-      // Dynamic import to avoid requiring the package if not installed
-      // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const { OpenAIInstrumentation } = require('@opentelemetry/instrumentation-openai');
-      const instrumentor = new OpenAIInstrumentation();
-      instrumentor.enable();
-      this.instrumentors.push(instrumentor);
-      logger.debug('OpenAI OTel instrumentation installed');
-    } catch {
-      logger.debug('OpenAI OTel instrumentation not available');
-    }
+    this.installedProviders = installProviders(this, selection);
+    logger.debug(
+      `Providers installed: ${this.installedProviders.map((p) => p.name).join(', ') || '(none)'}`
+    );
   }
 
   /**
@@ -871,6 +909,7 @@ export class Collector {
         span_id: spanId,
         parent_span_id: parentSpanId,
         trace_id: traceId,
+        source: 'otel',
       };
     } catch (e) {
       logger.debug(`Failed to convert OTel span to event: ${e}`);
@@ -30,6 +30,53 @@
  *
  *   const client = wrapGeminiClient(new GoogleGenAI(), observer);
  *
+ * Anthropic support:
+ *
+ *   import { wrapAnthropicClient, observer } from 'aiobs';
+ *   import Anthropic from '@anthropic-ai/sdk';
+ *
+ *   const client = wrapAnthropicClient(new Anthropic(), observer);
+ *
+ * AWS Bedrock support:
+ *
+ *   import { wrapBedrockClient, observer } from 'aiobs';
+ *   import { BedrockRuntimeClient } from '@aws-sdk/client-bedrock-runtime';
+ *
+ *   const client = wrapBedrockClient(new BedrockRuntimeClient({}), observer);
+ *
+ * Ollama support:
+ *
+ *   import { wrapOllamaClient, observer } from 'aiobs';
+ *   import ollama from 'ollama';
+ *
+ *   const client = wrapOllamaClient(ollama, observer);
+ *
+ * Vercel AI SDK support:
+ *
+ *   import { createAiobsMiddleware, observer } from 'aiobs';
+ *   import { wrapLanguageModel } from 'ai';
+ *
+ *   const model = wrapLanguageModel({ model, middleware: createAiobsMiddleware(observer) });
+ *
+ * LangChain.js support:
+ *
+ *   import { AiobsCallbackHandler, observer } from 'aiobs';
+ *
+ *   await chain.invoke(input, { callbacks: [new AiobsCallbackHandler(observer)] });
+ *
+ * MCP client support:
+ *
+ *   import { wrapMCPClient, observer } from 'aiobs';
+ *   import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+ *
+ *   const client = wrapMCPClient(new Client({ name: 'my-agent', version: '1.0.0' }), observer);
+ *
+ * Direct HTTP calls (opt-in fetch interceptor):
+ *
+ *   import { instrumentFetch, observer } from 'aiobs';
+ *
+ *   const uninstall = instrumentFetch(observer);
+ *
  * Export to cloud storage:
  *
  *   import { observer } from 'aiobs';
@@ -56,11 +103,31 @@ export type {
   ObservabilityExport,
   Callsite,
   TraceNode,
+  StreamingMetrics,
+  StreamConsumption,
+  ToolDefinition,
+  ToolCall,
+  ToolResult,
+  EventSource,
+  HttpInfo,
+  RateLimitInfo,
+  TruncationMarker,
+  RedactionRecord,
 } from './models/observability.js';
 
+export type { CaptureConfig } from './capture.js';
+export type {
+  RedactionConfig,
+  BuiltinDetector,
+  CustomRedactor,
+  PatternRedactor,
+  FunctionRedactor,
+} from './redaction.js';
+
 export type {
   BaseProvider,
 } from './providers/base.js';
+export type { ProviderSelection, InstalledProvider } from './providers/registry.js';
 
 // OpenAI types
 export type {
@@ -69,9 +136,21 @@ export type {
   Message,
   BaseOpenAIRequest,
   BaseOpenAIResponse,
+  OpenAIBackend,
   EmbeddingsRequest,
   EmbeddingsResponse,
   EmbeddingData,
+  ResponsesRequest,
+  ResponsesResponse,
+  ResponseOutputItem,
+  UploadSummary,
+  ImagesRequest,
+  ImagesResponse,
+  GeneratedImage,
+  TranscriptionRequest,
+  TranscriptionResponse,
+  SpeechRequest,
+  SpeechResponse,
 } from './providers/openai/models/index.js';
 
 // Gemini types
@@ -82,8 +161,102 @@ export type {
   GenerateContentResponse,
   GenerateVideosRequest,
   GenerateVideosResponse,
+  GetVideosOperationRequest,
+  GenerateVideosOperationResult,
+  GenerateImagesRequest,
+  GenerateImagesResponse,
+  EmbedContentRequest,
+  EmbedContentResponse,
+  EmbeddingSummary,
+  CountTokensRequest,
+  CountTokensResponse,
+  ChatTurnRequest,
 } from './providers/gemini/models/index.js';
 
+// Anthropic types
+export type {
+  BaseAnthropicRequest,
+  BaseAnthropicResponse,
+  MessagesRequest,
+  MessagesResponse,
+  MessagesUsage,
+  AnthropicMessage,
+  ToolUseBlock,
+} from './providers/anthropic/models/index.js';
+
+// Bedrock types
+export type {
+  BaseBedrockRequest,
+  BaseBedrockResponse,
+  BedrockUsage,
+  BedrockMessage,
+  BedrockToolUse,
+  BedrockRequest,
+  BedrockResponse,
+} from './providers/bedrock/models/index.js';
+
+// Ollama types
+export type {
+  BaseOllamaRequest,
+  BaseOllamaResponse,
+  OllamaUsage,
+  OllamaMetrics,
+  OllamaMessage,
+  OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaGenerateRequest,
+  OllamaGenerateResponse,
+  OllamaEmbedRequest,
+  OllamaEmbedResponse,
+} from './providers/ollama/models/index.js';
+
+// Vercel AI SDK types
+export type {
+  BaseVercelAIRequest,
+  BaseVercelAIResponse,
+  VercelAIUsage,
+  VercelAIMessage,
+  VercelAIRequest,
+  VercelAIResponse,
+  VercelAIToolCall,
+} from './providers/vercel-ai/models/index.js';
+
+// LangChain types
+export type {
+  BaseLangChainRequest,
+  BaseLangChainResponse,
+  LangChainUsage,
+  LangChainMessage,
+  LangChainLLMRequest,
+  LangChainLLMResponse,
+  LangChainToolCall,
+} from './providers/langchain/models/index.js';
+
+// MCP types
+export type {
+  BaseMCPRequest,
+  MCPContent,
+  MCPCallToolRequest,
+  MCPCallToolResponse,
+  MCPReadResourceRequest,
+  MCPReadResourceResponse,
+  MCPGetPromptRequest,
+  MCPGetPromptResponse,
+  MCPListToolsRequest,
+  MCPListToolsResponse,
+} from './providers/mcp/models/index.js';
+
+// Fetch interceptor types
+export type {
+  BaseFetchRequest,
+  BaseFetchResponse,
+  FetchUsage,
+  HttpLLMRequest,
+  HttpLLMResponse,
+  FetchEndpoint,
+  FetchInstrumentationOptions,
+} from './providers/fetch/index.js';
+
 // Collector types
 export type {
   ObserveOptions as CollectorObserveOptions,
@@ -116,8 +289,46 @@ export {
 } from './tracer.js';
 
 // Provider wrappers
-export { wrapOpenAIClient, wrapEmbeddingsResource } from './providers/openai/index.js';
-export { wrapGeminiClient, wrapGenerateContentResource, wrapGenerateVideosResource } from './providers/gemini/index.js';
+export {
+  wrapOpenAIClient,
+  wrapEmbeddingsResource,
+  wrapResponsesResource,
+  wrapImagesResource,
+  wrapAudioResource,
+  detectOpenAIBackend,
+} from './providers/openai/index.js';
+export type { WrapOpenAIOptions } from './providers/openai/index.js';
+export {
+  wrapGeminiClient,
+  wrapGenerateContentResource,
+  wrapChatsResource,
+  wrapGenerateVideosResource,
+  wrapOperationsResource,
+  wrapGenerateImagesResource,
+  wrapEmbedContentResource,
+  wrapCountTokensResource,
+} from './providers/gemini/index.js';
+export type { WrapGeminiOptions } from './providers/gemini/index.js';
+export { wrapAnthropicClient, wrapMessagesResource } from './providers/anthropic/index.js';
+export type { WrapAnthropicOptions } from './providers/anthropic/index.js';
+export { wrapBedrockClient } from './providers/bedrock/index.js';
+export type { WrapBedrockOptions } from './providers/bedrock/index.js';
+export { wrapOllamaClient } from './providers/ollama/index.js';
+export type { WrapOllamaOptions } from './providers/ollama/index.js';
+export { createAiobsMiddleware } from './providers/vercel-ai/index.js';
+export type { AiobsLanguageModelMiddleware, AiobsMiddlewareOptions } from './providers/vercel-ai/index.js';
+export { AiobsCallbackHandler } from './providers/langchain/index.js';
+export type { AiobsCallbackHandlerOptions } from './providers/langchain/index.js';
+export { wrapMCPClient } from './providers/mcp/index.js';
+export type { WrapMCPOptions } from './providers/mcp/index.js';
+export { instrumentFetch, DEFAULT_FETCH_ENDPOINTS } from './providers/fetch/index.js';
+
+// Provider registry
+export {
+  registerProvider,
+  unregisterProvider,
+  getRegisteredProviders,
+} from './providers/registry.js';
 
 // Global collector singleton
 export const observer = new Collector();
@@ -14,6 +14,8 @@ export interface Session {
   ended_at: number | null;
   meta: SessionMeta;
   labels: Record<string, string> | null;
+  /** Label values replaced by the redaction policy; absent when nothing was redacted */
+  redactions?: RedactionRecord[];
 }
 
 export interface Callsite {
@@ -22,6 +24,116 @@ export interface Callsite {
   function: string | null;
 }
 
+/**
+ * How much of a stream the consumer read: all of it, some (stopped early or
+ * dropped), or none (returned but never iterated).
+ */
+export type StreamConsumption = 'complete' | 'partial' | 'not_consumed';
+
+/**
+ * Timing metrics for streamed provider responses.
+ */
+export interface StreamingMetrics {
+  /** Timestamp (seconds since epoch) when the first chunk was received */
+  first_chunk_at: number | null;
+  /** Time from request start to the first chunk */
+  time_to_first_chunk_ms: number | null;
+  chunk_count: number;
+  /** Gaps between consecutive chunks */
+  inter_chunk_avg_ms: number | null;
+  inter_chunk_min_ms: number | null;
+  inter_chunk_max_ms: number | null;
+  output_tokens: number | null;
+  /** Output tokens per second, measured from the first chunk to the end of the stream */
+  tokens_per_second: number | null;
+  /** How much of the stream the consumer read */
+  consumption: StreamConsumption;
+}
+
+/**
+ * Tool offered to the model in a request.
+ */
+export interface ToolDefinition {
+  name: string | null;
+  description: string | null;
+  /** JSON schema of the tool's parameters */
+  parameters: unknown | null;
+}
+
+/**
+ * Tool call requested by the model.
+ */
+export interface ToolCall {
+  id: string | null;
+  name: string | null;
+  /** Parsed arguments, or the raw string when they are not valid JSON */
+  arguments: unknown;
+}
+
+/**
+ * Tool result sent back to the model in a follow-up request.
+ */
+export interface ToolResult {
+  tool_call_id: string | null;
+  name: string | null;
+  content: unknown;
+  /** Span of the provider event that requested the tool call, if recorded */
+  tool_call_span_id: string | null;
+}
+
+/**
+ * Rate-limit state reported in provider response headers.
+ */
+export interface RateLimitInfo {
+  limit_requests: number | null;
+  limit_tokens: number | null;
+  remaining_requests: number | null;
+  remaining_tokens: number | null;
+  /** Time until the limit resets, as sent by the provider (e.g. "6m0s") */
+  reset_requests: string | null;
+  reset_tokens: string | null;
+}
+
+/**
+ * HTTP metadata of a provider response, when the SDK exposes it.
+ */
+export interface HttpInfo {
+  status: number | null;
+  request_id: string | null;
+  rate_limit: RateLimitInfo | null;
+}
+
+/**
+ * How an event was captured: by a provider wrapper or OTel instrumentation.
+ */
+export type EventSource = 'proxy' | 'otel';
+
+/**
+ * A payload field that was cut by the capture policy.
+ */
+export interface TruncationMarker {
+  /** Path of the truncated value (e.g. 'request.messages', 'args[0].items') */
+  field: string;
+  /** Limit that was applied */
+  limit: 'messages' | 'string_length' | 'depth' | 'array_items' | 'object_keys';
+  /** Items, characters or keys in the original value; null for depth */
+  original_size: number | null;
+  /** Items, characters, keys or levels kept */
+  kept: number;
+}
+
+/**
+ * Matches replaced in a payload field by the redaction policy.
+ */
+export interface RedactionRecord {
+  /** Path of the redacted value (e.g. 'request.messages[0].content', 'labels.owner') */
+  field: string;
+  /** Detector or custom redactor that matched (e.g. 'email', 'api_key') */
+  type: string;
+  /** Number of matches replaced */
+  count: number;
+}
+
 export interface Event {
   provider: string;
   api: string;
@@ -35,6 +147,16 @@ export interface Event {
   span_id: string | null;
   parent_span_id: string | null;
   trace_id: string | null; // OTel trace ID for correlation
+  streaming?: StreamingMetrics | null; // Only set for streamed responses
+  http?: HttpInfo | null; // Only set when the SDK exposes the HTTP response
+  /** 'proxy' for events recorded by a wrapper, 'otel' for events converted from OTel instrumentation spans */
+  source?: EventSource;
+  /** Source of each request/response field, set when proxy and OTel captures were merged */
+  field_sources?: Record<string, EventSource>;
+  /** Fields cut by the capture policy; absent when nothing was truncated */
+  truncated?: TruncationMarker[];
+  /** Matches replaced by the redaction policy; absent when nothing was redacted */
+  redactions?: RedactionRecord[];
 }
 
 export interface FunctionEvent {
@@ -56,6 +178,14 @@ export interface FunctionEvent {
   enh_prompt: boolean;
   enh_prompt_id: string | null;
   auto_enhance_after: number | null;
+  /** Tool call this function executed, when matched to a model tool call by name */
+  tool_call_id?: string | null;
+  /** Span of the provider event that requested the tool call */
+  tool_call_span_id?: string | null;
+  /** Fields cut by the capture policy; absent when nothing was truncated */
+  truncated?: TruncationMarker[];
+  /** Matches replaced by the redaction policy; absent when nothing was redacted */
+  redactions?: RedactionRecord[];
 }
 
 export interface ObservedEvent extends Event {
@@ -85,10 +215,18 @@ export interface TraceNode {
   span_id: string | null;
   parent_span_id: string | null;
   trace_id?: string | null;
+  streaming?: StreamingMetrics | null;
+  http?: HttpInfo | null;
   event_type: 'provider' | 'function';
   enh_prompt?: boolean;
   enh_prompt_id?: string | null;
   auto_enhance_after?: number | null;
+  tool_call_id?: string | null;
+  tool_call_span_id?: string | null;
+  source?: EventSource;
+  field_sources?: Record<string, EventSource>;
+  truncated?: TruncationMarker[];
+  redactions?: RedactionRecord[];
   children: TraceNode[];
 }
 
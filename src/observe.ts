@@ -18,6 +18,8 @@ import { SpanStatusCode, context, trace } from '@opentelemetry/api';
 import type { Collector } from './collector.js';
 import type { FunctionEvent, Callsite } from './models/observability.js';
 import { getTracer, initTracer, isInitialized } from './tracer.js';
+import { claimToolCall } from './providers/tools.js';
+import { applyTruncations, captureValue, createCaptureScope, type CaptureConfig } from './capture.js';
 
 /**
  * Get the current parent span ID from OTel context.
@@ -80,57 +82,10 @@ function getCallsite(skipFrames = 2): Callsite | null {
 }
 
 /**
- * Safely serialize an object for storage.
+ * Safely serialize an object for storage with the default capture limits.
  */
-function safeRepr(obj: unknown, maxLength = 500, depth = 0): unknown {
-  // Prevent deep recursion
-  if (depth > 3) {
-    return '<nested>';
-  }
-
-  try {
-    if (obj === null || obj === undefined) {
-      return obj;
-    }
-    if (typeof obj === 'boolean' || typeof obj === 'number') {
-      return obj;
-    }
-    if (typeof obj === 'string') {
-      return obj.length > maxLength ? obj.slice(0, maxLength) + '...' : obj;
-    }
-    if (typeof obj === 'function') {
-      return `<function ${obj.name || 'anonymous'}>`;
-    }
-    if (Array.isArray(obj)) {
-      return obj.slice(0, 10).map((item) => safeRepr(item, maxLength, depth + 1));
-    }
-    if (typeof obj === 'object') {
-      // Skip complex objects like API clients, Promises, etc.
-      const constructorName = obj.constructor?.name;
-      if (constructorName && constructorName !== 'Object' && constructorName !== 'Array') {
-        // Check if it's an API client or similar complex object
-        if (
-          constructorName.includes('Client') ||
-          constructorName.includes('OpenAI') ||
-          constructorName.includes('Anthropic') ||
-          constructorName.includes('Google') ||
-          constructorName === 'Promise'
-        ) {
-          return `<${constructorName}>`;
-        }
-      }
-
-      // For plain objects, serialize safely
-      const entries = Object.entries(obj).slice(0, 20);
-      return Object.fromEntries(
-        entries.map(([k, v]) => [String(k).slice(0, 100), safeRepr(v, maxLength, depth + 1)])
-      );
-    }
-    const s = String(obj);
-    return s.length > maxLength ? s.slice(0, maxLength) + '...' : s;
-  } catch {
-    return `<${typeof obj}>`;
-  }
+export function safeRepr(obj: unknown, maxLength = 500, depth = 0): unknown {
+  return captureValue(createCaptureScope({ maxStringLength: maxLength }), 'value', obj, depth);
 }
 
 export interface ObserveOptions {
@@ -144,6 +99,8 @@ export interface ObserveOptions {
   enhPrompt?: boolean;
   /** Number of traces after which to run auto prompt enhancer */
   autoEnhanceAfter?: number;
+  /** Capture limits for args and result, overriding the observer's */
+  capture?: CaptureConfig;
 }
 
 /**
@@ -159,6 +116,7 @@ export function observe<T extends (...args: unknown[]) => unknown>(
     captureResult = true,
     enhPrompt = false,
     autoEnhanceAfter,
+    capture: captureOverride,
   } = options;
 
   // Determine if the function is async
@@ -184,11 +142,15 @@ export function observe<T extends (...args: unknown[]) => unknown>(
       // Get parent span ID BEFORE starting the new span
       const parentSpanId = getCurrentParentSpanId();
 
+      // Link to the model tool call this function is executing, if any
+      const toolCall = claimToolCall(observer, name);
+
       // Capture args if enabled
+      const capture = createCaptureScope(observer.getCaptureConfig(), captureOverride);
       let capturedArgs: unknown[] | null = null;
       if (captureArgs) {
         try {
-          capturedArgs = args.map((a) => safeRepr(a));
+          capturedArgs = args.map((a, i) => captureValue(capture, `args[${i}]`, a));
         } catch {
           // Ignore
         }
@@ -221,7 +183,7 @@ export function observe<T extends (...args: unknown[]) => unknown>(
           let capturedResult: unknown = null;
           if (captureResult && errorMsg === null) {
             try {
-              capturedResult = safeRepr(result);
+              capturedResult = captureValue(capture, 'result', result);
             } catch {
               // Ignore
             }
@@ -248,7 +210,9 @@ export function observe<T extends (...args: unknown[]) => unknown>(
             enh_prompt: enhPrompt,
             enh_prompt_id: enhPromptId,
             auto_enhance_after: autoEnhanceAfter ?? null,
+            ...(toolCall && { tool_call_id: toolCall.id, tool_call_span_id: toolCall.span_id }),
           };
+          applyTruncations(event, capture);
 
           observer.recordEvent(event);
         }
@@ -275,11 +239,15 @@ export function observe<T extends (...args: unknown[]) => unknown>(
       // Get parent span ID BEFORE starting the new span
       const parentSpanId = getCurrentParentSpanId();
 
+      // Link to the model tool call this function is executing, if any
+      const toolCall = claimToolCall(observer, name);
+
       // Capture args if enabled
+      const capture = createCaptureScope(observer.getCaptureConfig(), captureOverride);
       let capturedArgs: unknown[] | null = null;
       if (captureArgs) {
         try {
-          capturedArgs = args.map((a) => safeRepr(a));
+          capturedArgs = args.map((a, i) => captureValue(capture, `args[${i}]`, a));
         } catch {
           // Ignore
         }
@@ -315,7 +283,7 @@ export function observe<T extends (...args: unknown[]) => unknown>(
           let capturedResult: unknown = null;
           if (captureResult && errorMsg === null) {
             try {
-              capturedResult = safeRepr(result);
+              capturedResult = captureValue(capture, 'result', result);
             } catch {
               // Ignore
             }
@@ -342,7 +310,9 @@ export function observe<T extends (...args: unknown[]) => unknown>(
             enh_prompt: enhPrompt,
             enh_prompt_id: enhPromptId,
             auto_enhance_after: autoEnhanceAfter ?? null,
+            ...(toolCall && { tool_call_id: toolCall.id, tool_call_span_id: toolCall.span_id }),
           };
+          applyTruncations(event, capture);
 
           observer.recordEvent(event);
         }
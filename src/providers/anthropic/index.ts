@@ -0,0 +1,9 @@
+/**
+ * Anthropic provider instrumentation for aiobs.
+ * 
+ * Supports:
+ * - messages.create (including stream: true)
+ */
+
+export { wrapAnthropicClient, wrapMessagesResource, type WrapAnthropicOptions } from './messages.js';
+export * from './models/index.js';
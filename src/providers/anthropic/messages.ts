@@ -0,0 +1,385 @@
+/**
+ * Anthropic Messages API instrumentation.
+ *
+ * Uses Proxy to wrap the Anthropic client and intercept messages.create calls,
+ * including streamed responses (stream: true).
+ */
+
+import { randomUUID } from 'crypto';
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite, HttpInfo, StreamConsumption } from '../../models/observability.js';
+import type {
+  AnthropicMessage,
+  MessagesRequest,
+  MessagesResponse,
+  MessagesUsage,
+  ToolUseBlock,
+} from './models/index.js';
+import { computeStreamingMetrics, isAsyncIterable, wrapStream } from '../stream.js';
+import { runInWrappedCall } from '../context.js';
+import { observeAPICall } from '../api-promise.js';
+import {
+  applyTruncations,
+  captureList,
+  createCaptureScope,
+  type CaptureConfig,
+  type CaptureScope,
+} from '../../capture.js';
+
+/**
+ * Options for wrapAnthropicClient.
+ */
+export interface WrapAnthropicOptions {
+  /** Capture limits for this client, overriding the observer's */
+  capture?: CaptureConfig;
+}
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    // Skip first few frames (Error, getCallsite, wrapper function, etc.)
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and anthropic frames
+      if (line.includes('/aiobs-ts/') || line.includes('/@anthropic-ai/') || line.includes('node_modules')) {
+        continue;
+      }
+
+      // Parse stack frame: "    at functionName (file:line:column)"
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors in callsite extraction
+  }
+  return null;
+}
+
+/**
+ * Extract request data from messages.create call arguments.
+ */
+function extractRequest(args: unknown, capture: CaptureScope): MessagesRequest {
+  const req = (args ?? {}) as Record<string, unknown>;
+
+  let messages: AnthropicMessage[] | null = null;
+  if (Array.isArray(req.messages)) {
+    messages = captureList(capture, 'request.messages', req.messages as unknown[]).map((m: unknown) => {
+      const msg = m as Record<string, unknown>;
+      return {
+        role: String(msg.role ?? ''),
+        content: msg.content,
+      };
+    });
+  }
+
+  return {
+    model: typeof req.model === 'string' ? req.model : null,
+    system: req.system ?? null,
+    messages,
+    max_tokens: typeof req.max_tokens === 'number' ? req.max_tokens : null,
+    temperature: typeof req.temperature === 'number' ? req.temperature : null,
+    stream: req.stream === true,
+    other: Object.fromEntries(
+      Object.entries(req).filter(([k]) => !['model', 'system', 'messages', 'max_tokens', 'temperature', 'stream'].includes(k))
+    ),
+  };
+}
+
+/**
+ * Normalize usage to include input/output and prompt cache token counts.
+ */
+function normalizeUsage(usage: Record<string, unknown> | null): MessagesUsage | null {
+  if (!usage) {
+    return null;
+  }
+
+  return {
+    ...usage,
+    input_tokens: typeof usage.input_tokens === 'number' ? usage.input_tokens : null,
+    output_tokens: typeof usage.output_tokens === 'number' ? usage.output_tokens : null,
+    cache_creation_input_tokens: typeof usage.cache_creation_input_tokens === 'number' ? usage.cache_creation_input_tokens : null,
+    cache_read_input_tokens: typeof usage.cache_read_input_tokens === 'number' ? usage.cache_read_input_tokens : null,
+  };
+}
+
+/**
+ * Extract response data from a messages.create response.
+ */
+function extractResponse(resp: unknown): MessagesResponse {
+  const r = (resp ?? {}) as Record<string, unknown>;
+
+  let text: string | null = null;
+  let toolUse: ToolUseBlock[] | null = null;
+
+  try {
+    if (Array.isArray(r.content)) {
+      const content = r.content as Array<Record<string, unknown>>;
+
+      const textParts = content
+        .filter((block) => block.type === 'text' && typeof block.text === 'string')
+        .map((block) => block.text as string);
+      if (textParts.length > 0) {
+        text = textParts.join('');
+      }
+
+      const toolBlocks = content.filter((block) => block.type === 'tool_use');
+      if (toolBlocks.length > 0) {
+        toolUse = toolBlocks.map((block) => ({
+          id: typeof block.id === 'string' ? block.id : null,
+          name: typeof block.name === 'string' ? block.name : null,
+          input: block.input ?? null,
+        }));
+      }
+    }
+  } catch {
+    // Ignore extraction errors
+  }
+
+  let usage: MessagesUsage | null = null;
+  if (r.usage && typeof r.usage === 'object') {
+    usage = normalizeUsage(r.usage as Record<string, unknown>);
+  }
+
+  return {
+    id: typeof r.id === 'string' ? r.id : null,
+    model: typeof r.model === 'string' ? r.model : null,
+    role: typeof r.role === 'string' ? r.role : null,
+    stop_reason: typeof r.stop_reason === 'string' ? r.stop_reason : null,
+    stop_sequence: typeof r.stop_sequence === 'string' ? r.stop_sequence : null,
+    usage,
+    text,
+    tool_use: toolUse,
+  };
+}
+
+/**
+ * Accumulated state of a streamed message.
+ */
+interface StreamState {
+  message: Record<string, unknown>;
+  blocks: Array<Record<string, unknown>>;
+  partialJson: Map<number, string>;
+}
+
+/**
+ * Apply a single server-sent stream event to the accumulated message.
+ */
+function applyStreamEvent(state: StreamState, chunk: unknown): void {
+  const ev = (chunk ?? {}) as Record<string, unknown>;
+
+  switch (ev.type) {
+    case 'message_start': {
+      const message = (ev.message ?? {}) as Record<string, unknown>;
+      state.message = { ...message };
+      break;
+    }
+    case 'content_block_start': {
+      const index = typeof ev.index === 'number' ? ev.index : state.blocks.length;
+      state.blocks[index] = { ...((ev.content_block ?? {}) as Record<string, unknown>) };
+      break;
+    }
+    case 'content_block_delta': {
+      const index = typeof ev.index === 'number' ? ev.index : state.blocks.length - 1;
+      const block = state.blocks[index];
+      const delta = (ev.delta ?? {}) as Record<string, unknown>;
+      if (!block) {
+        break;
+      }
+      if (delta.type === 'text_delta' && typeof delta.text === 'string') {
+        block.text = String(block.text ?? '') + delta.text;
+      } else if (delta.type === 'input_json_delta' && typeof delta.partial_json === 'string') {
+        state.partialJson.set(index, (state.partialJson.get(index) ?? '') + delta.partial_json);
+      } else if (delta.type === 'thinking_delta' && typeof delta.thinking === 'string') {
+        block.thinking = String(block.thinking ?? '') + delta.thinking;
+      }
+      break;
+    }
+    case 'message_delta': {
+      const delta = (ev.delta ?? {}) as Record<string, unknown>;
+      if (delta.stop_reason !== undefined) {
+        state.message.stop_reason = delta.stop_reason;
+      }
+      if (delta.stop_sequence !== undefined) {
+        state.message.stop_sequence = delta.stop_sequence;
+      }
+      // message_delta usage carries the final output token count
+      if (ev.usage && typeof ev.usage === 'object') {
+        state.message.usage = {
+          ...((state.message.usage ?? {}) as Record<string, unknown>),
+          ...(ev.usage as Record<string, unknown>),
+        };
+      }
+      break;
+    }
+    default:
+      break;
+  }
+}
+
+/**
+ * Build the final message object from the accumulated stream state.
+ */
+function buildStreamedMessage(state: StreamState): Record<string, unknown> {
+  const content = state.blocks
+    .map((block, index) => {
+      const json = state.partialJson.get(index);
+      if (block && block.type === 'tool_use' && json !== undefined) {
+        try {
+          return { ...block, input: json ? JSON.parse(json) : {} };
+        } catch {
+          return { ...block, input: json };
+        }
+      }
+      return block;
+    })
+    .filter(Boolean);
+
+  return { ...state.message, content };
+}
+
+/**
+ * Wrap an Anthropic client to instrument messages.create calls.
+ */
+export function wrapAnthropicClient<T extends object>(
+  client: T,
+  collector: Collector,
+  options: WrapAnthropicOptions = {}
+): T {
+  return new Proxy(client, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      // Intercept messages property access
+      if (prop === 'messages' && value && typeof value === 'object') {
+        return wrapMessagesResource(value as object, collector, options.capture);
+      }
+
+      return value;
+    },
+  });
+}
+
+/**
+ * Wrap the messages resource to intercept create calls.
+ */
+export function wrapMessagesResource<T extends object>(messages: T, collector: Collector, capture?: CaptureConfig): T {
+  return new Proxy(messages, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      // Intercept create method
+      if (prop === 'create' && typeof value === 'function') {
+        return createWrappedMessagesCreate(value.bind(target), collector, capture);
+      }
+
+      return value;
+    },
+  });
+}
+
+/**
+ * Create a wrapped version of the messages.create method.
+ *
+ * Non-streamed calls are recorded as soon as the response arrives. Streamed
+ * calls are recorded when the caller finishes consuming the stream, with the
+ * message rebuilt from the stream events. The SDK's APIPromise is returned
+ * (via a Proxy), so .withResponse() and .asResponse() keep working.
+ */
+function createWrappedMessagesCreate(
+  originalCreate: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return function wrappedCreate(...args: unknown[]): Promise<unknown> {
+    const spanId = randomUUID();
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = extractRequest(args[0], capture);
+
+    const record = (
+      responseInfo: MessagesResponse | null,
+      error: string | null,
+      http: HttpInfo | null,
+      chunkTimes: number[] | null = null,
+      consumption: StreamConsumption = 'complete'
+    ): void => {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: 'anthropic',
+        api: 'messages.create',
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: null,
+      };
+
+      if (chunkTimes) {
+        event.streaming = computeStreamingMetrics(
+          started,
+          ended,
+          chunkTimes,
+          responseInfo?.usage?.output_tokens ?? null,
+          consumption
+        );
+      }
+
+      if (http) {
+        event.http = http;
+      }
+
+      applyTruncations(event, capture);
+      collector.recordEvent(event);
+    };
+
+    const onData = (resp: unknown, http: HttpInfo | null): unknown => {
+      if (requestInfo.stream && isAsyncIterable(resp)) {
+        const state: StreamState = { message: {}, blocks: [], partialJson: new Map() };
+
+        return wrapStream(resp, {
+          onChunk: (chunk) => applyStreamEvent(state, chunk),
+          onEnd: (e, chunkTimes, consumption) => {
+            const err = e as Error | null;
+            record(
+              extractResponse(buildStreamedMessage(state)),
+              err ? `${err.name}: ${err.message}` : null,
+              http,
+              chunkTimes,
+              consumption
+            );
+          },
+        });
+      }
+
+      record(extractResponse(resp), null, http);
+      return resp;
+    };
+
+    const onError = (e: unknown, http: HttpInfo | null): void => {
+      const err = e as Error;
+      record(null, `${err.name}: ${err.message}`, http);
+    };
+
+    return observeAPICall(() => runInWrappedCall(() => originalCreate(...args)), onData, onError);
+  };
+}
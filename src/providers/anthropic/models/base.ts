@@ -0,0 +1,13 @@
+/**
+ * Base models for Anthropic request/response capture.
+ */
+
+export interface BaseAnthropicRequest {
+  model: string | null;
+}
+
+export interface BaseAnthropicResponse {
+  id: string | null;
+  model: string | null;
+  usage: Record<string, unknown> | null;
+}
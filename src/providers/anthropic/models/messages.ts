@@ -0,0 +1,47 @@
+/**
+ * Models for Anthropic Messages API capture.
+ */
+
+import type { BaseAnthropicRequest, BaseAnthropicResponse } from './base.js';
+
+export interface AnthropicMessage {
+  role: string;
+  content: unknown;
+}
+
+export interface MessagesRequest extends BaseAnthropicRequest {
+  system: unknown | null;
+  messages: AnthropicMessage[] | null;
+  max_tokens: number | null;
+  temperature: number | null;
+  stream: boolean;
+  other: Record<string, unknown>;
+}
+
+/**
+ * Tool use block requested by the model.
+ */
+export interface ToolUseBlock {
+  id: string | null;
+  name: string | null;
+  input: unknown;
+}
+
+/**
+ * Token usage including prompt caching counters.
+ */
+export interface MessagesUsage extends Record<string, unknown> {
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cache_creation_input_tokens: number | null;
+  cache_read_input_tokens: number | null;
+}
+
+export interface MessagesResponse extends BaseAnthropicResponse {
+  role: string | null;
+  stop_reason: string | null;
+  stop_sequence: string | null;
+  usage: MessagesUsage | null;
+  text: string | null;
+  tool_use: ToolUseBlock[] | null;
+}
@@ -0,0 +1,215 @@
+/**
+ * APIPromise support for the OpenAI and Anthropic SDKs.
+ *
+ * SDK methods return an APIPromise, a Promise subclass with helpers such as
+ * .withResponse() and .asResponse(). Wrappers hand the caller a Proxy of the
+ * APIPromise, so the helpers keep working, and observe the call through
+ * whichever helper the caller uses first.
+ */
+
+import type { HttpInfo, RateLimitInfo } from '../models/observability.js';
+
+/**
+ * Result of APIPromise.withResponse().
+ */
+interface WithResponseResult {
+  data: unknown;
+  response: unknown;
+  request_id?: string | null;
+}
+
+/**
+ * The public parts of an SDK APIPromise the wrappers rely on.
+ */
+interface APIPromiseLike extends Promise<unknown> {
+  withResponse(): Promise<WithResponseResult>;
+  asResponse(): Promise<Response>;
+}
+
+/**
+ * Check whether a value is an SDK APIPromise.
+ */
+function isAPIPromise(value: unknown): value is APIPromiseLike {
+  return (
+    value instanceof Promise &&
+    typeof (value as unknown as Record<string, unknown>).withResponse === 'function'
+  );
+}
+
+/**
+ * Read a header from a fetch Headers object or a plain header record.
+ */
+function getHeader(headers: unknown, name: string): string | null {
+  if (!headers || typeof headers !== 'object') {
+    return null;
+  }
+  const get = (headers as { get?: unknown }).get;
+  const value = typeof get === 'function'
+    ? get.call(headers, name)
+    : (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Parse a numeric header value.
+ */
+function toNumber(value: string | null): number | null {
+  if (value === null) {
+    return null;
+  }
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Extract OpenAI rate-limit headers.
+ */
+function extractRateLimit(headers: unknown): RateLimitInfo | null {
+  const rateLimit: RateLimitInfo = {
+    limit_requests: toNumber(getHeader(headers, 'x-ratelimit-limit-requests')),
+    limit_tokens: toNumber(getHeader(headers, 'x-ratelimit-limit-tokens')),
+    remaining_requests: toNumber(getHeader(headers, 'x-ratelimit-remaining-requests')),
+    remaining_tokens: toNumber(getHeader(headers, 'x-ratelimit-remaining-tokens')),
+    reset_requests: getHeader(headers, 'x-ratelimit-reset-requests'),
+    reset_tokens: getHeader(headers, 'x-ratelimit-reset-tokens'),
+  };
+  return Object.values(rateLimit).some((v) => v !== null) ? rateLimit : null;
+}
+
+/**
+ * Read the request id header (x-request-id for OpenAI, request-id for Anthropic).
+ */
+function getRequestId(headers: unknown): string | null {
+  return getHeader(headers, 'x-request-id') ?? getHeader(headers, 'request-id');
+}
+
+/**
+ * Build HTTP metadata from a status, headers and request id.
+ */
+function buildHttpInfo(status: unknown, headers: unknown, requestId: unknown): HttpInfo | null {
+  const info: HttpInfo = {
+    status: typeof status === 'number' ? status : null,
+    request_id: typeof requestId === 'string' ? requestId : getRequestId(headers),
+    rate_limit: extractRateLimit(headers),
+  };
+  return info.status !== null || info.request_id !== null || info.rate_limit !== null ? info : null;
+}
+
+/**
+ * Extract HTTP metadata from an SDK error (APIError carries status and headers).
+ */
+export function extractErrorHttpInfo(error: unknown): HttpInfo | null {
+  if (!error || typeof error !== 'object') {
+    return null;
+  }
+  const err = error as Record<string, unknown>;
+  return buildHttpInfo(err.status, err.headers, err.request_id);
+}
+
+/**
+ * Read the data of a Response the caller took with asResponse(), leaving its body unread.
+ *
+ * JSON bodies are parsed from a clone. Streamed and binary bodies are not read:
+ * the Response stands in for the data, as the SDK returns it for binary responses.
+ */
+async function readRawData(response: Response): Promise<unknown> {
+  const contentType = response.headers.get('content-type') ?? '';
+  return contentType.includes('application/json') ? response.clone().json() : response;
+}
+
+/**
+ * Observe an SDK call, keeping APIPromise helpers on the returned value.
+ *
+ * onData receives the response data and returns what the caller should get
+ * (e.g. an observed stream). onError is called once if the call fails.
+ */
+export function observeAPICall(
+  call: () => unknown,
+  onData: (data: unknown, http: HttpInfo | null) => unknown,
+  onError: (error: unknown, http: HttpInfo | null) => void
+): Promise<unknown> {
+  let result: unknown;
+  try {
+    result = call();
+  } catch (e) {
+    onError(e, extractErrorHttpInfo(e));
+    return Promise.reject(e);
+  }
+
+  if (!isAPIPromise(result)) {
+    return Promise.resolve(result).then(
+      (data) => onData(data, null),
+      (e) => {
+        onError(e, extractErrorHttpInfo(e));
+        throw e;
+      }
+    );
+  }
+
+  const apiPromise = result;
+
+  const observe = (source: Promise<WithResponseResult>): Promise<WithResponseResult> => {
+    const observed = source.then(
+      ({ data, response, request_id }) => {
+        const resp = (response ?? {}) as Record<string, unknown>;
+        const http = buildHttpInfo(resp.status, resp.headers, request_id);
+        return { data: onData(data, http), response, request_id };
+      },
+      (e) => {
+        onError(e, extractErrorHttpInfo(e));
+        throw e;
+      }
+    );
+    // The caller may only use one of the helpers; its own chain still sees the rejection
+    observed.catch(() => {});
+    return observed;
+  };
+
+  // The first helper the caller uses decides how the call is observed
+  let dataObserved: Promise<WithResponseResult> | null = null;
+  let rawObserved: Promise<WithResponseResult> | null = null;
+
+  const withResponse = (): Promise<WithResponseResult> => {
+    // Already recorded from the raw response; the data is the SDK's own
+    if (rawObserved) {
+      return apiPromise.withResponse();
+    }
+    return (dataObserved ??= observe(apiPromise.withResponse()));
+  };
+
+  const asResponse = (): Promise<Response> => {
+    if (!dataObserved) {
+      rawObserved ??= observe(
+        apiPromise.asResponse().then(async (response) => ({
+          data: await readRawData(response),
+          response,
+          request_id: getRequestId(response.headers),
+        }))
+      );
+    }
+    return apiPromise.asResponse();
+  };
+
+  const getData = (): Promise<unknown> => withResponse().then((r) => r.data);
+
+  return new Proxy(apiPromise, {
+    get(target, prop) {
+      switch (prop) {
+        case 'then':
+          return (onFulfilled?: (v: unknown) => unknown, onRejected?: (e: unknown) => unknown) =>
+            getData().then(onFulfilled, onRejected);
+        case 'catch':
+          return (onRejected?: (e: unknown) => unknown) => getData().catch(onRejected);
+        case 'finally':
+          return (onFinally?: () => void) => getData().finally(onFinally);
+        case 'withResponse':
+          return withResponse;
+        case 'asResponse':
+          return asResponse;
+      }
+      // Any other property is read from the original APIPromise
+      const value = Reflect.get(target, prop, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
@@ -1,5 +1,5 @@
 /**
- * Base provider interface for LLM instrumentation.
+ * Base provider interface for process-wide LLM instrumentation installed by the provider registry.
  */
 
 import type { Collector } from '../collector.js';
@@ -0,0 +1,11 @@
+/**
+ * AWS Bedrock provider instrumentation for aiobs.
+ * 
+ * Supports BedrockRuntimeClient.send() with:
+ * - InvokeModelCommand
+ * - ConverseCommand
+ * - ConverseStreamCommand
+ */
+
+export { wrapBedrockClient, type WrapBedrockOptions } from './runtime.js';
+export * from './models/index.js';
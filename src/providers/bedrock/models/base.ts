@@ -0,0 +1,29 @@
+/**
+ * Base models for AWS Bedrock request/response capture.
+ */
+
+export interface BaseBedrockRequest {
+  /** Model id with any ARN and cross-region inference prefix removed */
+  model: string | null;
+  /** Model id, inference profile or ARN exactly as passed to the command */
+  model_id: string | null;
+  /** Model vendor taken from the model id (e.g. 'anthropic', 'amazon', 'meta') */
+  model_vendor: string | null;
+}
+
+export interface BaseBedrockResponse {
+  request_id: string | null;
+  model: string | null;
+  usage: BedrockUsage | null;
+}
+
+/**
+ * Token usage normalized across Converse and model-specific InvokeModel bodies.
+ */
+export interface BedrockUsage extends Record<string, unknown> {
+  input_tokens: number | null;
+  output_tokens: number | null;
+  total_tokens: number | null;
+  cache_read_input_tokens: number | null;
+  cache_write_input_tokens: number | null;
+}
@@ -0,0 +1,43 @@
+/**
+ * Models for AWS Bedrock Runtime (InvokeModel, Converse, ConverseStream) capture.
+ */
+
+import type { BaseBedrockRequest, BaseBedrockResponse } from './base.js';
+
+export interface BedrockMessage {
+  role: string;
+  content: unknown;
+}
+
+/**
+ * Tool use requested by the model.
+ */
+export interface BedrockToolUse {
+  id: string | null;
+  name: string | null;
+  input: unknown;
+}
+
+export interface BedrockRequest extends BaseBedrockRequest {
+  system: unknown | null;
+  messages: BedrockMessage[] | null;
+  /** Prompt of single-prompt InvokeModel bodies (Titan, Llama, Mistral) */
+  prompt: string | null;
+  max_tokens: number | null;
+  temperature: number | null;
+  top_p: number | null;
+  stop_sequences: string[] | null;
+  tool_names: string[] | null;
+  stream: boolean;
+  other: Record<string, unknown>;
+}
+
+export interface BedrockResponse extends BaseBedrockResponse {
+  role: string | null;
+  stop_reason: string | null;
+  text: string | null;
+  content: Array<Record<string, unknown>> | null;
+  tool_use: BedrockToolUse[] | null;
+  /** Server-side latency reported by Converse metrics */
+  latency_ms: number | null;
+}
@@ -0,0 +1,730 @@
+/**
+ * AWS Bedrock Runtime instrumentation.
+ *
+ * Uses Proxy to wrap a BedrockRuntimeClient and intercept send() calls for
+ * InvokeModelCommand, ConverseCommand and ConverseStreamCommand. Model ids,
+ * messages, stop reasons and token usage are normalized across the Converse
+ * API and the model-specific JSON bodies of InvokeModel.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite, StreamConsumption } from '../../models/observability.js';
+import type {
+  BedrockMessage,
+  BedrockRequest,
+  BedrockResponse,
+  BedrockToolUse,
+  BedrockUsage,
+} from './models/index.js';
+import { computeStreamingMetrics, isAsyncIterable, wrapStream } from '../stream.js';
+import { runInWrappedCall } from '../context.js';
+import {
+  applyTruncations,
+  captureList,
+  createCaptureScope,
+  type CaptureConfig,
+  type CaptureScope,
+} from '../../capture.js';
+
+/**
+ * Options for wrapBedrockClient.
+ */
+export interface WrapBedrockOptions {
+  /** Capture limits for this client, overriding the observer's */
+  capture?: CaptureConfig;
+}
+
+type CommandKind = 'InvokeModel' | 'Converse' | 'ConverseStream';
+
+// Cross-region inference profile prefixes (e.g. "us.anthropic.claude-...")
+const REGION_PREFIX = /^(us|us-gov|eu|apac|ca|jp|au|global)\./;
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    // Skip first few frames (Error, getCallsite, wrapper function, etc.)
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and AWS SDK frames
+      if (
+        line.includes('/aiobs-ts/') ||
+        line.includes('/@aws-sdk/') ||
+        line.includes('/@smithy/') ||
+        line.includes('node_modules')
+      ) {
+        continue;
+      }
+
+      // Parse stack frame: "    at functionName (file:line:column)"
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors in callsite extraction
+  }
+  return null;
+}
+
+/**
+ * Identify which instrumented command, if any, is being sent, from the shape of its input.
+ *
+ * Class names are not used since bundlers may minify them. ConverseStream
+ * takes the same input as Converse and is told apart by its response stream.
+ */
+function getCommandKind(command: unknown): CommandKind | null {
+  const input = (command as { input?: unknown } | null)?.input;
+  if (!input || typeof input !== 'object') {
+    return null;
+  }
+  const i = input as Record<string, unknown>;
+  if (typeof i.modelId !== 'string') {
+    return null;
+  }
+  if ('body' in i) {
+    return 'InvokeModel';
+  }
+  // Converse takes messages, or prompt variables for a prompt management prompt
+  if (Array.isArray(i.messages) || (i.promptVariables && typeof i.promptVariables === 'object')) {
+    return 'Converse';
+  }
+  return null;
+}
+
+/**
+ * Normalize a Bedrock model id, inference profile id or ARN.
+ */
+function normalizeModelId(modelId: unknown): { model: string | null; vendor: string | null } {
+  if (typeof modelId !== 'string' || !modelId) {
+    return { model: null, vendor: null };
+  }
+
+  let model = modelId;
+  if (model.startsWith('arn:')) {
+    model = model.slice(model.lastIndexOf('/') + 1);
+  }
+  model = model.replace(REGION_PREFIX, '');
+
+  const dot = model.indexOf('.');
+  return { model, vendor: dot > 0 ? model.slice(0, dot) : null };
+}
+
+/**
+ * Remove raw bytes from image, document and video content blocks.
+ */
+function stripContentBytes(content: unknown): unknown {
+  if (!Array.isArray(content)) {
+    return content;
+  }
+
+  return content.map((block) => {
+    if (!block || typeof block !== 'object') {
+      return block;
+    }
+    const cleaned = { ...(block as Record<string, unknown>) };
+    for (const key of ['image', 'document', 'video']) {
+      const media = cleaned[key] as Record<string, unknown> | undefined;
+      if (media && typeof media === 'object' && media.source && typeof media.source === 'object') {
+        cleaned[key] = {
+          ...media,
+          source: Object.fromEntries(
+            Object.entries(media.source as Record<string, unknown>).filter(([k]) => k !== 'bytes')
+          ),
+        };
+      }
+    }
+    return cleaned;
+  });
+}
+
+/**
+ * Extract messages, keeping as many as the capture policy allows.
+ */
+function extractMessages(messages: unknown, capture: CaptureScope): BedrockMessage[] | null {
+  if (!Array.isArray(messages)) {
+    return null;
+  }
+  return captureList(capture, 'request.messages', messages as unknown[]).map((m: unknown) => {
+    const msg = (m ?? {}) as Record<string, unknown>;
+    return {
+      role: String(msg.role ?? ''),
+      content: stripContentBytes(msg.content),
+    };
+  });
+}
+
+/**
+ * Decode an InvokeModel request or response body as JSON.
+ */
+function decodeBody(body: unknown): Record<string, unknown> | null {
+  try {
+    let text: string | null = null;
+    if (typeof body === 'string') {
+      text = body;
+    } else if (body instanceof Uint8Array) {
+      text = new TextDecoder().decode(body);
+    }
+    if (text === null) {
+      return body && typeof body === 'object' ? (body as Record<string, unknown>) : null;
+    }
+    const parsed = JSON.parse(text) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Return the first value that is a number.
+ */
+function firstNumber(...values: unknown[]): number | null {
+  for (const value of values) {
+    if (typeof value === 'number') {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Return the first value that is a string.
+ */
+function firstString(...values: unknown[]): string | null {
+  for (const value of values) {
+    if (typeof value === 'string') {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Collect tool names from Converse toolConfig or Anthropic-style tools.
+ */
+function extractToolNames(tools: unknown): string[] | null {
+  if (!Array.isArray(tools)) {
+    return null;
+  }
+  const names = tools
+    .map((tool) => {
+      const t = (tool ?? {}) as Record<string, unknown>;
+      const spec = (t.toolSpec ?? t) as Record<string, unknown>;
+      return typeof spec.name === 'string' ? spec.name : null;
+    })
+    .filter((name): name is string => name !== null);
+  return names.length > 0 ? names : null;
+}
+
+/**
+ * Extract request data from ConverseCommand / ConverseStreamCommand input.
+ *
+ * stream is set once the response turns out to be a ConverseStream stream.
+ */
+function extractConverseRequest(input: Record<string, unknown>, capture: CaptureScope): BedrockRequest {
+  const { model, vendor } = normalizeModelId(input.modelId);
+  const config = (input.inferenceConfig ?? {}) as Record<string, unknown>;
+  const toolConfig = (input.toolConfig ?? {}) as Record<string, unknown>;
+
+  return {
+    model,
+    model_id: typeof input.modelId === 'string' ? input.modelId : null,
+    model_vendor: vendor,
+    system: input.system ?? null,
+    messages: extractMessages(input.messages, capture),
+    prompt: null,
+    max_tokens: firstNumber(config.maxTokens),
+    temperature: firstNumber(config.temperature),
+    top_p: firstNumber(config.topP),
+    stop_sequences: Array.isArray(config.stopSequences) ? (config.stopSequences as string[]) : null,
+    tool_names: extractToolNames(toolConfig.tools),
+    stream: false,
+    other: Object.fromEntries(
+      Object.entries(input).filter(([k]) => !['modelId', 'system', 'messages', 'inferenceConfig'].includes(k))
+    ),
+  };
+}
+
+/**
+ * Extract request data from InvokeModelCommand input and its model-specific body.
+ */
+function extractInvokeModelRequest(input: Record<string, unknown>, capture: CaptureScope): BedrockRequest {
+  const { model, vendor } = normalizeModelId(input.modelId);
+  const body = decodeBody(input.body) ?? {};
+  // Titan nests parameters in textGenerationConfig, Nova in inferenceConfig
+  const titan = (body.textGenerationConfig ?? {}) as Record<string, unknown>;
+  const nova = (body.inferenceConfig ?? {}) as Record<string, unknown>;
+  const toolConfig = (body.toolConfig ?? {}) as Record<string, unknown>;
+
+  let stopSequences: string[] | null = null;
+  const stop = body.stop_sequences ?? body.stop ?? titan.stopSequences ?? nova.stopSequences;
+  if (Array.isArray(stop)) {
+    stopSequences = stop as string[];
+  }
+
+  return {
+    model,
+    model_id: typeof input.modelId === 'string' ? input.modelId : null,
+    model_vendor: vendor,
+    system: body.system ?? null,
+    messages: extractMessages(body.messages, capture),
+    prompt: firstString(body.prompt, body.inputText, body.message),
+    max_tokens: firstNumber(
+      body.max_tokens,
+      body.max_gen_len,
+      body.maxTokens,
+      titan.maxTokenCount,
+      nova.max_new_tokens,
+      nova.maxTokens
+    ),
+    temperature: firstNumber(body.temperature, titan.temperature, nova.temperature),
+    top_p: firstNumber(body.top_p, body.p, titan.topP, nova.topP, nova.top_p),
+    stop_sequences: stopSequences,
+    tool_names: extractToolNames(body.tools ?? toolConfig.tools),
+    stream: false,
+    other: {
+      content_type: input.contentType ?? null,
+      accept: input.accept ?? null,
+      ...Object.fromEntries(
+        Object.entries(body).filter(([k]) => ![
+          'system', 'messages', 'prompt', 'inputText', 'message', 'max_tokens', 'max_gen_len', 'maxTokens',
+          'temperature', 'top_p', 'p', 'stop_sequences', 'stop', 'tools', 'textGenerationConfig',
+          'inferenceConfig', 'toolConfig',
+        ].includes(k))
+      ),
+    },
+  };
+}
+
+/**
+ * Normalize token usage from Converse or model-specific response fields.
+ */
+function normalizeUsage(body: Record<string, unknown>): BedrockUsage | null {
+  const usage = (body.usage ?? {}) as Record<string, unknown>;
+
+  const input = firstNumber(
+    usage.inputTokens,
+    usage.input_tokens,
+    body.prompt_token_count,
+    body.inputTextTokenCount
+  );
+  let output = firstNumber(usage.outputTokens, usage.output_tokens, body.generation_token_count);
+  if (output === null && Array.isArray(body.results)) {
+    // Titan reports output tokens per result
+    const counts = (body.results as Array<Record<string, unknown>>)
+      .map((r) => r.tokenCount)
+      .filter((c): c is number => typeof c === 'number');
+    output = counts.length > 0 ? counts.reduce((a, b) => a + b, 0) : null;
+  }
+
+  if (input === null && output === null) {
+    return null;
+  }
+
+  return {
+    input_tokens: input,
+    output_tokens: output,
+    total_tokens: firstNumber(usage.totalTokens, usage.total_tokens) ??
+      (input !== null && output !== null ? input + output : null),
+    cache_read_input_tokens: firstNumber(
+      usage.cacheReadInputTokens,
+      usage.cacheReadInputTokenCount,
+      usage.cache_read_input_tokens
+    ),
+    cache_write_input_tokens: firstNumber(
+      usage.cacheWriteInputTokens,
+      usage.cacheWriteInputTokenCount,
+      usage.cache_creation_input_tokens
+    ),
+  };
+}
+
+/**
+ * Extract text and tool use from Converse or Anthropic-style content blocks.
+ */
+function extractContent(content: unknown): {
+  content: Array<Record<string, unknown>> | null;
+  text: string | null;
+  toolUse: BedrockToolUse[] | null;
+} {
+  if (!Array.isArray(content)) {
+    return { content: null, text: null, toolUse: null };
+  }
+
+  const blocks = stripContentBytes(content) as Array<Record<string, unknown>>;
+  const textParts: string[] = [];
+  const toolUse: BedrockToolUse[] = [];
+
+  for (const block of blocks) {
+    if (typeof block.text === 'string') {
+      textParts.push(block.text);
+    }
+    // Converse: { toolUse: { toolUseId, name, input } }
+    if (block.toolUse && typeof block.toolUse === 'object') {
+      const t = block.toolUse as Record<string, unknown>;
+      toolUse.push({
+        id: typeof t.toolUseId === 'string' ? t.toolUseId : null,
+        name: typeof t.name === 'string' ? t.name : null,
+        input: t.input ?? null,
+      });
+    }
+    // Anthropic: { type: 'tool_use', id, name, input }
+    if (block.type === 'tool_use') {
+      toolUse.push({
+        id: typeof block.id === 'string' ? block.id : null,
+        name: typeof block.name === 'string' ? block.name : null,
+        input: block.input ?? null,
+      });
+    }
+  }
+
+  return {
+    content: blocks,
+    text: textParts.length > 0 ? textParts.join('') : null,
+    toolUse: toolUse.length > 0 ? toolUse : null,
+  };
+}
+
+/**
+ * Read the AWS request id from the response $metadata.
+ */
+function extractRequestId(resp: Record<string, unknown>): string | null {
+  const metadata = (resp.$metadata ?? {}) as Record<string, unknown>;
+  return typeof metadata.requestId === 'string' ? metadata.requestId : null;
+}
+
+/**
+ * Extract response data from ConverseCommand output (or a rebuilt stream).
+ */
+function extractConverseResponse(resp: unknown, model: string | null): BedrockResponse {
+  const r = (resp ?? {}) as Record<string, unknown>;
+  const output = (r.output ?? {}) as Record<string, unknown>;
+  const message = (output.message ?? {}) as Record<string, unknown>;
+  const metrics = (r.metrics ?? {}) as Record<string, unknown>;
+  const { content, text, toolUse } = extractContent(message.content);
+
+  return {
+    request_id: extractRequestId(r),
+    model,
+    usage: normalizeUsage(r),
+    role: typeof message.role === 'string' ? message.role : null,
+    stop_reason: typeof r.stopReason === 'string' ? r.stopReason : null,
+    text,
+    content,
+    tool_use: toolUse,
+    latency_ms: firstNumber(metrics.latencyMs),
+  };
+}
+
+/**
+ * Extract response data from InvokeModelCommand output and its model-specific body.
+ */
+function extractInvokeModelResponse(resp: unknown, model: string | null): BedrockResponse {
+  const r = (resp ?? {}) as Record<string, unknown>;
+  const body = decodeBody(r.body) ?? {};
+
+  // Nova returns a Converse-shaped body
+  const output = (body.output ?? {}) as Record<string, unknown>;
+  const novaMessage = output.message as Record<string, unknown> | undefined;
+
+  let role: string | null = null;
+  let extracted = extractContent(null);
+  if (novaMessage) {
+    role = typeof novaMessage.role === 'string' ? novaMessage.role : null;
+    extracted = extractContent(novaMessage.content);
+  } else if (Array.isArray(body.content)) {
+    role = typeof body.role === 'string' ? body.role : null;
+    extracted = extractContent(body.content);
+  }
+
+  let text = extracted.text;
+  if (text === null) {
+    const results = body.results as Array<Record<string, unknown>> | undefined;
+    const outputs = body.outputs as Array<Record<string, unknown>> | undefined;
+    const generations = body.generations as Array<Record<string, unknown>> | undefined;
+    text = firstString(
+      body.generation,
+      body.completion,
+      body.text,
+      results?.[0]?.outputText,
+      outputs?.[0]?.text,
+      generations?.[0]?.text
+    );
+  }
+
+  const results = body.results as Array<Record<string, unknown>> | undefined;
+  const outputs = body.outputs as Array<Record<string, unknown>> | undefined;
+
+  return {
+    request_id: extractRequestId(r),
+    model: typeof body.model === 'string' ? body.model : model,
+    usage: normalizeUsage(body),
+    role,
+    stop_reason: firstString(
+      body.stop_reason,
+      body.stopReason,
+      body.finish_reason,
+      results?.[0]?.completionReason,
+      outputs?.[0]?.stop_reason
+    ),
+    text,
+    content: extracted.content,
+    tool_use: extracted.toolUse,
+    latency_ms: null,
+  };
+}
+
+/**
+ * Accumulated state of a ConverseStream response.
+ */
+interface StreamState {
+  role: string | null;
+  blocks: Map<number, Record<string, unknown>>;
+  toolInput: Map<number, string>;
+  stopReason: string | null;
+  usage: Record<string, unknown> | null;
+  metrics: Record<string, unknown> | null;
+  error: string | null;
+}
+
+/**
+ * Apply a single ConverseStream event to the accumulated state.
+ */
+function applyStreamEvent(state: StreamState, chunk: unknown): void {
+  const ev = (chunk ?? {}) as Record<string, unknown>;
+
+  if (ev.messageStart && typeof ev.messageStart === 'object') {
+    const start = ev.messageStart as Record<string, unknown>;
+    state.role = typeof start.role === 'string' ? start.role : state.role;
+  } else if (ev.contentBlockStart && typeof ev.contentBlockStart === 'object') {
+    const start = ev.contentBlockStart as Record<string, unknown>;
+    const index = typeof start.contentBlockIndex === 'number' ? start.contentBlockIndex : state.blocks.size;
+    const toolUse = ((start.start ?? {}) as Record<string, unknown>).toolUse;
+    if (toolUse && typeof toolUse === 'object') {
+      state.blocks.set(index, { toolUse: { ...(toolUse as Record<string, unknown>) } });
+    }
+  } else if (ev.contentBlockDelta && typeof ev.contentBlockDelta === 'object') {
+    const delta = ev.contentBlockDelta as Record<string, unknown>;
+    const index = typeof delta.contentBlockIndex === 'number' ? delta.contentBlockIndex : 0;
+    const d = (delta.delta ?? {}) as Record<string, unknown>;
+    const block = state.blocks.get(index) ?? {};
+    if (typeof d.text === 'string') {
+      block.text = String(block.text ?? '') + d.text;
+    }
+    const toolDelta = d.toolUse as Record<string, unknown> | undefined;
+    if (toolDelta && typeof toolDelta.input === 'string') {
+      state.toolInput.set(index, (state.toolInput.get(index) ?? '') + toolDelta.input);
+    }
+    state.blocks.set(index, block);
+  } else if (ev.messageStop && typeof ev.messageStop === 'object') {
+    const stop = ev.messageStop as Record<string, unknown>;
+    state.stopReason = typeof stop.stopReason === 'string' ? stop.stopReason : state.stopReason;
+  } else if (ev.metadata && typeof ev.metadata === 'object') {
+    const metadata = ev.metadata as Record<string, unknown>;
+    state.usage = (metadata.usage as Record<string, unknown> | undefined) ?? state.usage;
+    state.metrics = (metadata.metrics as Record<string, unknown> | undefined) ?? state.metrics;
+  } else {
+    // Modeled stream exceptions arrive as { <name>Exception: { message } }
+    const key = Object.keys(ev).find((k) => k.endsWith('Exception'));
+    if (key) {
+      const detail = (ev[key] ?? {}) as Record<string, unknown>;
+      state.error = `${key}: ${String(detail.message ?? 'unknown error')}`;
+    }
+  }
+}
+
+/**
+ * Build a Converse-shaped response from the accumulated stream state.
+ */
+function buildStreamedResponse(state: StreamState, resp: Record<string, unknown>): Record<string, unknown> {
+  const content = [...state.blocks.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([index, block]) => {
+      const json = state.toolInput.get(index);
+      if (block.toolUse && json !== undefined) {
+        let input: unknown = json;
+        try {
+          input = json ? JSON.parse(json) : {};
+        } catch {
+          // Keep the raw partial JSON
+        }
+        return { ...block, toolUse: { ...(block.toolUse as Record<string, unknown>), input } };
+      }
+      return block;
+    });
+
+  return {
+    $metadata: resp.$metadata,
+    output: { message: { role: state.role, content } },
+    stopReason: state.stopReason,
+    usage: state.usage,
+    metrics: state.metrics,
+  };
+}
+
+/**
+ * Wrap a Bedrock Runtime client to instrument InvokeModel, Converse and
+ * ConverseStream commands sent through client.send().
+ */
+export function wrapBedrockClient<T extends object>(
+  client: T,
+  collector: Collector,
+  options: WrapBedrockOptions = {}
+): T {
+  return new Proxy(client, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      // Intercept send method
+      if (prop === 'send' && typeof value === 'function') {
+        return createWrappedSend(value.bind(target), collector, options.capture);
+      }
+
+      return value;
+    },
+  });
+}
+
+/**
+ * Create a wrapped version of the send method.
+ *
+ * Other commands, and sends using the callback form, pass through untouched.
+ */
+function createWrappedSend(
+  originalSend: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return function wrappedSend(...args: unknown[]): Promise<unknown> {
+    const kind = getCommandKind(args[0]);
+    if (kind === null || args.some((arg) => typeof arg === 'function')) {
+      return originalSend(...args);
+    }
+    return instrumentSend(originalSend, args, collector, kind, captureConfig);
+  };
+}
+
+/**
+ * Send an instrumented command and record its event.
+ */
+async function instrumentSend(
+  originalSend: (...args: unknown[]) => Promise<unknown>,
+  args: unknown[],
+  collector: Collector,
+  commandKind: CommandKind,
+  captureConfig?: CaptureConfig
+): Promise<unknown> {
+  let kind = commandKind;
+  const spanId = randomUUID();
+  const parentSpanId = collector.getCurrentSpanId();
+  const started = Date.now() / 1000;
+  const callsite = getCallsite();
+
+  const input = ((args[0] as Record<string, unknown>).input ?? {}) as Record<string, unknown>;
+  const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+  const requestInfo = kind === 'InvokeModel'
+    ? extractInvokeModelRequest(input, capture)
+    : extractConverseRequest(input, capture);
+
+  const record = (
+    responseInfo: BedrockResponse | null,
+    error: string | null,
+    chunkTimes: number[] | null = null,
+    consumption: StreamConsumption = 'complete'
+  ): void => {
+    const ended = Date.now() / 1000;
+
+    const event: Event = {
+      provider: 'bedrock',
+      api: kind,
+      callsite,
+      request: requestInfo,
+      response: responseInfo,
+      error,
+      started_at: started,
+      ended_at: ended,
+      duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+      span_id: spanId,
+      parent_span_id: parentSpanId,
+      trace_id: null,
+    };
+
+    if (chunkTimes) {
+      event.streaming = computeStreamingMetrics(
+        started,
+        ended,
+        chunkTimes,
+        responseInfo?.usage?.output_tokens ?? null,
+        consumption
+      );
+    }
+
+    applyTruncations(event, capture);
+    collector.recordEvent(event);
+  };
+
+  let resp: unknown;
+  try {
+    resp = await runInWrappedCall(() => originalSend(...args));
+  } catch (e) {
+    const err = e as Error;
+    record(null, `${err.name}: ${err.message}`);
+    throw e;
+  }
+
+  const r = (resp ?? {}) as Record<string, unknown>;
+
+  // InvokeModelWithResponseStream takes the same input as InvokeModel; its stream is not instrumented
+  if (kind === 'InvokeModel' && isAsyncIterable(r.body)) {
+    return resp;
+  }
+
+  if (kind === 'Converse' && isAsyncIterable(r.stream)) {
+    kind = 'ConverseStream';
+    requestInfo.stream = true;
+    const state: StreamState = {
+      role: null,
+      blocks: new Map(),
+      toolInput: new Map(),
+      stopReason: null,
+      usage: null,
+      metrics: null,
+      error: null,
+    };
+
+    // Return a copy so the caller's response object is left untouched; the hooks
+    // must not reach the wrapped stream, or it is never reported as abandoned
+    const stream = wrapStream(r.stream, {
+      onChunk: (chunk) => applyStreamEvent(state, chunk),
+      onEnd: (e, chunkTimes, consumption) => {
+        const err = e as Error | null;
+        record(
+          extractConverseResponse(buildStreamedResponse(state, r), requestInfo.model),
+          err ? `${err.name}: ${err.message}` : state.error,
+          chunkTimes,
+          consumption
+        );
+      },
+    });
+    return { ...r, stream };
+  }
+
+  record(
+    kind === 'InvokeModel'
+      ? extractInvokeModelResponse(resp, requestInfo.model)
+      : extractConverseResponse(resp, requestInfo.model),
+    null
+  );
+  return resp;
+}
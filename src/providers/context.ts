@@ -0,0 +1,32 @@
+/**
+ * Context marker for calls made through the aiobs provider wrappers.
+ *
+ * Wrappers run the underlying SDK call inside runInWrappedCall() so that
+ * lower-level instrumentation (the fetch interceptor) can skip requests that
+ * are already being recorded.
+ */
+
+import { context, createContextKey } from '@opentelemetry/api';
+
+const WRAPPED_CALL_KEY = createContextKey('aiobs.wrapped_call');
+
+/**
+ * Run a provider SDK call marked as recorded by a wrapper.
+ */
+export function runInWrappedCall<T>(fn: () => T): T {
+  return context.with(context.active().setValue(WRAPPED_CALL_KEY, true), fn);
+}
+
+/**
+ * Check whether the current async context is inside a wrapped provider call.
+ */
+export function isInWrappedCall(): boolean {
+  return context.active().getValue(WRAPPED_CALL_KEY) === true;
+}
+
+/**
+ * Run caller code invoked during a wrapped call (e.g. a tool function) without the marker.
+ */
+export function runOutsideWrappedCall<T>(fn: () => T): T {
+  return context.with(context.active().deleteValue(WRAPPED_CALL_KEY), fn);
+}
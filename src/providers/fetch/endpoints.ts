@@ -0,0 +1,352 @@
+/**
+ * LLM HTTP endpoint matching and body parsers for the fetch interceptor.
+ *
+ * Built-in endpoints cover the OpenAI, Anthropic and Gemini REST APIs.
+ * Additional endpoints can be registered with instrumentFetch().
+ */
+
+import type { FetchUsage } from './models/index.js';
+import { captureList, type CaptureScope } from '../../capture.js';
+
+/**
+ * An LLM HTTP endpoint recognized by the fetch interceptor.
+ */
+export interface FetchEndpoint {
+  /** Provider name recorded on events (e.g. 'openai') */
+  provider: string;
+  /** Exact host or parent domain (e.g. 'openai.com'), or a host pattern */
+  host: string | RegExp;
+  /** Path pattern; all paths on the host match when omitted */
+  path?: RegExp;
+  /** API name recorded on events, or a function of the request URL */
+  api: string | ((url: URL) => string);
+  /** Extract request fields from the parsed JSON request body, keeping lists within the capture policy */
+  parseRequest?: (body: unknown, url: URL, capture: CaptureScope) => Record<string, unknown>;
+  /** Extract response fields from the parsed JSON response body */
+  parseResponse?: (body: unknown) => Record<string, unknown>;
+  /**
+   * Combine the parsed data payloads of an SSE response into a single body for
+   * parseResponse. Defaults to the last event.
+   */
+  reduceStream?: (events: unknown[]) => unknown;
+}
+
+/**
+ * Check whether a request URL matches an endpoint.
+ */
+export function matchesEndpoint(endpoint: FetchEndpoint, url: URL): boolean {
+  const host = url.hostname;
+  const hostMatches = typeof endpoint.host === 'string'
+    ? host === endpoint.host || host.endsWith(`.${endpoint.host}`)
+    : endpoint.host.test(host);
+  if (!hostMatches) {
+    return false;
+  }
+  return endpoint.path ? endpoint.path.test(url.pathname) : true;
+}
+
+/**
+ * Treat a parsed JSON value as an object.
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * Return a number field, or null.
+ */
+function num(value: unknown): number | null {
+  return typeof value === 'number' ? value : null;
+}
+
+/**
+ * Return a string field, or null.
+ */
+function str(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Copy an object without the given keys.
+ */
+function omit(body: Record<string, unknown>, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(body).filter(([k]) => !keys.includes(k)));
+}
+
+/**
+ * Build usage from input/output token counts.
+ */
+function toUsage(prompt: number | null, completion: number | null, total: number | null): FetchUsage | null {
+  if (prompt === null && completion === null && total === null) {
+    return null;
+  }
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: total ?? (prompt ?? 0) + (completion ?? 0),
+  };
+}
+
+// OpenAI API names by path after /v1/
+const OPENAI_APIS: Record<string, string> = {
+  'chat/completions': 'chat.completions.create',
+  responses: 'responses.create',
+  embeddings: 'embeddings.create',
+  completions: 'completions.create',
+};
+
+/**
+ * Extract request fields from an OpenAI request body.
+ */
+function parseOpenAIRequest(body: unknown, _url: URL, capture: CaptureScope): Record<string, unknown> {
+  const b = asRecord(body);
+  const input = b.messages ?? b.input ?? b.prompt;
+  const inputs = Array.isArray(input) ? input : input !== undefined ? [input] : null;
+
+  return {
+    model: str(b.model),
+    messages: inputs ? captureList(capture, 'request.messages', inputs) : null,
+    stream: b.stream === true,
+    other: omit(b, ['model', 'messages', 'input', 'prompt', 'stream']),
+  };
+}
+
+/**
+ * Extract response fields from an OpenAI chat, completions, embeddings or responses body.
+ */
+function parseOpenAIResponse(body: unknown): Record<string, unknown> {
+  const b = asRecord(body);
+  const choice = asRecord(Array.isArray(b.choices) ? b.choices[0] : null);
+  const message = asRecord(choice.message);
+  const usage = asRecord(b.usage);
+
+  let text = str(message.content) ?? str(choice.text) ?? str(b.output_text);
+  if (text === null && Array.isArray(b.output)) {
+    // Responses API: join the output_text parts of message items
+    const parts = (b.output as unknown[])
+      .flatMap((item) => (Array.isArray(asRecord(item).content) ? (asRecord(item).content as unknown[]) : []))
+      .map(asRecord)
+      .filter((part) => part.type === 'output_text')
+      .map((part) => String(part.text ?? ''));
+    text = parts.length > 0 ? parts.join('') : null;
+  }
+
+  return {
+    id: str(b.id),
+    model: str(b.model),
+    text,
+    finish_reason: str(choice.finish_reason) ?? str(b.status),
+    usage: toUsage(
+      num(usage.prompt_tokens) ?? num(usage.input_tokens),
+      num(usage.completion_tokens) ?? num(usage.output_tokens),
+      num(usage.total_tokens)
+    ),
+  };
+}
+
+/**
+ * Rebuild an OpenAI response body from streamed chunks.
+ */
+function reduceOpenAIStream(events: unknown[]): unknown {
+  // Responses API streams end with the full response
+  const completed = events.map(asRecord).find((e) => e.type === 'response.completed');
+  if (completed) {
+    return completed.response;
+  }
+
+  let id: unknown = null;
+  let model: unknown = null;
+  let content = '';
+  let finishReason: unknown = null;
+  let usage: unknown = null;
+  for (const event of events.map(asRecord)) {
+    id = event.id ?? id;
+    model = event.model ?? model;
+    usage = event.usage ?? usage;
+    const choice = asRecord(Array.isArray(event.choices) ? event.choices[0] : null);
+    const delta = asRecord(choice.delta);
+    if (typeof delta.content === 'string') {
+      content += delta.content;
+    }
+    finishReason = choice.finish_reason ?? finishReason;
+  }
+
+  return { id, model, choices: [{ message: { content }, finish_reason: finishReason }], usage };
+}
+
+/**
+ * Extract request fields from an Anthropic messages request body.
+ */
+function parseAnthropicRequest(body: unknown, _url: URL, capture: CaptureScope): Record<string, unknown> {
+  const b = asRecord(body);
+
+  return {
+    model: str(b.model),
+    messages: Array.isArray(b.messages) ? captureList(capture, 'request.messages', b.messages) : null,
+    stream: b.stream === true,
+    other: omit(b, ['model', 'messages', 'stream']),
+  };
+}
+
+/**
+ * Extract response fields from an Anthropic messages response body.
+ */
+function parseAnthropicResponse(body: unknown): Record<string, unknown> {
+  const b = asRecord(body);
+  const usage = asRecord(b.usage);
+  const textBlocks = Array.isArray(b.content)
+    ? (b.content as unknown[]).map(asRecord).filter((block) => block.type === 'text')
+    : [];
+
+  return {
+    id: str(b.id),
+    model: str(b.model),
+    text: textBlocks.length > 0 ? textBlocks.map((block) => String(block.text ?? '')).join('') : null,
+    finish_reason: str(b.stop_reason),
+    usage: toUsage(num(usage.input_tokens), num(usage.output_tokens), null),
+  };
+}
+
+/**
+ * Rebuild an Anthropic message from streamed events.
+ */
+function reduceAnthropicStream(events: unknown[]): unknown {
+  let message: Record<string, unknown> = {};
+  let text = '';
+  let stopReason: unknown = null;
+  let usage: Record<string, unknown> = {};
+  for (const event of events.map(asRecord)) {
+    if (event.type === 'message_start') {
+      message = asRecord(event.message);
+      usage = { ...asRecord(message.usage) };
+    } else if (event.type === 'content_block_delta') {
+      const delta = asRecord(event.delta);
+      if (delta.type === 'text_delta' && typeof delta.text === 'string') {
+        text += delta.text;
+      }
+    } else if (event.type === 'message_delta') {
+      stopReason = asRecord(event.delta).stop_reason ?? stopReason;
+      usage = { ...usage, ...asRecord(event.usage) };
+    }
+  }
+
+  return { ...message, content: [{ type: 'text', text }], stop_reason: stopReason, usage };
+}
+
+// Gemini model method paths (Developer API and Vertex AI)
+const GEMINI_PATH = /\/models\/([^/:]+):(generateContent|streamGenerateContent|embedContent|countTokens)$/;
+
+/**
+ * Remove inline (base64) data from Gemini content parts.
+ */
+function stripInlineData(contents: unknown[]): unknown[] {
+  return contents.map((c) => {
+    const content = asRecord(c);
+    if (!Array.isArray(content.parts)) {
+      return c;
+    }
+    return {
+      ...content,
+      parts: (content.parts as unknown[]).map((p) => {
+        const part = asRecord(p);
+        return part.inlineData ? { inlineData: omit(asRecord(part.inlineData), ['data']) } : p;
+      }),
+    };
+  });
+}
+
+/**
+ * Extract request fields from a Gemini request body; the model comes from the URL.
+ */
+function parseGeminiRequest(body: unknown, url: URL, capture: CaptureScope): Record<string, unknown> {
+  const b = asRecord(body);
+  const match = url.pathname.match(GEMINI_PATH);
+  const contents = b.contents ?? (b.content ? [b.content] : null);
+
+  return {
+    model: match ? decodeURIComponent(match[1]) : null,
+    messages: Array.isArray(contents) ? stripInlineData(captureList(capture, 'request.messages', contents)) : null,
+    stream: match?.[2] === 'streamGenerateContent',
+    other: omit(b, ['contents', 'content']),
+  };
+}
+
+/**
+ * Extract response fields from a Gemini response body.
+ */
+function parseGeminiResponse(body: unknown): Record<string, unknown> {
+  const b = asRecord(body);
+  const candidate = asRecord(Array.isArray(b.candidates) ? b.candidates[0] : null);
+  const parts = Array.isArray(asRecord(candidate.content).parts)
+    ? (asRecord(candidate.content).parts as unknown[]).map(asRecord).filter((p) => typeof p.text === 'string')
+    : [];
+  const usage = asRecord(b.usageMetadata);
+
+  return {
+    id: str(b.responseId),
+    model: str(b.modelVersion),
+    text: parts.length > 0 ? parts.map((p) => p.text as string).join('') : null,
+    finish_reason: str(candidate.finishReason),
+    usage: toUsage(num(usage.promptTokenCount), num(usage.candidatesTokenCount), num(usage.totalTokenCount)),
+  };
+}
+
+/**
+ * Rebuild a Gemini response from streamed chunks.
+ */
+function reduceGeminiStream(events: unknown[]): unknown {
+  let text = '';
+  let last: Record<string, unknown> = {};
+  let finishReason: unknown = null;
+  for (const event of events.map(asRecord)) {
+    last = event;
+    const candidate = asRecord(Array.isArray(event.candidates) ? event.candidates[0] : null);
+    finishReason = candidate.finishReason ?? finishReason;
+    const parts = asRecord(candidate.content).parts;
+    if (Array.isArray(parts)) {
+      for (const part of parts.map(asRecord)) {
+        if (typeof part.text === 'string') {
+          text += part.text;
+        }
+      }
+    }
+  }
+
+  return {
+    ...last,
+    candidates: [{ content: { parts: [{ text }] }, finishReason }],
+  };
+}
+
+/**
+ * Built-in LLM endpoints.
+ */
+export const DEFAULT_FETCH_ENDPOINTS: FetchEndpoint[] = [
+  {
+    provider: 'openai',
+    host: 'api.openai.com',
+    path: /\/v1\/(chat\/completions|responses|embeddings|completions)$/,
+    api: (url) => OPENAI_APIS[url.pathname.replace(/^.*\/v1\//, '')] ?? url.pathname,
+    parseRequest: parseOpenAIRequest,
+    parseResponse: parseOpenAIResponse,
+    reduceStream: reduceOpenAIStream,
+  },
+  {
+    provider: 'anthropic',
+    host: 'api.anthropic.com',
+    path: /\/v1\/messages(\/count_tokens)?$/,
+    api: (url) => (url.pathname.endsWith('/count_tokens') ? 'messages.countTokens' : 'messages.create'),
+    parseRequest: parseAnthropicRequest,
+    parseResponse: parseAnthropicResponse,
+    reduceStream: reduceAnthropicStream,
+  },
+  {
+    provider: 'gemini',
+    host: /^(generativelanguage|([a-z0-9-]+-)?aiplatform)\.googleapis\.com$/,
+    path: GEMINI_PATH,
+    api: (url) => `models.${url.pathname.match(GEMINI_PATH)?.[2] ?? 'unknown'}`,
+    parseRequest: parseGeminiRequest,
+    parseResponse: parseGeminiResponse,
+    reduceStream: reduceGeminiStream,
+  },
+];
@@ -0,0 +1,15 @@
+/**
+ * Fetch-level LLM HTTP instrumentation for aiobs.
+ * 
+ * Opt-in global fetch interceptor for:
+ * - OpenAI (chat completions, responses, embeddings, completions)
+ * - Anthropic (messages)
+ * - Gemini (generateContent, streamGenerateContent, embedContent, countTokens)
+ * - user-registered endpoints
+ */
+
+export { instrumentFetch } from './interceptor.js';
+export type { FetchInstrumentationOptions } from './interceptor.js';
+export { DEFAULT_FETCH_ENDPOINTS } from './endpoints.js';
+export type { FetchEndpoint } from './endpoints.js';
+export * from './models/index.js';
@@ -0,0 +1,367 @@
+/**
+ * Fetch-level LLM HTTP instrumentation.
+ *
+ * Opt-in: replaces globalThis.fetch with a wrapper that records provider
+ * events for requests to known LLM endpoints, including SSE streams. Requests
+ * made inside a wrapped client call (wrapOpenAIClient, etc.) are passed
+ * through so they are not recorded twice.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite, StreamConsumption } from '../../models/observability.js';
+import type { BaseFetchRequest, BaseFetchResponse, FetchUsage } from './models/index.js';
+import { DEFAULT_FETCH_ENDPOINTS, matchesEndpoint, type FetchEndpoint } from './endpoints.js';
+import { createSSEParser } from './sse.js';
+import { isInWrappedCall } from '../context.js';
+import { computeStreamingMetrics, streamConsumption, watchAbandoned } from '../stream.js';
+import { initTracer, isInitialized } from '../../tracer.js';
+import { applyTruncations, createCaptureScope, type CaptureConfig } from '../../capture.js';
+
+export interface FetchInstrumentationOptions {
+  /** Additional endpoints, matched before the built-in ones */
+  endpoints?: FetchEndpoint[];
+  /** Capture limits for recorded requests, overriding the observer's */
+  capture?: CaptureConfig;
+}
+
+type FetchFn = typeof globalThis.fetch;
+
+type FetchRequestInfo = BaseFetchRequest & Record<string, unknown>;
+type FetchResponseInfo = BaseFetchResponse & { usage?: FetchUsage | null } & Record<string, unknown>;
+
+// Uninstall functions per collector, so repeated calls do not stack wrappers
+const installed = new WeakMap<Collector, () => void>();
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    // Skip first few frames (Error, getCallsite, wrapper function, etc.)
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs frames and HTTP client libraries
+      if (line.includes('/aiobs-ts/') || line.includes('node_modules') || line.includes('node:')) {
+        continue;
+      }
+
+      // Parse stack frame: "    at functionName (file:line:column)"
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors in callsite extraction
+  }
+  return null;
+}
+
+/**
+ * Resolve the URL and method of a fetch call.
+ */
+function resolveTarget(input: unknown, init: RequestInit | undefined): { url: URL; method: string } | null {
+  try {
+    const isRequest = typeof Request !== 'undefined' && input instanceof Request;
+    const url = new URL(isRequest ? (input as Request).url : String(input));
+    const method = (init?.method ?? (isRequest ? (input as Request).method : 'GET')).toUpperCase();
+    return { url, method };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read and parse the JSON request body, if it can be read without consuming it.
+ */
+async function readRequestBody(input: unknown, init: RequestInit | undefined): Promise<unknown> {
+  let text: string | null = null;
+  const body = init?.body;
+
+  if (typeof body === 'string') {
+    text = body;
+  } else if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    text = new TextDecoder().decode(body as Uint8Array);
+  } else if (body === undefined && typeof Request !== 'undefined' && input instanceof Request) {
+    text = await input.clone().text();
+  }
+
+  if (!text) {
+    return null;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Run an endpoint parser, ignoring parser errors.
+ */
+function safeParse(parse: (() => Record<string, unknown>) | null): Record<string, unknown> {
+  if (!parse) {
+    return {};
+  }
+  try {
+    return parse() ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Install the fetch interceptor.
+ *
+ * Usage:
+ *   const uninstall = instrumentFetch(observer);
+ *   // ... fetch calls to LLM APIs are recorded ...
+ *   uninstall();
+ *
+ * @returns A function that restores the previous fetch.
+ */
+export function instrumentFetch(collector: Collector, options: FetchInstrumentationOptions = {}): () => void {
+  const existing = installed.get(collector);
+  if (existing) {
+    return existing;
+  }
+
+  // Wrapped calls are marked through OTel context, which needs the context manager
+  if (!isInitialized()) {
+    initTracer();
+  }
+
+  const endpoints = [...(options.endpoints ?? []), ...DEFAULT_FETCH_ENDPOINTS];
+  const originalFetch: FetchFn = globalThis.fetch;
+
+  const instrumentedFetch = async function instrumentedFetch(
+    input: Parameters<FetchFn>[0],
+    init?: RequestInit
+  ): Promise<Response> {
+    if (isInWrappedCall()) {
+      return originalFetch(input, init);
+    }
+
+    const target = resolveTarget(input, init);
+    const endpoint = target && target.method === 'POST'
+      ? endpoints.find((e) => matchesEndpoint(e, target.url))
+      : undefined;
+    if (!target || !endpoint) {
+      return originalFetch(input, init);
+    }
+
+    return recordFetch(originalFetch, input, init, target.url, endpoint, collector, options.capture);
+  };
+
+  globalThis.fetch = instrumentedFetch as FetchFn;
+
+  const uninstall = (): void => {
+    // Only restore if no one has replaced fetch since
+    if (globalThis.fetch === instrumentedFetch) {
+      globalThis.fetch = originalFetch;
+    }
+    installed.delete(collector);
+  };
+  installed.set(collector, uninstall);
+  return uninstall;
+}
+
+/**
+ * Perform a fetch to a known LLM endpoint and record it as a provider event.
+ */
+async function recordFetch(
+  originalFetch: FetchFn,
+  input: Parameters<FetchFn>[0],
+  init: RequestInit | undefined,
+  url: URL,
+  endpoint: FetchEndpoint,
+  collector: Collector,
+  captureConfig?: CaptureConfig
+): Promise<Response> {
+  const spanId = randomUUID();
+  const parentSpanId = collector.getCurrentSpanId();
+  const started = Date.now() / 1000;
+  const callsite = getCallsite();
+  const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+
+  const requestBody = await readRequestBody(input, init).catch(() => null);
+  const requestInfo: FetchRequestInfo = {
+    // Query strings are dropped since they can carry API keys (e.g. Gemini ?key=)
+    url: `${url.origin}${url.pathname}`,
+    method: 'POST',
+    ...safeParse(endpoint.parseRequest ? () => endpoint.parseRequest!(requestBody, url, capture) : null),
+  };
+
+  const record = (
+    responseInfo: FetchResponseInfo | null,
+    error: string | null,
+    chunkTimes: number[] | null = null,
+    consumption: StreamConsumption = 'complete'
+  ): void => {
+    const ended = Date.now() / 1000;
+
+    const event: Event = {
+      provider: endpoint.provider,
+      api: typeof endpoint.api === 'function' ? endpoint.api(url) : endpoint.api,
+      callsite,
+      request: requestInfo,
+      response: responseInfo,
+      error,
+      started_at: started,
+      ended_at: ended,
+      duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+      span_id: spanId,
+      parent_span_id: parentSpanId,
+      trace_id: null,
+    };
+
+    if (chunkTimes) {
+      event.streaming = computeStreamingMetrics(
+        started,
+        ended,
+        chunkTimes,
+        responseInfo?.usage?.completion_tokens ?? null,
+        consumption
+      );
+    }
+
+    applyTruncations(event, capture);
+    collector.recordEvent(event);
+  };
+
+  let resp: Response;
+  try {
+    resp = await originalFetch(input, init);
+  } catch (e) {
+    const err = e as Error;
+    record(null, `${err.name}: ${err.message}`);
+    throw e;
+  }
+
+  const httpError = resp.ok ? null : `HTTPError: ${resp.status} ${resp.statusText}`.trim();
+  const toResponseInfo = (body: unknown): FetchResponseInfo => ({
+    status: resp.status,
+    ...safeParse(endpoint.parseResponse ? () => endpoint.parseResponse!(body) : null),
+  });
+
+  const contentType = resp.headers.get('content-type') ?? '';
+  if (contentType.includes('text/event-stream') && resp.body) {
+    return observeStream(resp, (events, error, chunkTimes, consumption) => {
+      const reduce = endpoint.reduceStream ?? ((evs: unknown[]) => evs[evs.length - 1] ?? null);
+      let body: unknown = null;
+      try {
+        body = reduce(events);
+      } catch {
+        // Ignore reducer errors
+      }
+      record(toResponseInfo(body), error ?? httpError, chunkTimes, consumption);
+    });
+  }
+
+  // Parse a copy of the body so the caller can still consume the response
+  let body: unknown = null;
+  try {
+    body = await resp.clone().json();
+  } catch {
+    // Not JSON
+  }
+  record(toResponseInfo(body), httpError);
+  return resp;
+}
+
+/**
+ * Return a copy of an SSE response whose body is observed as the caller reads it.
+ */
+function observeStream(
+  resp: Response,
+  onEnd: (events: unknown[], error: string | null, chunkTimes: number[], consumption: StreamConsumption) => void
+): Response {
+  const events: unknown[] = [];
+  const chunkTimes: number[] = [];
+  const parser = createSSEParser((data) => {
+    if (data === '[DONE]') {
+      return;
+    }
+    chunkTimes.push(Date.now() / 1000);
+    try {
+      events.push(JSON.parse(data));
+    } catch {
+      events.push(data);
+    }
+  });
+
+  let ended = false;
+  const end = (error: string | null, completed = false): void => {
+    if (ended) {
+      return;
+    }
+    ended = true;
+    try {
+      parser.end();
+      onEnd(events, error, chunkTimes, streamConsumption(completed, chunkTimes.length));
+    } catch {
+      // Never let instrumentation break the caller's stream
+    }
+  };
+
+  const reader = resp.body!.getReader();
+  const decoder = new TextDecoder();
+  // With no high water mark, nothing is read before the caller asks for it
+  const observed = new ReadableStream<Uint8Array>(
+    {
+      async pull(controller) {
+        let chunk: Awaited<ReturnType<typeof reader.read>>;
+        try {
+          chunk = await reader.read();
+        } catch (e) {
+          const err = e as Error;
+          end(`${err.name}: ${err.message}`);
+          controller.error(e);
+          return;
+        }
+
+        if (chunk.done) {
+          try {
+            parser.push(decoder.decode());
+          } catch {
+            // Ignore decode errors
+          }
+          end(null, true);
+          controller.close();
+          return;
+        }
+
+        try {
+          parser.push(decoder.decode(chunk.value, { stream: true }));
+        } catch {
+          // Ignore decode errors
+        }
+        controller.enqueue(chunk.value);
+      },
+      async cancel(reason) {
+        end(null);
+        await reader.cancel(reason);
+      },
+    },
+    { highWaterMark: 0 }
+  );
+  watchAbandoned(observed, () => end(null));
+
+  const copy = new Response(observed, {
+    status: resp.status,
+    statusText: resp.statusText,
+    headers: resp.headers,
+  });
+  // Keep the final URL, which the Response constructor does not carry over
+  Object.defineProperty(copy, 'url', { value: resp.url });
+  return copy;
+}
@@ -0,0 +1,22 @@
+/**
+ * Base models for fetch-level LLM HTTP capture.
+ */
+
+export interface BaseFetchRequest {
+  url: string;
+  method: string;
+}
+
+/**
+ * Token counts parsed from the response body: OpenAI prompt/completion (or
+ * input/output) tokens, Anthropic input/output tokens, or Gemini usageMetadata.
+ */
+export interface FetchUsage extends Record<string, unknown> {
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+}
+
+export interface BaseFetchResponse {
+  status: number;
+}
@@ -0,0 +1,21 @@
+/**
+ * Models for requests and responses parsed from known LLM HTTP endpoints.
+ */
+
+import type { BaseFetchRequest, BaseFetchResponse, FetchUsage } from './base.js';
+
+export interface HttpLLMRequest extends BaseFetchRequest {
+  model: string | null;
+  /** Chat messages / contents; only the first 3 are captured */
+  messages: unknown[] | null;
+  stream: boolean;
+  other: Record<string, unknown>;
+}
+
+export interface HttpLLMResponse extends BaseFetchResponse {
+  id: string | null;
+  model: string | null;
+  text: string | null;
+  finish_reason: string | null;
+  usage: FetchUsage | null;
+}
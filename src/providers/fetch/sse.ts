@@ -0,0 +1,55 @@
+/**
+ * Incremental server-sent events (SSE) parsing for the fetch interceptor.
+ */
+
+/**
+ * Parser that accepts decoded text as it arrives and emits the data payload of
+ * each complete event.
+ */
+export interface SSEParser {
+  push(text: string): void;
+  end(): void;
+}
+
+/**
+ * Create an SSE parser that calls onData with each event's data payload.
+ */
+export function createSSEParser(onData: (data: string) => void): SSEParser {
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  const dispatch = (): void => {
+    if (dataLines.length > 0) {
+      onData(dataLines.join('\n'));
+      dataLines = [];
+    }
+  };
+
+  const processLine = (line: string): void => {
+    if (line === '') {
+      // A blank line ends the event
+      dispatch();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+    }
+    // Other fields (event:, id:, retry:) and comments are not needed
+  };
+
+  return {
+    push(text: string): void {
+      buffer += text;
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        processLine(line);
+      }
+    },
+    end(): void {
+      if (buffer) {
+        processLine(buffer);
+        buffer = '';
+      }
+      dispatch();
+    },
+  };
+}
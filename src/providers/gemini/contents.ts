@@ -0,0 +1,31 @@
+/**
+ * Shared helpers for capturing Gemini request contents.
+ */
+
+import type { Content } from './models/index.js';
+import { captureList, type CaptureScope } from '../../capture.js';
+
+/**
+ * Extract contents from various formats.
+ */
+export function extractContents(contents: unknown, capture: CaptureScope): string | Content[] | unknown {
+  if (typeof contents === 'string') {
+    return contents;
+  }
+  
+  if (Array.isArray(contents)) {
+    const preview = captureList(capture, 'request.contents', contents as unknown[]);
+    return preview.map((item) => {
+      if (item && typeof item === 'object') {
+        const obj = item as Record<string, unknown>;
+        return {
+          role: obj.role ?? null,
+          parts: obj.parts ?? null,
+        };
+      }
+      return String(item);
+    });
+  }
+  
+  return String(contents);
+}
@@ -0,0 +1,147 @@
+/**
+ * Gemini count_tokens API instrumentation.
+ *
+ * Uses Proxy to wrap the Gemini client and intercept models.countTokens calls.
+ */
+
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite } from '../../models/observability.js';
+import type { CountTokensRequest, CountTokensResponse } from './models/index.js';
+import { extractContents } from './contents.js';
+import { startProviderSpan } from '../span.js';
+import { applyTruncations, createCaptureScope, type CaptureConfig, type CaptureScope } from '../../capture.js';
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and google frames
+      if (line.includes('/aiobs-ts/') || line.includes('/google/') || line.includes('node_modules')) {
+        continue;
+      }
+
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors
+  }
+  return null;
+}
+
+/**
+ * Extract request data from countTokens call arguments.
+ */
+function extractRequest(args: unknown, capture: CaptureScope): CountTokensRequest {
+  const req = (args ?? {}) as Record<string, unknown>;
+
+  return {
+    model: typeof req.model === 'string' ? req.model : null,
+    contents: req.contents !== undefined ? extractContents(req.contents, capture) : null,
+    config: req.config && typeof req.config === 'object' ? (req.config as Record<string, unknown>) : null,
+    other: Object.fromEntries(
+      Object.entries(req).filter(([k]) => !['model', 'contents', 'config'].includes(k))
+    ),
+  };
+}
+
+/**
+ * Extract response data from countTokens response.
+ */
+function extractResponse(resp: unknown, model: string | null): CountTokensResponse {
+  const r = (resp ?? {}) as Record<string, unknown>;
+
+  const totalTokens = typeof r.totalTokens === 'number' ? r.totalTokens : null;
+  const cachedTokens = typeof r.cachedContentTokenCount === 'number' ? r.cachedContentTokenCount : null;
+
+  return {
+    model,
+    total_tokens: totalTokens,
+    cached_content_token_count: cachedTokens,
+    usage: totalTokens !== null ? { total_token_count: totalTokens } : null,
+  };
+}
+
+/**
+ * Create a wrapped version of the countTokens method.
+ */
+export function createWrappedCountTokens(
+  originalCountTokens: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return async function wrappedCountTokens(...args: unknown[]): Promise<unknown> {
+    const span = startProviderSpan('gemini', 'models.countTokens');
+    const spanId = span.spanId;
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = extractRequest(args[0], capture);
+
+    let error: string | null = null;
+    let responseInfo: CountTokensResponse | null = null;
+
+    try {
+      const resp = await span.run(() => originalCountTokens(...args));
+      responseInfo = extractResponse(resp, requestInfo.model);
+      return resp;
+    } catch (e) {
+      const err = e as Error;
+      error = `${err.name}: ${err.message}`;
+      throw e;
+    } finally {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: 'gemini',
+        api: 'models.countTokens',
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: span.traceId,
+      };
+      applyTruncations(event, capture);
+
+      span.end(event);
+      collector.recordEvent(event);
+    }
+  };
+}
+
+/**
+ * Wrap the countTokens resource.
+ */
+export function wrapCountTokensResource<T extends object>(models: T, collector: Collector, capture?: CaptureConfig): T {
+  return new Proxy(models, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      // Intercept countTokens method
+      if (prop === 'countTokens' && typeof value === 'function') {
+        return createWrappedCountTokens(value.bind(target), collector, capture);
+      }
+
+      return value;
+    },
+  });
+}
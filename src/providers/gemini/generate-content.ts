@@ -6,9 +6,25 @@
 
 import { randomUUID } from 'crypto';
 import type { Collector } from '../../collector.js';
-import type { Event, Callsite } from '../../models/observability.js';
-import type { GenerateContentRequest, GenerateContentResponse, Content, UsageMetadata, Candidate, ResponsePart, CandidateContent } from './models/index.js';
-import { createWrappedGenerateVideos } from './generate-videos.js';
+import type { Event, Callsite, ToolCall, ToolDefinition, ToolResult, StreamConsumption } from '../../models/observability.js';
+import { extractContents } from './contents.js';
+import type { ChatTurnRequest, GenerateContentRequest, GenerateContentResponse, Content, UsageMetadata, Candidate, ResponsePart, CandidateContent } from './models/index.js';
+import { createWrappedGenerateVideos, wrapOperationsResource } from './generate-videos.js';
+import { createWrappedEmbedContent } from './embed-content.js';
+import { createWrappedCountTokens } from './count-tokens.js';
+import { createWrappedGenerateImages } from './generate-images.js';
+import { computeStreamingMetrics, isAsyncIterable, wrapStream, type StreamHooks } from '../stream.js';
+import { startProviderSpan } from '../span.js';
+import { findToolCallSpan, parseToolArguments, registerToolCalls } from '../tools.js';
+import { applyTruncations, captureList, createCaptureScope, type CaptureConfig, type CaptureScope } from '../../capture.js';
+
+/**
+ * Options for wrapGeminiClient.
+ */
+export interface WrapGeminiOptions {
+  /** Capture limits for this client, overriding the observer's */
+  capture?: CaptureConfig;
+}
 
 /**
  * Get callsite information from the call stack.
@@ -56,7 +72,7 @@ function getCallsite(): Callsite | null {
  * - Object with contents: structured request
  * - Array: direct contents array
  */
-function extractRequest(args: unknown): GenerateContentRequest {
+function extractRequest(args: unknown, collector: Collector, capture: CaptureScope): GenerateContentRequest {
   // Handle string input (VertexAI simple format)
   if (typeof args === 'string') {
     return {
@@ -64,6 +80,8 @@ function extractRequest(args: unknown): GenerateContentRequest {
       contents: args,
       system_instruction: null,
       config: null,
+      tools: null,
+      tool_results: null,
       other: {},
     };
   }
@@ -72,9 +90,11 @@ function extractRequest(args: unknown): GenerateContentRequest {
   if (Array.isArray(args)) {
     return {
       model: null,
-      contents: extractContents(args),
+      contents: extractContents(args, capture),
       system_instruction: null,
       config: null,
+      tools: null,
+      tool_results: extractFunctionResponses(args, collector),
       other: {},
     };
   }
@@ -86,7 +106,7 @@ function extractRequest(args: unknown): GenerateContentRequest {
   
   // Simplify contents for storage
   if (req.contents !== undefined) {
-    contents = extractContents(req.contents);
+    contents = extractContents(req.contents, capture);
   }
   
   let config: Record<string, unknown> | null = null;
@@ -103,36 +123,107 @@ function extractRequest(args: unknown): GenerateContentRequest {
     contents,
     system_instruction: req.system_instruction ?? req.systemInstruction ?? null,
     config,
+    // @google/genai passes tools in config; VertexAI at the top level
+    tools: extractFunctionDeclarations(config?.tools ?? req.tools),
+    tool_results: extractFunctionResponses(req.contents, collector),
     other: Object.fromEntries(
-      Object.entries(req).filter(([k]) => !['model', 'contents', 'system_instruction', 'systemInstruction', 'config', 'generationConfig'].includes(k))
+      Object.entries(req).filter(([k]) => !['model', 'contents', 'system_instruction', 'systemInstruction', 'config', 'generationConfig', 'tools'].includes(k))
     ),
   };
 }
 
 /**
- * Extract contents from various formats.
+ * Extract a chat message (a string, a Part, or a list of parts), keeping the parts as sent.
  */
-function extractContents(contents: unknown): string | Content[] | unknown {
-  if (typeof contents === 'string') {
-    return contents;
+function extractMessage(message: unknown, capture: CaptureScope): unknown {
+  if (Array.isArray(message)) {
+    return captureList(capture, 'request.contents', message);
   }
-  
-  if (Array.isArray(contents)) {
-    // Truncate to first 3 items for preview
-    const preview = (contents as unknown[]).slice(0, 3);
-    return preview.map((item) => {
-      if (item && typeof item === 'object') {
-        const obj = item as Record<string, unknown>;
-        return {
-          role: obj.role ?? null,
-          parts: obj.parts ?? null,
-        };
-      }
-      return String(item);
+  return message ?? null;
+}
+
+/**
+ * Flatten contents (string, Content, Part, or arrays of either) into parts.
+ */
+function collectParts(contents: unknown): Array<Record<string, unknown>> {
+  const items = Array.isArray(contents) ? contents : [contents];
+  const parts: Array<Record<string, unknown>> = [];
+  for (const item of items) {
+    if (!item || typeof item !== 'object') {
+      continue;
+    }
+    const obj = item as Record<string, unknown>;
+    if (Array.isArray(obj.parts)) {
+      parts.push(...(obj.parts.filter((p) => p && typeof p === 'object') as Array<Record<string, unknown>>));
+    } else {
+      parts.push(obj);
+    }
+  }
+  return parts;
+}
+
+/**
+ * Extract function declarations from the tools parameter.
+ */
+function extractFunctionDeclarations(tools: unknown): ToolDefinition[] | null {
+  if (!Array.isArray(tools)) {
+    return null;
+  }
+  const declarations: ToolDefinition[] = [];
+  for (const tool of tools) {
+    const t = (tool ?? {}) as Record<string, unknown>;
+    const fns = t.functionDeclarations ?? t.function_declarations;
+    if (!Array.isArray(fns)) {
+      continue;
+    }
+    for (const fn of fns) {
+      const f = (fn ?? {}) as Record<string, unknown>;
+      declarations.push({
+        name: typeof f.name === 'string' ? f.name : null,
+        description: typeof f.description === 'string' ? f.description : null,
+        parameters: f.parameters ?? f.parametersJsonSchema ?? null,
+      });
+    }
+  }
+  return declarations.length > 0 ? declarations : null;
+}
+
+/**
+ * Extract the results of earlier function calls from functionResponse parts.
+ */
+function extractFunctionResponses(contents: unknown, collector: Collector): ToolResult[] | null {
+  const results = collectParts(contents)
+    .map((part) => part.functionResponse ?? part.function_response)
+    .filter((fr): fr is Record<string, unknown> => !!fr && typeof fr === 'object')
+    .map((fr) => {
+      const id = typeof fr.id === 'string' ? fr.id : null;
+      return {
+        tool_call_id: id,
+        name: typeof fr.name === 'string' ? fr.name : null,
+        content: fr.response ?? null,
+        tool_call_span_id: findToolCallSpan(collector, id),
+      };
     });
+  return results.length > 0 ? results : null;
+}
+
+/**
+ * Extract function calls from the first candidate of a response.
+ */
+function extractFunctionCalls(candidates: unknown): ToolCall[] | null {
+  if (!Array.isArray(candidates) || candidates.length === 0) {
+    return null;
   }
-  
-  return String(contents);
+  const content = ((candidates[0] ?? {}) as Record<string, unknown>).content;
+  const calls = collectParts(content)
+    .map((part) => part.functionCall ?? part.function_call)
+    .filter((fc): fc is Record<string, unknown> => !!fc && typeof fc === 'object')
+    .map((fc) => ({
+      id: typeof fc.id === 'string' ? fc.id : null,
+      name: typeof fc.name === 'string' ? fc.name : null,
+      arguments: parseToolArguments(fc.args ?? null),
+    }));
+  return calls.length > 0 ? calls : null;
 }
 
 /**
@@ -312,26 +403,195 @@ function extractResponse(resp: unknown): GenerateContentResponse {
     // Ignore
   }
   
+  let toolCalls: ToolCall[] | null = null;
+  try {
+    toolCalls = extractFunctionCalls(r.candidates);
+  } catch {
+    // Ignore
+  }
+  
   // Return with proper field order: model, usage, text, candidates
   return {
     model: typeof r.model === 'string' ? r.model : null,
     usage,
     text,
     candidates,
+    tool_calls: toolCalls,
+  };
+}
+
+/**
+ * Merge streamed generateContent chunks into a single response object.
+ * 
+ * Consecutive text parts of each candidate are concatenated, the last
+ * non-empty candidate fields win, and usage metadata is taken from the
+ * final chunk that carries it.
+ */
+function mergeStreamChunks(chunks: unknown[]): Record<string, unknown> {
+  const candidates = new Map<number, { fields: Record<string, unknown>; role: unknown; parts: Array<Record<string, unknown>> }>();
+  let usageMetadata: unknown = null;
+  let modelVersion: unknown = null;
+  
+  for (const chunk of chunks) {
+    const c = (chunk ?? {}) as Record<string, unknown>;
+    
+    const usage = c.usageMetadata ?? c.usage_metadata;
+    if (usage && typeof usage === 'object') {
+      usageMetadata = usage;
+    }
+    const version = c.modelVersion ?? c.model_version;
+    if (typeof version === 'string') {
+      modelVersion = version;
+    }
+    
+    if (!Array.isArray(c.candidates)) {
+      continue;
+    }
+    
+    c.candidates.forEach((rawCandidate, position) => {
+      const candidate = (rawCandidate ?? {}) as Record<string, unknown>;
+      const index = typeof candidate.index === 'number' ? candidate.index : position;
+      
+      let merged = candidates.get(index);
+      if (!merged) {
+        merged = { fields: {}, role: null, parts: [] };
+        candidates.set(index, merged);
+      }
+      
+      for (const [key, value] of Object.entries(candidate)) {
+        if (key !== 'content' && value !== undefined && value !== null) {
+          merged.fields[key] = value;
+        }
+      }
+      
+      const content = candidate.content as Record<string, unknown> | undefined;
+      if (!content) {
+        return;
+      }
+      if (content.role) {
+        merged.role = content.role;
+      }
+      if (Array.isArray(content.parts)) {
+        for (const rawPart of content.parts) {
+          const part = { ...((rawPart ?? {}) as Record<string, unknown>) };
+          const last = merged.parts[merged.parts.length - 1];
+          if (
+            last &&
+            typeof last.text === 'string' &&
+            typeof part.text === 'string' &&
+            Boolean(last.thought) === Boolean(part.thought)
+          ) {
+            last.text = last.text + part.text;
+          } else {
+            merged.parts.push(part);
+          }
+        }
+      }
+    });
+  }
+  
+  const mergedCandidates = [...candidates.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, candidate]) => ({
+      ...candidate.fields,
+      content: { role: candidate.role, parts: candidate.parts },
+    }));
+  
+  // Text of the first candidate, excluding thought summaries
+  let text: string | null = null;
+  if (mergedCandidates.length > 0) {
+    const textParts = mergedCandidates[0].content.parts
+      .filter((part) => typeof part.text === 'string' && !part.thought)
+      .map((part) => part.text as string);
+    if (textParts.length > 0) {
+      text = textParts.join('');
+    }
+  }
+  
+  return {
+    ...(text !== null ? { text } : {}),
+    candidates: mergedCandidates,
+    usageMetadata,
+    modelVersion,
   };
 }
 
+/**
+ * Instrument the result of a streaming call so the event is finished when
+ * the stream ends.
+ * 
+ * Handles both:
+ * - @google/genai: an async iterable of response chunks
+ * - @google-cloud/vertexai: { stream, response } where response resolves to
+ *   the aggregated response once the stream has been fully read
+ */
+function instrumentStreamResult(
+  resp: unknown,
+  finish: (
+    responseInfo: GenerateContentResponse | null,
+    error: string | null,
+    chunkTimes: number[],
+    consumption?: StreamConsumption
+  ) => void
+): unknown {
+  const chunks: unknown[] = [];
+  // Shared with the VertexAI response promise, which may settle before the stream ends
+  const chunkTimes: number[] = [];
+  const hooks: StreamHooks = {
+    onChunk: (chunk) => {
+      chunks.push(chunk);
+      chunkTimes.push(Date.now() / 1000);
+    },
+    onEnd: (e, _chunkTimes, consumption) => {
+      const err = e as Error | null;
+      finish(
+        extractResponse(mergeStreamChunks(chunks)),
+        err ? `${err.name}: ${err.message}` : null,
+        chunkTimes,
+        consumption
+      );
+    },
+  };
+  
+  if (isAsyncIterable(resp)) {
+    return wrapStream(resp, hooks);
+  }
+  
+  const r = resp as Record<string, unknown> | null;
+  if (r && typeof r === 'object' && isAsyncIterable(r.stream)) {
+    const aggregated = r.response as Promise<unknown> | undefined;
+    if (aggregated && typeof aggregated.then === 'function') {
+      aggregated.then(
+        (value) => finish(extractResponse(value), null, chunkTimes),
+        (e) => {
+          const err = e as Error;
+          finish(extractResponse(mergeStreamChunks(chunks)), `${err.name}: ${err.message}`, chunkTimes);
+        }
+      );
+    }
+    return { ...r, stream: wrapStream(r.stream, hooks) };
+  }
+  
+  // Not a recognizable stream, record what we have
+  finish(extractResponse(resp), null, chunkTimes);
+  return resp;
+}
+
 /**
  * Wrap the Gemini models resource to intercept generateContent calls.
  */
-export function wrapGenerateContentResource<T extends object>(models: T, collector: Collector): T {
+export function wrapGenerateContentResource<T extends object>(
+  models: T,
+  collector: Collector,
+  capture?: CaptureConfig
+): T {
   return new Proxy(models, {
     get(target, prop, receiver) {
       const value = Reflect.get(target, prop, receiver);
       
       // Intercept generateContent method
       if (prop === 'generateContent' && typeof value === 'function') {
-        return createWrappedGenerateContent(value.bind(target), collector);
+        return createWrappedGenerateContent(value.bind(target), collector, capture);
       }
       
       return value;
@@ -344,9 +604,10 @@ export function wrapGenerateContentResource<T extends object>(models: T, collect
  */
 function createWrappedGenerateContent(
   originalGenerateContent: (...args: unknown[]) => Promise<unknown>,
-  collector: Collector
+  collector: Collector,
+  capture?: CaptureConfig
 ): (...args: unknown[]) => Promise<unknown> {
-  return createWrappedGenerateContentWithModel(originalGenerateContent, collector, null);
+  return createWrappedGenerateContentWithModel(originalGenerateContent, collector, null, capture);
 }
 
 /**
@@ -355,14 +616,17 @@ function createWrappedGenerateContent(
 function createWrappedGenerateContentWithModel(
   originalGenerateContent: (...args: unknown[]) => Promise<unknown>,
   collector: Collector,
-  modelName: string | null
+  modelName: string | null,
+  captureConfig?: CaptureConfig
 ): (...args: unknown[]) => Promise<unknown> {
   return async function wrappedGenerateContent(...args: unknown[]): Promise<unknown> {
-    const spanId = randomUUID();
+    const span = startProviderSpan('gemini', 'models.generateContent');
+    const spanId = span.spanId;
     const parentSpanId = collector.getCurrentSpanId();
     const started = Date.now() / 1000;
     const callsite = getCallsite();
-    const requestInfo = extractRequest(args[0]);
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = extractRequest(args[0], collector, capture);
     
     // Set model name from wrapper if not in request
     if (requestInfo.model === null && modelName !== null) {
@@ -373,7 +637,7 @@ function createWrappedGenerateContentWithModel(
     let responseInfo: GenerateContentResponse | null = null;
     
     try {
-      const resp = await originalGenerateContent(...args);
+      const resp = await span.run(() => originalGenerateContent(...args));
       responseInfo = extractResponse(resp);
       return resp;
     } catch (e) {
@@ -395,10 +659,13 @@ function createWrappedGenerateContentWithModel(
         duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
         span_id: spanId,
         parent_span_id: parentSpanId,
-        trace_id: null,
+        trace_id: span.traceId,
       };
+      applyTruncations(event, capture);
       
+      span.end(event);
       collector.recordEvent(event);
+      registerToolCalls(collector, span, responseInfo?.tool_calls ?? null);
     }
   };
 }
@@ -410,14 +677,24 @@ function createWrappedGenerateContentWithModel(
  * - @google/genai: client.models.generateContent()
  * - @google-cloud/vertexai: client.getGenerativeModel().generateContent()
  */
-export function wrapGeminiClient<T extends object>(client: T, collector: Collector): T {
+export function wrapGeminiClient<T extends object>(client: T, collector: Collector, options: WrapGeminiOptions = {}): T {
   return new Proxy(client, {
     get(target, prop, receiver) {
       const value = Reflect.get(target, prop, receiver);
       
       // Intercept models property access (@google/genai pattern)
       if (prop === 'models' && value && typeof value === 'object') {
-        return wrapModelsResource(value as object, collector);
+        return wrapModelsResource(value as object, collector, options.capture);
+      }
+      
+      // Intercept chats property access (@google/genai chat sessions)
+      if (prop === 'chats' && value && typeof value === 'object') {
+        return wrapChatsResource(value as object, collector, options.capture);
+      }
+      
+      // Intercept operations property access to follow long-running video operations
+      if (prop === 'operations' && value && typeof value === 'object') {
+        return wrapOperationsResource(value as object, collector);
       }
       
       // Intercept getGenerativeModel method (@google-cloud/vertexai pattern)
@@ -427,7 +704,7 @@ export function wrapGeminiClient<T extends object>(client: T, collector: Collect
           // Extract model name from the first argument
           const modelConfig = args[0] as Record<string, unknown> | undefined;
           const modelName = typeof modelConfig?.model === 'string' ? modelConfig.model : null;
-          return wrapGenerativeModel(model as object, collector, modelName);
+          return wrapGenerativeModel(model as object, collector, modelName, options.capture);
         };
       }
       
@@ -440,26 +717,31 @@ export function wrapGeminiClient<T extends object>(client: T, collector: Collect
  * Wrap a GenerativeModel instance to intercept generateContent calls.
  * Used for @google-cloud/vertexai pattern.
  */
-function wrapGenerativeModel<T extends object>(model: T, collector: Collector, modelName: string | null = null): T {
+function wrapGenerativeModel<T extends object>(
+  model: T,
+  collector: Collector,
+  modelName: string | null = null,
+  capture?: CaptureConfig
+): T {
   return new Proxy(model, {
     get(target, prop, receiver) {
       const value = Reflect.get(target, prop, receiver);
       
       // Intercept generateContent method
       if (prop === 'generateContent' && typeof value === 'function') {
-        return createWrappedGenerateContentWithModel(value.bind(target), collector, modelName);
+        return createWrappedGenerateContentWithModel(value.bind(target), collector, modelName, capture);
       }
       
       // Intercept generateContentStream method
       if (prop === 'generateContentStream' && typeof value === 'function') {
-        return createWrappedGenerateContentStreamWithModel(value.bind(target), collector, modelName);
+        return createWrappedGenerateContentStreamWithModel(value.bind(target), collector, modelName, capture);
       }
       
       // Intercept startChat method to wrap the chat session
       if (prop === 'startChat' && typeof value === 'function') {
         return function wrappedStartChat(...args: unknown[]) {
           const chatSession = value.apply(target, args);
-          return wrapChatSession(chatSession as object, collector, modelName);
+          return wrapChatSession(chatSession as object, collector, modelName, capture);
         };
       }
       
@@ -471,19 +753,24 @@ function wrapGenerativeModel<T extends object>(model: T, collector: Collector, m
 /**
  * Wrap a ChatSession instance to intercept sendMessage calls.
  */
-function wrapChatSession<T extends object>(session: T, collector: Collector, modelName: string | null = null): T {
+function wrapChatSession<T extends object>(
+  session: T,
+  collector: Collector,
+  modelName: string | null = null,
+  capture?: CaptureConfig
+): T {
   return new Proxy(session, {
     get(target, prop, receiver) {
       const value = Reflect.get(target, prop, receiver);
       
       // Intercept sendMessage method
       if (prop === 'sendMessage' && typeof value === 'function') {
-        return createWrappedSendMessageWithModel(value.bind(target), collector, modelName);
+        return createWrappedSendMessageWithModel(value.bind(target), collector, modelName, capture);
       }
       
       // Intercept sendMessageStream method
       if (prop === 'sendMessageStream' && typeof value === 'function') {
-        return createWrappedSendMessageStreamWithModel(value.bind(target), collector, modelName);
+        return createWrappedSendMessageStreamWithModel(value.bind(target), collector, modelName, capture);
       }
       
       return value;
@@ -492,34 +779,145 @@ function wrapChatSession<T extends object>(session: T, collector: Collector, mod
 }
 
 /**
- * Create a wrapped version of sendMessage method with model name.
+ * Wrap the chats resource to intercept chats.create calls.
+ * Used for @google/genai pattern.
  */
-function createWrappedSendMessageWithModel(
+export function wrapChatsResource<T extends object>(chats: T, collector: Collector, capture?: CaptureConfig): T {
+  return new Proxy(chats, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      
+      // Intercept create method to wrap the returned chat
+      if (prop === 'create' && typeof value === 'function') {
+        return function wrappedCreate(...args: unknown[]) {
+          const chat = value.apply(target, args);
+          const params = (args[0] ?? {}) as Record<string, unknown>;
+          return wrapGenAIChat(chat as object, collector, {
+            chatId: randomUUID(),
+            model: typeof params.model === 'string' ? params.model : null,
+            config: params.config && typeof params.config === 'object' ? (params.config as Record<string, unknown>) : null,
+            turns: 0,
+            capture,
+          });
+        };
+      }
+      
+      return value;
+    },
+  });
+}
+
+/**
+ * State shared by all turns of one chats.create() session.
+ */
+interface GenAIChatState {
+  chatId: string;
+  model: string | null;
+  config: Record<string, unknown> | null;
+  turns: number;
+  capture?: CaptureConfig;
+}
+
+/**
+ * Wrap a @google/genai Chat instance to intercept sendMessage calls.
+ */
+function wrapGenAIChat<T extends object>(chat: T, collector: Collector, state: GenAIChatState): T {
+  return new Proxy(chat, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      
+      // Intercept sendMessage method
+      if (prop === 'sendMessage' && typeof value === 'function') {
+        return createWrappedChatSendMessage(value.bind(target), target, collector, state);
+      }
+      
+      // Intercept sendMessageStream method
+      if (prop === 'sendMessageStream' && typeof value === 'function') {
+        return async function wrappedSendMessageStream(...args: unknown[]): Promise<unknown> {
+          const capture = createCaptureScope(collector.getCaptureConfig(), state.capture);
+          const requestInfo = extractChatTurnRequest(target, args[0], state, collector, capture);
+          return callStreaming(value.bind(target), args, collector, 'chats.sendMessageStream', requestInfo, capture);
+        };
+      }
+      
+      return value;
+    },
+  });
+}
+
+/**
+ * Extract request data for a chat turn, numbering the turn and measuring
+ * the history it is sent with.
+ */
+function extractChatTurnRequest(
+  chat: object,
+  args: unknown,
+  state: GenAIChatState,
+  collector: Collector,
+  capture: CaptureScope
+): ChatTurnRequest {
+  const params = (typeof args === 'string' ? { message: args } : args ?? {}) as Record<string, unknown>;
+  
+  let historyLength: number | null = null;
+  try {
+    const getHistory = (chat as Record<string, unknown>).getHistory;
+    if (typeof getHistory === 'function') {
+      const history = getHistory.call(chat) as unknown;
+      if (Array.isArray(history)) {
+        historyLength = history.length + 1;
+      }
+    }
+  } catch {
+    // Ignore history errors
+  }
+  
+  // Per-message config overrides the config the chat was created with
+  let config = state.config;
+  if (params.config && typeof params.config === 'object') {
+    config = { ...(config ?? {}), ...(params.config as Record<string, unknown>) };
+  }
+  
+  state.turns += 1;
+  
+  return {
+    model: state.model,
+    contents: extractMessage(params.message, capture),
+    system_instruction: config?.systemInstruction ?? config?.system_instruction ?? null,
+    config,
+    tools: extractFunctionDeclarations(config?.tools),
+    tool_results: extractFunctionResponses(params.message, collector),
+    other: Object.fromEntries(
+      Object.entries(params).filter(([k]) => !['message', 'config'].includes(k))
+    ),
+    chat_id: state.chatId,
+    turn: state.turns,
+    history_length: historyLength,
+  };
+}
+
+/**
+ * Create a wrapped version of a @google/genai Chat sendMessage method.
+ */
+function createWrappedChatSendMessage(
   originalSendMessage: (...args: unknown[]) => Promise<unknown>,
+  chat: object,
   collector: Collector,
-  modelName: string | null
+  state: GenAIChatState
 ): (...args: unknown[]) => Promise<unknown> {
   return async function wrappedSendMessage(...args: unknown[]): Promise<unknown> {
-    const spanId = randomUUID();
+    const span = startProviderSpan('gemini', 'chats.sendMessage');
+    const spanId = span.spanId;
     const parentSpanId = collector.getCurrentSpanId();
     const started = Date.now() / 1000;
     const callsite = getCallsite();
-    
-    // Extract message content
-    const message = args[0];
-    const requestInfo: GenerateContentRequest = {
-      model: modelName,
-      contents: typeof message === 'string' ? message : message,
-      system_instruction: null,
-      config: null,
-      other: {},
-    };
+    const capture = createCaptureScope(collector.getCaptureConfig(), state.capture);
+    const requestInfo = extractChatTurnRequest(chat, args[0], state, collector, capture);
     
     let error: string | null = null;
     let responseInfo: GenerateContentResponse | null = null;
     
     try {
-      const resp = await originalSendMessage(...args);
+      const resp = await span.run(() => originalSendMessage(...args));
       responseInfo = extractResponse(resp);
       return resp;
     } catch (e) {
@@ -531,7 +929,7 @@ function createWrappedSendMessageWithModel(
       
       const event: Event = {
         provider: 'gemini',
-        api: 'chat.sendMessage',
+        api: 'chats.sendMessage',
         callsite,
         request: requestInfo,
         response: responseInfo,
@@ -541,41 +939,52 @@ function createWrappedSendMessageWithModel(
         duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
         span_id: spanId,
         parent_span_id: parentSpanId,
-        trace_id: null,
+        trace_id: span.traceId,
       };
+      applyTruncations(event, capture);
       
+      span.end(event);
       collector.recordEvent(event);
+      registerToolCalls(collector, span, responseInfo?.tool_calls ?? null);
     }
   };
 }
 
 /**
- * Create a wrapped version of sendMessageStream method with model name.
+ * Create a wrapped version of sendMessage method with model name.
  */
-function createWrappedSendMessageStreamWithModel(
-  originalSendMessageStream: (...args: unknown[]) => Promise<unknown>,
+function createWrappedSendMessageWithModel(
+  originalSendMessage: (...args: unknown[]) => Promise<unknown>,
   collector: Collector,
-  modelName: string | null
+  modelName: string | null,
+  captureConfig?: CaptureConfig
 ): (...args: unknown[]) => Promise<unknown> {
-  return async function wrappedSendMessageStream(...args: unknown[]): Promise<unknown> {
-    const spanId = randomUUID();
+  return async function wrappedSendMessage(...args: unknown[]): Promise<unknown> {
+    const span = startProviderSpan('gemini', 'chat.sendMessage');
+    const spanId = span.spanId;
     const parentSpanId = collector.getCurrentSpanId();
     const started = Date.now() / 1000;
     const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
     
+    // Extract message content
     const message = args[0];
     const requestInfo: GenerateContentRequest = {
       model: modelName,
-      contents: typeof message === 'string' ? message : message,
+      contents: extractMessage(message, capture),
       system_instruction: null,
       config: null,
+      tools: null,
+      tool_results: extractFunctionResponses(message, collector),
       other: {},
     };
     
     let error: string | null = null;
+    let responseInfo: GenerateContentResponse | null = null;
     
     try {
-      const resp = await originalSendMessageStream(...args);
+      const resp = await span.run(() => originalSendMessage(...args));
+      responseInfo = extractResponse(resp);
       return resp;
     } catch (e) {
       const err = e as Error;
@@ -586,93 +995,192 @@ function createWrappedSendMessageStreamWithModel(
       
       const event: Event = {
         provider: 'gemini',
-        api: 'chat.sendMessageStream',
+        api: 'chat.sendMessage',
         callsite,
         request: requestInfo,
-        response: null,
+        response: responseInfo,
         error,
         started_at: started,
         ended_at: ended,
         duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
         span_id: spanId,
         parent_span_id: parentSpanId,
-        trace_id: null,
+        trace_id: span.traceId,
       };
+      applyTruncations(event, capture);
       
+      span.end(event);
       collector.recordEvent(event);
+      registerToolCalls(collector, span, responseInfo?.tool_calls ?? null);
     }
   };
 }
 
+/**
+ * Create a wrapped version of sendMessageStream method with model name.
+ */
+function createWrappedSendMessageStreamWithModel(
+  originalSendMessageStream: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  modelName: string | null,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return async function wrappedSendMessageStream(...args: unknown[]): Promise<unknown> {
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const message = args[0];
+    const requestInfo: GenerateContentRequest = {
+      model: modelName,
+      contents: extractMessage(message, capture),
+      system_instruction: null,
+      config: null,
+      tools: null,
+      tool_results: extractFunctionResponses(message, collector),
+      other: {},
+    };
+    
+    return callStreaming(originalSendMessageStream, args, collector, 'chat.sendMessageStream', requestInfo, capture);
+  };
+}
+
 /**
  * Create a wrapped version of generateContentStream method with model name.
  */
 function createWrappedGenerateContentStreamWithModel(
   originalGenerateContentStream: (...args: unknown[]) => Promise<unknown>,
   collector: Collector,
-  modelName: string | null
+  modelName: string | null,
+  captureConfig?: CaptureConfig
 ): (...args: unknown[]) => Promise<unknown> {
   return async function wrappedGenerateContentStream(...args: unknown[]): Promise<unknown> {
-    const spanId = randomUUID();
-    const parentSpanId = collector.getCurrentSpanId();
-    const started = Date.now() / 1000;
-    const callsite = getCallsite();
-    const requestInfo = extractRequest(args[0]);
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = extractRequest(args[0], collector, capture);
     
     // Set model name from wrapper if not in request
     if (requestInfo.model === null && modelName !== null) {
       requestInfo.model = modelName;
     }
     
-    let error: string | null = null;
+    return callStreaming(
+      originalGenerateContentStream,
+      args,
+      collector,
+      'models.generateContentStream',
+      requestInfo,
+      capture
+    );
+  };
+}
+
+/**
+ * Invoke a streaming method and record its event once the stream ends.
+ */
+async function callStreaming(
+  original: (...args: unknown[]) => Promise<unknown>,
+  args: unknown[],
+  collector: Collector,
+  api: string,
+  requestInfo: GenerateContentRequest,
+  capture: CaptureScope
+): Promise<unknown> {
+  const span = startProviderSpan('gemini', api);
+  const spanId = span.spanId;
+  const parentSpanId = collector.getCurrentSpanId();
+  const started = Date.now() / 1000;
+  const callsite = getCallsite();
+  let recorded = false;
+  
+  const record = (
+    responseInfo: GenerateContentResponse | null,
+    error: string | null,
+    chunkTimes: number[] | null = null,
+    consumption: StreamConsumption = 'complete'
+  ): void => {
+    if (recorded) {
+      return;
+    }
+    recorded = true;
+    const ended = Date.now() / 1000;
     
-    try {
-      const resp = await originalGenerateContentStream(...args);
-      return resp;
-    } catch (e) {
-      const err = e as Error;
-      error = `${err.name}: ${err.message}`;
-      throw e;
-    } finally {
-      const ended = Date.now() / 1000;
-      
-      const event: Event = {
-        provider: 'gemini',
-        api: 'models.generateContentStream',
-        callsite,
-        request: requestInfo,
-        response: null,
-        error,
-        started_at: started,
-        ended_at: ended,
-        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
-        span_id: spanId,
-        parent_span_id: parentSpanId,
-        trace_id: null,
-      };
-      
-      collector.recordEvent(event);
+    const event: Event = {
+      provider: 'gemini',
+      api,
+      callsite,
+      request: requestInfo,
+      response: responseInfo,
+      error,
+      started_at: started,
+      ended_at: ended,
+      duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+      span_id: spanId,
+      parent_span_id: parentSpanId,
+      trace_id: span.traceId,
+    };
+    
+    if (chunkTimes) {
+      event.streaming = computeStreamingMetrics(
+        started,
+        ended,
+        chunkTimes,
+        responseInfo?.usage?.candidates_token_count ?? null,
+        consumption
+      );
     }
+    applyTruncations(event, capture);
+    
+    span.end(event);
+    collector.recordEvent(event);
+    registerToolCalls(collector, span, responseInfo?.tool_calls ?? null);
   };
+  
+  let resp: unknown;
+  try {
+    resp = await span.run(() => original(...args));
+  } catch (e) {
+    const err = e as Error;
+    record(null, `${err.name}: ${err.message}`);
+    throw e;
+  }
+  
+  return instrumentStreamResult(resp, record);
 }
 
 /**
  * Wrap the models resource to intercept API calls.
  * Used for @google/genai pattern.
  */
-function wrapModelsResource<T extends object>(models: T, collector: Collector): T {
+function wrapModelsResource<T extends object>(models: T, collector: Collector, capture?: CaptureConfig): T {
   return new Proxy(models, {
     get(target, prop, receiver) {
       const value = Reflect.get(target, prop, receiver);
       
       // Intercept generateContent method
       if (prop === 'generateContent' && typeof value === 'function') {
-        return createWrappedGenerateContent(value.bind(target), collector);
+        return createWrappedGenerateContent(value.bind(target), collector, capture);
+      }
+      
+      // Intercept generateContentStream method
+      if (prop === 'generateContentStream' && typeof value === 'function') {
+        return createWrappedGenerateContentStreamWithModel(value.bind(target), collector, null, capture);
       }
       
       // Intercept generateVideos method
       if (prop === 'generateVideos' && typeof value === 'function') {
-        return createWrappedGenerateVideos(value.bind(target), collector);
+        return createWrappedGenerateVideos(value.bind(target), collector, capture);
+      }
+      
+      // Intercept generateImages method
+      if (prop === 'generateImages' && typeof value === 'function') {
+        return createWrappedGenerateImages(value.bind(target), collector, capture);
+      }
+      
+      // Intercept embedContent method
+      if (prop === 'embedContent' && typeof value === 'function') {
+        return createWrappedEmbedContent(value.bind(target), collector, capture);
+      }
+      
+      // Intercept countTokens method
+      if (prop === 'countTokens' && typeof value === 'function') {
+        return createWrappedCountTokens(value.bind(target), collector, capture);
       }
       
       return value;
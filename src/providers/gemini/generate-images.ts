@@ -0,0 +1,172 @@
+/**
+ * Gemini generate_images API instrumentation.
+ *
+ * Uses Proxy to wrap the Gemini client and intercept models.generateImages calls.
+ * Generated image bytes are stripped before the response is recorded.
+ */
+
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite } from '../../models/observability.js';
+import type { GenerateImagesRequest, GenerateImagesResponse } from './models/index.js';
+import { startProviderSpan } from '../span.js';
+import { applyTruncations, captureValue, createCaptureScope, type CaptureConfig, type CaptureScope } from '../../capture.js';
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and google frames
+      if (line.includes('/aiobs-ts/') || line.includes('/google/') || line.includes('node_modules')) {
+        continue;
+      }
+
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors
+  }
+  return null;
+}
+
+/**
+ * Extract request data from generateImages call arguments.
+ */
+function extractRequest(args: unknown, capture: CaptureScope): GenerateImagesRequest {
+  const req = (args ?? {}) as Record<string, unknown>;
+
+  return {
+    model: typeof req.model === 'string' ? req.model : null,
+    prompt: typeof req.prompt === 'string' ? req.prompt : null,
+    config: req.config && typeof req.config === 'object' ? (req.config as Record<string, unknown>) : null,
+    other: captureValue(capture, 'request.other', Object.fromEntries(
+      Object.entries(req).filter(([k]) => !['model', 'prompt', 'config'].includes(k))
+    )) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Extract response data from generateImages response.
+ */
+function extractResponse(resp: unknown, model: string | null): GenerateImagesResponse {
+  const r = (resp ?? {}) as Record<string, unknown>;
+
+  let generatedImages: Array<Record<string, unknown>> | null = null;
+  try {
+    const genImages = r.generatedImages ?? r.generated_images;
+    if (Array.isArray(genImages)) {
+      generatedImages = genImages.map((img) => {
+        if (img && typeof img === 'object') {
+          // Remove large binary data if present
+          const cleaned = { ...(img as Record<string, unknown>) };
+          if (cleaned.image && typeof cleaned.image === 'object') {
+            const imageData = cleaned.image as Record<string, unknown>;
+            cleaned.image = Object.fromEntries(
+              Object.entries(imageData).filter(([k]) => !['image_bytes', 'imageBytes'].includes(k))
+            );
+          }
+          return cleaned;
+        }
+        return {};
+      });
+    }
+  } catch {
+    // Ignore extraction errors
+  }
+
+  const safety = r.positivePromptSafetyAttributes ?? r.positive_prompt_safety_attributes;
+
+  return {
+    model,
+    generated_images: generatedImages,
+    positive_prompt_safety_attributes: safety && typeof safety === 'object'
+      ? (safety as Record<string, unknown>)
+      : null,
+    usage: null,
+  };
+}
+
+/**
+ * Create a wrapped version of the generateImages method.
+ */
+export function createWrappedGenerateImages(
+  originalGenerateImages: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return async function wrappedGenerateImages(...args: unknown[]): Promise<unknown> {
+    const span = startProviderSpan('gemini', 'models.generateImages');
+    const spanId = span.spanId;
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = extractRequest(args[0], capture);
+
+    let error: string | null = null;
+    let responseInfo: GenerateImagesResponse | null = null;
+
+    try {
+      const resp = await span.run(() => originalGenerateImages(...args));
+      responseInfo = extractResponse(resp, requestInfo.model);
+      return resp;
+    } catch (e) {
+      const err = e as Error;
+      error = `${err.name}: ${err.message}`;
+      throw e;
+    } finally {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: 'gemini',
+        api: 'models.generateImages',
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: span.traceId,
+      };
+
+      applyTruncations(event, capture);
+
+      span.end(event);
+      collector.recordEvent(event);
+    }
+  };
+}
+
+/**
+ * Wrap the generateImages resource.
+ */
+export function wrapGenerateImagesResource<T extends object>(models: T, collector: Collector, capture?: CaptureConfig): T {
+  return new Proxy(models, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      // Intercept generateImages method
+      if (prop === 'generateImages' && typeof value === 'function') {
+        return createWrappedGenerateImages(value.bind(target), collector, capture);
+      }
+
+      return value;
+    },
+  });
+}
@@ -1,13 +1,76 @@
 /**
  * Gemini generate_videos API instrumentation.
  * 
- * Uses Proxy to wrap the Gemini client and intercept models.generateVideos calls.
+ * Uses Proxy to wrap the Gemini client and intercept models.generateVideos calls,
+ * along with the operations polling calls that follow them. Polls are linked
+ * back to the originating generateVideos span by operation name, and a final
+ * event is recorded once the operation completes.
  */
 
-import { randomUUID } from 'crypto';
+import type { SpanContext } from '@opentelemetry/api';
 import type { Collector } from '../../collector.js';
 import type { Event, Callsite } from '../../models/observability.js';
-import type { GenerateVideosRequest, GenerateVideosResponse } from './models/index.js';
+import type {
+  GenerateVideosRequest,
+  GenerateVideosResponse,
+  GetVideosOperationRequest,
+  GenerateVideosOperationResult,
+} from './models/index.js';
+import { startProviderSpan } from '../span.js';
+import { applyTruncations, captureValue, createCaptureScope, type CaptureConfig, type CaptureScope } from '../../capture.js';
+
+/**
+ * Tracking state for an in-flight generateVideos operation.
+ */
+interface VideoOperationState {
+  spanId: string;
+  parentSpanId: string | null;
+  traceId: string | null;
+  spanContext: SpanContext | null;
+  started: number;
+  model: string | null;
+  pollCount: number;
+}
+
+// Maximum number of in-flight operations remembered per collector
+const MAX_TRACKED_OPERATIONS = 1000;
+
+// In-flight operations per collector, keyed by operation name
+const trackedOperations = new WeakMap<Collector, Map<string, VideoOperationState>>();
+
+/**
+ * Get the in-flight operations map for a collector.
+ */
+function getTrackedOperations(collector: Collector): Map<string, VideoOperationState> {
+  let operations = trackedOperations.get(collector);
+  if (!operations) {
+    operations = new Map();
+    trackedOperations.set(collector, operations);
+  }
+  return operations;
+}
+
+/**
+ * Remember an in-flight operation, dropping the oldest once the cap is reached.
+ */
+function trackOperation(collector: Collector, operationName: string, state: VideoOperationState): void {
+  const operations = getTrackedOperations(collector);
+  operations.set(operationName, state);
+  if (operations.size > MAX_TRACKED_OPERATIONS) {
+    // Maps iterate in insertion order, so the first key is the oldest
+    const oldest = operations.keys().next().value;
+    if (oldest !== undefined) {
+      operations.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Forget all in-flight video operations (for tests/dev).
+ */
+export function clearVideoOperations(collector: Collector): void {
+  trackedOperations.delete(collector);
+}
 
 /**
  * Get callsite information from the call stack.
@@ -43,7 +106,7 @@ function getCallsite(): Callsite | null {
 /**
  * Extract request data from generateVideos call arguments.
  */
-function extractRequest(args: unknown): GenerateVideosRequest {
+function extractRequest(args: unknown, capture: CaptureScope): GenerateVideosRequest {
   const req = (args ?? {}) as Record<string, unknown>;
   
   const model = typeof req.model === 'string' ? req.model : null;
@@ -84,9 +147,9 @@ function extractRequest(args: unknown): GenerateVideosRequest {
     image,
     video,
     config,
-    other: Object.fromEntries(
+    other: captureValue(capture, 'request.other', Object.fromEntries(
       Object.entries(req).filter(([k]) => !['model', 'prompt', 'image', 'video', 'config'].includes(k))
-    ),
+    )) as Record<string, unknown>,
   };
 }
 
@@ -100,28 +163,26 @@ function extractResponse(resp: unknown): GenerateVideosResponse {
   const done = typeof r.done === 'boolean' ? r.done : null;
   let generatedVideos: Array<Record<string, unknown>> | null = null;
   
-  // Extract generated videos from response
+  // Extract generated videos from response (both naming conventions)
   try {
-    const responseObj = r.response as Record<string, unknown> | undefined;
-    if (responseObj && responseObj.generated_videos) {
-      const genVideos = responseObj.generated_videos as unknown[];
-      if (Array.isArray(genVideos)) {
-        generatedVideos = genVideos.map((vid) => {
-          if (vid && typeof vid === 'object') {
-            const vidObj = vid as Record<string, unknown>;
-            // Remove large binary data if present
-            const cleaned = { ...vidObj };
-            if (cleaned.video && typeof cleaned.video === 'object') {
-              const videoData = cleaned.video as Record<string, unknown>;
-              cleaned.video = Object.fromEntries(
-                Object.entries(videoData).filter(([k]) => !['video_bytes', 'videoBytes', 'image_bytes', 'imageBytes'].includes(k))
-              );
-            }
-            return cleaned;
+    const responseObj = (r.response ?? r.result) as Record<string, unknown> | undefined;
+    const genVideos = responseObj ? responseObj.generated_videos ?? responseObj.generatedVideos : undefined;
+    if (Array.isArray(genVideos)) {
+      generatedVideos = genVideos.map((vid) => {
+        if (vid && typeof vid === 'object') {
+          const vidObj = vid as Record<string, unknown>;
+          // Remove large binary data if present
+          const cleaned = { ...vidObj };
+          if (cleaned.video && typeof cleaned.video === 'object') {
+            const videoData = cleaned.video as Record<string, unknown>;
+            cleaned.video = Object.fromEntries(
+              Object.entries(videoData).filter(([k]) => !['video_bytes', 'videoBytes', 'image_bytes', 'imageBytes'].includes(k))
+            );
           }
-          return {};
-        });
-      }
+          return cleaned;
+        }
+        return {};
+      });
     }
   } catch {
     // Ignore extraction errors
@@ -141,21 +202,37 @@ function extractResponse(resp: unknown): GenerateVideosResponse {
  */
 export function createWrappedGenerateVideos(
   originalGenerateVideos: (...args: unknown[]) => Promise<unknown>,
-  collector: Collector
+  collector: Collector,
+  captureConfig?: CaptureConfig
 ): (...args: unknown[]) => Promise<unknown> {
   return async function wrappedGenerateVideos(...args: unknown[]): Promise<unknown> {
-    const spanId = randomUUID();
+    const span = startProviderSpan('gemini', 'models.generateVideos');
+    const spanId = span.spanId;
     const parentSpanId = collector.getCurrentSpanId();
     const started = Date.now() / 1000;
     const callsite = getCallsite();
-    const requestInfo = extractRequest(args[0]);
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = extractRequest(args[0], capture);
     
     let error: string | null = null;
     let responseInfo: GenerateVideosResponse | null = null;
     
     try {
-      const resp = await originalGenerateVideos(...args);
+      const resp = await span.run(() => originalGenerateVideos(...args));
       responseInfo = extractResponse(resp);
+      
+      // Track the operation so later polls can be linked back to this span
+      if (responseInfo.operation_name && responseInfo.done !== true) {
+        trackOperation(collector, responseInfo.operation_name, {
+          spanId,
+          parentSpanId,
+          traceId: span.traceId,
+          spanContext: span.spanContext,
+          started,
+          model: requestInfo.model,
+          pollCount: 0,
+        });
+      }
       return resp;
     } catch (e) {
       const err = e as Error;
@@ -176,9 +253,12 @@ export function createWrappedGenerateVideos(
         duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
         span_id: spanId,
         parent_span_id: parentSpanId,
-        trace_id: null,
+        trace_id: span.traceId,
       };
       
+      applyTruncations(event, capture);
+      
+      span.end(event);
       collector.recordEvent(event);
     }
   };
@@ -187,14 +267,14 @@ export function createWrappedGenerateVideos(
 /**
  * Wrap the generateVideos resource.
  */
-export function wrapGenerateVideosResource<T extends object>(models: T, collector: Collector): T {
+export function wrapGenerateVideosResource<T extends object>(models: T, collector: Collector, capture?: CaptureConfig): T {
   return new Proxy(models, {
     get(target, prop, receiver) {
       const value = Reflect.get(target, prop, receiver);
       
       // Intercept generateVideos method
       if (prop === 'generateVideos' && typeof value === 'function') {
-        return createWrappedGenerateVideos(value.bind(target), collector);
+        return createWrappedGenerateVideos(value.bind(target), collector, capture);
       }
       
       return value;
@@ -202,3 +282,191 @@ export function wrapGenerateVideosResource<T extends object>(models: T, collecto
   });
 }
 
+
+/**
+ * Extract the operation name from operations.getVideosOperation / operations.get arguments.
+ */
+function extractOperationName(args: unknown): string | null {
+  const req = (args ?? {}) as Record<string, unknown>;
+  const operation = req.operation;
+  
+  if (typeof operation === 'string') {
+    return operation;
+  }
+  if (operation && typeof operation === 'object') {
+    const name = (operation as Record<string, unknown>).name;
+    return typeof name === 'string' ? name : null;
+  }
+  return typeof req.name === 'string' ? req.name : null;
+}
+
+/**
+ * Extract the error message from a finished operation, if it failed.
+ */
+function extractOperationError(resp: unknown): string | null {
+  const r = (resp ?? {}) as Record<string, unknown>;
+  if (r.error && typeof r.error === 'object') {
+    const err = r.error as Record<string, unknown>;
+    const code = err.code !== undefined ? `${err.code}: ` : '';
+    return `OperationError: ${code}${String(err.message ?? 'unknown error')}`;
+  }
+  return null;
+}
+
+/**
+ * Collect the URIs of generated videos.
+ */
+function extractVideoUris(videos: Array<Record<string, unknown>> | null): string[] | null {
+  if (!videos) {
+    return null;
+  }
+  
+  const uris: string[] = [];
+  for (const vid of videos) {
+    const video = vid.video as Record<string, unknown> | undefined;
+    if (video && typeof video.uri === 'string') {
+      uris.push(video.uri);
+    }
+  }
+  return uris.length > 0 ? uris : null;
+}
+
+/**
+ * Create a wrapped version of an operations polling method.
+ * 
+ * Each poll is recorded as a child of the generateVideos span that started
+ * the operation. When the operation reports done, a final event spanning the
+ * whole operation is recorded with the poll count and generated videos.
+ */
+export function createWrappedGetVideosOperation(
+  originalGetOperation: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  api: string = 'operations.getVideosOperation'
+): (...args: unknown[]) => Promise<unknown> {
+  return async function wrappedGetVideosOperation(...args: unknown[]): Promise<unknown> {
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const operationName = extractOperationName(args[0]);
+    const operations = getTrackedOperations(collector);
+    const tracked = operationName ? operations.get(operationName) : undefined;
+    // Polls nest under the generateVideos span, in its trace
+    const span = startProviderSpan('gemini', api, { parent: tracked?.spanContext });
+    const spanId = span.spanId;
+    
+    if (tracked) {
+      tracked.pollCount += 1;
+    }
+    
+    const requestInfo: GetVideosOperationRequest = {
+      model: tracked?.model ?? null,
+      operation_name: operationName,
+      poll_number: tracked?.pollCount ?? null,
+    };
+    
+    let error: string | null = null;
+    let responseInfo: GenerateVideosResponse | null = null;
+    let operationError: string | null = null;
+    
+    try {
+      const resp = await span.run(() => originalGetOperation(...args));
+      responseInfo = extractResponse(resp);
+      operationError = extractOperationError(resp);
+      return resp;
+    } catch (e) {
+      const err = e as Error;
+      error = `${err.name}: ${err.message}`;
+      throw e;
+    } finally {
+      const ended = Date.now() / 1000;
+      
+      const event: Event = {
+        provider: 'gemini',
+        api,
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error: error ?? operationError,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: tracked ? tracked.spanId : collector.getCurrentSpanId(),
+        trace_id: span.traceId,
+      };
+      
+      span.end(event);
+      collector.recordEvent(event);
+      
+      if (tracked && operationName && responseInfo?.done === true) {
+        operations.delete(operationName);
+        
+        const totalDurationMs = Math.round((ended - tracked.started) * 1000 * 1000) / 1000;
+        const result: GenerateVideosOperationResult = {
+          model: tracked.model,
+          operation_name: operationName,
+          done: true,
+          poll_count: tracked.pollCount,
+          total_duration_ms: totalDurationMs,
+          generated_videos: responseInfo.generated_videos,
+          video_uris: extractVideoUris(responseInfo.generated_videos),
+          usage: null,
+        };
+        
+        const completeSpan = startProviderSpan('gemini', 'models.generateVideos.complete', {
+          parent: tracked.spanContext,
+          startTime: tracked.started,
+        });
+        const finalEvent: Event = {
+          provider: 'gemini',
+          api: 'models.generateVideos.complete',
+          callsite: null,
+          request: { model: tracked.model, operation_name: operationName },
+          response: result,
+          error: operationError,
+          started_at: tracked.started,
+          ended_at: ended,
+          duration_ms: totalDurationMs,
+          span_id: completeSpan.spanId,
+          parent_span_id: tracked.spanId,
+          trace_id: completeSpan.traceId ?? tracked.traceId,
+        };
+        
+        completeSpan.end(finalEvent);
+        collector.recordEvent(finalEvent);
+      }
+    }
+  };
+}
+
+/**
+ * Wrap the operations resource to intercept polling of video operations.
+ *
+ * getVideosOperation polls are always recorded; operations.get polls only
+ * for operations started by a wrapped generateVideos call.
+ */
+export function wrapOperationsResource<T extends object>(operations: T, collector: Collector): T {
+  return new Proxy(operations, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      
+      // Intercept getVideosOperation
+      if (prop === 'getVideosOperation' && typeof value === 'function') {
+        return createWrappedGetVideosOperation(value.bind(target), collector);
+      }
+      
+      // The generic get polls any long-running operation; only tracked video operations are recorded
+      if (prop === 'get' && typeof value === 'function') {
+        const wrappedGet = createWrappedGetVideosOperation(value.bind(target), collector, 'operations.get');
+        return function get(...args: unknown[]): Promise<unknown> {
+          const operationName = extractOperationName(args[0]);
+          if (operationName && getTrackedOperations(collector).has(operationName)) {
+            return wrappedGet(...args);
+          }
+          return value.apply(target, args);
+        };
+      }
+      
+      return value;
+    },
+  });
+}
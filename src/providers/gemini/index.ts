@@ -3,10 +3,28 @@
  * 
  * Supports:
  * - models.generateContent
- * - models.generateVideos
+ * - models.generateContentStream
+ * - models.generateVideos (followed through operations polling to completion)
+ * - models.generateImages
+ * - models.embedContent
+ * - models.countTokens
+ * - chats.create sessions (sendMessage / sendMessageStream)
  */
 
-export { wrapGeminiClient, wrapGenerateContentResource } from './generate-content.js';
-export { wrapGenerateVideosResource, createWrappedGenerateVideos } from './generate-videos.js';
+export {
+  wrapGeminiClient,
+  wrapGenerateContentResource,
+  wrapChatsResource,
+  type WrapGeminiOptions,
+} from './generate-content.js';
+export {
+  wrapGenerateVideosResource,
+  createWrappedGenerateVideos,
+  wrapOperationsResource,
+  createWrappedGetVideosOperation,
+} from './generate-videos.js';
+export { wrapGenerateImagesResource, createWrappedGenerateImages } from './generate-images.js';
+export { wrapEmbedContentResource, createWrappedEmbedContent } from './embed-content.js';
+export { wrapCountTokensResource, createWrappedCountTokens } from './count-tokens.js';
 export * from './models/index.js';
 
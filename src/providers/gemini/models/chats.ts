@@ -0,0 +1,17 @@
+/**
+ * Models for @google/genai chat session capture.
+ */
+
+import type { GenerateContentRequest } from './generate-content.js';
+
+/**
+ * A single sendMessage / sendMessageStream turn of a chats.create() session.
+ */
+export interface ChatTurnRequest extends GenerateContentRequest {
+  /** Shared by every turn of the same chat */
+  chat_id: string;
+  /** 1-based turn number within the chat */
+  turn: number;
+  /** Number of history entries sent with this turn, including the new message */
+  history_length: number | null;
+}
@@ -0,0 +1,17 @@
+/**
+ * Models for Gemini count_tokens API capture.
+ */
+
+import type { BaseGeminiRequest, BaseGeminiResponse } from './base.js';
+import type { Content } from './generate-content.js';
+
+export interface CountTokensRequest extends BaseGeminiRequest {
+  contents: string | Content[] | unknown | null;
+  config: Record<string, unknown> | null;
+  other: Record<string, unknown>;
+}
+
+export interface CountTokensResponse extends BaseGeminiResponse {
+  total_tokens: number | null;
+  cached_content_token_count: number | null;
+}
@@ -0,0 +1,27 @@
+/**
+ * Models for Gemini embed_content API capture.
+ */
+
+import type { BaseGeminiRequest, BaseGeminiResponse } from './base.js';
+import type { Content } from './generate-content.js';
+
+export interface EmbedContentRequest extends BaseGeminiRequest {
+  contents: string | Content[] | unknown | null;
+  config: Record<string, unknown> | null;
+  other: Record<string, unknown>;
+}
+
+/**
+ * Summary of a single returned embedding; vector values are not captured.
+ */
+export interface EmbeddingSummary {
+  dimensions: number | null;
+  token_count: number | null;
+  truncated: boolean | null;
+}
+
+export interface EmbedContentResponse extends BaseGeminiResponse {
+  embeddings: EmbeddingSummary[] | null;
+  embedding_count: number | null;
+  billable_character_count: number | null;
+}
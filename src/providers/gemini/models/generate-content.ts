@@ -2,6 +2,7 @@
  * Models for Gemini generate_content API capture.
  */
 
+import type { ToolCall, ToolDefinition, ToolResult } from '../../../models/observability.js';
 import type { BaseGeminiRequest, BaseGeminiResponse } from './base.js';
 
 export interface ContentPart {
@@ -18,6 +19,10 @@ export interface GenerateContentRequest extends BaseGeminiRequest {
   contents: string | Content[] | unknown | null;
   system_instruction: unknown | null;
   config: Record<string, unknown> | null;
+  /** Function declarations offered to the model */
+  tools: ToolDefinition[] | null;
+  /** Results of earlier function calls, from functionResponse parts */
+  tool_results: ToolResult[] | null;
   other: Record<string, unknown>;
 }
 
@@ -84,5 +89,7 @@ export interface GenerateContentResponse extends BaseGeminiResponse {
   usage: UsageMetadata | null;
   text: string | null;
   candidates: Candidate[] | null;
+  /** Function calls from the first candidate */
+  tool_calls: ToolCall[] | null;
 }
 
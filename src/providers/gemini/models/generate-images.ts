@@ -0,0 +1,17 @@
+/**
+ * Models for Gemini generate_images API capture.
+ */
+
+import type { BaseGeminiRequest, BaseGeminiResponse } from './base.js';
+
+export interface GenerateImagesRequest extends BaseGeminiRequest {
+  prompt: string | null;
+  config: Record<string, unknown> | null;
+  other: Record<string, unknown>;
+}
+
+export interface GenerateImagesResponse extends BaseGeminiResponse {
+  /** Generated images with image bytes removed */
+  generated_images: Array<Record<string, unknown>> | null;
+  positive_prompt_safety_attributes: Record<string, unknown> | null;
+}
@@ -35,3 +35,20 @@ export interface GenerateVideosResponse extends BaseGeminiResponse {
   generated_videos: Array<Record<string, unknown>> | null;
 }
 
+
+export interface GetVideosOperationRequest extends BaseGeminiRequest {
+  operation_name: string | null;
+  poll_number: number | null;
+}
+
+/**
+ * Final outcome of a tracked generateVideos long-running operation.
+ */
+export interface GenerateVideosOperationResult extends BaseGeminiResponse {
+  operation_name: string | null;
+  done: boolean | null;
+  poll_count: number;
+  total_duration_ms: number;
+  generated_videos: Array<Record<string, unknown>> | null;
+  video_uris: string[] | null;
+}
@@ -2,3 +2,7 @@ export * from './base.js';
 export * from './generate-content.js';
 export * from './generate-videos.js';
 
+export * from './embed-content.js';
+export * from './count-tokens.js';
+export * from './generate-images.js';
+export * from './chats.js';
@@ -1,4 +1,12 @@
 export * from './base.js';
+export * from './registry.js';
 export * from './openai/index.js';
 export * from './gemini/index.js';
 
+export * from './anthropic/index.js';
+export * from './bedrock/index.js';
+export * from './ollama/index.js';
+export * from './vercel-ai/index.js';
+export * from './langchain/index.js';
+export * from './fetch/index.js';
+export * from './mcp/index.js';
@@ -0,0 +1,462 @@
+/**
+ * LangChain.js instrumentation.
+ *
+ * Provides a callback handler that maps LangChain runs to aiobs events:
+ * chains, tools and retrievers become function events, and LLM / chat model
+ * runs become provider events. LangChain run ids are used as span ids so the
+ * trace tree mirrors the chain structure.
+ */
+
+import type { Collector } from '../../collector.js';
+import type { Event, FunctionEvent } from '../../models/observability.js';
+import type {
+  LangChainLLMRequest,
+  LangChainLLMResponse,
+  LangChainMessage,
+  LangChainToolCall,
+  LangChainUsage,
+} from './models/index.js';
+import { computeStreamingMetrics } from '../stream.js';
+import {
+  applyTruncations,
+  captureList,
+  captureValue,
+  createCaptureScope,
+  type CaptureConfig,
+  type CaptureScope,
+} from '../../capture.js';
+
+/**
+ * Options for AiobsCallbackHandler.
+ */
+export interface AiobsCallbackHandlerOptions {
+  /** Capture limits for runs recorded by this handler, overriding the observer's */
+  capture?: CaptureConfig;
+}
+
+/**
+ * Serialized runnable passed to LangChain start callbacks.
+ */
+type Serialized = { id?: string[]; name?: string } | null | undefined;
+
+type RunKind = 'chain' | 'tool' | 'retriever';
+
+/**
+ * In-flight state of a LangChain run.
+ */
+interface RunState {
+  started: number;
+  parentSpanId: string | null;
+  name: string;
+  kind: RunKind | 'llm';
+  args: unknown[] | null;
+  kwargs: Record<string, unknown> | null;
+  provider: string;
+  request: LangChainLLMRequest | null;
+  chunkTimes: number[];
+  capture: CaptureScope;
+}
+
+/**
+ * Resolve a display name for a run.
+ */
+function runName(serialized: Serialized, name: string | undefined, fallback: string): string {
+  if (name) {
+    return name;
+  }
+  if (serialized?.name) {
+    return serialized.name;
+  }
+  const id = serialized?.id;
+  return Array.isArray(id) && id.length > 0 ? String(id[id.length - 1]) : fallback;
+}
+
+/**
+ * Get the role of a LangChain message (BaseMessage or plain object).
+ */
+function messageRole(message: Record<string, unknown>): string {
+  for (const getter of ['getType', '_getType']) {
+    const fn = message[getter];
+    if (typeof fn === 'function') {
+      try {
+        return String(fn.call(message));
+      } catch {
+        // Fall through to plain fields
+      }
+    }
+  }
+  return String(message.role ?? message.type ?? '');
+}
+
+/**
+ * Extract request data from LLM / chat model start callback arguments.
+ */
+function extractRequest(
+  serialized: Serialized,
+  input: { messages?: unknown[][]; prompts?: string[] },
+  extraParams: Record<string, unknown> | undefined,
+  tags: string[] | undefined,
+  metadata: Record<string, unknown> | undefined,
+  name: string | undefined,
+  capture: CaptureScope
+): LangChainLLMRequest {
+  const params = (extraParams?.invocation_params ?? {}) as Record<string, unknown>;
+  const model = metadata?.ls_model_name ?? params.model ?? params.model_name ?? params.modelName;
+
+  let messages: LangChainMessage[] | null = null;
+  if (input.messages && Array.isArray(input.messages[0])) {
+    messages = captureList(capture, 'request.messages', input.messages[0]).map((m, i) => {
+      const msg = (m ?? {}) as Record<string, unknown>;
+      return { role: messageRole(msg), content: captureValue(capture, `request.messages[${i}].content`, msg.content) };
+    });
+  }
+
+  return {
+    model: typeof model === 'string' ? model : null,
+    run_name: runName(serialized, name, 'llm'),
+    messages,
+    prompts: input.prompts ? captureList(capture, 'request.prompts', input.prompts) : null,
+    invocation_params:
+      Object.keys(params).length > 0
+        ? (captureValue(capture, 'request.invocation_params', params) as Record<string, unknown>)
+        : null,
+    tags: tags && tags.length > 0 ? tags : null,
+  };
+}
+
+/**
+ * Extract token usage from llmOutput or the generated message's usage metadata.
+ */
+function extractUsage(llmOutput: Record<string, unknown>, message: Record<string, unknown>): LangChainUsage | null {
+  const tokenUsage = (llmOutput.tokenUsage ?? llmOutput.estimatedTokenUsage) as Record<string, unknown> | undefined;
+  if (tokenUsage && typeof tokenUsage === 'object') {
+    return {
+      prompt_tokens: typeof tokenUsage.promptTokens === 'number' ? tokenUsage.promptTokens : null,
+      completion_tokens: typeof tokenUsage.completionTokens === 'number' ? tokenUsage.completionTokens : null,
+      total_tokens: typeof tokenUsage.totalTokens === 'number' ? tokenUsage.totalTokens : null,
+    };
+  }
+
+  const usage = message.usage_metadata as Record<string, unknown> | undefined;
+  if (usage && typeof usage === 'object') {
+    return {
+      prompt_tokens: typeof usage.input_tokens === 'number' ? usage.input_tokens : null,
+      completion_tokens: typeof usage.output_tokens === 'number' ? usage.output_tokens : null,
+      total_tokens: typeof usage.total_tokens === 'number' ? usage.total_tokens : null,
+    };
+  }
+  return null;
+}
+
+/**
+ * Extract response data from an LLMResult.
+ */
+function extractResponse(output: unknown): LangChainLLMResponse {
+  const o = (output ?? {}) as Record<string, unknown>;
+  const generations = Array.isArray(o.generations) ? (o.generations as unknown[][]) : [];
+  const first = (generations[0]?.[0] ?? {}) as Record<string, unknown>;
+  const message = (first.message ?? {}) as Record<string, unknown>;
+  const generationInfo = (first.generationInfo ?? {}) as Record<string, unknown>;
+  const responseMetadata = (message.response_metadata ?? {}) as Record<string, unknown>;
+
+  let toolCalls: LangChainToolCall[] | null = null;
+  if (Array.isArray(message.tool_calls) && message.tool_calls.length > 0) {
+    toolCalls = (message.tool_calls as Array<Record<string, unknown>>).map((call) => ({
+      id: typeof call.id === 'string' ? call.id : null,
+      name: typeof call.name === 'string' ? call.name : null,
+      arguments: call.args ?? null,
+    }));
+  }
+
+  const finishReason =
+    generationInfo.finish_reason ?? responseMetadata.finish_reason ?? responseMetadata.stop_reason;
+
+  return {
+    text: typeof first.text === 'string' ? first.text : null,
+    finish_reason: typeof finishReason === 'string' ? finishReason : null,
+    tool_calls: toolCalls,
+    generation_count: generations.reduce((n, g) => n + (Array.isArray(g) ? g.length : 0), 0),
+    usage: extractUsage((o.llmOutput ?? {}) as Record<string, unknown>, message),
+  };
+}
+
+/**
+ * Summarize retrieved documents by their content and metadata.
+ */
+function summarizeDocuments(documents: unknown): unknown {
+  if (!Array.isArray(documents)) {
+    return documents;
+  }
+  return documents.map((d) => {
+    const doc = (d ?? {}) as Record<string, unknown>;
+    return {
+      page_content: doc.pageContent,
+      metadata: doc.metadata ?? null,
+    };
+  });
+}
+
+/**
+ * Format a callback error the same way as the provider wrappers.
+ */
+function formatError(err: unknown): string {
+  const e = err as Error;
+  return e instanceof Error ? `${e.name}: ${e.message}` : `Error: ${String(err)}`;
+}
+
+/**
+ * LangChain.js callback handler that records runs as aiobs events.
+ *
+ * Usage:
+ *   const handler = new AiobsCallbackHandler(observer);
+ *   await chain.invoke(input, { callbacks: [handler] });
+ *
+ * Root runs are parented under the active observe() span, if any.
+ */
+export class AiobsCallbackHandler {
+  name = 'aiobs_callback_handler';
+
+  /** Run callbacks inline so start/end timestamps are accurate */
+  awaitHandlers = true;
+
+  private collector: Collector;
+  private capture: CaptureConfig | undefined;
+  private runs = new Map<string, RunState>();
+
+  constructor(collector: Collector, options: AiobsCallbackHandlerOptions = {}) {
+    this.collector = collector;
+    this.capture = options.capture;
+  }
+
+  handleChainStart(
+    chain: Serialized,
+    inputs: unknown,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    _metadata?: Record<string, unknown>,
+    _runType?: string,
+    name?: string
+  ): void {
+    this.startFunctionRun(runId, parentRunId, 'chain', runName(chain, name, 'chain'), inputs, tags);
+  }
+
+  handleChainEnd(outputs: unknown, runId: string): void {
+    this.endFunctionRun(runId, outputs, null);
+  }
+
+  handleChainError(err: unknown, runId: string): void {
+    this.endFunctionRun(runId, null, formatError(err));
+  }
+
+  handleToolStart(
+    tool: Serialized,
+    input: string,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    _metadata?: Record<string, unknown>,
+    name?: string
+  ): void {
+    this.startFunctionRun(runId, parentRunId, 'tool', runName(tool, name, 'tool'), input, tags);
+  }
+
+  handleToolEnd(output: unknown, runId: string): void {
+    this.endFunctionRun(runId, output, null);
+  }
+
+  handleToolError(err: unknown, runId: string): void {
+    this.endFunctionRun(runId, null, formatError(err));
+  }
+
+  handleRetrieverStart(
+    retriever: Serialized,
+    query: string,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    _metadata?: Record<string, unknown>,
+    name?: string
+  ): void {
+    this.startFunctionRun(runId, parentRunId, 'retriever', runName(retriever, name, 'retriever'), query, tags);
+  }
+
+  handleRetrieverEnd(documents: unknown, runId: string): void {
+    this.endFunctionRun(runId, summarizeDocuments(documents), null);
+  }
+
+  handleRetrieverError(err: unknown, runId: string): void {
+    this.endFunctionRun(runId, null, formatError(err));
+  }
+
+  handleLLMStart(
+    llm: Serialized,
+    prompts: string[],
+    runId: string,
+    parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    tags?: string[],
+    metadata?: Record<string, unknown>,
+    name?: string
+  ): void {
+    const capture = this.createCapture();
+    const request = extractRequest(llm, { prompts }, extraParams, tags, metadata, name, capture);
+    this.startLLMRun(runId, parentRunId, llm, request, metadata, capture);
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    messages: unknown[][],
+    runId: string,
+    parentRunId?: string,
+    extraParams?: Record<string, unknown>,
+    tags?: string[],
+    metadata?: Record<string, unknown>,
+    name?: string
+  ): void {
+    const capture = this.createCapture();
+    const request = extractRequest(llm, { messages }, extraParams, tags, metadata, name, capture);
+    this.startLLMRun(runId, parentRunId, llm, request, metadata, capture);
+  }
+
+  handleLLMNewToken(_token: string, _idx: unknown, runId: string): void {
+    this.runs.get(runId)?.chunkTimes.push(Date.now() / 1000);
+  }
+
+  handleLLMEnd(output: unknown, runId: string): void {
+    this.endLLMRun(runId, extractResponse(output), null);
+  }
+
+  handleLLMError(err: unknown, runId: string): void {
+    this.endLLMRun(runId, null, formatError(err));
+  }
+
+  private parentFor(parentRunId: string | undefined): string | null {
+    return parentRunId ?? this.collector.getCurrentSpanId();
+  }
+
+  private createCapture(): CaptureScope {
+    return createCaptureScope(this.collector.getCaptureConfig(), this.capture);
+  }
+
+  private startFunctionRun(
+    runId: string,
+    parentRunId: string | undefined,
+    kind: RunKind,
+    name: string,
+    input: unknown,
+    tags: string[] | undefined
+  ): void {
+    const capture = this.createCapture();
+    this.runs.set(runId, {
+      started: Date.now() / 1000,
+      parentSpanId: this.parentFor(parentRunId),
+      name,
+      kind,
+      args: [captureValue(capture, 'args[0]', input)],
+      kwargs: tags && tags.length > 0 ? { tags } : null,
+      provider: 'function',
+      request: null,
+      chunkTimes: [],
+      capture,
+    });
+  }
+
+  private endFunctionRun(runId: string, result: unknown, error: string | null): void {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return;
+    }
+    this.runs.delete(runId);
+    const ended = Date.now() / 1000;
+
+    const event: FunctionEvent = {
+      provider: 'function',
+      api: `langchain.${run.kind}`,
+      name: run.name,
+      module: 'langchain',
+      args: run.args,
+      kwargs: run.kwargs,
+      result: captureValue(run.capture, 'result', result),
+      error,
+      started_at: run.started,
+      ended_at: ended,
+      duration_ms: Math.round((ended - run.started) * 1000 * 1000) / 1000,
+      callsite: null,
+      span_id: runId,
+      parent_span_id: run.parentSpanId,
+      trace_id: null,
+      enh_prompt: false,
+      enh_prompt_id: null,
+      auto_enhance_after: null,
+    };
+
+    applyTruncations(event, run.capture);
+    this.collector.recordEvent(event);
+  }
+
+  private startLLMRun(
+    runId: string,
+    parentRunId: string | undefined,
+    llm: Serialized,
+    request: LangChainLLMRequest,
+    metadata: Record<string, unknown> | undefined,
+    capture: CaptureScope
+  ): void {
+    // Chat models report their provider in ls_provider; fall back to the class path
+    const id = llm?.id;
+    const provider = typeof metadata?.ls_provider === 'string'
+      ? metadata.ls_provider
+      : Array.isArray(id) && id.length > 2 ? String(id[id.length - 2]) : 'langchain';
+
+    this.runs.set(runId, {
+      started: Date.now() / 1000,
+      parentSpanId: this.parentFor(parentRunId),
+      name: request.run_name ?? 'llm',
+      kind: 'llm',
+      args: null,
+      kwargs: null,
+      provider,
+      request,
+      chunkTimes: [],
+      capture,
+    });
+  }
+
+  private endLLMRun(runId: string, responseInfo: LangChainLLMResponse | null, error: string | null): void {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return;
+    }
+    this.runs.delete(runId);
+    const ended = Date.now() / 1000;
+
+    const event: Event = {
+      provider: run.provider,
+      api: run.request?.messages ? 'langchain.chat_model' : 'langchain.llm',
+      callsite: null,
+      request: run.request,
+      response: responseInfo,
+      error,
+      started_at: run.started,
+      ended_at: ended,
+      duration_ms: Math.round((ended - run.started) * 1000 * 1000) / 1000,
+      span_id: runId,
+      parent_span_id: run.parentSpanId,
+      trace_id: null,
+    };
+
+    // Tokens streamed through handleLLMNewToken
+    if (run.chunkTimes.length > 0) {
+      event.streaming = computeStreamingMetrics(
+        run.started,
+        ended,
+        run.chunkTimes,
+        responseInfo?.usage?.completion_tokens ?? null
+      );
+    }
+
+    applyTruncations(event, run.capture);
+    this.collector.recordEvent(event);
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * LangChain.js instrumentation for aiobs.
+ * 
+ * Supports any LangChain.js runnable through a callback handler:
+ * - chains, tools and retrievers (function events)
+ * - LLMs and chat models (provider events)
+ */
+
+export { AiobsCallbackHandler, type AiobsCallbackHandlerOptions } from './callback-handler.js';
+export * from './models/index.js';
@@ -0,0 +1,24 @@
+/**
+ * Base models for LangChain.js callback capture.
+ */
+
+export interface BaseLangChainRequest {
+  /** Model name from the invocation params or run metadata */
+  model: string | null;
+  /** LangChain run name (e.g. 'ChatOpenAI') */
+  run_name: string | null;
+}
+
+/**
+ * Token counts from the run's llmOutput.tokenUsage (or estimatedTokenUsage),
+ * falling back to the generated message's usage_metadata.
+ */
+export interface LangChainUsage extends Record<string, unknown> {
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+}
+
+export interface BaseLangChainResponse {
+  usage: LangChainUsage | null;
+}
@@ -0,0 +1,36 @@
+/**
+ * Models for LangChain.js LLM and chat model run capture.
+ */
+
+import type { BaseLangChainRequest, BaseLangChainResponse } from './base.js';
+
+export interface LangChainMessage {
+  role: string;
+  content: unknown;
+}
+
+export interface LangChainLLMRequest extends BaseLangChainRequest {
+  /** Chat model input (handleChatModelStart) */
+  messages: LangChainMessage[] | null;
+  /** Text completion input (handleLLMStart) */
+  prompts: string[] | null;
+  invocation_params: Record<string, unknown> | null;
+  tags: string[] | null;
+}
+
+/**
+ * Tool call requested by a chat model.
+ */
+export interface LangChainToolCall {
+  id: string | null;
+  name: string | null;
+  arguments: unknown;
+}
+
+export interface LangChainLLMResponse extends BaseLangChainResponse {
+  text: string | null;
+  finish_reason: string | null;
+  tool_calls: LangChainToolCall[] | null;
+  /** Number of generations returned across all prompts */
+  generation_count: number;
+}
@@ -0,0 +1,276 @@
+/**
+ * Model Context Protocol (MCP) client instrumentation.
+ *
+ * Uses Proxy to wrap an MCP TypeScript SDK Client and intercept callTool,
+ * readResource, getPrompt and listTools requests.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite } from '../../models/observability.js';
+import type {
+  BaseMCPRequest,
+  MCPCallToolRequest,
+  MCPCallToolResponse,
+  MCPContent,
+  MCPGetPromptRequest,
+  MCPGetPromptResponse,
+  MCPListToolsRequest,
+  MCPListToolsResponse,
+  MCPReadResourceRequest,
+  MCPReadResourceResponse,
+} from './models/index.js';
+import { runInWrappedCall } from '../context.js';
+import {
+  applyTruncations,
+  captureList,
+  createCaptureScope,
+  type CaptureConfig,
+  type CaptureScope,
+} from '../../capture.js';
+
+/**
+ * Options for wrapMCPClient.
+ */
+export interface WrapMCPOptions {
+  /** Capture limits for this client, overriding the observer's */
+  capture?: CaptureConfig;
+}
+
+/**
+ * Request and response extractors for an intercepted client method.
+ */
+interface MethodExtractors {
+  extractRequest: (args: unknown, server: BaseMCPRequest) => BaseMCPRequest;
+  extractResponse: (resp: unknown, capture: CaptureScope) => object;
+}
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    // Skip first few frames (Error, getCallsite, wrapper function, etc.)
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and MCP SDK frames
+      if (line.includes('/aiobs-ts/') || line.includes('@modelcontextprotocol') || line.includes('node_modules')) {
+        continue;
+      }
+
+      // Parse stack frame: "    at functionName (file:line:column)"
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors in callsite extraction
+  }
+  return null;
+}
+
+/**
+ * Get the connected server's name and version.
+ */
+function getServerInfo(client: object): BaseMCPRequest {
+  try {
+    const getServerVersion = (client as Record<string, unknown>).getServerVersion;
+    if (typeof getServerVersion === 'function') {
+      const info = (getServerVersion.call(client) ?? {}) as Record<string, unknown>;
+      return {
+        server_name: typeof info.name === 'string' ? info.name : null,
+        server_version: typeof info.version === 'string' ? info.version : null,
+      };
+    }
+  } catch {
+    // Not connected yet
+  }
+  return { server_name: null, server_version: null };
+}
+
+/**
+ * Summarize a content item, replacing binary data with its length.
+ */
+function summarizeContent(item: unknown): MCPContent {
+  const c = (item ?? {}) as Record<string, unknown>;
+  const summary: MCPContent = Object.fromEntries(
+    Object.entries(c).filter(([k]) => !['data', 'blob', 'resource'].includes(k))
+  );
+
+  if (typeof c.data === 'string') {
+    summary.data_length = c.data.length;
+  }
+  if (typeof c.blob === 'string') {
+    summary.blob_length = c.blob.length;
+  }
+  // Embedded resources carry their own text or blob
+  if (c.resource && typeof c.resource === 'object') {
+    summary.resource = summarizeContent(c.resource);
+  }
+  return summary;
+}
+
+/**
+ * Extract tool or prompt arguments.
+ */
+function extractArguments(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : null;
+}
+
+const CALL_TOOL: MethodExtractors = {
+  extractRequest: (args, server): MCPCallToolRequest => {
+    const req = (args ?? {}) as Record<string, unknown>;
+    return {
+      ...server,
+      tool_name: typeof req.name === 'string' ? req.name : null,
+      arguments: extractArguments(req.arguments),
+    };
+  },
+  extractResponse: (resp): MCPCallToolResponse => {
+    const r = (resp ?? {}) as Record<string, unknown>;
+    return {
+      content: Array.isArray(r.content) ? r.content.map(summarizeContent) : null,
+      structured_content: r.structuredContent ?? null,
+      is_error: r.isError === true,
+    };
+  },
+};
+
+const READ_RESOURCE: MethodExtractors = {
+  extractRequest: (args, server): MCPReadResourceRequest => {
+    const req = (args ?? {}) as Record<string, unknown>;
+    return { ...server, uri: typeof req.uri === 'string' ? req.uri : null };
+  },
+  extractResponse: (resp): MCPReadResourceResponse => {
+    const r = (resp ?? {}) as Record<string, unknown>;
+    return { contents: Array.isArray(r.contents) ? r.contents.map(summarizeContent) : null };
+  },
+};
+
+const GET_PROMPT: MethodExtractors = {
+  extractRequest: (args, server): MCPGetPromptRequest => {
+    const req = (args ?? {}) as Record<string, unknown>;
+    return {
+      ...server,
+      prompt_name: typeof req.name === 'string' ? req.name : null,
+      arguments: extractArguments(req.arguments),
+    };
+  },
+  extractResponse: (resp, capture): MCPGetPromptResponse => {
+    const r = (resp ?? {}) as Record<string, unknown>;
+    return {
+      description: typeof r.description === 'string' ? r.description : null,
+      messages: Array.isArray(r.messages)
+        ? captureList(capture, 'response.messages', r.messages as unknown[]).map((m: unknown) => {
+          const msg = (m ?? {}) as Record<string, unknown>;
+          return { role: String(msg.role ?? ''), content: msg.content ? summarizeContent(msg.content) : null };
+        })
+        : null,
+    };
+  },
+};
+
+const LIST_TOOLS: MethodExtractors = {
+  extractRequest: (args, server): MCPListToolsRequest => {
+    const req = (args ?? {}) as Record<string, unknown>;
+    return { ...server, cursor: typeof req.cursor === 'string' ? req.cursor : null };
+  },
+  extractResponse: (resp): MCPListToolsResponse => {
+    const r = (resp ?? {}) as Record<string, unknown>;
+    return {
+      tool_names: Array.isArray(r.tools)
+        ? r.tools.map((t: unknown) => String(((t ?? {}) as Record<string, unknown>).name ?? ''))
+        : null,
+      next_cursor: typeof r.nextCursor === 'string' ? r.nextCursor : null,
+    };
+  },
+};
+
+// Intercepted Client methods
+const METHODS: Record<string, MethodExtractors> = {
+  callTool: CALL_TOOL,
+  readResource: READ_RESOURCE,
+  getPrompt: GET_PROMPT,
+  listTools: LIST_TOOLS,
+};
+
+/**
+ * Wrap an MCP Client to instrument callTool, readResource, getPrompt and listTools.
+ */
+export function wrapMCPClient<T extends object>(client: T, collector: Collector, options: WrapMCPOptions = {}): T {
+  return new Proxy(client, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      if (typeof prop === 'string' && Object.hasOwn(METHODS, prop) && typeof value === 'function') {
+        return createWrappedMethod(value.bind(target), target, collector, prop, METHODS[prop], options.capture);
+      }
+
+      return value;
+    },
+  });
+}
+
+/**
+ * Create a wrapped version of an MCP Client request method.
+ */
+function createWrappedMethod(
+  originalMethod: (...args: unknown[]) => Promise<unknown>,
+  client: object,
+  collector: Collector,
+  api: string,
+  extractors: MethodExtractors,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return async function wrappedMethod(...args: unknown[]): Promise<unknown> {
+    const spanId = randomUUID();
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = extractors.extractRequest(args[0], getServerInfo(client));
+
+    let error: string | null = null;
+    let responseInfo: object | null = null;
+
+    try {
+      const resp = await runInWrappedCall(() => originalMethod(...args));
+      responseInfo = extractors.extractResponse(resp, capture);
+      return resp;
+    } catch (e) {
+      const err = e as Error;
+      error = `${err.name}: ${err.message}`;
+      throw e;
+    } finally {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: 'mcp',
+        api,
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: null,
+      };
+
+      applyTruncations(event, capture);
+
+      collector.recordEvent(event);
+    }
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Model Context Protocol (MCP) instrumentation for aiobs.
+ * 
+ * Supports the @modelcontextprotocol/sdk Client:
+ * - callTool
+ * - readResource
+ * - getPrompt
+ * - listTools
+ */
+
+export { wrapMCPClient, type WrapMCPOptions } from './client.js';
+export * from './models/index.js';
@@ -0,0 +1,9 @@
+/**
+ * Base models for MCP client request/response capture.
+ */
+
+export interface BaseMCPRequest {
+  /** Server name reported during initialization */
+  server_name: string | null;
+  server_version: string | null;
+}
@@ -0,0 +1,49 @@
+/**
+ * Models for MCP client (callTool, readResource, getPrompt, listTools) capture.
+ */
+
+import type { BaseMCPRequest } from './base.js';
+
+export interface MCPCallToolRequest extends BaseMCPRequest {
+  tool_name: string | null;
+  arguments: Record<string, unknown> | null;
+}
+
+/**
+ * Content item from a tool result or prompt message. Binary data is
+ * summarized by length rather than captured.
+ */
+export type MCPContent = Record<string, unknown>;
+
+export interface MCPCallToolResponse {
+  content: MCPContent[] | null;
+  structured_content: unknown | null;
+  is_error: boolean;
+}
+
+export interface MCPReadResourceRequest extends BaseMCPRequest {
+  uri: string | null;
+}
+
+export interface MCPReadResourceResponse {
+  contents: MCPContent[] | null;
+}
+
+export interface MCPGetPromptRequest extends BaseMCPRequest {
+  prompt_name: string | null;
+  arguments: Record<string, unknown> | null;
+}
+
+export interface MCPGetPromptResponse {
+  description: string | null;
+  messages: Array<{ role: string; content: MCPContent | null }> | null;
+}
+
+export interface MCPListToolsRequest extends BaseMCPRequest {
+  cursor: string | null;
+}
+
+export interface MCPListToolsResponse {
+  tool_names: string[] | null;
+  next_cursor: string | null;
+}
@@ -0,0 +1,286 @@
+/**
+ * Ollama chat API instrumentation.
+ *
+ * Uses Proxy to wrap the ollama client and intercept chat, generate and embed
+ * calls, including streamed responses (stream: true).
+ */
+
+import { randomUUID } from 'crypto';
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite, StreamConsumption } from '../../models/observability.js';
+import type { OllamaChatRequest, OllamaChatResponse, OllamaMessage } from './models/index.js';
+import { extractMetrics, extractUsage } from './metrics.js';
+import { createWrappedGenerate } from './generate.js';
+import { createWrappedEmbed } from './embed.js';
+import { computeStreamingMetrics, isAsyncIterable, wrapStream } from '../stream.js';
+import { runInWrappedCall } from '../context.js';
+import {
+  applyTruncations,
+  captureList,
+  captureValue,
+  createCaptureScope,
+  type CaptureConfig,
+  type CaptureScope,
+} from '../../capture.js';
+
+/**
+ * Options for wrapOllamaClient.
+ */
+export interface WrapOllamaOptions {
+  /** Capture limits for this client, overriding the observer's */
+  capture?: CaptureConfig;
+}
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    // Skip first few frames (Error, getCallsite, wrapper function, etc.)
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and ollama frames
+      if (line.includes('/aiobs-ts/') || line.includes('/ollama/') || line.includes('node_modules')) {
+        continue;
+      }
+
+      // Parse stack frame: "    at functionName (file:line:column)"
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors in callsite extraction
+  }
+  return null;
+}
+
+/**
+ * Extract request data from chat call arguments.
+ */
+function extractRequest(args: unknown, capture: CaptureScope): OllamaChatRequest {
+  const req = (args ?? {}) as Record<string, unknown>;
+
+  let messages: OllamaMessage[] | null = null;
+  if (Array.isArray(req.messages)) {
+    // Attached images are counted, not captured
+    messages = captureList(capture, 'request.messages', req.messages as unknown[]).map((m: unknown) => {
+      const msg = (m ?? {}) as Record<string, unknown>;
+      return {
+        role: String(msg.role ?? ''),
+        content: msg.content,
+        ...(Array.isArray(msg.images) ? { image_count: msg.images.length } : {}),
+      };
+    });
+  }
+
+  return {
+    model: typeof req.model === 'string' ? req.model : null,
+    messages,
+    tools: Array.isArray(req.tools) ? (req.tools as Array<Record<string, unknown>>) : null,
+    format: req.format ?? null,
+    options: req.options && typeof req.options === 'object' ? (req.options as Record<string, unknown>) : null,
+    stream: req.stream === true,
+    other: captureValue(capture, 'request.other', Object.fromEntries(
+      Object.entries(req).filter(([k]) => !['model', 'messages', 'tools', 'format', 'options', 'stream'].includes(k))
+    )) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Extract response data from a chat response.
+ */
+function extractResponse(resp: unknown): OllamaChatResponse {
+  const r = (resp ?? {}) as Record<string, unknown>;
+  const message = (r.message ?? {}) as Record<string, unknown>;
+
+  return {
+    model: typeof r.model === 'string' ? r.model : null,
+    role: typeof message.role === 'string' ? message.role : null,
+    content: typeof message.content === 'string' ? message.content : null,
+    thinking: typeof message.thinking === 'string' && message.thinking ? message.thinking : null,
+    tool_calls: Array.isArray(message.tool_calls) && message.tool_calls.length > 0
+      ? (message.tool_calls as Array<Record<string, unknown>>)
+      : null,
+    done_reason: typeof r.done_reason === 'string' ? r.done_reason : null,
+    usage: extractUsage(r),
+    metrics: extractMetrics(r),
+  };
+}
+
+/**
+ * Accumulated state of a streamed chat response.
+ */
+interface StreamState {
+  last: Record<string, unknown>;
+  role: string | null;
+  content: string;
+  thinking: string;
+  toolCalls: unknown[];
+}
+
+/**
+ * Apply a single stream chunk to the accumulated state.
+ */
+function applyStreamChunk(state: StreamState, chunk: unknown): void {
+  const c = (chunk ?? {}) as Record<string, unknown>;
+  const message = (c.message ?? {}) as Record<string, unknown>;
+
+  // The final chunk (done: true) carries the token counts and durations
+  state.last = c;
+  if (typeof message.role === 'string') {
+    state.role = message.role;
+  }
+  if (typeof message.content === 'string') {
+    state.content += message.content;
+  }
+  if (typeof message.thinking === 'string') {
+    state.thinking += message.thinking;
+  }
+  if (Array.isArray(message.tool_calls)) {
+    state.toolCalls.push(...message.tool_calls);
+  }
+}
+
+/**
+ * Build the final chat response from the accumulated stream state.
+ */
+function buildStreamedResponse(state: StreamState): Record<string, unknown> {
+  return {
+    ...state.last,
+    message: {
+      role: state.role,
+      content: state.content,
+      thinking: state.thinking,
+      tool_calls: state.toolCalls,
+    },
+  };
+}
+
+/**
+ * Wrap an ollama client to instrument chat, generate and embed calls.
+ */
+export function wrapOllamaClient<T extends object>(
+  client: T,
+  collector: Collector,
+  options: WrapOllamaOptions = {}
+): T {
+  return new Proxy(client, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      // Intercept chat method
+      if (prop === 'chat' && typeof value === 'function') {
+        return createWrappedChat(value.bind(target), collector, options.capture);
+      }
+
+      // Intercept generate method
+      if (prop === 'generate' && typeof value === 'function') {
+        return createWrappedGenerate(value.bind(target), collector, options.capture);
+      }
+
+      // Intercept embed method
+      if (prop === 'embed' && typeof value === 'function') {
+        return createWrappedEmbed(value.bind(target), collector, options.capture);
+      }
+
+      return value;
+    },
+  });
+}
+
+/**
+ * Create a wrapped version of the chat method.
+ *
+ * Streamed calls are recorded when the stream ends, using the final chunk
+ * for token counts and durations.
+ */
+export function createWrappedChat(
+  originalChat: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return async function wrappedChat(...args: unknown[]): Promise<unknown> {
+    const spanId = randomUUID();
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = extractRequest(args[0], capture);
+
+    const record = (
+      responseInfo: OllamaChatResponse | null,
+      error: string | null,
+      chunkTimes: number[] | null = null,
+      consumption: StreamConsumption = 'complete'
+    ): void => {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: 'ollama',
+        api: 'chat',
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: null,
+      };
+
+      if (chunkTimes) {
+        event.streaming = computeStreamingMetrics(
+          started,
+          ended,
+          chunkTimes,
+          responseInfo?.usage?.completion_tokens ?? null,
+          consumption
+        );
+      }
+
+      applyTruncations(event, capture);
+      collector.recordEvent(event);
+    };
+
+    let resp: unknown;
+    try {
+      resp = await runInWrappedCall(() => originalChat(...args));
+    } catch (e) {
+      const err = e as Error;
+      record(null, `${err.name}: ${err.message}`);
+      throw e;
+    }
+
+    if (requestInfo.stream && isAsyncIterable(resp)) {
+      const state: StreamState = { last: {}, role: null, content: '', thinking: '', toolCalls: [] };
+
+      return wrapStream(resp, {
+        onChunk: (chunk) => applyStreamChunk(state, chunk),
+        onEnd: (e, chunkTimes, consumption) => {
+          const err = e as Error | null;
+          record(
+            extractResponse(buildStreamedResponse(state)),
+            err ? `${err.name}: ${err.message}` : null,
+            chunkTimes,
+            consumption
+          );
+        },
+      });
+    }
+
+    record(extractResponse(resp), null);
+    return resp;
+  };
+}
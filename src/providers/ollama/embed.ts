@@ -0,0 +1,152 @@
+/**
+ * Ollama embed API instrumentation.
+ *
+ * Intercepts embed calls. Embedding vectors are summarized by count and
+ * dimensions rather than captured.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite } from '../../models/observability.js';
+import type { OllamaEmbedRequest, OllamaEmbedResponse } from './models/index.js';
+import { extractMetrics, extractUsage } from './metrics.js';
+import { runInWrappedCall } from '../context.js';
+import {
+  applyTruncations,
+  captureList,
+  createCaptureScope,
+  type CaptureConfig,
+  type CaptureScope,
+} from '../../capture.js';
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    // Skip first few frames (Error, getCallsite, wrapper function, etc.)
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and ollama frames
+      if (line.includes('/aiobs-ts/') || line.includes('/ollama/') || line.includes('node_modules')) {
+        continue;
+      }
+
+      // Parse stack frame: "    at functionName (file:line:column)"
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors in callsite extraction
+  }
+  return null;
+}
+
+/**
+ * Extract request data from embed call arguments.
+ */
+function extractRequest(args: unknown, capture: CaptureScope): OllamaEmbedRequest {
+  const req = (args ?? {}) as Record<string, unknown>;
+
+  let input: string | string[] | null = null;
+  if (typeof req.input === 'string') {
+    input = req.input;
+  } else if (Array.isArray(req.input)) {
+    input = captureList(capture, 'request.input', req.input as unknown[]).map(String);
+  }
+
+  return {
+    model: typeof req.model === 'string' ? req.model : null,
+    input,
+    truncate: typeof req.truncate === 'boolean' ? req.truncate : null,
+    dimensions: typeof req.dimensions === 'number' ? req.dimensions : null,
+    options: req.options && typeof req.options === 'object' ? (req.options as Record<string, unknown>) : null,
+    other: Object.fromEntries(
+      Object.entries(req).filter(([k]) => !['model', 'input', 'truncate', 'dimensions', 'options'].includes(k))
+    ),
+  };
+}
+
+/**
+ * Extract response data from an embed response.
+ */
+function extractResponse(resp: unknown): OllamaEmbedResponse {
+  const r = (resp ?? {}) as Record<string, unknown>;
+
+  let count: number | null = null;
+  let dimensions: number | null = null;
+  if (Array.isArray(r.embeddings)) {
+    count = r.embeddings.length;
+    const first = r.embeddings[0] as unknown;
+    dimensions = Array.isArray(first) ? first.length : null;
+  }
+
+  return {
+    model: typeof r.model === 'string' ? r.model : null,
+    embedding_count: count,
+    embedding_dimensions: dimensions,
+    usage: extractUsage(r, false),
+    metrics: extractMetrics(r),
+  };
+}
+
+/**
+ * Create a wrapped version of the embed method.
+ */
+export function createWrappedEmbed(
+  originalEmbed: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return async function wrappedEmbed(...args: unknown[]): Promise<unknown> {
+    const spanId = randomUUID();
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = extractRequest(args[0], capture);
+
+    let error: string | null = null;
+    let responseInfo: OllamaEmbedResponse | null = null;
+
+    try {
+      const resp = await runInWrappedCall(() => originalEmbed(...args));
+      responseInfo = extractResponse(resp);
+      return resp;
+    } catch (e) {
+      const err = e as Error;
+      error = `${err.name}: ${err.message}`;
+      throw e;
+    } finally {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: 'ollama',
+        api: 'embed',
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: null,
+      };
+
+      applyTruncations(event, capture);
+      collector.recordEvent(event);
+    }
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Ollama generate API instrumentation.
+ *
+ * Intercepts generate calls, including streamed responses (stream: true).
+ * Attached images and the returned context token ids are not captured.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite, StreamConsumption } from '../../models/observability.js';
+import type { OllamaGenerateRequest, OllamaGenerateResponse } from './models/index.js';
+import { extractMetrics, extractUsage } from './metrics.js';
+import { computeStreamingMetrics, isAsyncIterable, wrapStream } from '../stream.js';
+import { runInWrappedCall } from '../context.js';
+import {
+  applyTruncations,
+  captureValue,
+  createCaptureScope,
+  type CaptureConfig,
+  type CaptureScope,
+} from '../../capture.js';
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    // Skip first few frames (Error, getCallsite, wrapper function, etc.)
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and ollama frames
+      if (line.includes('/aiobs-ts/') || line.includes('/ollama/') || line.includes('node_modules')) {
+        continue;
+      }
+
+      // Parse stack frame: "    at functionName (file:line:column)"
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors in callsite extraction
+  }
+  return null;
+}
+
+/**
+ * Extract request data from generate call arguments.
+ */
+function extractRequest(args: unknown, capture: CaptureScope): OllamaGenerateRequest {
+  const req = (args ?? {}) as Record<string, unknown>;
+
+  return {
+    model: typeof req.model === 'string' ? req.model : null,
+    prompt: typeof req.prompt === 'string' ? req.prompt : null,
+    system: typeof req.system === 'string' ? req.system : null,
+    image_count: Array.isArray(req.images) ? req.images.length : null,
+    format: req.format ?? null,
+    options: req.options && typeof req.options === 'object' ? (req.options as Record<string, unknown>) : null,
+    stream: req.stream === true,
+    other: captureValue(capture, 'request.other', Object.fromEntries(
+      Object.entries(req).filter(([k]) => ![
+        'model', 'prompt', 'system', 'images', 'context', 'format', 'options', 'stream',
+      ].includes(k))
+    )) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Extract response data from a generate response.
+ */
+function extractResponse(resp: unknown): OllamaGenerateResponse {
+  const r = (resp ?? {}) as Record<string, unknown>;
+
+  return {
+    model: typeof r.model === 'string' ? r.model : null,
+    response: typeof r.response === 'string' ? r.response : null,
+    thinking: typeof r.thinking === 'string' && r.thinking ? r.thinking : null,
+    done_reason: typeof r.done_reason === 'string' ? r.done_reason : null,
+    context_length: Array.isArray(r.context) ? r.context.length : null,
+    usage: extractUsage(r),
+    metrics: extractMetrics(r),
+  };
+}
+
+/**
+ * Accumulated state of a streamed generate response.
+ */
+interface StreamState {
+  last: Record<string, unknown>;
+  response: string;
+  thinking: string;
+}
+
+/**
+ * Apply a single stream chunk to the accumulated state.
+ */
+function applyStreamChunk(state: StreamState, chunk: unknown): void {
+  const c = (chunk ?? {}) as Record<string, unknown>;
+
+  // The final chunk (done: true) carries the token counts and durations
+  state.last = c;
+  if (typeof c.response === 'string') {
+    state.response += c.response;
+  }
+  if (typeof c.thinking === 'string') {
+    state.thinking += c.thinking;
+  }
+}
+
+/**
+ * Create a wrapped version of the generate method.
+ *
+ * Streamed calls are recorded when the stream ends, using the final chunk
+ * for token counts and durations.
+ */
+export function createWrappedGenerate(
+  originalGenerate: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return async function wrappedGenerate(...args: unknown[]): Promise<unknown> {
+    const spanId = randomUUID();
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = extractRequest(args[0], capture);
+
+    const record = (
+      responseInfo: OllamaGenerateResponse | null,
+      error: string | null,
+      chunkTimes: number[] | null = null,
+      consumption: StreamConsumption = 'complete'
+    ): void => {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: 'ollama',
+        api: 'generate',
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: null,
+      };
+
+      if (chunkTimes) {
+        event.streaming = computeStreamingMetrics(
+          started,
+          ended,
+          chunkTimes,
+          responseInfo?.usage?.completion_tokens ?? null,
+          consumption
+        );
+      }
+
+      applyTruncations(event, capture);
+      collector.recordEvent(event);
+    };
+
+    let resp: unknown;
+    try {
+      resp = await runInWrappedCall(() => originalGenerate(...args));
+    } catch (e) {
+      const err = e as Error;
+      record(null, `${err.name}: ${err.message}`);
+      throw e;
+    }
+
+    if (requestInfo.stream && isAsyncIterable(resp)) {
+      const state: StreamState = { last: {}, response: '', thinking: '' };
+
+      return wrapStream(resp, {
+        onChunk: (chunk) => applyStreamChunk(state, chunk),
+        onEnd: (e, chunkTimes, consumption) => {
+          const err = e as Error | null;
+          record(
+            extractResponse({ ...state.last, response: state.response, thinking: state.thinking }),
+            err ? `${err.name}: ${err.message}` : null,
+            chunkTimes,
+            consumption
+          );
+        },
+      });
+    }
+
+    record(extractResponse(resp), null);
+    return resp;
+  };
+}
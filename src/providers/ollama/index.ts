@@ -0,0 +1,13 @@
+/**
+ * Ollama provider instrumentation for aiobs.
+ * 
+ * Supports the `ollama` npm client:
+ * - chat (including stream: true)
+ * - generate (including stream: true)
+ * - embed
+ */
+
+export { wrapOllamaClient, createWrappedChat, type WrapOllamaOptions } from './chat.js';
+export { createWrappedGenerate } from './generate.js';
+export { createWrappedEmbed } from './embed.js';
+export * from './models/index.js';
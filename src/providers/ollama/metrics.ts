@@ -0,0 +1,66 @@
+/**
+ * Helpers for Ollama token counts and server timings.
+ *
+ * Ollama reports durations in nanoseconds on the final response (or the
+ * final chunk of a stream) alongside prompt_eval_count and eval_count.
+ */
+
+import type { OllamaMetrics, OllamaUsage } from './models/index.js';
+
+/**
+ * Convert a nanosecond duration to milliseconds with microsecond precision.
+ */
+function nsToMs(value: unknown): number | null {
+  return typeof value === 'number' ? Math.round(value / 1000) / 1000 : null;
+}
+
+/**
+ * Extract server timing statistics from an Ollama response.
+ */
+export function extractMetrics(r: Record<string, unknown>): OllamaMetrics | null {
+  const evalCount = typeof r.eval_count === 'number' ? r.eval_count : null;
+  const evalDuration = typeof r.eval_duration === 'number' ? r.eval_duration : null;
+
+  const metrics: OllamaMetrics = {
+    total_duration_ms: nsToMs(r.total_duration),
+    load_duration_ms: nsToMs(r.load_duration),
+    prompt_eval_duration_ms: nsToMs(r.prompt_eval_duration),
+    eval_duration_ms: nsToMs(evalDuration),
+    prompt_eval_count: typeof r.prompt_eval_count === 'number' ? r.prompt_eval_count : null,
+    eval_count: evalCount,
+    eval_tokens_per_second: evalCount !== null && evalDuration
+      ? Math.round((evalCount / (evalDuration / 1e9)) * 1000) / 1000
+      : null,
+  };
+
+  return Object.values(metrics).some((v) => v !== null) ? metrics : null;
+}
+
+/**
+ * Extract token usage from an Ollama response.
+ *
+ * Ollama omits prompt_eval_count when the prompt was cached, so total_tokens
+ * is left null unless both counts are present. Embed responses (hasOutput:
+ * false) have no output tokens, so their prompt count is the total.
+ */
+export function extractUsage(r: Record<string, unknown>, hasOutput = true): OllamaUsage | null {
+  const prompt = typeof r.prompt_eval_count === 'number' ? r.prompt_eval_count : null;
+  const completion = hasOutput && typeof r.eval_count === 'number' ? r.eval_count : null;
+
+  if (prompt === null && completion === null) {
+    return null;
+  }
+
+  let total: number | null = null;
+  if (!hasOutput) {
+    total = prompt;
+  } else if (prompt !== null && completion !== null) {
+    total = prompt + completion;
+  }
+
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: total,
+  };
+}
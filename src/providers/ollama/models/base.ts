@@ -0,0 +1,38 @@
+/**
+ * Base models for Ollama request/response capture.
+ */
+
+export interface BaseOllamaRequest {
+  model: string | null;
+}
+
+/**
+ * Token counts from prompt_eval_count and eval_count; total_tokens is null
+ * when either is missing (e.g. prompt_eval_count on a cached prompt).
+ */
+export interface OllamaUsage extends Record<string, unknown> {
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+}
+
+/**
+ * Timing statistics reported by the Ollama server, converted from
+ * nanoseconds to milliseconds.
+ */
+export interface OllamaMetrics {
+  total_duration_ms: number | null;
+  load_duration_ms: number | null;
+  prompt_eval_duration_ms: number | null;
+  eval_duration_ms: number | null;
+  prompt_eval_count: number | null;
+  eval_count: number | null;
+  /** Generation speed measured by the server (eval_count / eval_duration) */
+  eval_tokens_per_second: number | null;
+}
+
+export interface BaseOllamaResponse {
+  model: string | null;
+  usage: OllamaUsage | null;
+  metrics: OllamaMetrics | null;
+}
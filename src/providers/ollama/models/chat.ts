@@ -0,0 +1,29 @@
+/**
+ * Models for Ollama chat API capture.
+ */
+
+import type { BaseOllamaRequest, BaseOllamaResponse } from './base.js';
+
+export interface OllamaMessage {
+  role: string;
+  content: unknown;
+  /** Number of attached images; image data is not captured */
+  image_count?: number;
+}
+
+export interface OllamaChatRequest extends BaseOllamaRequest {
+  messages: OllamaMessage[] | null;
+  tools: Array<Record<string, unknown>> | null;
+  format: unknown | null;
+  options: Record<string, unknown> | null;
+  stream: boolean;
+  other: Record<string, unknown>;
+}
+
+export interface OllamaChatResponse extends BaseOllamaResponse {
+  role: string | null;
+  content: string | null;
+  thinking: string | null;
+  tool_calls: Array<Record<string, unknown>> | null;
+  done_reason: string | null;
+}
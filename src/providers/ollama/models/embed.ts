@@ -0,0 +1,18 @@
+/**
+ * Models for Ollama embed API capture.
+ */
+
+import type { BaseOllamaRequest, BaseOllamaResponse } from './base.js';
+
+export interface OllamaEmbedRequest extends BaseOllamaRequest {
+  input: string | string[] | null;
+  truncate: boolean | null;
+  dimensions: number | null;
+  options: Record<string, unknown> | null;
+  other: Record<string, unknown>;
+}
+
+export interface OllamaEmbedResponse extends BaseOllamaResponse {
+  embedding_count: number | null;
+  embedding_dimensions: number | null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Models for Ollama generate API capture.
+ */
+
+import type { BaseOllamaRequest, BaseOllamaResponse } from './base.js';
+
+export interface OllamaGenerateRequest extends BaseOllamaRequest {
+  prompt: string | null;
+  system: string | null;
+  /** Number of images attached; image data is not captured */
+  image_count: number | null;
+  format: unknown | null;
+  options: Record<string, unknown> | null;
+  stream: boolean;
+  other: Record<string, unknown>;
+}
+
+export interface OllamaGenerateResponse extends BaseOllamaResponse {
+  response: string | null;
+  thinking: string | null;
+  done_reason: string | null;
+  /** Length of the returned context array; the token ids are not captured */
+  context_length: number | null;
+}
@@ -0,0 +1,4 @@
+export * from './base.js';
+export * from './chat.js';
+export * from './generate.js';
+export * from './embed.js';
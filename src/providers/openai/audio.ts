@@ -0,0 +1,263 @@
+/**
+ * OpenAI Audio API instrumentation.
+ *
+ * Uses Proxy to wrap the OpenAI client and intercept audio.transcriptions.create
+ * and audio.speech.create calls. Uploaded audio is summarized and generated
+ * speech is described by its HTTP metadata; audio bytes are never captured.
+ */
+
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite, HttpInfo } from '../../models/observability.js';
+import type {
+  BaseOpenAIRequest,
+  OpenAIBackend,
+  TranscriptionRequest,
+  TranscriptionResponse,
+  SpeechRequest,
+  SpeechResponse,
+} from './models/index.js';
+import { summarizeUpload } from './images.js';
+import { DEFAULT_OPENAI_BACKEND, applyBackend } from './backend.js';
+import { startProviderSpan } from '../span.js';
+import { observeAPICall } from '../api-promise.js';
+import { applyTruncations, captureValue, createCaptureScope, type CaptureConfig, type CaptureScope } from '../../capture.js';
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    // Skip first few frames (Error, getCallsite, wrapper function, etc.)
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and openai frames
+      if (line.includes('/aiobs-ts/') || line.includes('/openai/') || line.includes('node_modules')) {
+        continue;
+      }
+
+      // Parse stack frame: "    at functionName (file:line:column)"
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors in callsite extraction
+  }
+  return null;
+}
+
+/**
+ * Extract request data from audio.transcriptions.create call arguments.
+ */
+function extractTranscriptionRequest(args: unknown, capture: CaptureScope): TranscriptionRequest {
+  const req = (args ?? {}) as Record<string, unknown>;
+
+  return {
+    model: typeof req.model === 'string' ? req.model : null,
+    file: summarizeUpload(req.file),
+    language: typeof req.language === 'string' ? req.language : null,
+    prompt: typeof req.prompt === 'string' ? req.prompt : null,
+    response_format: typeof req.response_format === 'string' ? req.response_format : null,
+    temperature: typeof req.temperature === 'number' ? req.temperature : null,
+    other: captureValue(capture, 'request.other', Object.fromEntries(
+      Object.entries(req).filter(([k]) => ![
+        'model', 'file', 'language', 'prompt', 'response_format', 'temperature',
+      ].includes(k))
+    )) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Extract response data from a transcription.
+ *
+ * The text, srt and vtt response formats return a plain string.
+ */
+function extractTranscriptionResponse(resp: unknown): TranscriptionResponse {
+  if (typeof resp === 'string') {
+    return { text: resp, language: null, duration: null, segment_count: null, word_count: null, usage: null };
+  }
+
+  const r = (resp ?? {}) as Record<string, unknown>;
+
+  return {
+    text: typeof r.text === 'string' ? r.text : null,
+    language: typeof r.language === 'string' ? r.language : null,
+    duration: typeof r.duration === 'number' ? r.duration : null,
+    segment_count: Array.isArray(r.segments) ? r.segments.length : null,
+    word_count: Array.isArray(r.words) ? r.words.length : null,
+    usage: r.usage && typeof r.usage === 'object' ? (r.usage as Record<string, unknown>) : null,
+  };
+}
+
+/**
+ * Extract request data from audio.speech.create call arguments.
+ */
+function extractSpeechRequest(args: unknown, capture: CaptureScope): SpeechRequest {
+  const req = (args ?? {}) as Record<string, unknown>;
+
+  return {
+    model: typeof req.model === 'string' ? req.model : null,
+    input: typeof req.input === 'string' ? req.input : null,
+    voice: typeof req.voice === 'string' ? req.voice : null,
+    response_format: typeof req.response_format === 'string' ? req.response_format : null,
+    speed: typeof req.speed === 'number' ? req.speed : null,
+    instructions: typeof req.instructions === 'string' ? req.instructions : null,
+    other: captureValue(capture, 'request.other', Object.fromEntries(
+      Object.entries(req).filter(([k]) => ![
+        'model', 'input', 'voice', 'response_format', 'speed', 'instructions',
+      ].includes(k))
+    )) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Extract response metadata from a speech Response without reading its body.
+ */
+function extractSpeechResponse(resp: unknown): SpeechResponse {
+  const r = (resp ?? {}) as Record<string, unknown>;
+  const headers = r.headers as { get?: (name: string) => string | null } | undefined;
+
+  const header = (name: string): string | null => {
+    try {
+      return typeof headers?.get === 'function' ? headers.get(name) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const contentLength = header('content-length');
+
+  return {
+    status: typeof r.status === 'number' ? r.status : null,
+    content_type: header('content-type'),
+    content_length: contentLength !== null && contentLength !== '' ? Number(contentLength) : null,
+  };
+}
+
+/**
+ * Wrap the audio resource to intercept transcriptions and speech.
+ */
+export function wrapAudioResource<T extends object>(
+  audio: T,
+  collector: Collector,
+  backend: OpenAIBackend = DEFAULT_OPENAI_BACKEND,
+  capture?: CaptureConfig
+): T {
+  return new Proxy(audio, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      // Intercept transcriptions property access
+      if (prop === 'transcriptions' && value && typeof value === 'object') {
+        return wrapCreateResource(value as object, collector, backend, 'audio.transcriptions.create',
+          extractTranscriptionRequest, extractTranscriptionResponse, capture);
+      }
+
+      // Intercept speech property access
+      if (prop === 'speech' && value && typeof value === 'object') {
+        return wrapCreateResource(value as object, collector, backend, 'audio.speech.create',
+          extractSpeechRequest, extractSpeechResponse, capture);
+      }
+
+      return value;
+    },
+  });
+}
+
+/**
+ * Wrap an audio sub-resource to intercept its create method.
+ */
+function wrapCreateResource<T extends object>(
+  resource: T,
+  collector: Collector,
+  backend: OpenAIBackend,
+  api: string,
+  extractRequest: (args: unknown, capture: CaptureScope) => BaseOpenAIRequest,
+  extractResponse: (resp: unknown) => object,
+  capture?: CaptureConfig
+): T {
+  return new Proxy(resource, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      // Intercept create method
+      if (prop === 'create' && typeof value === 'function') {
+        return createWrappedAudioCreate(value.bind(target), collector, backend, api, extractRequest, extractResponse,
+          capture);
+      }
+
+      return value;
+    },
+  });
+}
+
+/**
+ * Create a wrapped version of an audio create method.
+ */
+function createWrappedAudioCreate(
+  originalCreate: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  backend: OpenAIBackend,
+  api: string,
+  extractRequest: (args: unknown, capture: CaptureScope) => BaseOpenAIRequest,
+  extractResponse: (resp: unknown) => object,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return function wrappedCreate(...args: unknown[]): Promise<unknown> {
+    const span = startProviderSpan(backend.provider, api);
+    const spanId = span.spanId;
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = applyBackend(extractRequest(args[0], capture), backend);
+
+    const record = (responseInfo: object | null, error: string | null, http: HttpInfo | null): void => {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: backend.provider,
+        api,
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: span.traceId,
+      };
+
+      if (http) {
+        event.http = http;
+      }
+
+      applyTruncations(event, capture);
+      span.end(event);
+      collector.recordEvent(event);
+    };
+
+    return observeAPICall(
+      () => span.run(() => originalCreate(...args)),
+      (resp, http) => {
+        record(extractResponse(resp), null, http);
+        return resp;
+      },
+      (e, http) => {
+        const err = e as Error;
+        record(null, `${err.name}: ${err.message}`, http);
+      }
+    );
+  };
+}
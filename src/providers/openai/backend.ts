@@ -0,0 +1,136 @@
+/**
+ * Detection of OpenAI-compatible backends.
+ *
+ * The openai SDK is also used against Azure OpenAI and other vendors that
+ * expose an OpenAI-compatible API. The client's baseURL (and Azure
+ * deployment / api-version settings) identify which backend a call went to.
+ */
+
+import type { BaseOpenAIRequest, OpenAIBackend } from './models/index.js';
+import type { CaptureConfig } from '../../capture.js';
+
+/**
+ * Options for wrapOpenAIClient.
+ */
+export interface WrapOpenAIOptions {
+  /** Provider name to record instead of the one detected from baseURL */
+  provider?: string;
+  /** Capture limits for this client, overriding the observer's */
+  capture?: CaptureConfig;
+}
+
+/**
+ * Backend assumed when the client configuration cannot be inspected.
+ */
+export const DEFAULT_OPENAI_BACKEND: OpenAIBackend = {
+  provider: 'openai',
+  base_url: null,
+  deployment: null,
+  api_version: null,
+};
+
+// Hostnames of known OpenAI-compatible vendors, matched by suffix
+const KNOWN_HOSTS: Array<[string, string]> = [
+  ['api.openai.com', 'openai'],
+  ['openai.azure.com', 'azure_openai'],
+  ['cognitiveservices.azure.com', 'azure_openai'],
+  ['services.ai.azure.com', 'azure_openai'],
+  ['api.groq.com', 'groq'],
+  ['api.together.xyz', 'together'],
+  ['api.together.ai', 'together'],
+  ['api.fireworks.ai', 'fireworks'],
+  ['api.deepseek.com', 'deepseek'],
+  ['api.mistral.ai', 'mistral'],
+  ['openrouter.ai', 'openrouter'],
+  ['api.x.ai', 'xai'],
+  ['api.perplexity.ai', 'perplexity'],
+  ['generativelanguage.googleapis.com', 'gemini'],
+  ['api.anthropic.com', 'anthropic'],
+];
+
+// Default ports of local OpenAI-compatible servers
+const LOCAL_PORTS: Record<string, string> = {
+  '11434': 'ollama',
+  '1234': 'lmstudio',
+  '8000': 'vllm',
+};
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '0.0.0.0', '[::1]'];
+
+/**
+ * Map a base URL to a provider name.
+ */
+function providerFromUrl(url: URL): string {
+  const host = url.hostname.toLowerCase();
+
+  for (const [suffix, provider] of KNOWN_HOSTS) {
+    if (host === suffix || host.endsWith(`.${suffix}`)) {
+      return provider;
+    }
+  }
+
+  if (LOCAL_HOSTS.includes(host)) {
+    return LOCAL_PORTS[url.port] ?? 'openai_compatible';
+  }
+
+  return 'openai_compatible';
+}
+
+/**
+ * Read a string property from the client, ignoring getters that throw.
+ */
+function readString(source: unknown, key: string): string | null {
+  try {
+    const value = (source as Record<string, unknown> | null)?.[key];
+    return typeof value === 'string' && value ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Detect the backend an OpenAI SDK client talks to.
+ */
+export function detectOpenAIBackend(client: object, options: WrapOpenAIOptions = {}): OpenAIBackend {
+  const baseUrl = readString(client, 'baseURL');
+
+  // AzureOpenAI keeps the deployment privately and the api-version as a default query param
+  const clientOptions = (client as Record<string, unknown>)._options as Record<string, unknown> | undefined;
+  const defaultQuery = clientOptions?.defaultQuery as Record<string, unknown> | undefined;
+  let apiVersion = readString(client, 'apiVersion') ?? readString(defaultQuery, 'api-version');
+  let deployment = readString(client, '_deployment') ?? readString(client, 'deploymentName');
+
+  let provider = 'openai';
+  if (baseUrl) {
+    try {
+      const url = new URL(baseUrl);
+      provider = providerFromUrl(url);
+      apiVersion = apiVersion ?? url.searchParams.get('api-version');
+      deployment = deployment ?? url.pathname.match(/\/deployments\/([^/]+)/)?.[1] ?? null;
+    } catch {
+      provider = 'openai_compatible';
+    }
+  }
+
+  // Azure-specific settings identify Azure even behind a custom domain or gateway
+  if (apiVersion !== null || deployment !== null) {
+    provider = 'azure_openai';
+  }
+
+  return {
+    provider: options.provider ?? provider,
+    base_url: baseUrl,
+    deployment,
+    api_version: apiVersion,
+  };
+}
+
+/**
+ * Attach backend details to a captured request when the call did not go to OpenAI.
+ */
+export function applyBackend<T extends BaseOpenAIRequest>(request: T, backend: OpenAIBackend): T {
+  if (backend.provider !== 'openai') {
+    request.backend = backend;
+  }
+  return request;
+}
@@ -0,0 +1,525 @@
+/**
+ * OpenAI beta chat completion helpers instrumentation.
+ *
+ * Wraps beta.chat.completions.parse, .runTools and .stream. parse is recorded
+ * like a chat completion plus the parsed output. The runner helpers are
+ * recorded when the runner ends; for runTools each model round trip and each
+ * tool invocation is recorded as a child event.
+ */
+
+import { randomUUID } from 'crypto';
+import { SpanStatusCode, context, trace } from '@opentelemetry/api';
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite, FunctionEvent, HttpInfo } from '../../models/observability.js';
+import type {
+  ChatCompletionsRunResponse,
+  OpenAIBackend,
+  ParsedChatCompletionsResponse,
+} from './models/index.js';
+import { collectToolCalls, extractRequest, extractResponse } from './chat-completions.js';
+import { applyBackend } from './backend.js';
+import { observeAPICall } from '../api-promise.js';
+import { computeStreamingMetrics } from '../stream.js';
+import { startProviderSpan } from '../span.js';
+import { runOutsideWrappedCall } from '../context.js';
+import { claimToolCall, registerToolCalls } from '../tools.js';
+import { getTracer } from '../../tracer.js';
+import { applyTruncations, captureValue, createCaptureScope, type CaptureConfig } from '../../capture.js';
+
+type RunnerApi = 'beta.chat.completions.runTools' | 'beta.chat.completions.stream';
+
+/**
+ * The parts of an SDK ChatCompletionRunner / ChatCompletionStream the wrapper relies on.
+ */
+interface RunnerLike {
+  on(event: string, listener: (...args: unknown[]) => void): unknown;
+  done(): Promise<void>;
+  readonly errored: boolean;
+  readonly aborted: boolean;
+}
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    // Skip first few frames (Error, getCallsite, wrapper function, etc.)
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and openai frames
+      if (line.includes('/aiobs-ts/') || line.includes('/openai/') || line.includes('node_modules')) {
+        continue;
+      }
+
+      // Parse stack frame: "    at functionName (file:line:column)"
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors in callsite extraction
+  }
+  return null;
+}
+
+/**
+ * Check whether a value is an SDK runner (an EventStream).
+ */
+function isRunner(value: unknown): value is RunnerLike {
+  const runner = value as Record<string, unknown> | null;
+  return !!runner && typeof runner.on === 'function' && typeof runner.done === 'function';
+}
+
+/**
+ * Extract response data, including the parsed output, from a (parsed) chat completion.
+ */
+function extractParsedResponse(resp: unknown): ParsedChatCompletionsResponse {
+  const choices = ((resp ?? {}) as Record<string, unknown>).choices;
+  const message = (Array.isArray(choices) && choices.length > 0
+    ? ((choices[0] ?? {}) as Record<string, unknown>).message ?? {}
+    : {}) as Record<string, unknown>;
+
+  return {
+    ...extractResponse(resp ?? {}),
+    parsed: message.parsed ?? null,
+  };
+}
+
+/**
+ * Wrap the beta resource to intercept the chat completion helpers.
+ *
+ * client is the wrapped OpenAI client; runTools makes its model calls
+ * through it so each round trip is recorded.
+ */
+export function wrapBetaResource<T extends object>(
+  beta: T,
+  collector: Collector,
+  backend: OpenAIBackend,
+  client: object,
+  capture?: CaptureConfig
+): T {
+  return new Proxy(beta, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      if (prop === 'chat' && value && typeof value === 'object') {
+        return new Proxy(value as object, {
+          get(chatTarget, chatProp, chatReceiver) {
+            const chatValue = Reflect.get(chatTarget, chatProp, chatReceiver);
+            if (chatProp === 'completions' && chatValue && typeof chatValue === 'object') {
+              return wrapBetaCompletionsResource(chatValue as object, collector, backend, client, capture);
+            }
+            return chatValue;
+          },
+        });
+      }
+
+      return value;
+    },
+  });
+}
+
+/**
+ * Wrap the beta chat completions resource to intercept parse, runTools and stream.
+ */
+function wrapBetaCompletionsResource<T extends object>(
+  completions: T,
+  collector: Collector,
+  backend: OpenAIBackend,
+  client: object,
+  capture?: CaptureConfig
+): T {
+  return new Proxy(completions, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      if (prop === 'parse' && typeof value === 'function') {
+        return createWrappedParse(value.bind(target), collector, backend, capture);
+      }
+
+      if (prop === 'stream' && typeof value === 'function') {
+        return createWrappedRunner(value.bind(target), collector, backend, 'beta.chat.completions.stream', capture);
+      }
+
+      // Bound to the proxy so the helper reads the wrapped client below; runTools
+      // takes no client argument and makes its requests through this._client
+      // (openai v4, checked against 4.104)
+      if (prop === 'runTools' && typeof value === 'function') {
+        return createWrappedRunner(
+          value.bind(receiver),
+          collector,
+          backend,
+          'beta.chat.completions.runTools',
+          capture
+        );
+      }
+
+      if (prop === '_client' && value && typeof value === 'object') {
+        return client;
+      }
+
+      return value;
+    },
+  });
+}
+
+/**
+ * Create a wrapped version of the parse method.
+ *
+ * The event response carries the parsed output; parse failures (invalid JSON,
+ * length limits, content filters) are recorded as the event error.
+ */
+function createWrappedParse(
+  originalParse: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  backend: OpenAIBackend,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return function wrappedParse(...args: unknown[]): Promise<unknown> {
+    const api = 'beta.chat.completions.parse';
+    const span = startProviderSpan(backend.provider, api);
+    const spanId = span.spanId;
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = applyBackend(extractRequest(args[0], collector, capture), backend);
+
+    const record = (responseInfo: ParsedChatCompletionsResponse | null, error: string | null, http: HttpInfo | null): void => {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: backend.provider,
+        api,
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: span.traceId,
+      };
+
+      if (http) {
+        event.http = http;
+      }
+      applyTruncations(event, capture);
+
+      span.end(event);
+      collector.recordEvent(event);
+      registerToolCalls(collector, span, collectToolCalls(responseInfo));
+    };
+
+    const onData = (resp: unknown, http: HttpInfo | null): unknown => {
+      record(extractParsedResponse(resp), null, http);
+      return resp;
+    };
+
+    const onError = (e: unknown, http: HttpInfo | null): void => {
+      const err = e as Error;
+      record(null, `${err.name}: ${err.message}`, http);
+    };
+
+    return observeAPICall(() => span.run(() => originalParse(...args)), onData, onError);
+  };
+}
+
+/**
+ * Create a wrapped version of a runner helper (runTools or stream).
+ *
+ * The helper returns a runner synchronously; its events are observed and the
+ * event is recorded once the runner ends, with the final aggregated completion.
+ */
+function createWrappedRunner(
+  originalMethod: (...args: unknown[]) => unknown,
+  collector: Collector,
+  backend: OpenAIBackend,
+  api: RunnerApi,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => unknown {
+  return function wrappedRunner(...args: unknown[]): unknown {
+    const span = startProviderSpan(backend.provider, api);
+    const spanId = span.spanId;
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const body = (args[0] ?? {}) as Record<string, unknown>;
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = applyBackend(extractRequest(body, collector, capture), backend);
+    const isRunTools = api === 'beta.chat.completions.runTools';
+    const isStream = !isRunTools || body.stream === true;
+
+    const record = (
+      responseInfo: ParsedChatCompletionsResponse | ChatCompletionsRunResponse | null,
+      error: string | null,
+      chunkTimes: number[] | null = null
+    ): void => {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: backend.provider,
+        api,
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: span.traceId,
+      };
+
+      if (chunkTimes) {
+        const outputTokens = responseInfo?.usage?.completion_tokens;
+        event.streaming = computeStreamingMetrics(
+          started,
+          ended,
+          chunkTimes,
+          typeof outputTokens === 'number' ? outputTokens : null
+        );
+      }
+      applyTruncations(event, capture);
+
+      span.end(event);
+      collector.recordEvent(event);
+      // runTools round trips register their own tool calls
+      if (!isRunTools) {
+        registerToolCalls(collector, span, collectToolCalls(responseInfo));
+      }
+    };
+
+    const callArgs = isRunTools ? [wrapTools(body, collector, captureConfig), ...args.slice(1)] : args;
+    let runner: unknown;
+    try {
+      runner = span.run(() => originalMethod(...callArgs));
+    } catch (e) {
+      const err = e as Error;
+      record(null, `${err.name}: ${err.message}`);
+      throw e;
+    }
+
+    if (!isRunner(runner)) {
+      record(null, null);
+      return runner;
+    }
+    const observed = runner;
+
+    let lastCompletion: unknown = null;
+    let lastSnapshot: unknown = null;
+    let totalUsage: Record<string, unknown> | null = null;
+    let roundTrips = 0;
+    let toolInvocations = 0;
+    const chunkTimes: number[] = [];
+
+    observed.on('chatCompletion', (completion) => {
+      lastCompletion = completion;
+      roundTrips++;
+    });
+    observed.on('functionCallResult', () => {
+      toolInvocations++;
+    });
+    observed.on('totalUsage', (usage) => {
+      totalUsage = (usage ?? null) as Record<string, unknown> | null;
+    });
+    observed.on('chunk', (_chunk, snapshot) => {
+      chunkTimes.push(Date.now() / 1000);
+      lastSnapshot = snapshot;
+    });
+    const finish = (e: unknown): void => {
+      try {
+        const err = e as Error | null;
+        let error: string | null = null;
+        if (err) {
+          error = `${err.name}: ${err.message}`;
+        } else if (observed.aborted) {
+          error = 'APIUserAbortError: Request was aborted.';
+        } else if (observed.errored) {
+          error = 'OpenAIError: Runner ended with an error';
+        }
+        const completion = lastCompletion ?? lastSnapshot;
+        const parsed = completion ? extractParsedResponse(completion) : null;
+
+        const responseInfo = isRunTools && parsed
+          ? {
+              ...parsed,
+              // Round trip events carry per-call usage; the total is reported separately
+              usage: null,
+              usage_details: null,
+              round_trips: roundTrips,
+              tool_invocations: toolInvocations,
+              total_usage: totalUsage,
+            }
+          : parsed;
+
+        record(responseInfo, error, isStream ? chunkTimes : null);
+      } catch {
+        // Never let instrumentation break the caller's runner
+      }
+    };
+
+    observed.on('end', () => {
+      if (!observed.errored && !observed.aborted) {
+        finish(null);
+        return;
+      }
+      // An 'error' listener would swallow the SDK's unhandled rejection for runs the
+      // caller never handles; by 'end' that has been decided, so done() can read the error
+      observed.done().then(
+        () => finish(null),
+        (e) => finish(e ?? null)
+      );
+    });
+
+    return runner;
+  };
+}
+
+/**
+ * Wrap the tool functions in runTools params so each invocation is recorded.
+ */
+function wrapTools(
+  body: Record<string, unknown>,
+  collector: Collector,
+  captureConfig?: CaptureConfig
+): Record<string, unknown> {
+  if (!Array.isArray(body.tools)) {
+    return body;
+  }
+  return { ...body, tools: body.tools.map((tool: unknown) => wrapTool(tool, collector, captureConfig)) };
+}
+
+/**
+ * Wrap the function of a single runTools tool.
+ */
+function wrapTool(tool: unknown, collector: Collector, captureConfig?: CaptureConfig): unknown {
+  if (!tool || typeof tool !== 'object') {
+    return tool;
+  }
+  const t = tool as Record<string, unknown>;
+  const fn = (t.function ?? {}) as Record<string, unknown>;
+
+  // Auto-parseable tools (zodFunction) keep their callback in non-enumerable properties
+  if (typeof t.$callback === 'function') {
+    const callback = t.$callback as (...args: unknown[]) => unknown;
+    const name = typeof fn.name === 'string' ? fn.name : callback.name;
+    const descriptors = Object.getOwnPropertyDescriptors(t);
+    descriptors.$callback = { ...descriptors.$callback, value: wrapToolFunction(callback, name, collector, captureConfig) };
+    return Object.create(Object.getPrototypeOf(t), descriptors);
+  }
+
+  if (typeof fn.function === 'function') {
+    const callback = fn.function as (...args: unknown[]) => unknown;
+    const name = typeof fn.name === 'string' && fn.name ? fn.name : callback.name;
+    return { ...t, function: { ...fn, function: wrapToolFunction(callback, name, collector, captureConfig) } };
+  }
+
+  return tool;
+}
+
+/**
+ * Wrap a tool function to record each invocation as a function event in its own span.
+ *
+ * The invocation claims the model tool call with the same name, linking it to
+ * the round trip that requested it.
+ */
+function wrapToolFunction(
+  fn: (...args: unknown[]) => unknown,
+  name: string,
+  collector: Collector,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => unknown {
+  const wrapped = function (this: unknown, ...args: unknown[]): unknown {
+    const parentSpanId = collector.getCurrentSpanId();
+    const toolCall = claimToolCall(collector, name);
+    const span = getTracer().startSpan(`execute_tool ${name}`, {
+      attributes: {
+        'gen_ai.operation.name': 'execute_tool',
+        'gen_ai.tool.name': name,
+        ...(toolCall?.id && { 'gen_ai.tool.call.id': toolCall.id }),
+      },
+    });
+    const ctx = span.spanContext();
+    const valid = trace.isSpanContextValid(ctx);
+    const started = Date.now() / 1000;
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+
+    const record = (result: unknown, e: unknown): void => {
+      const ended = Date.now() / 1000;
+      let errorMsg: string | null = null;
+      if (e) {
+        const err = e as Error;
+        errorMsg = `${err.name}: ${err.message}`;
+        span.setStatus({ code: SpanStatusCode.ERROR, message: errorMsg });
+      }
+      span.end();
+
+      const event: FunctionEvent = {
+        provider: 'function',
+        api: name,
+        name,
+        module: 'openai',
+        // The runner passes the parsed arguments first and itself second
+        args: [captureValue(capture, 'args[0]', args[0])],
+        kwargs: null,
+        result: errorMsg === null ? captureValue(capture, 'result', result) : null,
+        error: errorMsg,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        callsite: null,
+        span_id: valid ? ctx.spanId : randomUUID(),
+        parent_span_id: parentSpanId,
+        trace_id: valid ? ctx.traceId : null,
+        enh_prompt: false,
+        enh_prompt_id: null,
+        auto_enhance_after: null,
+        ...(toolCall && { tool_call_id: toolCall.id, tool_call_span_id: toolCall.span_id }),
+      };
+      applyTruncations(event, capture);
+      collector.recordEvent(event);
+    };
+
+    let result: unknown;
+    try {
+      // Tool code is the caller's, so its own requests are not treated as part of the wrapped call
+      result = context.with(trace.setSpan(context.active(), span), () =>
+        runOutsideWrappedCall(() => fn.apply(this, args))
+      );
+    } catch (e) {
+      record(null, e);
+      throw e;
+    }
+
+    if (result && typeof (result as PromiseLike<unknown>).then === 'function') {
+      return (result as Promise<unknown>).then(
+        (value) => {
+          record(value, null);
+          return value;
+        },
+        (e) => {
+          record(null, e);
+          throw e;
+        }
+      );
+    }
+    record(result, null);
+    return result;
+  };
+
+  Object.defineProperty(wrapped, 'name', { value: name });
+  return wrapped;
+}
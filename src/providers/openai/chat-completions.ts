@@ -1,14 +1,32 @@
 /**
  * OpenAI Chat Completions API instrumentation.
  * 
- * Uses Proxy to wrap the OpenAI client and intercept chat.completions.create calls.
+ * Uses Proxy to wrap the OpenAI client and intercept chat.completions.create calls,
+ * including streamed responses (stream: true).
  */
 
-import { randomUUID } from 'crypto';
 import type { Collector } from '../../collector.js';
-import type { Event, Callsite } from '../../models/observability.js';
-import type { ChatCompletionsRequest, ChatCompletionsResponse, Message } from './models/index.js';
+import type { Event, Callsite, HttpInfo, ToolCall, ToolDefinition, ToolResult, StreamConsumption } from '../../models/observability.js';
+import type {
+  ChatCompletionChoice,
+  ChatCompletionsRequest,
+  ChatCompletionsResponse,
+  ChatCompletionsUsageDetails,
+  LogprobsSummary,
+  Message,
+  OpenAIBackend,
+} from './models/index.js';
 import { wrapEmbeddingsResource } from './embeddings.js';
+import { wrapResponsesResource } from './responses.js';
+import { wrapImagesResource } from './images.js';
+import { wrapAudioResource } from './audio.js';
+import { wrapBetaResource } from './beta.js';
+import { applyBackend, detectOpenAIBackend, type WrapOpenAIOptions } from './backend.js';
+import { computeStreamingMetrics, isAsyncIterable, wrapStream } from '../stream.js';
+import { startProviderSpan } from '../span.js';
+import { observeAPICall } from '../api-promise.js';
+import { findToolCallSpan, parseToolArguments, registerToolCalls } from '../tools.js';
+import { applyTruncations, captureList, createCaptureScope, type CaptureConfig, type CaptureScope } from '../../capture.js';
 
 /**
  * Get callsite information from the call stack.
@@ -43,16 +61,54 @@ function getCallsite(): Callsite | null {
   return null;
 }
 
+/**
+ * Extract tool definitions from the tools (or legacy functions) parameter.
+ */
+function extractTools(req: Record<string, unknown>): ToolDefinition[] | null {
+  const tools = Array.isArray(req.tools) ? req.tools : Array.isArray(req.functions) ? req.functions : null;
+  if (!tools) {
+    return null;
+  }
+  return tools.map((t: unknown) => {
+    const tool = (t ?? {}) as Record<string, unknown>;
+    // Legacy functions are not nested under 'function'
+    const fn = (tool.function ?? tool) as Record<string, unknown>;
+    return {
+      name: typeof fn.name === 'string' ? fn.name : null,
+      description: typeof fn.description === 'string' ? fn.description : null,
+      parameters: fn.parameters ?? null,
+    };
+  });
+}
+
+/**
+ * Extract the results of earlier tool calls from 'tool' role messages.
+ */
+function extractToolResults(messages: unknown[], collector: Collector): ToolResult[] | null {
+  const results = messages
+    .map((m) => (m ?? {}) as Record<string, unknown>)
+    .filter((msg) => msg.role === 'tool' || msg.role === 'function')
+    .map((msg) => {
+      const toolCallId = typeof msg.tool_call_id === 'string' ? msg.tool_call_id : null;
+      return {
+        tool_call_id: toolCallId,
+        name: typeof msg.name === 'string' ? msg.name : null,
+        content: msg.content ?? null,
+        tool_call_span_id: findToolCallSpan(collector, toolCallId),
+      };
+    });
+  return results.length > 0 ? results : null;
+}
+
 /**
  * Extract request data from chat completions call arguments.
  */
-function extractRequest(args: unknown): ChatCompletionsRequest {
+export function extractRequest(args: unknown, collector: Collector, capture: CaptureScope): ChatCompletionsRequest {
   const req = (args ?? {}) as Record<string, unknown>;
   
   let messages: Message[] | null = null;
   if (Array.isArray(req.messages)) {
-    // Only capture first 3 messages for brevity
-    messages = req.messages.slice(0, 3).map((m: unknown) => {
+    messages = captureList(capture, 'request.messages', req.messages).map((m: unknown) => {
       const msg = m as Record<string, unknown>;
       return {
         role: String(msg.role ?? ''),
@@ -66,27 +122,117 @@ function extractRequest(args: unknown): ChatCompletionsRequest {
     messages,
     temperature: typeof req.temperature === 'number' ? req.temperature : null,
     max_tokens: typeof req.max_tokens === 'number' ? req.max_tokens : null,
+    tools: extractTools(req),
+    // Tool results can appear anywhere in the conversation, so all messages are scanned
+    tool_results: Array.isArray(req.messages) ? extractToolResults(req.messages, collector) : null,
     other: Object.fromEntries(
-      Object.entries(req).filter(([k]) => !['model', 'messages', 'temperature', 'max_tokens'].includes(k))
+      Object.entries(req).filter(([k]) => !['model', 'messages', 'temperature', 'max_tokens', 'tools', 'functions'].includes(k))
     ),
   };
 }
 
+/**
+ * Summarize token logprobs (logprobs.content, or logprobs.refusal for refusals).
+ */
+function summarizeLogprobs(logprobs: unknown): LogprobsSummary | null {
+  const lp = (logprobs ?? {}) as Record<string, unknown>;
+  const tokens = Array.isArray(lp.content) ? lp.content : Array.isArray(lp.refusal) ? lp.refusal : null;
+  if (!tokens) {
+    return null;
+  }
+  
+  let sum = 0;
+  let count = 0;
+  let min: number | null = null;
+  let minToken: string | null = null;
+  for (const t of tokens) {
+    const token = (t ?? {}) as Record<string, unknown>;
+    if (typeof token.logprob !== 'number') {
+      continue;
+    }
+    sum += token.logprob;
+    count++;
+    if (min === null || token.logprob < min) {
+      min = token.logprob;
+      minToken = typeof token.token === 'string' ? token.token : null;
+    }
+  }
+  
+  return {
+    token_count: count,
+    avg_logprob: count > 0 ? sum / count : null,
+    min_logprob: min,
+    min_token: minToken,
+  };
+}
+
+/**
+ * Extract a single choice from a chat completions response.
+ */
+function extractChoice(rawChoice: unknown, position: number): ChatCompletionChoice {
+  const choice = (rawChoice ?? {}) as Record<string, unknown>;
+  const message = (choice.message ?? {}) as Record<string, unknown>;
+  
+  let toolCalls: ToolCall[] | null = null;
+  if (Array.isArray(message.tool_calls) && message.tool_calls.length > 0) {
+    toolCalls = message.tool_calls.map((c: unknown) => {
+      const call = (c ?? {}) as Record<string, unknown>;
+      const fn = (call.function ?? {}) as Record<string, unknown>;
+      return {
+        id: typeof call.id === 'string' ? call.id : null,
+        name: typeof fn.name === 'string' ? fn.name : null,
+        arguments: parseToolArguments(fn.arguments),
+      };
+    });
+  }
+  
+  return {
+    index: typeof choice.index === 'number' ? choice.index : position,
+    text: typeof message.content === 'string' ? message.content : null,
+    refusal: typeof message.refusal === 'string' ? message.refusal : null,
+    finish_reason: typeof choice.finish_reason === 'string' ? choice.finish_reason : null,
+    tool_calls: toolCalls,
+    logprobs: summarizeLogprobs(choice.logprobs),
+  };
+}
+
+/**
+ * Extract cached, reasoning, audio and prediction token counts from usage.
+ */
+function extractUsageDetails(usage: Record<string, unknown> | null): ChatCompletionsUsageDetails | null {
+  if (!usage) {
+    return null;
+  }
+  const prompt = (usage.prompt_tokens_details ?? {}) as Record<string, unknown>;
+  const completion = (usage.completion_tokens_details ?? {}) as Record<string, unknown>;
+  const num = (value: unknown): number | null => (typeof value === 'number' ? value : null);
+  
+  const details: ChatCompletionsUsageDetails = {
+    cached_tokens: num(prompt.cached_tokens),
+    reasoning_tokens: num(completion.reasoning_tokens),
+    audio_input_tokens: num(prompt.audio_tokens),
+    audio_output_tokens: num(completion.audio_tokens),
+    accepted_prediction_tokens: num(completion.accepted_prediction_tokens),
+    rejected_prediction_tokens: num(completion.rejected_prediction_tokens),
+  };
+  return Object.values(details).some((v) => v !== null) ? details : null;
+}
+
 /**
  * Extract response data from chat completions response.
  */
-function extractResponse(resp: unknown): ChatCompletionsResponse {
+export function extractResponse(resp: unknown): ChatCompletionsResponse {
   const r = resp as Record<string, unknown>;
   
-  let text: string | null = null;
+  let choices: ChatCompletionChoice[] | null = null;
   try {
-    const choices = r.choices as Array<{ message?: { content?: string } }> | undefined;
-    if (choices && choices.length > 0 && choices[0].message) {
-      text = choices[0].message.content ?? null;
+    if (Array.isArray(r.choices) && r.choices.length > 0) {
+      choices = r.choices.map((choice: unknown, i: number) => extractChoice(choice, i));
     }
   } catch {
     // Ignore extraction errors
   }
+  const first = choices?.[0] ?? null;
   
   let usage: Record<string, unknown> | null = null;
   if (r.usage && typeof r.usage === 'object') {
@@ -97,26 +243,204 @@ function extractResponse(resp: unknown): ChatCompletionsResponse {
     id: typeof r.id === 'string' ? r.id : null,
     model: typeof r.model === 'string' ? r.model : null,
     usage,
-    text,
+    text: first?.text ?? null,
+    refusal: first?.refusal ?? null,
+    finish_reason: first?.finish_reason ?? null,
+    tool_calls: first?.tool_calls ?? null,
+    choices,
+    usage_details: extractUsageDetails(usage),
+  };
+}
+
+/**
+ * Collect the tool calls of every choice, since with n > 1 each choice can request tools.
+ */
+export function collectToolCalls(response: ChatCompletionsResponse | null): ToolCall[] | null {
+  return response?.choices?.flatMap((choice) => choice.tool_calls ?? []) ?? null;
+}
+
+/**
+ * Accumulated state of a single streamed choice.
+ */
+interface StreamChoiceState {
+  role: string | null;
+  content: string | null;
+  refusal: string | null;
+  /** Token logprobs collected from logprobs.content / logprobs.refusal */
+  logprobs: { content: unknown[]; refusal: unknown[] } | null;
+  toolCalls: Map<number, { id: string | null; type: string; name: string; arguments: string }>;
+  finishReason: string | null;
+}
+
+/**
+ * Accumulated state of a streamed chat completion.
+ */
+interface StreamState {
+  id: string | null;
+  model: string | null;
+  choices: Map<number, StreamChoiceState>;
+  usage: Record<string, unknown> | null;
+}
+
+/**
+ * Apply a single chat.completion.chunk to the accumulated stream state.
+ */
+function applyStreamChunk(state: StreamState, chunk: unknown): void {
+  const c = (chunk ?? {}) as Record<string, unknown>;
+  
+  if (typeof c.id === 'string') {
+    state.id = c.id;
+  }
+  if (typeof c.model === 'string') {
+    state.model = c.model;
+  }
+  // Only present on the final chunk when stream_options.include_usage is set
+  if (c.usage && typeof c.usage === 'object') {
+    state.usage = c.usage as Record<string, unknown>;
+  }
+  
+  if (!Array.isArray(c.choices)) {
+    return;
+  }
+  
+  for (const rawChoice of c.choices) {
+    const choice = (rawChoice ?? {}) as Record<string, unknown>;
+    const index = typeof choice.index === 'number' ? choice.index : 0;
+    
+    let choiceState = state.choices.get(index);
+    if (!choiceState) {
+      choiceState = { role: null, content: null, refusal: null, logprobs: null, toolCalls: new Map(), finishReason: null };
+      state.choices.set(index, choiceState);
+    }
+    
+    const delta = (choice.delta ?? {}) as Record<string, unknown>;
+    if (typeof delta.role === 'string') {
+      choiceState.role = delta.role;
+    }
+    if (typeof delta.content === 'string') {
+      choiceState.content = (choiceState.content ?? '') + delta.content;
+    }
+    if (typeof delta.refusal === 'string') {
+      choiceState.refusal = (choiceState.refusal ?? '') + delta.refusal;
+    }
+    const logprobs = (choice.logprobs ?? {}) as Record<string, unknown>;
+    if (Array.isArray(logprobs.content) || Array.isArray(logprobs.refusal)) {
+      choiceState.logprobs ??= { content: [], refusal: [] };
+      choiceState.logprobs.content.push(...(Array.isArray(logprobs.content) ? logprobs.content : []));
+      choiceState.logprobs.refusal.push(...(Array.isArray(logprobs.refusal) ? logprobs.refusal : []));
+    }
+    if (Array.isArray(delta.tool_calls)) {
+      for (const rawCall of delta.tool_calls) {
+        const call = (rawCall ?? {}) as Record<string, unknown>;
+        const callIndex = typeof call.index === 'number' ? call.index : choiceState.toolCalls.size;
+        const fn = (call.function ?? {}) as Record<string, unknown>;
+        
+        let callState = choiceState.toolCalls.get(callIndex);
+        if (!callState) {
+          callState = { id: null, type: 'function', name: '', arguments: '' };
+          choiceState.toolCalls.set(callIndex, callState);
+        }
+        if (typeof call.id === 'string') {
+          callState.id = call.id;
+        }
+        if (typeof call.type === 'string') {
+          callState.type = call.type;
+        }
+        if (typeof fn.name === 'string') {
+          callState.name += fn.name;
+        }
+        if (typeof fn.arguments === 'string') {
+          callState.arguments += fn.arguments;
+        }
+      }
+    }
+    if (typeof choice.finish_reason === 'string') {
+      choiceState.finishReason = choice.finish_reason;
+    }
+  }
+}
+
+/**
+ * Rebuild a chat.completion object from the accumulated stream state.
+ */
+function buildStreamedCompletion(state: StreamState): Record<string, unknown> {
+  const choices = [...state.choices.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([index, choice]) => {
+      const toolCalls = [...choice.toolCalls.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, call]) => ({
+          id: call.id,
+          type: call.type,
+          function: { name: call.name, arguments: call.arguments },
+        }));
+      
+      return {
+        index,
+        message: {
+          role: choice.role ?? 'assistant',
+          content: choice.content,
+          refusal: choice.refusal,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        },
+        logprobs: choice.logprobs && {
+          content: choice.logprobs.content.length > 0 ? choice.logprobs.content : null,
+          refusal: choice.logprobs.refusal.length > 0 ? choice.logprobs.refusal : null,
+        },
+        finish_reason: choice.finishReason,
+      };
+    });
+  
+  return {
+    id: state.id,
+    model: state.model,
+    choices,
+    usage: state.usage,
   };
 }
 
 /**
- * Wrap an OpenAI client to instrument chat.completions.create and embeddings.create calls.
+ * Wrap an OpenAI client to instrument chat completions, embeddings, responses,
+ * images and audio calls, and the beta chat completion helpers.
+ *
+ * Events are recorded under the backend detected from the client's baseURL
+ * (e.g. 'azure_openai', 'groq'), unless options.provider overrides it.
  */
-export function wrapOpenAIClient<T extends object>(client: T, collector: Collector): T {
+export function wrapOpenAIClient<T extends object>(client: T, collector: Collector, options: WrapOpenAIOptions = {}): T {
+  const backend = detectOpenAIBackend(client, options);
+  
   return new Proxy(client, {
     get(target, prop, receiver) {
       const value = Reflect.get(target, prop, receiver);
       
       // Intercept chat property access
       if (prop === 'chat' && value && typeof value === 'object') {
-        return wrapChatResource(value as object, collector);
+        return wrapChatResource(value as object, collector, backend, options.capture);
       }
       
       // Intercept embeddings property access
       if (prop === 'embeddings' && value && typeof value === 'object') {
-        return wrapEmbeddingsResource(value as object, collector);
+        return wrapEmbeddingsResource(value as object, collector, backend, options.capture);
+      }
+      
+      // Intercept responses property access
+      if (prop === 'responses' && value && typeof value === 'object') {
+        return wrapResponsesResource(value as object, collector, backend, options.capture);
+      }
+      
+      // Intercept images property access
+      if (prop === 'images' && value && typeof value === 'object') {
+        return wrapImagesResource(value as object, collector, backend, options.capture);
+      }
+      
+      // Intercept audio property access
+      if (prop === 'audio' && value && typeof value === 'object') {
+        return wrapAudioResource(value as object, collector, backend, options.capture);
+      }
+      
+      // Intercept beta property access (chat completion helpers)
+      if (prop === 'beta' && value && typeof value === 'object') {
+        return wrapBetaResource(value as object, collector, backend, receiver as object, options.capture);
       }
       
       return value;
@@ -127,14 +451,19 @@ export function wrapOpenAIClient<T extends object>(client: T, collector: Collect
 /**
  * Wrap the chat resource to intercept completions.
  */
-function wrapChatResource<T extends object>(chat: T, collector: Collector): T {
+function wrapChatResource<T extends object>(
+  chat: T,
+  collector: Collector,
+  backend: OpenAIBackend,
+  capture?: CaptureConfig
+): T {
   return new Proxy(chat, {
     get(target, prop, receiver) {
       const value = Reflect.get(target, prop, receiver);
       
       // Intercept completions property access
       if (prop === 'completions' && value && typeof value === 'object') {
-        return wrapCompletionsResource(value as object, collector);
+        return wrapCompletionsResource(value as object, collector, backend, capture);
       }
       
       return value;
@@ -145,14 +474,19 @@ function wrapChatResource<T extends object>(chat: T, collector: Collector): T {
 /**
  * Wrap the completions resource to intercept create calls.
  */
-function wrapCompletionsResource<T extends object>(completions: T, collector: Collector): T {
+function wrapCompletionsResource<T extends object>(
+  completions: T,
+  collector: Collector,
+  backend: OpenAIBackend,
+  capture?: CaptureConfig
+): T {
   return new Proxy(completions, {
     get(target, prop, receiver) {
       const value = Reflect.get(target, prop, receiver);
       
       // Intercept create method
       if (prop === 'create' && typeof value === 'function') {
-        return createWrappedCreate(value.bind(target), collector);
+        return createWrappedCreate(value.bind(target), collector, backend, capture);
       }
       
       return value;
@@ -162,34 +496,38 @@ function wrapCompletionsResource<T extends object>(completions: T, collector: Co
 
 /**
  * Create a wrapped version of the create method.
+ * 
+ * With stream: true the returned stream is wrapped so chunks are accumulated
+ * as the caller consumes them, and the event is recorded when the stream
+ * finishes or is abandoned.
  */
 function createWrappedCreate(
   originalCreate: (...args: unknown[]) => Promise<unknown>,
-  collector: Collector
+  collector: Collector,
+  backend: OpenAIBackend,
+  captureConfig?: CaptureConfig
 ): (...args: unknown[]) => Promise<unknown> {
-  return async function wrappedCreate(...args: unknown[]): Promise<unknown> {
-    const spanId = randomUUID();
+  return function wrappedCreate(...args: unknown[]): Promise<unknown> {
+    const span = startProviderSpan(backend.provider, 'chat.completions.create');
+    const spanId = span.spanId;
     const parentSpanId = collector.getCurrentSpanId();
     const started = Date.now() / 1000;
     const callsite = getCallsite();
-    const requestInfo = extractRequest(args[0]);
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = applyBackend(extractRequest(args[0], collector, capture), backend);
+    const isStream = ((args[0] ?? {}) as Record<string, unknown>).stream === true;
+    let http: HttpInfo | null = null;
     
-    let error: string | null = null;
-    let responseInfo: ChatCompletionsResponse | null = null;
-    
-    try {
-      const resp = await originalCreate(...args);
-      responseInfo = extractResponse(resp);
-      return resp;
-    } catch (e) {
-      const err = e as Error;
-      error = `${err.name}: ${err.message}`;
-      throw e;
-    } finally {
+    const record = (
+      responseInfo: ChatCompletionsResponse | null,
+      error: string | null,
+      chunkTimes: number[] | null = null,
+      consumption: StreamConsumption = 'complete'
+    ): void => {
       const ended = Date.now() / 1000;
       
       const event: Event = {
-        provider: 'openai',
+        provider: backend.provider,
         api: 'chat.completions.create',
         callsite,
         request: requestInfo,
@@ -200,11 +538,61 @@ function createWrappedCreate(
         duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
         span_id: spanId,
         parent_span_id: parentSpanId,
-        trace_id: null,
+        trace_id: span.traceId,
       };
       
+      if (chunkTimes) {
+        const outputTokens = responseInfo?.usage?.completion_tokens;
+        event.streaming = computeStreamingMetrics(
+          started,
+          ended,
+          chunkTimes,
+          typeof outputTokens === 'number' ? outputTokens : null,
+          consumption
+        );
+      }
+      
+      if (http) {
+        event.http = http;
+      }
+      applyTruncations(event, capture);
+      
+      span.end(event);
       collector.recordEvent(event);
-    }
+      registerToolCalls(collector, span, collectToolCalls(responseInfo));
+    };
+    
+    const onData = (resp: unknown, httpInfo: HttpInfo | null): unknown => {
+      http = httpInfo;
+      
+      if (isStream && isAsyncIterable(resp)) {
+        const state: StreamState = { id: null, model: null, choices: new Map(), usage: null };
+        
+        return wrapStream(resp, {
+          onChunk: (chunk) => applyStreamChunk(state, chunk),
+          onEnd: (e, chunkTimes, consumption) => {
+            const err = e as Error | null;
+            record(
+              extractResponse(buildStreamedCompletion(state)),
+              err ? `${err.name}: ${err.message}` : null,
+              chunkTimes,
+              consumption
+            );
+          },
+        });
+      }
+      
+      record(extractResponse(resp), null);
+      return resp;
+    };
+    
+    const onError = (e: unknown, httpInfo: HttpInfo | null): void => {
+      const err = e as Error;
+      http = httpInfo;
+      record(null, `${err.name}: ${err.message}`);
+    };
+    
+    // Return the SDK's APIPromise (via a Proxy) so .withResponse() etc. keep working
+    return observeAPICall(() => span.run(() => originalCreate(...args)), onData, onError);
   };
 }
-
@@ -4,10 +4,14 @@
  * Uses Proxy to wrap the OpenAI client and intercept embeddings.create calls.
  */
 
-import { randomUUID } from 'crypto';
 import type { Collector } from '../../collector.js';
-import type { Event, Callsite } from '../../models/observability.js';
+import type { Event, Callsite, HttpInfo } from '../../models/observability.js';
 import type { EmbeddingsRequest, EmbeddingsResponse, EmbeddingData } from './models/embeddings.js';
+import type { OpenAIBackend } from './models/base.js';
+import { DEFAULT_OPENAI_BACKEND, applyBackend } from './backend.js';
+import { startProviderSpan } from '../span.js';
+import { observeAPICall } from '../api-promise.js';
+import { applyTruncations, captureList, createCaptureScope, type CaptureConfig, type CaptureScope } from '../../capture.js';
 
 /**
  * Get callsite information from the call stack.
@@ -45,15 +49,15 @@ function getCallsite(): Callsite | null {
 /**
  * Extract request data from embeddings call arguments.
  */
-function extractRequest(args: unknown): EmbeddingsRequest {
+function extractRequest(args: unknown, capture: CaptureScope): EmbeddingsRequest {
   const req = (args ?? {}) as Record<string, unknown>;
   
   // Extract input - could be string, list of strings, or token arrays
   let inputData = req.input as string | string[] | number[] | number[][] | null;
   
   // Truncate input preview for large inputs
-  if (Array.isArray(inputData) && inputData.length > 3) {
-    inputData = inputData.slice(0, 3) as string[] | number[] | number[][];
+  if (Array.isArray(inputData)) {
+    inputData = captureList(capture, 'request.input', inputData as unknown[]) as string[] | number[] | number[][];
   }
   
   return {
@@ -115,14 +119,19 @@ function extractResponse(resp: unknown): EmbeddingsResponse {
 /**
  * Wrap the embeddings resource to intercept create calls.
  */
-export function wrapEmbeddingsResource<T extends object>(embeddings: T, collector: Collector): T {
+export function wrapEmbeddingsResource<T extends object>(
+  embeddings: T,
+  collector: Collector,
+  backend: OpenAIBackend = DEFAULT_OPENAI_BACKEND,
+  capture?: CaptureConfig
+): T {
   return new Proxy(embeddings, {
     get(target, prop, receiver) {
       const value = Reflect.get(target, prop, receiver);
       
       // Intercept create method
       if (prop === 'create' && typeof value === 'function') {
-        return createWrappedEmbeddingsCreate(value.bind(target), collector);
+        return createWrappedEmbeddingsCreate(value.bind(target), collector, backend, capture);
       }
       
       return value;
@@ -135,31 +144,24 @@ export function wrapEmbeddingsResource<T extends object>(embeddings: T, collecto
  */
 function createWrappedEmbeddingsCreate(
   originalCreate: (...args: unknown[]) => Promise<unknown>,
-  collector: Collector
+  collector: Collector,
+  backend: OpenAIBackend,
+  captureConfig?: CaptureConfig
 ): (...args: unknown[]) => Promise<unknown> {
-  return async function wrappedCreate(...args: unknown[]): Promise<unknown> {
-    const spanId = randomUUID();
+  return function wrappedCreate(...args: unknown[]): Promise<unknown> {
+    const span = startProviderSpan(backend.provider, 'embeddings.create');
+    const spanId = span.spanId;
     const parentSpanId = collector.getCurrentSpanId();
     const started = Date.now() / 1000;
     const callsite = getCallsite();
-    const requestInfo = extractRequest(args[0]);
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = applyBackend(extractRequest(args[0], capture), backend);
     
-    let error: string | null = null;
-    let responseInfo: EmbeddingsResponse | null = null;
-    
-    try {
-      const resp = await originalCreate(...args);
-      responseInfo = extractResponse(resp);
-      return resp;
-    } catch (e) {
-      const err = e as Error;
-      error = `${err.name}: ${err.message}`;
-      throw e;
-    } finally {
+    const record = (responseInfo: EmbeddingsResponse | null, error: string | null, http: HttpInfo | null): void => {
       const ended = Date.now() / 1000;
       
       const event: Event = {
-        provider: 'openai',
+        provider: backend.provider,
         api: 'embeddings.create',
         callsite,
         request: requestInfo,
@@ -170,11 +172,29 @@ function createWrappedEmbeddingsCreate(
         duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
         span_id: spanId,
         parent_span_id: parentSpanId,
-        trace_id: null,
+        trace_id: span.traceId,
       };
       
+      if (http) {
+        event.http = http;
+      }
+      applyTruncations(event, capture);
+      
+      span.end(event);
       collector.recordEvent(event);
-    }
+    };
+    
+    return observeAPICall(
+      () => span.run(() => originalCreate(...args)),
+      (resp, http) => {
+        record(extractResponse(resp), null, http);
+        return resp;
+      },
+      (e, http) => {
+        const err = e as Error;
+        record(null, `${err.name}: ${err.message}`, http);
+      }
+    );
   };
 }
 
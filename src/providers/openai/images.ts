@@ -0,0 +1,228 @@
+/**
+ * OpenAI Images API instrumentation.
+ *
+ * Uses Proxy to wrap the OpenAI client and intercept images.generate and
+ * images.edit calls. Uploaded images and base64 image payloads are summarized
+ * rather than captured.
+ */
+
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite, HttpInfo } from '../../models/observability.js';
+import type { ImagesRequest, ImagesResponse, GeneratedImage, OpenAIBackend, UploadSummary } from './models/index.js';
+import { DEFAULT_OPENAI_BACKEND, applyBackend } from './backend.js';
+import { startProviderSpan } from '../span.js';
+import { observeAPICall } from '../api-promise.js';
+import { applyTruncations, captureList, captureValue, createCaptureScope, type CaptureConfig, type CaptureScope } from '../../capture.js';
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    // Skip first few frames (Error, getCallsite, wrapper function, etc.)
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and openai frames
+      if (line.includes('/aiobs-ts/') || line.includes('/openai/') || line.includes('node_modules')) {
+        continue;
+      }
+
+      // Parse stack frame: "    at functionName (file:line:column)"
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors in callsite extraction
+  }
+  return null;
+}
+
+/**
+ * Summarize an uploaded file (File, Blob, Buffer, ReadStream, Response)
+ * without capturing its bytes.
+ */
+export function summarizeUpload(value: unknown): UploadSummary | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (typeof value === 'string') {
+    // Only image URLs or file IDs are passed as strings
+    return { type: 'reference', name: value.startsWith('data:') ? null : value, size: null, mime_type: null };
+  }
+
+  if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+    return { type: 'bytes', name: null, size: value.byteLength, mime_type: null };
+  }
+
+  if (typeof value === 'object') {
+    const v = value as Record<string, unknown>;
+    let name: string | null = null;
+    if (typeof v.name === 'string') {
+      name = v.name;
+    } else if (typeof v.path === 'string') {
+      name = v.path;
+    }
+    return {
+      type: 'file',
+      name,
+      size: typeof v.size === 'number' ? v.size : null,
+      mime_type: typeof v.type === 'string' && v.type ? v.type : null,
+    };
+  }
+
+  return { type: typeof value, name: null, size: null, mime_type: null };
+}
+
+/**
+ * Extract request data from images.generate / images.edit call arguments.
+ */
+function extractRequest(args: unknown, capture: CaptureScope): ImagesRequest {
+  const req = (args ?? {}) as Record<string, unknown>;
+
+  let image: UploadSummary | UploadSummary[] | null = null;
+  if (Array.isArray(req.image)) {
+    image = captureList(capture, 'request.image', req.image).map(summarizeUpload).filter((s): s is UploadSummary => s !== null);
+  } else {
+    image = summarizeUpload(req.image);
+  }
+
+  return {
+    model: typeof req.model === 'string' ? req.model : null,
+    prompt: typeof req.prompt === 'string' ? req.prompt : null,
+    n: typeof req.n === 'number' ? req.n : null,
+    size: typeof req.size === 'string' ? req.size : null,
+    quality: typeof req.quality === 'string' ? req.quality : null,
+    style: typeof req.style === 'string' ? req.style : null,
+    response_format: typeof req.response_format === 'string' ? req.response_format : null,
+    image,
+    mask: summarizeUpload(req.mask),
+    other: captureValue(capture, 'request.other', Object.fromEntries(
+      Object.entries(req).filter(([k]) => ![
+        'model', 'prompt', 'n', 'size', 'quality', 'style', 'response_format', 'image', 'mask',
+      ].includes(k))
+    )) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Extract response data from an ImagesResponse, dropping base64 image data.
+ */
+function extractResponse(resp: unknown): ImagesResponse {
+  const r = (resp ?? {}) as Record<string, unknown>;
+
+  let data: GeneratedImage[] | null = null;
+  try {
+    if (Array.isArray(r.data)) {
+      data = (r.data as Array<Record<string, unknown>>).map((item) => ({
+        url: typeof item.url === 'string' ? item.url : null,
+        revised_prompt: typeof item.revised_prompt === 'string' ? item.revised_prompt : null,
+        b64_json_length: typeof item.b64_json === 'string' ? item.b64_json.length : null,
+      }));
+    }
+  } catch {
+    // Ignore extraction errors
+  }
+
+  return {
+    created: typeof r.created === 'number' ? r.created : null,
+    data,
+    usage: r.usage && typeof r.usage === 'object' ? (r.usage as Record<string, unknown>) : null,
+    other: Object.fromEntries(
+      Object.entries(r).filter(([k]) => !['created', 'data', 'usage'].includes(k))
+    ),
+  };
+}
+
+/**
+ * Wrap the images resource to intercept generate and edit calls.
+ */
+export function wrapImagesResource<T extends object>(
+  images: T,
+  collector: Collector,
+  backend: OpenAIBackend = DEFAULT_OPENAI_BACKEND,
+  capture?: CaptureConfig
+): T {
+  return new Proxy(images, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      // Intercept generate and edit methods
+      if ((prop === 'generate' || prop === 'edit') && typeof value === 'function') {
+        return createWrappedImagesCall(value.bind(target), collector, `images.${prop}`, backend, capture);
+      }
+
+      return value;
+    },
+  });
+}
+
+/**
+ * Create a wrapped version of an images method.
+ */
+function createWrappedImagesCall(
+  originalCall: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  api: string,
+  backend: OpenAIBackend,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return function wrappedImagesCall(...args: unknown[]): Promise<unknown> {
+    const span = startProviderSpan(backend.provider, api);
+    const spanId = span.spanId;
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = applyBackend(extractRequest(args[0], capture), backend);
+
+    const record = (responseInfo: ImagesResponse | null, error: string | null, http: HttpInfo | null): void => {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: backend.provider,
+        api,
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: span.traceId,
+      };
+
+      if (http) {
+        event.http = http;
+      }
+
+      applyTruncations(event, capture);
+      span.end(event);
+      collector.recordEvent(event);
+    };
+
+    return observeAPICall(
+      () => span.run(() => originalCall(...args)),
+      (resp, http) => {
+        record(extractResponse(resp), null, http);
+        return resp;
+      },
+      (e, http) => {
+        const err = e as Error;
+        record(null, `${err.name}: ${err.message}`, http);
+      }
+    );
+  };
+}
@@ -1,4 +1,9 @@
 export { wrapOpenAIClient } from './chat-completions.js';
 export { wrapEmbeddingsResource } from './embeddings.js';
+export { wrapResponsesResource } from './responses.js';
+export { wrapImagesResource } from './images.js';
+export { wrapAudioResource } from './audio.js';
+export { openaiOtelProvider } from './otel.js';
+export { detectOpenAIBackend, type WrapOpenAIOptions } from './backend.js';
 export * from './models/index.js';
 
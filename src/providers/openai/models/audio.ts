@@ -0,0 +1,40 @@
+/**
+ * Models for OpenAI Audio API capture.
+ */
+
+import type { BaseOpenAIRequest } from './base.js';
+import type { UploadSummary } from './images.js';
+
+export interface TranscriptionRequest extends BaseOpenAIRequest {
+  file: UploadSummary | null;
+  language: string | null;
+  prompt: string | null;
+  response_format: string | null;
+  temperature: number | null;
+  other: Record<string, unknown>;
+}
+
+export interface TranscriptionResponse {
+  text: string | null;
+  language: string | null;
+  /** Duration of the input audio in seconds (verbose_json only) */
+  duration: number | null;
+  segment_count: number | null;
+  word_count: number | null;
+  usage: Record<string, unknown> | null;
+}
+
+export interface SpeechRequest extends BaseOpenAIRequest {
+  input: string | null;
+  voice: string | null;
+  response_format: string | null;
+  speed: number | null;
+  instructions: string | null;
+  other: Record<string, unknown>;
+}
+
+export interface SpeechResponse {
+  status: number | null;
+  content_type: string | null;
+  content_length: number | null;
+}
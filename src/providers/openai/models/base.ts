@@ -4,6 +4,8 @@
 
 export interface BaseOpenAIRequest {
   model: string | null;
+  /** Set when the client targets a backend other than api.openai.com */
+  backend?: OpenAIBackend;
 }
 
 export interface BaseOpenAIResponse {
@@ -12,3 +14,16 @@ export interface BaseOpenAIResponse {
   usage: Record<string, unknown> | null;
 }
 
+
+/**
+ * Backend an OpenAI SDK client talks to, detected from its configuration.
+ */
+export interface OpenAIBackend {
+  /** Provider name recorded on events (e.g. 'openai', 'azure_openai', 'groq') */
+  provider: string;
+  base_url: string | null;
+  /** Azure OpenAI deployment name */
+  deployment: string | null;
+  /** Azure OpenAI api-version */
+  api_version: string | null;
+}
@@ -2,6 +2,7 @@
  * Models for OpenAI Chat Completions API capture.
  */
 
+import type { ToolCall, ToolDefinition, ToolResult } from '../../../models/observability.js';
 import type { BaseOpenAIRequest, BaseOpenAIResponse } from './base.js';
 
 export interface Message {
@@ -13,10 +14,67 @@ export interface ChatCompletionsRequest extends BaseOpenAIRequest {
   messages: Message[] | null;
   temperature: number | null;
   max_tokens: number | null;
+  /** Tools (or legacy functions) offered to the model */
+  tools: ToolDefinition[] | null;
+  /** Results of earlier tool calls, from 'tool' role messages */
+  tool_results: ToolResult[] | null;
   other: Record<string, unknown>;
 }
 
+/**
+ * Summary of the token logprobs of a choice.
+ */
+export interface LogprobsSummary {
+  token_count: number;
+  avg_logprob: number | null;
+  min_logprob: number | null;
+  /** Token with the lowest logprob */
+  min_token: string | null;
+}
+
+export interface ChatCompletionChoice {
+  index: number;
+  text: string | null;
+  refusal: string | null;
+  finish_reason: string | null;
+  tool_calls: ToolCall[] | null;
+  logprobs: LogprobsSummary | null;
+}
+
+/**
+ * Token counts from usage.prompt_tokens_details and usage.completion_tokens_details.
+ */
+export interface ChatCompletionsUsageDetails {
+  cached_tokens: number | null;
+  reasoning_tokens: number | null;
+  audio_input_tokens: number | null;
+  audio_output_tokens: number | null;
+  accepted_prediction_tokens: number | null;
+  rejected_prediction_tokens: number | null;
+}
+
 export interface ChatCompletionsResponse extends BaseOpenAIResponse {
+  /** Text, refusal, finish reason and tool calls of the first choice */
   text: string | null;
+  refusal: string | null;
+  finish_reason: string | null;
+  tool_calls: ToolCall[] | null;
+  /** Every choice (more than one when n > 1) */
+  choices: ChatCompletionChoice[] | null;
+  usage_details: ChatCompletionsUsageDetails | null;
 }
 
+
+export interface ParsedChatCompletionsResponse extends ChatCompletionsResponse {
+  /** Structured output parsed by the SDK (response_format or strict tool arguments) */
+  parsed: unknown;
+}
+
+export interface ChatCompletionsRunResponse extends ParsedChatCompletionsResponse {
+  /** Model round trips made by the runner */
+  round_trips: number;
+  /** Tool calls the runner executed */
+  tool_invocations: number;
+  /** Usage summed over all round trips; each round trip event carries its own usage */
+  total_usage: Record<string, unknown> | null;
+}
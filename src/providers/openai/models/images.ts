@@ -0,0 +1,41 @@
+/**
+ * Models for OpenAI Images API capture.
+ */
+
+import type { BaseOpenAIRequest } from './base.js';
+
+/**
+ * Metadata describing an uploaded file, captured instead of its raw bytes.
+ */
+export interface UploadSummary {
+  type: string;
+  name: string | null;
+  size: number | null;
+  mime_type: string | null;
+}
+
+export interface ImagesRequest extends BaseOpenAIRequest {
+  prompt: string | null;
+  n: number | null;
+  size: string | null;
+  quality: string | null;
+  style: string | null;
+  response_format: string | null;
+  image: UploadSummary | UploadSummary[] | null;
+  mask: UploadSummary | null;
+  other: Record<string, unknown>;
+}
+
+export interface GeneratedImage {
+  url: string | null;
+  revised_prompt: string | null;
+  /** Length of the base64 payload, when the image was returned inline */
+  b64_json_length: number | null;
+}
+
+export interface ImagesResponse {
+  created: number | null;
+  data: GeneratedImage[] | null;
+  usage: Record<string, unknown> | null;
+  other: Record<string, unknown>;
+}
@@ -2,3 +2,6 @@ export * from './base.js';
 export * from './chat-completions.js';
 export * from './embeddings.js';
 
+export * from './responses.js';
+export * from './images.js';
+export * from './audio.js';
@@ -0,0 +1,46 @@
+/**
+ * Models for OpenAI Responses API capture.
+ */
+
+import type { BaseOpenAIRequest, BaseOpenAIResponse } from './base.js';
+
+export interface ResponsesRequest extends BaseOpenAIRequest {
+  input: string | unknown[] | null;
+  instructions: string | null;
+  previous_response_id: string | null;
+  /** Span ID of the recorded response named by previous_response_id, if it was captured */
+  previous_span_id: string | null;
+  tools: Array<Record<string, unknown>> | null;
+  reasoning: Record<string, unknown> | null;
+  max_output_tokens: number | null;
+  temperature: number | null;
+  stream: boolean;
+  other: Record<string, unknown>;
+}
+
+/**
+ * Summary of a single output item (message, reasoning, tool call, etc.).
+ */
+export interface ResponseOutputItem {
+  type: string;
+  id: string | null;
+  status: string | null;
+  role: string | null;
+  text: string | null;
+  name: string | null;
+  call_id: string | null;
+  arguments: string | null;
+  summary: string[] | null;
+}
+
+export interface ResponsesResponse extends BaseOpenAIResponse {
+  status: string | null;
+  output_text: string | null;
+  output: ResponseOutputItem[] | null;
+  reasoning_tokens: number | null;
+  previous_response_id: string | null;
+  incomplete_details: Record<string, unknown> | null;
+  error: Record<string, unknown> | null;
+  /** Count of stream events by type, only set for streamed responses */
+  stream_events: Record<string, number> | null;
+}
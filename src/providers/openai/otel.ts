@@ -0,0 +1,42 @@
+/**
+ * OpenAI OpenTelemetry instrumentation provider.
+ *
+ * Enables @opentelemetry/instrumentation-openai when it is installed. Its
+ * spans are converted to aiobs events when the collector flushes.
+ */
+
+import { createRequire } from 'module';
+import type { BaseProvider } from '../base.js';
+
+// Type for OTel instrumentor
+interface OtelInstrumentor {
+  enable(): void;
+  disable(): void;
+}
+
+const INSTRUMENTATION_PACKAGE = '@opentelemetry/instrumentation-openai';
+
+// Resolve the optional peer dependency without a static import
+const require = createRequire(import.meta.url);
+
+export const openaiOtelProvider: BaseProvider = {
+  name: 'openai',
+
+  isAvailable(): boolean {
+    try {
+      require.resolve(INSTRUMENTATION_PACKAGE);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  install(): (() => void) | null {
+    const { OpenAIInstrumentation } = require(INSTRUMENTATION_PACKAGE) as {
+      OpenAIInstrumentation: new () => OtelInstrumentor;
+    };
+    const instrumentor = new OpenAIInstrumentation();
+    instrumentor.enable();
+    return () => instrumentor.disable();
+  },
+};
@@ -0,0 +1,407 @@
+/**
+ * OpenAI Responses API instrumentation.
+ *
+ * Uses Proxy to wrap the OpenAI client and intercept responses.create calls,
+ * including streamed responses (stream: true). Responses chained through
+ * previous_response_id are linked to the span of the response they continue.
+ */
+
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite, HttpInfo, StreamConsumption, ToolCall } from '../../models/observability.js';
+import type { OpenAIBackend, ResponsesRequest, ResponsesResponse, ResponseOutputItem } from './models/index.js';
+import { DEFAULT_OPENAI_BACKEND, applyBackend } from './backend.js';
+import { computeStreamingMetrics, isAsyncIterable, wrapStream } from '../stream.js';
+import { startProviderSpan } from '../span.js';
+import { observeAPICall } from '../api-promise.js';
+import { parseToolArguments, registerToolCalls } from '../tools.js';
+import { applyTruncations, captureList, createCaptureScope, type CaptureConfig, type CaptureScope } from '../../capture.js';
+
+// Maximum number of response IDs remembered per collector for chain linking
+const MAX_TRACKED_RESPONSES = 1000;
+
+// Span IDs of recorded responses per collector, keyed by response ID
+const responseSpans = new WeakMap<Collector, Map<string, string>>();
+
+/**
+ * Get the response ID to span ID map for a collector.
+ */
+function getResponseSpans(collector: Collector): Map<string, string> {
+  let spans = responseSpans.get(collector);
+  if (!spans) {
+    spans = new Map();
+    responseSpans.set(collector, spans);
+  }
+  return spans;
+}
+
+/**
+ * Remember the span of a recorded response so later chained calls can link to it.
+ */
+function trackResponseSpan(collector: Collector, responseId: string, spanId: string): void {
+  const spans = getResponseSpans(collector);
+  spans.set(responseId, spanId);
+  if (spans.size > MAX_TRACKED_RESPONSES) {
+    // Maps iterate in insertion order, so the first key is the oldest
+    const oldest = spans.keys().next().value;
+    if (oldest !== undefined) {
+      spans.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    // Skip first few frames (Error, getCallsite, wrapper function, etc.)
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and openai frames
+      if (line.includes('/aiobs-ts/') || line.includes('/openai/') || line.includes('node_modules')) {
+        continue;
+      }
+
+      // Parse stack frame: "    at functionName (file:line:column)"
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors in callsite extraction
+  }
+  return null;
+}
+
+/**
+ * Extract request data from responses.create call arguments.
+ */
+function extractRequest(args: unknown, collector: Collector, capture: CaptureScope): ResponsesRequest {
+  const req = (args ?? {}) as Record<string, unknown>;
+
+  let input: string | unknown[] | null = null;
+  if (typeof req.input === 'string') {
+    input = req.input;
+  } else if (Array.isArray(req.input)) {
+    input = captureList(capture, 'request.input', req.input);
+  }
+
+  const previousResponseId = typeof req.previous_response_id === 'string' ? req.previous_response_id : null;
+
+  return {
+    model: typeof req.model === 'string' ? req.model : null,
+    input,
+    instructions: typeof req.instructions === 'string' ? req.instructions : null,
+    previous_response_id: previousResponseId,
+    previous_span_id: previousResponseId ? getResponseSpans(collector).get(previousResponseId) ?? null : null,
+    tools: Array.isArray(req.tools) ? (req.tools as Array<Record<string, unknown>>) : null,
+    reasoning: req.reasoning && typeof req.reasoning === 'object' ? (req.reasoning as Record<string, unknown>) : null,
+    max_output_tokens: typeof req.max_output_tokens === 'number' ? req.max_output_tokens : null,
+    temperature: typeof req.temperature === 'number' ? req.temperature : null,
+    stream: req.stream === true,
+    other: Object.fromEntries(
+      Object.entries(req).filter(([k]) => ![
+        'model', 'input', 'instructions', 'previous_response_id', 'tools', 'reasoning',
+        'max_output_tokens', 'temperature', 'stream',
+      ].includes(k))
+    ),
+  };
+}
+
+/**
+ * Summarize an output item, keeping the fields relevant for each item type.
+ */
+function summarizeOutputItem(raw: unknown): ResponseOutputItem {
+  const item = (raw ?? {}) as Record<string, unknown>;
+
+  let text: string | null = null;
+  if (Array.isArray(item.content)) {
+    const textParts = (item.content as Array<Record<string, unknown>>)
+      .filter((part) => typeof part.text === 'string')
+      .map((part) => part.text as string);
+    if (textParts.length > 0) {
+      text = textParts.join('');
+    }
+  }
+
+  let summary: string[] | null = null;
+  if (Array.isArray(item.summary)) {
+    summary = (item.summary as Array<Record<string, unknown>>)
+      .filter((part) => typeof part.text === 'string')
+      .map((part) => part.text as string);
+  }
+
+  return {
+    type: typeof item.type === 'string' ? item.type : 'unknown',
+    id: typeof item.id === 'string' ? item.id : null,
+    status: typeof item.status === 'string' ? item.status : null,
+    role: typeof item.role === 'string' ? item.role : null,
+    text,
+    name: typeof item.name === 'string' ? item.name : null,
+    call_id: typeof item.call_id === 'string' ? item.call_id : null,
+    arguments: typeof item.arguments === 'string' ? item.arguments : null,
+    summary,
+  };
+}
+
+/**
+ * Collect the function_call output items as tool calls.
+ */
+function extractFunctionCalls(output: ResponseOutputItem[] | null): ToolCall[] {
+  return (output ?? [])
+    .filter((item) => item.type === 'function_call')
+    .map((item) => ({ id: item.call_id, name: item.name, arguments: parseToolArguments(item.arguments) }));
+}
+
+/**
+ * Extract response data from a Response object.
+ */
+function extractResponse(resp: unknown, streamEvents: Record<string, number> | null = null): ResponsesResponse {
+  const r = (resp ?? {}) as Record<string, unknown>;
+
+  let output: ResponseOutputItem[] | null = null;
+  let outputText: string | null = typeof r.output_text === 'string' && r.output_text ? r.output_text : null;
+  try {
+    if (Array.isArray(r.output)) {
+      output = r.output.map(summarizeOutputItem);
+
+      // The SDK adds output_text as a convenience; rebuild it when absent
+      if (outputText === null) {
+        const texts = output
+          .filter((item) => item.type === 'message' && item.text !== null)
+          .map((item) => item.text as string);
+        outputText = texts.length > 0 ? texts.join('') : null;
+      }
+    }
+  } catch {
+    // Ignore extraction errors
+  }
+
+  let usage: Record<string, unknown> | null = null;
+  let reasoningTokens: number | null = null;
+  if (r.usage && typeof r.usage === 'object') {
+    usage = r.usage as Record<string, unknown>;
+    const details = usage.output_tokens_details as Record<string, unknown> | undefined;
+    if (details && typeof details.reasoning_tokens === 'number') {
+      reasoningTokens = details.reasoning_tokens;
+    }
+  }
+
+  return {
+    id: typeof r.id === 'string' ? r.id : null,
+    model: typeof r.model === 'string' ? r.model : null,
+    usage,
+    status: typeof r.status === 'string' ? r.status : null,
+    output_text: outputText,
+    output,
+    reasoning_tokens: reasoningTokens,
+    previous_response_id: typeof r.previous_response_id === 'string' ? r.previous_response_id : null,
+    incomplete_details: r.incomplete_details && typeof r.incomplete_details === 'object'
+      ? (r.incomplete_details as Record<string, unknown>)
+      : null,
+    error: r.error && typeof r.error === 'object' ? (r.error as Record<string, unknown>) : null,
+    stream_events: streamEvents,
+  };
+}
+
+/**
+ * Accumulated state of a streamed response.
+ */
+interface StreamState {
+  response: Record<string, unknown> | null;
+  items: Map<number, unknown>;
+  text: string;
+  eventCounts: Record<string, number>;
+  error: string | null;
+}
+
+/**
+ * Apply a single stream event to the accumulated state.
+ */
+function applyStreamEvent(state: StreamState, chunk: unknown): void {
+  const ev = (chunk ?? {}) as Record<string, unknown>;
+  const type = typeof ev.type === 'string' ? ev.type : 'unknown';
+
+  state.eventCounts[type] = (state.eventCounts[type] ?? 0) + 1;
+
+  switch (type) {
+    case 'response.created':
+    case 'response.in_progress':
+    case 'response.completed':
+    case 'response.failed':
+    case 'response.incomplete':
+      if (ev.response && typeof ev.response === 'object') {
+        state.response = ev.response as Record<string, unknown>;
+      }
+      break;
+    case 'response.output_item.added':
+    case 'response.output_item.done':
+      if (typeof ev.output_index === 'number' && ev.item) {
+        state.items.set(ev.output_index, ev.item);
+      }
+      break;
+    case 'response.output_text.delta':
+      if (typeof ev.delta === 'string') {
+        state.text += ev.delta;
+      }
+      break;
+    case 'error':
+      state.error = `${String(ev.code ?? 'ResponseError')}: ${String(ev.message ?? 'unknown error')}`;
+      break;
+    default:
+      break;
+  }
+}
+
+/**
+ * Build the final response object from the accumulated stream state.
+ *
+ * The terminal event carries the full response; when the stream ended early,
+ * the last snapshot is completed with the output items and text seen so far.
+ */
+function buildStreamedResponse(state: StreamState): Record<string, unknown> {
+  const snapshot = state.response ?? {};
+  if (Array.isArray(snapshot.output) && snapshot.output.length > 0) {
+    return snapshot;
+  }
+
+  const items = [...state.items.entries()].sort(([a], [b]) => a - b).map(([, item]) => item);
+  return {
+    ...snapshot,
+    output: items,
+    output_text: state.text || null,
+  };
+}
+
+/**
+ * Wrap the responses resource to intercept create calls.
+ */
+export function wrapResponsesResource<T extends object>(
+  responses: T,
+  collector: Collector,
+  backend: OpenAIBackend = DEFAULT_OPENAI_BACKEND,
+  capture?: CaptureConfig
+): T {
+  return new Proxy(responses, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      // Intercept create method
+      if (prop === 'create' && typeof value === 'function') {
+        return createWrappedResponsesCreate(value.bind(target), collector, backend, capture);
+      }
+
+      return value;
+    },
+  });
+}
+
+/**
+ * Create a wrapped version of the responses.create method.
+ */
+function createWrappedResponsesCreate(
+  originalCreate: (...args: unknown[]) => Promise<unknown>,
+  collector: Collector,
+  backend: OpenAIBackend,
+  captureConfig?: CaptureConfig
+): (...args: unknown[]) => Promise<unknown> {
+  return function wrappedCreate(...args: unknown[]): Promise<unknown> {
+    const span = startProviderSpan(backend.provider, 'responses.create');
+    const spanId = span.spanId;
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), captureConfig);
+    const requestInfo = applyBackend(extractRequest(args[0], collector, capture), backend);
+    let http: HttpInfo | null = null;
+
+    const record = (
+      responseInfo: ResponsesResponse | null,
+      error: string | null,
+      chunkTimes: number[] | null = null,
+      consumption: StreamConsumption = 'complete'
+    ): void => {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: backend.provider,
+        api: 'responses.create',
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: span.traceId,
+      };
+
+      if (chunkTimes) {
+        const outputTokens = responseInfo?.usage?.output_tokens;
+        event.streaming = computeStreamingMetrics(
+          started,
+          ended,
+          chunkTimes,
+          typeof outputTokens === 'number' ? outputTokens : null,
+          consumption
+        );
+      }
+
+      if (http) {
+        event.http = http;
+      }
+      applyTruncations(event, capture);
+
+      if (responseInfo?.id) {
+        trackResponseSpan(collector, responseInfo.id, spanId);
+      }
+
+      span.end(event);
+      collector.recordEvent(event);
+      registerToolCalls(collector, span, extractFunctionCalls(responseInfo?.output ?? null));
+    };
+
+    const onData = (resp: unknown, httpInfo: HttpInfo | null): unknown => {
+      http = httpInfo;
+
+      if (requestInfo.stream && isAsyncIterable(resp)) {
+        const state: StreamState = { response: null, items: new Map(), text: '', eventCounts: {}, error: null };
+
+        return wrapStream(resp, {
+          onChunk: (chunk) => applyStreamEvent(state, chunk),
+          onEnd: (e, chunkTimes, consumption) => {
+            const err = e as Error | null;
+            record(
+              extractResponse(buildStreamedResponse(state), state.eventCounts),
+              err ? `${err.name}: ${err.message}` : state.error,
+              chunkTimes,
+              consumption
+            );
+          },
+        });
+      }
+
+      record(extractResponse(resp), null);
+      return resp;
+    };
+
+    const onError = (e: unknown, httpInfo: HttpInfo | null): void => {
+      const err = e as Error;
+      http = httpInfo;
+      record(null, `${err.name}: ${err.message}`);
+    };
+
+    return observeAPICall(() => span.run(() => originalCreate(...args)), onData, onError);
+  };
+}
@@ -0,0 +1,95 @@
+/**
+ * Provider registry.
+ *
+ * Process-wide instrumentation (e.g. OTel instrumentations, the fetch
+ * interceptor) registers here. Collector.observe() installs the available
+ * providers and reset() runs their cleanup functions. The only built-in
+ * provider is the OpenAI OTel instrumentation; client wrappers such as
+ * wrapOpenAIClient() need a client instance and are not registry providers.
+ */
+
+import type { Collector } from '../collector.js';
+import type { BaseProvider } from './base.js';
+import { openaiOtelProvider } from './openai/otel.js';
+
+/**
+ * Which registered providers to install, by name.
+ */
+export interface ProviderSelection {
+  /** Only install these providers */
+  include?: string[];
+  /** Never install these providers */
+  exclude?: string[];
+}
+
+/**
+ * A provider installed on a collector.
+ */
+export interface InstalledProvider {
+  name: string;
+  cleanup: (() => void) | null;
+}
+
+// Registered providers by name, in registration order
+const providers = new Map<string, BaseProvider>();
+
+// Built-in providers
+for (const provider of [openaiOtelProvider]) {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Register a provider, replacing any provider with the same name.
+ */
+export function registerProvider(provider: BaseProvider): void {
+  if (!provider || typeof provider.name !== 'string' || !provider.name) {
+    throw new Error('Provider must have a non-empty name');
+  }
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Remove a registered provider.
+ *
+ * @returns true if a provider with that name was registered.
+ */
+export function unregisterProvider(name: string): boolean {
+  return providers.delete(name);
+}
+
+/**
+ * Get all registered providers.
+ */
+export function getRegisteredProviders(): BaseProvider[] {
+  return [...providers.values()];
+}
+
+/**
+ * Install the selected providers that are available.
+ *
+ * Providers that are unavailable or fail to install are skipped.
+ */
+export function installProviders(collector: Collector, selection: ProviderSelection = {}): InstalledProvider[] {
+  const { include, exclude } = selection;
+  const installed: InstalledProvider[] = [];
+
+  for (const provider of providers.values()) {
+    if (include && !include.includes(provider.name)) {
+      continue;
+    }
+    if (exclude?.includes(provider.name)) {
+      continue;
+    }
+
+    try {
+      if (!provider.isAvailable()) {
+        continue;
+      }
+      installed.push({ name: provider.name, cleanup: provider.install(collector) });
+    } catch {
+      // Skip providers that fail to install
+    }
+  }
+
+  return installed;
+}
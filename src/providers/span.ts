@@ -0,0 +1,160 @@
+/**
+ * OpenTelemetry spans for provider wrapper calls.
+ *
+ * Each wrapped call runs inside an active span from the aiobs tracer, so
+ * anything called during it nests under it and its ids correlate with other
+ * OTel data. On end the span gets GenAI semantic convention attributes taken
+ * from the recorded event.
+ */
+
+import { randomUUID } from 'crypto';
+import { SpanStatusCode, context, trace, type Attributes, type Span, type SpanContext } from '@opentelemetry/api';
+import type { Event } from '../models/observability.js';
+import { getTracer } from '../tracer.js';
+import { runInWrappedCall } from './context.js';
+
+/**
+ * An active span for a provider wrapper call.
+ */
+export interface ProviderSpan {
+  /** OTel span id, or a UUID when no tracer provider is registered */
+  spanId: string;
+  /** OTel trace id, or null when no tracer provider is registered */
+  traceId: string | null;
+  /** OTel id of the parent span, or null for a root span */
+  parentSpanId: string | null;
+  /** OTel span context, or null when no tracer provider is registered */
+  spanContext: SpanContext | null;
+  /** Run the provider call with this span active */
+  run<T>(fn: () => T): T;
+  /** Set GenAI attributes from the recorded event and end the span */
+  end(event: Event): void;
+}
+
+// GenAI operation names for wrapper APIs; other APIs use the API name
+const OPERATION_NAMES: Record<string, string> = {
+  'chat.completions.create': 'chat',
+  'beta.chat.completions.parse': 'chat',
+  'beta.chat.completions.stream': 'chat',
+  'responses.create': 'chat',
+  'embeddings.create': 'embeddings',
+  'models.generateContent': 'generate_content',
+  'models.generateContentStream': 'generate_content',
+  'chats.sendMessage': 'chat',
+  'chats.sendMessageStream': 'chat',
+  'chat.sendMessage': 'chat',
+  'chat.sendMessageStream': 'chat',
+  'models.embedContent': 'embeddings',
+};
+
+/**
+ * Return the first argument that is a number.
+ */
+function firstNumber(...values: unknown[]): number | undefined {
+  return values.find((v): v is number => typeof v === 'number');
+}
+
+/**
+ * Return the first argument that is a non-empty string.
+ */
+function firstString(...values: unknown[]): string | undefined {
+  return values.find((v): v is string => typeof v === 'string' && v.length > 0);
+}
+
+/**
+ * Build GenAI semantic convention attributes from a provider event.
+ */
+function buildAttributes(event: Event, operation: string): Attributes {
+  const req = (event.request ?? {}) as Record<string, unknown>;
+  const resp = (event.response ?? {}) as Record<string, unknown>;
+  // Gemini keeps sampling parameters in config
+  const config = (req.config ?? {}) as Record<string, unknown>;
+  const usage = (resp.usage ?? {}) as Record<string, unknown>;
+
+  const attributes: Attributes = {
+    'gen_ai.system': event.provider,
+    'gen_ai.operation.name': operation,
+    'gen_ai.request.model': firstString(req.model),
+    'gen_ai.request.temperature': firstNumber(req.temperature, config.temperature),
+    'gen_ai.request.max_tokens': firstNumber(req.max_tokens, req.max_output_tokens, config.maxOutputTokens),
+    'gen_ai.request.top_p': firstNumber(req.top_p, config.topP),
+    'gen_ai.response.id': firstString(resp.id),
+    'gen_ai.response.model': firstString(resp.model),
+    'gen_ai.usage.input_tokens': firstNumber(usage.prompt_tokens, usage.input_tokens, usage.prompt_token_count),
+    'gen_ai.usage.output_tokens': firstNumber(
+      usage.completion_tokens,
+      usage.output_tokens,
+      usage.candidates_token_count
+    ),
+  };
+
+  // Gemini candidates and OpenAI choices carry a finish reason each
+  const perChoice = Array.isArray(resp.candidates) ? resp.candidates : Array.isArray(resp.choices) ? resp.choices : null;
+  const finishReasons = perChoice
+    ? perChoice.map((c) => ((c ?? {}) as Record<string, unknown>).finish_reason)
+    : [resp.finish_reason ?? resp.status];
+  const reasons = finishReasons.filter((r): r is string => typeof r === 'string');
+  if (reasons.length > 0) {
+    attributes['gen_ai.response.finish_reasons'] = reasons;
+  }
+
+  // Drop attributes the event did not carry
+  return Object.fromEntries(Object.entries(attributes).filter(([, v]) => v !== undefined));
+}
+
+/**
+ * Options for spans that do not start now under the active span.
+ */
+export interface ProviderSpanOptions {
+  /** Parent span, instead of the active one (e.g. the call that started a long-running operation) */
+  parent?: SpanContext | null;
+  /** Start time in epoch seconds, instead of now */
+  startTime?: number;
+}
+
+/**
+ * Start an aiobs span for a provider wrapper call.
+ *
+ * The span is named "<operation> <model>" once the model is known.
+ */
+export function startProviderSpan(provider: string, api: string, options: ProviderSpanOptions = {}): ProviderSpan {
+  const operation = OPERATION_NAMES[api] ?? api;
+  const parentContext = options.parent ? trace.setSpanContext(context.active(), options.parent) : context.active();
+  const span: Span = getTracer().startSpan(
+    `${provider}.${api}`,
+    options.startTime !== undefined ? { startTime: options.startTime * 1000 } : undefined,
+    parentContext
+  );
+  const ctx = span.spanContext();
+  const valid = trace.isSpanContextValid(ctx);
+  const spanContext = trace.setSpan(parentContext, span);
+  const parent = trace.getSpan(parentContext)?.spanContext();
+
+  return {
+    spanId: valid ? ctx.spanId : randomUUID(),
+    traceId: valid ? ctx.traceId : null,
+    parentSpanId: parent && trace.isSpanContextValid(parent) ? parent.spanId : null,
+    spanContext: valid ? ctx : null,
+
+    run<T>(fn: () => T): T {
+      return context.with(spanContext, () => runInWrappedCall(fn));
+    },
+
+    end(event: Event): void {
+      try {
+        const attributes = buildAttributes(event, operation);
+        span.setAttributes(attributes);
+        const model = attributes['gen_ai.request.model'] ?? attributes['gen_ai.response.model'];
+        if (model) {
+          span.updateName(`${operation} ${model}`);
+        }
+        if (event.error) {
+          span.setStatus({ code: SpanStatusCode.ERROR, message: event.error });
+        }
+      } catch {
+        // Never let span attributes break the caller
+      }
+      span.end();
+    },
+  };
+}
@@ -0,0 +1,215 @@
+/**
+ * Helpers for instrumenting streamed provider responses.
+ *
+ * Provider SDKs return stream objects that are consumed with `for await`.
+ * wrapStream() proxies such an object so every chunk passes through the
+ * instrumentation before reaching the caller, and reports once when the
+ * stream is exhausted, fails, is stopped early (break, return(), a cancelled
+ * ReadableStream), or is dropped without being read to the end.
+ */
+
+import type { StreamConsumption, StreamingMetrics } from '../models/observability.js';
+
+export interface StreamHooks<TChunk = unknown> {
+  /** Called for every chunk handed to the consumer */
+  onChunk(chunk: TChunk): void;
+  /**
+   * Called exactly once when the stream ends; error is null on success.
+   * chunkTimes holds the arrival time (seconds since epoch) of each chunk,
+   * and consumption how much of the stream the consumer read.
+   */
+  onEnd(error: unknown | null, chunkTimes: number[], consumption: StreamConsumption): void;
+}
+
+// Runs the callbacks of streams that were dropped before they ended
+const abandonedStreams = new FinalizationRegistry<() => void>((onAbandoned) => onAbandoned());
+
+/**
+ * Call onAbandoned once target is garbage collected.
+ *
+ * onAbandoned must not reference target, or target is never collected; it
+ * should do nothing if the stream already ended.
+ */
+export function watchAbandoned(target: object, onAbandoned: () => void): void {
+  abandonedStreams.register(target, onAbandoned);
+}
+
+/**
+ * Classify how much of a stream was read, from whether it was read to the end and its chunk count.
+ */
+export function streamConsumption(completed: boolean, chunkCount: number): StreamConsumption {
+  if (completed) {
+    return 'complete';
+  }
+  return chunkCount > 0 ? 'partial' : 'not_consumed';
+}
+
+/**
+ * Create the end-of-stream reporting for wrapStream; end() reports once.
+ *
+ * Kept out of wrapStream's scope so abandon() does not keep the stream proxy alive.
+ */
+function createStreamEnd<TChunk>(hooks: StreamHooks<TChunk>): {
+  chunkTimes: number[];
+  end(error: unknown | null, completed?: boolean): void;
+  abandon(): void;
+} {
+  let ended = false;
+  const chunkTimes: number[] = [];
+
+  const end = (error: unknown | null, completed = false): void => {
+    if (ended) {
+      return;
+    }
+    ended = true;
+    try {
+      hooks.onEnd(error, chunkTimes, streamConsumption(completed, chunkTimes.length));
+    } catch {
+      // Never let instrumentation break the caller's stream
+    }
+  };
+
+  return { chunkTimes, end, abandon: () => end(null) };
+}
+
+/**
+ * Check whether a value can be consumed with `for await`.
+ */
+export function isAsyncIterable(value: unknown): value is AsyncIterable<unknown> {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    typeof (value as Record<symbol, unknown>)[Symbol.asyncIterator] === 'function'
+  );
+}
+
+/**
+ * Wrap an async iterable stream so its chunks are observed as they are consumed.
+ *
+ * All other properties of the stream (controller, helpers, etc.) pass through;
+ * tee() splits the observed stream, so each chunk is observed once.
+ */
+export function wrapStream<T extends object, TChunk = unknown>(stream: T, hooks: StreamHooks<TChunk>): T {
+  const { chunkTimes, end, abandon } = createStreamEnd(hooks);
+
+  const proxy: T = new Proxy(stream, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+
+      // SDK streams tee from this.iterator(); hand them the observed iterator instead
+      if (prop === 'tee' && typeof value === 'function') {
+        return function wrappedTee(...args: unknown[]): unknown {
+          const source = Object.create(proxy, {
+            iterator: {
+              value: () => (proxy as AsyncIterable<TChunk>)[Symbol.asyncIterator](),
+            },
+          });
+          return value.apply(source, args);
+        };
+      }
+
+      if (prop !== Symbol.asyncIterator || typeof value !== 'function') {
+        return value;
+      }
+
+      return function wrappedAsyncIterator(): AsyncIterator<TChunk> {
+        const iterator = (value as () => AsyncIterator<TChunk>).call(target);
+
+        const wrapped: AsyncIterableIterator<TChunk> & { stream: T } = {
+          // Keeps the stream reachable, so it is not reported as abandoned while still being read
+          stream: proxy,
+          async next(...args: [] | [unknown]): Promise<IteratorResult<TChunk>> {
+            let result: IteratorResult<TChunk>;
+            try {
+              result = await iterator.next(...args);
+            } catch (e) {
+              end(e);
+              throw e;
+            }
+            if (result.done) {
+              end(null, true);
+            } else {
+              chunkTimes.push(Date.now() / 1000);
+              try {
+                hooks.onChunk(result.value);
+              } catch {
+                // Ignore chunk extraction errors
+              }
+            }
+            return result;
+          },
+          async return(value?: unknown): Promise<IteratorResult<TChunk>> {
+            end(null);
+            if (typeof iterator.return === 'function') {
+              return iterator.return(value);
+            }
+            return { done: true, value: value as TChunk };
+          },
+          async throw(error?: unknown): Promise<IteratorResult<TChunk>> {
+            end(error ?? null);
+            if (typeof iterator.throw === 'function') {
+              return iterator.throw(error);
+            }
+            throw error;
+          },
+          [Symbol.asyncIterator]() {
+            return wrapped;
+          },
+        };
+
+        return wrapped;
+      };
+    },
+  });
+
+  watchAbandoned(proxy, abandon);
+  return proxy;
+}
+
+/**
+ * Round a duration in seconds to milliseconds with microsecond precision.
+ */
+function toMs(seconds: number): number {
+  return Math.round(seconds * 1000 * 1000) / 1000;
+}
+
+/**
+ * Compute streaming timing metrics from chunk arrival times.
+ *
+ * @param started - Request start time (seconds since epoch).
+ * @param ended - Stream end time (seconds since epoch).
+ * @param chunkTimes - Arrival time of each chunk (seconds since epoch).
+ * @param outputTokens - Output token count reported by the provider, if any.
+ * @param consumption - How much of the stream the consumer read.
+ */
+export function computeStreamingMetrics(
+  started: number,
+  ended: number,
+  chunkTimes: number[],
+  outputTokens: number | null,
+  consumption: StreamConsumption = 'complete'
+): StreamingMetrics {
+  const firstChunkAt = chunkTimes.length > 0 ? chunkTimes[0] : null;
+
+  const gaps: number[] = [];
+  for (let i = 1; i < chunkTimes.length; i++) {
+    gaps.push(chunkTimes[i] - chunkTimes[i - 1]);
+  }
+
+  let tokensPerSecond: number | null = null;
+  if (firstChunkAt !== null && outputTokens !== null && ended > firstChunkAt) {
+    tokensPerSecond = Math.round((outputTokens / (ended - firstChunkAt)) * 1000) / 1000;
+  }
+
+  return {
+    first_chunk_at: firstChunkAt,
+    time_to_first_chunk_ms: firstChunkAt !== null ? toMs(firstChunkAt - started) : null,
+    chunk_count: chunkTimes.length,
+    inter_chunk_avg_ms: gaps.length > 0 ? toMs(gaps.reduce((a, b) => a + b, 0) / gaps.length) : null,
+    inter_chunk_min_ms: gaps.length > 0 ? toMs(Math.min(...gaps)) : null,
+    inter_chunk_max_ms: gaps.length > 0 ? toMs(Math.max(...gaps)) : null,
+    output_tokens: outputTokens,
+    tokens_per_second: tokensPerSecond,
+    consumption,
+  };
+}
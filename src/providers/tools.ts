@@ -0,0 +1,168 @@
+/**
+ * Tool call capture and linking shared by the provider wrappers.
+ *
+ * Wrappers register the tool calls a model returns. observe()-wrapped
+ * functions whose name matches a pending tool call in the same trace claim
+ * it, and tool results in follow-up requests are resolved back to the span
+ * that requested them. Registered calls are dropped when their session ends.
+ */
+
+import { context, trace } from '@opentelemetry/api';
+import type { Collector } from '../collector.js';
+import type { ToolCall } from '../models/observability.js';
+import type { ProviderSpan } from './span.js';
+
+/**
+ * A tool call registered for linking.
+ */
+export interface PendingToolCall {
+  id: string | null;
+  span_id: string;
+}
+
+interface TracedToolCall extends PendingToolCall {
+  /** Trace of the requesting span ('' without a tracer provider) */
+  trace_id: string;
+  /** Whether the requesting span was a root span (no active span when the model was called) */
+  root: boolean;
+}
+
+interface ToolCallRegistry {
+  /** Unclaimed calls per tool name, oldest first */
+  pending: Map<string, TracedToolCall[]>;
+  /** Requesting span per tool call id */
+  spans: Map<string, string>;
+}
+
+// Upper bound on remembered tool call ids per session
+const MAX_TRACKED_CALLS = 1000;
+
+// Tool call registries per collector and session (null outside a session)
+const registries = new WeakMap<Collector, Map<string | null, ToolCallRegistry>>();
+
+function getRegistry(collector: Collector): ToolCallRegistry {
+  let sessions = registries.get(collector);
+  if (!sessions) {
+    sessions = new Map();
+    registries.set(collector, sessions);
+  }
+  const sessionId = collector.getSessionId();
+  let registry = sessions.get(sessionId);
+  if (!registry) {
+    registry = { pending: new Map(), spans: new Map() };
+    sessions.set(sessionId, registry);
+  }
+  return registry;
+}
+
+function findRegistry(collector: Collector): ToolCallRegistry | undefined {
+  return registries.get(collector)?.get(collector.getSessionId());
+}
+
+/**
+ * Return the active trace id, or null when no span is active.
+ */
+function getActiveTraceId(): string | null {
+  const ctx = trace.getSpan(context.active())?.spanContext();
+  return ctx && trace.isSpanContextValid(ctx) ? ctx.traceId : null;
+}
+
+/**
+ * Whether a tool running in the active trace may claim a call.
+ *
+ * Calls from root spans are also claimable outside any span, since a model
+ * called at the top level starts a trace of its own.
+ */
+function isClaimable(call: TracedToolCall, activeTraceId: string | null): boolean {
+  return activeTraceId === null ? call.root || call.trace_id === '' : call.trace_id === activeTraceId;
+}
+
+/**
+ * Parse tool call arguments, returning the raw value when it is not a JSON string.
+ */
+export function parseToolArguments(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value ?? null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Register the tool calls returned in a provider event, in the active session.
+ */
+export function registerToolCalls(collector: Collector, span: ProviderSpan, calls: ToolCall[] | null): void {
+  if (!calls || calls.length === 0) {
+    return;
+  }
+  const registry = getRegistry(collector);
+  const traceId = span.traceId ?? '';
+  const root = span.parentSpanId === null;
+
+  for (const call of calls) {
+    if (call.id) {
+      registry.spans.set(call.id, span.spanId);
+    }
+    if (call.name) {
+      const queue = registry.pending.get(call.name) ?? [];
+      queue.push({ id: call.id, span_id: span.spanId, trace_id: traceId, root });
+      registry.pending.set(call.name, queue);
+    }
+  }
+
+  // Drop the oldest entries so long-running processes do not grow unbounded
+  while (registry.spans.size > MAX_TRACKED_CALLS) {
+    const oldest = registry.spans.keys().next().value as string;
+    registry.spans.delete(oldest);
+  }
+  for (const [name, queue] of registry.pending) {
+    if (queue.length > MAX_TRACKED_CALLS) {
+      registry.pending.set(name, queue.slice(-MAX_TRACKED_CALLS));
+    }
+  }
+}
+
+/**
+ * Claim the oldest unclaimed tool call for a tool name in the current session and trace.
+ */
+export function claimToolCall(collector: Collector, name: string): PendingToolCall | null {
+  const registry = findRegistry(collector);
+  const queue = registry?.pending.get(name);
+  if (!registry || !queue) {
+    return null;
+  }
+  const activeTraceId = getActiveTraceId();
+  const index = queue.findIndex((call) => isClaimable(call, activeTraceId));
+  if (index === -1) {
+    return null;
+  }
+  const [call] = queue.splice(index, 1);
+  if (queue.length === 0) {
+    registry.pending.delete(name);
+  }
+  return { id: call.id, span_id: call.span_id };
+}
+
+/**
+ * Find the span of the provider event that requested a tool call.
+ */
+export function findToolCallSpan(collector: Collector, toolCallId: string | null): string | null {
+  if (!toolCallId) {
+    return null;
+  }
+  return findRegistry(collector)?.spans.get(toolCallId) ?? null;
+}
+
+/**
+ * Forget the tool calls registered in a session, or all of them when no session is given.
+ */
+export function clearToolCalls(collector: Collector, sessionId?: string | null): void {
+  if (sessionId === undefined) {
+    registries.delete(collector);
+    return;
+  }
+  registries.get(collector)?.delete(sessionId);
+}
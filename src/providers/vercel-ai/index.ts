@@ -0,0 +1,11 @@
+/**
+ * Vercel AI SDK instrumentation for aiobs.
+ * 
+ * Supports the `ai` package through language model middleware:
+ * - generateText / streamText
+ * - generateObject / streamObject
+ */
+
+export { createAiobsMiddleware } from './middleware.js';
+export type { AiobsLanguageModelMiddleware, AiobsMiddlewareOptions } from './middleware.js';
+export * from './models/index.js';
@@ -0,0 +1,564 @@
+/**
+ * Vercel AI SDK instrumentation.
+ *
+ * Provides a language model middleware for use with wrapLanguageModel().
+ * Calls made through generateText, streamText, generateObject and streamObject
+ * reach the model's doGenerate / doStream, which the middleware records as
+ * provider events. Both the LanguageModelV1 (AI SDK 4) and LanguageModelV2
+ * (AI SDK 5) call and result shapes are supported.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Collector } from '../../collector.js';
+import type { Event, Callsite, StreamConsumption } from '../../models/observability.js';
+import type {
+  VercelAIMessage,
+  VercelAIRequest,
+  VercelAIResponse,
+  VercelAIToolCall,
+  VercelAIUsage,
+} from './models/index.js';
+import { computeStreamingMetrics, streamConsumption, watchAbandoned } from '../stream.js';
+import { runInWrappedCall } from '../context.js';
+import {
+  applyTruncations,
+  captureList,
+  createCaptureScope,
+  type CaptureConfig,
+  type CaptureScope,
+} from '../../capture.js';
+
+/**
+ * Options for createAiobsMiddleware.
+ */
+export interface AiobsMiddlewareOptions {
+  /** Capture limits for calls through this middleware, overriding the observer's */
+  capture?: CaptureConfig;
+}
+
+/**
+ * Language model identity passed to middleware hooks.
+ */
+interface MiddlewareModel {
+  provider?: string;
+  modelId?: string;
+}
+
+/**
+ * Language model middleware compatible with the AI SDK's wrapLanguageModel().
+ *
+ * Declared with method signatures so it is assignable to both the
+ * LanguageModelV1Middleware and LanguageModelV2Middleware types.
+ */
+export interface AiobsLanguageModelMiddleware {
+  wrapGenerate<T>(options: {
+    doGenerate: () => PromiseLike<T>;
+    params: unknown;
+    model: MiddlewareModel;
+  }): Promise<T>;
+  wrapStream<T extends { stream: ReadableStream<unknown> }>(options: {
+    doStream: () => PromiseLike<T>;
+    params: unknown;
+    model: MiddlewareModel;
+  }): Promise<T>;
+}
+
+/**
+ * Get callsite information from the call stack.
+ */
+function getCallsite(): Callsite | null {
+  try {
+    const error = new Error();
+    const stack = error.stack?.split('\n') ?? [];
+
+    // Skip first few frames (Error, getCallsite, wrapper function, etc.)
+    for (let i = 3; i < stack.length; i++) {
+      const line = stack[i];
+      // Skip internal aiobs and AI SDK frames
+      if (line.includes('/aiobs-ts/') || line.includes('/ai/dist/') || line.includes('node_modules')) {
+        continue;
+      }
+
+      // Parse stack frame: "    at functionName (file:line:column)"
+      const match = line.match(/at\s+(?:(.+?)\s+)?\(?(.+?):(\d+):(\d+)\)?/);
+      if (match) {
+        const [, fnName, file, lineNum] = match;
+        return {
+          file: file ?? null,
+          line: lineNum ? parseInt(lineNum, 10) : null,
+          function: fnName ?? null,
+        };
+      }
+    }
+  } catch {
+    // Ignore errors in callsite extraction
+  }
+  return null;
+}
+
+/**
+ * Map an AI SDK provider id (e.g. 'openai.chat', 'google.generative-ai') to a provider name.
+ */
+function providerName(model: MiddlewareModel): string {
+  const provider = typeof model.provider === 'string' ? model.provider : '';
+  return provider.split('.')[0] || 'vercel-ai';
+}
+
+/**
+ * Remove inline file and image data from message content parts.
+ */
+function stripPartData(content: unknown): unknown {
+  if (!Array.isArray(content)) {
+    return content;
+  }
+  return content.map((part) => {
+    const p = (part ?? {}) as Record<string, unknown>;
+    if (p.type === 'file' || p.type === 'image') {
+      return Object.fromEntries(Object.entries(p).filter(([k]) => !['data', 'image'].includes(k)));
+    }
+    return part;
+  });
+}
+
+/**
+ * Extract request data from doGenerate / doStream call options.
+ */
+function extractRequest(
+  params: unknown,
+  model: MiddlewareModel,
+  stream: boolean,
+  capture: CaptureScope
+): VercelAIRequest {
+  const req = (params ?? {}) as Record<string, unknown>;
+
+  let system: string | null = null;
+  let messages: VercelAIMessage[] | null = null;
+  if (Array.isArray(req.prompt)) {
+    const prompt = req.prompt as Array<Record<string, unknown>>;
+    const systemParts = prompt
+      .filter((m) => m.role === 'system' && typeof m.content === 'string')
+      .map((m) => m.content as string);
+    system = systemParts.length > 0 ? systemParts.join('\n') : null;
+
+    const conversation = prompt.filter((m) => m.role !== 'system');
+    messages = captureList(capture, 'request.messages', conversation).map((m) => ({
+      role: String(m.role ?? ''),
+      content: stripPartData(m.content),
+    }));
+  }
+
+  // V1 nests tools and structured output in mode; V2 passes them directly
+  const mode = (req.mode ?? {}) as Record<string, unknown>;
+  const tools = (req.tools ?? mode.tools) as Array<Record<string, unknown>> | undefined;
+  let toolNames: string[] | null = null;
+  if (Array.isArray(tools)) {
+    toolNames = tools.map((t) => String(t.name ?? ''));
+  } else if (mode.type === 'object-tool' && mode.tool && typeof mode.tool === 'object') {
+    toolNames = [String((mode.tool as Record<string, unknown>).name ?? '')];
+  }
+
+  let responseFormat: Record<string, unknown> | null = null;
+  if (req.responseFormat && typeof req.responseFormat === 'object') {
+    const format = req.responseFormat as Record<string, unknown>;
+    responseFormat = format.type === 'json' ? format : null;
+  }
+  if (mode.type === 'object-json') {
+    responseFormat = { type: 'json', schema: mode.schema ?? null };
+  } else if (mode.type === 'object-tool' && toolNames) {
+    responseFormat = { type: 'tool', tool_name: toolNames[0] };
+  }
+
+  return {
+    model: typeof model.modelId === 'string' ? model.modelId : null,
+    model_provider: typeof model.provider === 'string' ? model.provider : null,
+    system,
+    messages,
+    max_tokens: typeof req.maxOutputTokens === 'number'
+      ? req.maxOutputTokens
+      : typeof req.maxTokens === 'number' ? req.maxTokens : null,
+    temperature: typeof req.temperature === 'number' ? req.temperature : null,
+    top_p: typeof req.topP === 'number' ? req.topP : null,
+    stop_sequences: Array.isArray(req.stopSequences) ? (req.stopSequences as string[]) : null,
+    tool_names: toolNames,
+    tool_choice: req.toolChoice ?? mode.toolChoice ?? null,
+    response_format: responseFormat,
+    stream,
+    other: Object.fromEntries(
+      Object.entries(req).filter(([k]) => ![
+        'prompt', 'mode', 'tools', 'toolChoice', 'responseFormat', 'maxOutputTokens', 'maxTokens',
+        'temperature', 'topP', 'stopSequences', 'abortSignal', 'headers', 'inputFormat',
+      ].includes(k))
+    ),
+  };
+}
+
+/**
+ * Parse a JSON string, returning the raw string when it is not valid JSON.
+ */
+function parseJson(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value ?? null;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Normalize V1 (promptTokens) and V2 (inputTokens) usage.
+ */
+function normalizeUsage(usage: unknown): VercelAIUsage | null {
+  if (!usage || typeof usage !== 'object') {
+    return null;
+  }
+  const u = usage as Record<string, unknown>;
+  const prompt = typeof u.inputTokens === 'number'
+    ? u.inputTokens
+    : typeof u.promptTokens === 'number' ? u.promptTokens : null;
+  const completion = typeof u.outputTokens === 'number'
+    ? u.outputTokens
+    : typeof u.completionTokens === 'number' ? u.completionTokens : null;
+
+  if (prompt === null && completion === null) {
+    return null;
+  }
+
+  const normalized: VercelAIUsage = {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: typeof u.totalTokens === 'number' ? u.totalTokens : (prompt ?? 0) + (completion ?? 0),
+  };
+  if (typeof u.reasoningTokens === 'number') {
+    normalized.reasoning_tokens = u.reasoningTokens;
+  }
+  if (typeof u.cachedInputTokens === 'number') {
+    normalized.cached_input_tokens = u.cachedInputTokens;
+  }
+  return normalized;
+}
+
+/**
+ * Convert a V1 or V2 tool call to a captured tool call.
+ */
+function toToolCall(call: Record<string, unknown>): VercelAIToolCall {
+  return {
+    id: typeof call.toolCallId === 'string' ? call.toolCallId : null,
+    name: typeof call.toolName === 'string' ? call.toolName : null,
+    // V1 uses args, V2 uses input; both are JSON strings
+    arguments: parseJson(call.input ?? call.args),
+  };
+}
+
+/**
+ * Normalized result of a generate call or a consumed stream.
+ */
+interface ResultParts {
+  id: unknown;
+  modelId: unknown;
+  text: string | null;
+  reasoning: string | null;
+  finishReason: unknown;
+  toolCalls: VercelAIToolCall[];
+  usage: unknown;
+}
+
+/**
+ * Build the captured response, parsing structured output when it was requested.
+ */
+function buildResponse(parts: ResultParts, requestInfo: VercelAIRequest): VercelAIResponse {
+  let object: unknown | null = null;
+  const format = requestInfo.response_format;
+  if (format?.type === 'json' && parts.text !== null) {
+    object = parseJson(parts.text);
+  } else if (format?.type === 'tool') {
+    // V1 object-tool mode returns the object as the arguments of a forced tool call
+    object = parts.toolCalls.find((call) => call.name === format.tool_name)?.arguments ?? null;
+  }
+
+  const finishReason = parts.finishReason;
+  return {
+    id: typeof parts.id === 'string' ? parts.id : null,
+    model: typeof parts.modelId === 'string' ? parts.modelId : requestInfo.model,
+    text: parts.text,
+    reasoning: parts.reasoning,
+    // V2 finish reasons may be objects ({ unified, raw }) in later versions
+    finish_reason: typeof finishReason === 'string'
+      ? finishReason
+      : typeof (finishReason as Record<string, unknown> | null)?.unified === 'string'
+        ? ((finishReason as Record<string, unknown>).unified as string)
+        : null,
+    tool_calls: parts.toolCalls.length > 0 ? parts.toolCalls : null,
+    object,
+    usage: normalizeUsage(parts.usage),
+  };
+}
+
+/**
+ * Extract response data from a doGenerate result.
+ */
+function extractGenerateResult(result: unknown, requestInfo: VercelAIRequest): VercelAIResponse {
+  const r = (result ?? {}) as Record<string, unknown>;
+  const response = (r.response ?? {}) as Record<string, unknown>;
+
+  let text: string | null = typeof r.text === 'string' ? r.text : null;
+  let reasoning: string | null = typeof r.reasoning === 'string' ? r.reasoning : null;
+  const toolCalls: VercelAIToolCall[] = [];
+
+  if (Array.isArray(r.toolCalls)) {
+    // V1: tool calls are returned separately from the text
+    toolCalls.push(...(r.toolCalls as Array<Record<string, unknown>>).map(toToolCall));
+  }
+
+  if (Array.isArray(r.content)) {
+    // V2: text, reasoning and tool calls are content parts
+    const content = r.content as Array<Record<string, unknown>>;
+    const textParts = content.filter((p) => p.type === 'text').map((p) => String(p.text ?? ''));
+    const reasoningParts = content.filter((p) => p.type === 'reasoning').map((p) => String(p.text ?? ''));
+    text = textParts.length > 0 ? textParts.join('') : text;
+    reasoning = reasoningParts.length > 0 ? reasoningParts.join('') : reasoning;
+    toolCalls.push(...content.filter((p) => p.type === 'tool-call').map(toToolCall));
+  }
+
+  return buildResponse(
+    {
+      id: response.id,
+      modelId: response.modelId,
+      text,
+      reasoning,
+      finishReason: r.finishReason,
+      toolCalls,
+      usage: r.usage,
+    },
+    requestInfo
+  );
+}
+
+/**
+ * Accumulated state of a consumed doStream result.
+ */
+interface StreamState {
+  id: unknown;
+  modelId: unknown;
+  text: string;
+  reasoning: string;
+  finishReason: unknown;
+  toolCalls: VercelAIToolCall[];
+  usage: unknown;
+  error: string | null;
+}
+
+/**
+ * Apply a single stream part to the accumulated state.
+ */
+function applyStreamPart(state: StreamState, part: unknown): void {
+  const p = (part ?? {}) as Record<string, unknown>;
+
+  switch (p.type) {
+    case 'response-metadata':
+      state.id = p.id ?? state.id;
+      state.modelId = p.modelId ?? state.modelId;
+      break;
+    case 'text-delta':
+      // V1 uses textDelta, V2 uses delta
+      state.text += String(p.delta ?? p.textDelta ?? '');
+      break;
+    case 'reasoning':
+    case 'reasoning-delta':
+      state.reasoning += String(p.delta ?? p.textDelta ?? '');
+      break;
+    case 'tool-call':
+      state.toolCalls.push(toToolCall(p));
+      break;
+    case 'finish':
+      state.finishReason = p.finishReason;
+      state.usage = p.usage;
+      break;
+    case 'error': {
+      const err = p.error as Error | undefined;
+      state.error = err instanceof Error ? `${err.name}: ${err.message}` : `Error: ${String(p.error)}`;
+      break;
+    }
+    default:
+      break;
+  }
+}
+
+/**
+ * Create a middleware that records language model calls as aiobs events.
+ *
+ * Usage:
+ *   const model = wrapLanguageModel({
+ *     model: openai('gpt-4o-mini'),
+ *     middleware: createAiobsMiddleware(observer),
+ *   });
+ */
+export function createAiobsMiddleware(
+  collector: Collector,
+  options: AiobsMiddlewareOptions = {}
+): AiobsLanguageModelMiddleware {
+  /**
+   * Start an event for a call and return its request info and a function that records it.
+   */
+  const begin = (model: MiddlewareModel, params: unknown, api: string, stream: boolean) => {
+    const spanId = randomUUID();
+    const parentSpanId = collector.getCurrentSpanId();
+    const started = Date.now() / 1000;
+    const callsite = getCallsite();
+    const capture = createCaptureScope(collector.getCaptureConfig(), options.capture);
+    const requestInfo = extractRequest(params, model, stream, capture);
+
+    const record = (
+      responseInfo: VercelAIResponse | null,
+      error: string | null,
+      chunkTimes: number[] | null = null,
+      consumption: StreamConsumption = 'complete'
+    ): void => {
+      const ended = Date.now() / 1000;
+
+      const event: Event = {
+        provider: providerName(model),
+        api,
+        callsite,
+        request: requestInfo,
+        response: responseInfo,
+        error,
+        started_at: started,
+        ended_at: ended,
+        duration_ms: Math.round((ended - started) * 1000 * 1000) / 1000,
+        span_id: spanId,
+        parent_span_id: parentSpanId,
+        trace_id: null,
+      };
+
+      if (chunkTimes) {
+        event.streaming = computeStreamingMetrics(
+          started,
+          ended,
+          chunkTimes,
+          responseInfo?.usage?.completion_tokens ?? null,
+          consumption
+        );
+      }
+
+      applyTruncations(event, capture);
+      collector.recordEvent(event);
+    };
+
+    return { requestInfo, record };
+  };
+
+  return {
+    async wrapGenerate({ doGenerate, params, model }) {
+      const { requestInfo, record } = begin(model, params, 'languageModel.doGenerate', false);
+
+      let result;
+      try {
+        result = await runInWrappedCall(() => doGenerate());
+      } catch (e) {
+        const err = e as Error;
+        record(null, `${err.name}: ${err.message}`);
+        throw e;
+      }
+
+      try {
+        record(extractGenerateResult(result, requestInfo), null);
+      } catch {
+        // Never let instrumentation break the caller
+      }
+      return result;
+    },
+
+    async wrapStream({ doStream, params, model }) {
+      const { requestInfo, record } = begin(model, params, 'languageModel.doStream', true);
+
+      let result;
+      try {
+        result = await runInWrappedCall(() => doStream());
+      } catch (e) {
+        const err = e as Error;
+        record(null, `${err.name}: ${err.message}`);
+        throw e;
+      }
+
+      const state: StreamState = {
+        id: null,
+        modelId: null,
+        text: '',
+        reasoning: '',
+        finishReason: null,
+        toolCalls: [],
+        usage: null,
+        error: null,
+      };
+      const chunkTimes: number[] = [];
+      let ended = false;
+
+      const end = (error: string | null, completed = false): void => {
+        if (ended) {
+          return;
+        }
+        ended = true;
+        try {
+          const responseInfo = buildResponse(
+            {
+              ...state,
+              text: state.text || null,
+              reasoning: state.reasoning || null,
+            },
+            requestInfo
+          );
+          record(responseInfo, error ?? state.error, chunkTimes, streamConsumption(completed, chunkTimes.length));
+        } catch {
+          // Never let instrumentation break the caller's stream
+        }
+      };
+
+      // Read the source stream directly so errors and cancellation are recorded too;
+      // with no high water mark, nothing is read before the caller asks for it
+      const reader = result.stream.getReader();
+      const observed = new ReadableStream<unknown>(
+        {
+          async pull(controller) {
+            let chunk: Awaited<ReturnType<typeof reader.read>>;
+            try {
+              chunk = await reader.read();
+            } catch (e) {
+              const err = e as Error;
+              end(`${err.name}: ${err.message}`);
+              controller.error(e);
+              return;
+            }
+
+            if (chunk.done) {
+              end(null, true);
+              controller.close();
+              return;
+            }
+
+            const p = (chunk.value ?? {}) as Record<string, unknown>;
+            // Count only parts that carry output as chunks
+            if (p.type === 'text-delta' || p.type === 'reasoning' || p.type === 'reasoning-delta' || p.type === 'tool-call') {
+              chunkTimes.push(Date.now() / 1000);
+            }
+            try {
+              applyStreamPart(state, chunk.value);
+            } catch {
+              // Ignore part extraction errors
+            }
+            controller.enqueue(chunk.value);
+          },
+          async cancel(reason) {
+            end(null);
+            await reader.cancel(reason);
+          },
+        },
+        { highWaterMark: 0 }
+      );
+      watchAbandoned(observed, () => end(null));
+
+      return { ...result, stream: observed };
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Base models for Vercel AI SDK language model capture.
+ */
+
+export interface BaseVercelAIRequest {
+  /** Model id reported by the language model (e.g. 'gpt-4o-mini') */
+  model: string | null;
+  /** Provider id reported by the language model (e.g. 'openai.chat') */
+  model_provider: string | null;
+}
+
+/**
+ * Token counts from the result's usage: inputTokens/outputTokens (AI SDK 5) or
+ * promptTokens/completionTokens (AI SDK 4), plus reasoning_tokens and
+ * cached_input_tokens when the model reports them.
+ */
+export interface VercelAIUsage extends Record<string, unknown> {
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  total_tokens: number | null;
+}
+
+export interface BaseVercelAIResponse {
+  id: string | null;
+  model: string | null;
+  usage: VercelAIUsage | null;
+}
@@ -0,0 +1,44 @@
+/**
+ * Models for Vercel AI SDK language model (doGenerate / doStream) capture.
+ */
+
+import type { BaseVercelAIRequest, BaseVercelAIResponse } from './base.js';
+
+export interface VercelAIMessage {
+  role: string;
+  content: unknown;
+}
+
+export interface VercelAIRequest extends BaseVercelAIRequest {
+  system: string | null;
+  messages: VercelAIMessage[] | null;
+  max_tokens: number | null;
+  temperature: number | null;
+  top_p: number | null;
+  stop_sequences: string[] | null;
+  tool_names: string[] | null;
+  tool_choice: unknown | null;
+  /** Requested structured output format (JSON schema or forced tool), if any */
+  response_format: Record<string, unknown> | null;
+  stream: boolean;
+  other: Record<string, unknown>;
+}
+
+/**
+ * Tool call produced by the model.
+ */
+export interface VercelAIToolCall {
+  id: string | null;
+  name: string | null;
+  /** Parsed arguments, or the raw string when they are not valid JSON */
+  arguments: unknown;
+}
+
+export interface VercelAIResponse extends BaseVercelAIResponse {
+  text: string | null;
+  reasoning: string | null;
+  finish_reason: string | null;
+  tool_calls: VercelAIToolCall[] | null;
+  /** Parsed structured output for generateObject / streamObject calls */
+  object: unknown | null;
+}
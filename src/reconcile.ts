@@ -0,0 +1,147 @@
+/**
+ * Reconciliation of provider events captured twice.
+ *
+ * A call made through a wrapped client can also be captured by OTel
+ * instrumentation (e.g. @opentelemetry/instrumentation-openai). At flush the
+ * two captures are merged into one event: the wrapper event is kept, fields it
+ * is missing are filled from the OTel event, and field_sources reports where
+ * each request/response field came from.
+ */
+
+import type { Event, EventSource, FunctionEvent } from './models/observability.js';
+
+// Clock slack allowed when matching an OTel span inside a wrapper call (seconds)
+const TIME_TOLERANCE_S = 0.05;
+
+/**
+ * Normalize an API name for comparison (models.generate_content == models.generateContent).
+ */
+function normalizeApi(api: string): string {
+  return api.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Get the model named in an event's request, if any.
+ */
+function requestModel(event: Event): string | null {
+  const model = ((event.request ?? {}) as Record<string, unknown>).model;
+  return typeof model === 'string' ? model : null;
+}
+
+/**
+ * Check whether an OTel event captured the same call as a wrapper event.
+ */
+function isSameCall(proxy: Event, otel: Event): boolean {
+  // Wrapper calls run in an active span, so instrumentation spans nest directly under them
+  if (otel.parent_span_id && otel.parent_span_id === proxy.span_id) {
+    return true;
+  }
+
+  if (proxy.provider !== otel.provider || normalizeApi(proxy.api) !== normalizeApi(otel.api)) {
+    return false;
+  }
+  const proxyModel = requestModel(proxy);
+  const otelModel = requestModel(otel);
+  if (proxyModel && otelModel && proxyModel !== otelModel) {
+    return false;
+  }
+  return (
+    otel.started_at >= proxy.started_at - TIME_TOLERANCE_S &&
+    otel.ended_at <= proxy.ended_at + TIME_TOLERANCE_S
+  );
+}
+
+/**
+ * Merge two request or response objects key by key, recording the source of each key.
+ */
+function mergeFields(
+  prefix: string,
+  proxyValue: unknown,
+  otelValue: unknown,
+  sources: Record<string, EventSource>
+): unknown {
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    !!v && typeof v === 'object' && !Array.isArray(v);
+
+  if (!isObject(proxyValue) || !isObject(otelValue)) {
+    if (proxyValue !== null && proxyValue !== undefined) {
+      sources[prefix] = 'proxy';
+      return proxyValue;
+    }
+    if (otelValue !== null && otelValue !== undefined) {
+      sources[prefix] = 'otel';
+      return otelValue;
+    }
+    return proxyValue ?? null;
+  }
+
+  const merged: Record<string, unknown> = { ...proxyValue };
+  for (const [key, value] of Object.entries(proxyValue)) {
+    if (value !== null && value !== undefined) {
+      sources[`${prefix}.${key}`] = 'proxy';
+    }
+  }
+  for (const [key, value] of Object.entries(otelValue)) {
+    if ((merged[key] === null || merged[key] === undefined) && value !== null && value !== undefined) {
+      merged[key] = value;
+      sources[`${prefix}.${key}`] = 'otel';
+    }
+  }
+  return merged;
+}
+
+/**
+ * Merge an OTel capture into the wrapper event for the same call.
+ */
+function mergeEvents(proxy: Event, otel: Event): Event {
+  const sources: Record<string, EventSource> = {};
+  const request = mergeFields('request', proxy.request, otel.request, sources);
+  const response = mergeFields('response', proxy.response, otel.response, sources);
+
+  return {
+    ...proxy,
+    request,
+    response,
+    error: proxy.error ?? otel.error,
+    trace_id: proxy.trace_id ?? otel.trace_id,
+    field_sources: sources,
+  };
+}
+
+/**
+ * Merge provider events that were captured by both a wrapper and OTel instrumentation.
+ *
+ * Events that were not captured twice are returned unchanged. Events whose
+ * parent was a merged OTel event are re-parented to the kept wrapper event.
+ */
+export function reconcileEvents(events: Array<Event | FunctionEvent>): Array<Event | FunctionEvent> {
+  const otelEvents = events.filter((ev): ev is Event => (ev as Event).source === 'otel');
+  if (otelEvents.length === 0) {
+    return events;
+  }
+
+  const proxyEvents = events.filter((ev): ev is Event => (ev as Event).source === 'proxy');
+  const merged = new Map<Event, Event>();
+  const dropped = new Set<Event>();
+  const remapped = new Map<string, string>();
+
+  for (const otel of otelEvents) {
+    const proxy = proxyEvents.find((p) => !merged.has(p) && isSameCall(p, otel));
+    if (!proxy) {
+      continue;
+    }
+    merged.set(proxy, mergeEvents(proxy, otel));
+    dropped.add(otel);
+    if (otel.span_id && proxy.span_id) {
+      remapped.set(otel.span_id, proxy.span_id);
+    }
+  }
+
+  return events
+    .filter((ev) => !dropped.has(ev as Event))
+    .map((ev) => {
+      const result = merged.get(ev as Event) ?? ev;
+      const parent = result.parent_span_id ? remapped.get(result.parent_span_id) : undefined;
+      return parent ? { ...result, parent_span_id: parent } : result;
+    });
+}
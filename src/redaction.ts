@@ -0,0 +1,221 @@
+/**
+ * Redaction of PII and secrets from captured payloads.
+ *
+ * A RedactionConfig on observer.observe() enables the built-in detectors and
+ * any custom redactors. Events and session labels are redacted at flush,
+ * before the file, a custom exporter or the flush server sees them, and each
+ * redacted event lists what was replaced in `redactions`.
+ */
+
+import type { RedactionRecord } from './models/observability.js';
+
+/** Built-in detectors, run in this order before any custom redactors */
+export const BUILTIN_DETECTORS = ['jwt', 'api_key', 'credit_card', 'email', 'phone'] as const;
+
+export type BuiltinDetector = (typeof BUILTIN_DETECTORS)[number];
+
+/**
+ * Custom redactor replacing every match of a pattern.
+ */
+export interface PatternRedactor {
+  /** Name recorded in `redactions` */
+  name: string;
+  pattern: RegExp;
+  /** Replacement text (default: [REDACTED:<name>]) */
+  replacement?: string;
+}
+
+/**
+ * Custom redactor rewriting whole string values.
+ */
+export interface FunctionRedactor {
+  /** Name recorded in `redactions` */
+  name: string;
+  /** Return the redacted value, or the value unchanged if there is nothing to redact */
+  redact: (value: string, field: string) => string;
+}
+
+export type CustomRedactor = PatternRedactor | FunctionRedactor;
+
+export interface RedactionConfig {
+  /** Built-in detectors to run (default: all of BUILTIN_DETECTORS) */
+  detectors?: BuiltinDetector[];
+  /** Custom redactors, run after the built-in detectors */
+  redactors?: CustomRedactor[];
+}
+
+/**
+ * A resolved redaction step: returns the redacted string and the number of replacements.
+ */
+export interface RedactionRule {
+  name: string;
+  apply: (value: string, field: string) => { value: string; count: number };
+}
+
+const API_KEY_PATTERNS = [
+  /\bsk-(?:proj-|ant-[a-z0-9]+-)?[A-Za-z0-9_-]{20,}/,
+  /\baiobs_sk_[A-Za-z0-9_-]{8,}/,
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/,
+  /\bAIza[0-9A-Za-z_-]{35}/,
+  /\bgh[pousr]_[A-Za-z0-9]{36,}/,
+  /\bgithub_pat_[A-Za-z0-9_]{22,}/,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/,
+  /\b[rsp]k_(?:live|test)_[A-Za-z0-9]{16,}/,
+];
+
+// String values under these keys are secrets whatever their format (e.g. `apiKey` in a config object)
+const CREDENTIAL_KEY = /^(?:x-)?(?:api[_-]?key|secret|client[_-]?secret|password|passwd|(?:access|refresh|auth)[_-]?token|authorization)$/i;
+
+const DETECTOR_PATTERNS: Record<BuiltinDetector, RegExp> = {
+  jwt: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  api_key: new RegExp(API_KEY_PATTERNS.map((p) => p.source).join('|'), 'g'),
+  credit_card: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g,
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+  phone: /(?<![\w+.-])(?:\+\d{1,3}[ .-]?)?(?:\(\d{3}\) ?|\d{3}[ .-])\d{3}[ .-]\d{4}(?![\w.-])|(?<![\w+])\+\d{10,15}(?!\w)/g,
+};
+
+/**
+ * Check a card number candidate with the Luhn checksum.
+ */
+function isLuhnValid(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) {
+        d -= 9;
+      }
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Build a rule replacing pattern matches; accept can reject a match (left as is).
+ */
+function patternRule(
+  name: string,
+  pattern: RegExp,
+  replacement: string,
+  accept: (match: string) => boolean = () => true
+): RedactionRule {
+  const global = pattern.flags.includes('g') ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+  return {
+    name,
+    apply: (value) => {
+      let count = 0;
+      const redacted = value.replace(global, (match) => {
+        if (!accept(match)) {
+          return match;
+        }
+        count++;
+        return replacement;
+      });
+      return { value: redacted, count };
+    },
+  };
+}
+
+/**
+ * Resolve a redaction config into the ordered rules to apply.
+ */
+export function resolveRedactionRules(config: RedactionConfig): RedactionRule[] {
+  const rules: RedactionRule[] = [];
+
+  const enabled = new Set(config.detectors ?? BUILTIN_DETECTORS);
+  for (const detector of BUILTIN_DETECTORS) {
+    if (!enabled.has(detector)) {
+      continue;
+    }
+    const accept = detector === 'credit_card' ? isLuhnValid : undefined;
+    rules.push(patternRule(detector, DETECTOR_PATTERNS[detector], `[REDACTED:${detector}]`, accept));
+  }
+
+  for (const redactor of config.redactors ?? []) {
+    if ('pattern' in redactor) {
+      rules.push(patternRule(redactor.name, redactor.pattern, redactor.replacement ?? `[REDACTED:${redactor.name}]`));
+    } else {
+      rules.push({
+        name: redactor.name,
+        apply: (value, field) => {
+          const redacted = redactor.redact(value, field);
+          return { value: redacted, count: redacted === value ? 0 : 1 };
+        },
+      });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Add a redaction to the records, merging repeats for the same field and rule.
+ */
+function addRecord(records: RedactionRecord[], field: string, type: string, count: number): void {
+  const existing = records.find((r) => r.field === field && r.type === type);
+  if (existing) {
+    existing.count += count;
+  } else {
+    records.push({ field, type, count });
+  }
+}
+
+/**
+ * Redact a value, returning a copy; plain objects and arrays are walked, other objects kept as is.
+ */
+export function redactValue(
+  rules: RedactionRule[],
+  records: RedactionRecord[],
+  field: string,
+  value: unknown,
+  key: string | null = null
+): unknown {
+  if (typeof value === 'string') {
+    if (key !== null && value.length > 0 && rules.some((r) => r.name === 'api_key') && CREDENTIAL_KEY.test(key)) {
+      addRecord(records, field, 'api_key', 1);
+      return '[REDACTED:api_key]';
+    }
+    let redacted = value;
+    for (const rule of rules) {
+      const result = rule.apply(redacted, field);
+      if (result.count > 0) {
+        addRecord(records, field, rule.name, result.count);
+        redacted = result.value;
+      }
+    }
+    return redacted;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, i) => redactValue(rules, records, `${field}[${i}]`, item));
+  }
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, redactValue(rules, records, `${field}.${k}`, v, k)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Return a redacted copy of a record, redacting the given fields and listing what was replaced.
+ */
+export function redactFields<T extends { redactions?: RedactionRecord[] }>(
+  rules: RedactionRule[],
+  target: T,
+  fields: Array<keyof T & string>
+): T {
+  const records: RedactionRecord[] = [];
+  const redacted = { ...target };
+  for (const field of fields) {
+    if (target[field] !== undefined) {
+      redacted[field] = redactValue(rules, records, field, target[field]) as T[typeof field];
+    }
+  }
+  if (records.length > 0) {
+    redacted.redactions = records;
+  }
+  return redacted;
+}
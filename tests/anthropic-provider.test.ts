@@ -0,0 +1,337 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { wrapAnthropicClient } from '../src/providers/anthropic/index.js';
+import { Collector } from '../src/collector.js';
+
+/**
+ * Build a mock stream that yields the given events, like the SDK's Stream.
+ */
+function mockStream(events: unknown[]) {
+  return {
+    controller: new AbortController(),
+    async *[Symbol.asyncIterator]() {
+      for (const ev of events) {
+        yield ev;
+      }
+    },
+  };
+}
+
+/**
+ * Build a resolved promise carrying the APIPromise helpers, like the SDK's APIPromise.
+ */
+function mockAPIPromise(data: unknown, response: Response) {
+  return Object.assign(Promise.resolve(data), {
+    withResponse: async () => ({ data, response, request_id: response.headers.get('request-id') }),
+    asResponse: async () => response,
+  });
+}
+
+describe('Anthropic Provider', () => {
+  let collector: Collector;
+  let recordedEvents: unknown[];
+
+  beforeEach(() => {
+    collector = new Collector();
+    recordedEvents = [];
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event);
+    });
+  });
+
+  afterEach(() => {
+    collector.reset();
+    vi.restoreAllMocks();
+  });
+
+  describe('wrapAnthropicClient()', () => {
+    it('should wrap an Anthropic client', () => {
+      const mockClient = {
+        messages: {
+          create: vi.fn(),
+        },
+      };
+
+      const wrapped = wrapAnthropicClient(mockClient, collector);
+
+      expect(wrapped).toBeDefined();
+      expect(wrapped.messages).toBeDefined();
+      expect(wrapped.messages.create).toBeDefined();
+    });
+
+    it('should record request and response details', async () => {
+      const mockResponse = {
+        id: 'msg_123',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet-4-5',
+        content: [{ type: 'text', text: 'Hello from Claude!' }],
+        stop_reason: 'end_turn',
+        stop_sequence: null,
+        usage: {
+          input_tokens: 12,
+          output_tokens: 6,
+          cache_creation_input_tokens: 0,
+          cache_read_input_tokens: 100,
+        },
+      };
+
+      const mockClient = {
+        messages: {
+          create: vi.fn().mockResolvedValue(mockResponse),
+        },
+      };
+
+      const wrapped = wrapAnthropicClient(mockClient, collector);
+
+      const response = await wrapped.messages.create({
+        model: 'claude-sonnet-4-5',
+        max_tokens: 256,
+        system: 'You are helpful',
+        messages: [{ role: 'user', content: 'Hello' }],
+      });
+
+      expect(response).toEqual(mockResponse);
+      expect(recordedEvents).toHaveLength(1);
+
+      const event = recordedEvents[0] as {
+        provider: string;
+        api: string;
+        request: { model: string; system: string; max_tokens: number; messages: unknown[]; stream: boolean };
+        response: {
+          id: string;
+          text: string;
+          stop_reason: string;
+          usage: Record<string, number>;
+          tool_use: unknown;
+        };
+      };
+
+      expect(event.provider).toBe('anthropic');
+      expect(event.api).toBe('messages.create');
+      expect(event.request.model).toBe('claude-sonnet-4-5');
+      expect(event.request.system).toBe('You are helpful');
+      expect(event.request.max_tokens).toBe(256);
+      expect(event.request.messages).toHaveLength(1);
+      expect(event.request.stream).toBe(false);
+      expect(event.response.id).toBe('msg_123');
+      expect(event.response.text).toBe('Hello from Claude!');
+      expect(event.response.stop_reason).toBe('end_turn');
+      expect(event.response.usage.input_tokens).toBe(12);
+      expect(event.response.usage.output_tokens).toBe(6);
+      expect(event.response.usage.cache_read_input_tokens).toBe(100);
+      expect(event.response.tool_use).toBeNull();
+      expect(event.response).not.toHaveProperty('content');
+    });
+
+    it('should keep APIPromise helpers and record HTTP metadata', async () => {
+      const message = { id: 'msg_456', content: [{ type: 'text', text: 'Hi' }] };
+      const mockClient = {
+        messages: {
+          create: vi.fn(() =>
+            mockAPIPromise(message, new Response(JSON.stringify(message), { headers: { 'request-id': 'req_abc' } }))
+          ),
+        },
+      };
+
+      const wrapped = wrapAnthropicClient(mockClient, collector);
+
+      const { data, request_id } = await wrapped.messages
+        .create({ model: 'claude-sonnet-4-5', max_tokens: 10, messages: [{ role: 'user', content: 'Hi' }] })
+        .withResponse();
+
+      expect(data).toEqual(message);
+      expect(request_id).toBe('req_abc');
+      expect(recordedEvents).toHaveLength(1);
+      expect(recordedEvents[0]).toMatchObject({
+        response: { id: 'msg_456', text: 'Hi' },
+        http: { status: 200, request_id: 'req_abc', rate_limit: null },
+      });
+    });
+
+    it('should capture tool_use blocks', async () => {
+      const mockClient = {
+        messages: {
+          create: vi.fn().mockResolvedValue({
+            id: 'msg_tool',
+            model: 'claude-sonnet-4-5',
+            content: [
+              { type: 'text', text: 'Let me check.' },
+              { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+            ],
+            stop_reason: 'tool_use',
+          }),
+        },
+      };
+
+      const wrapped = wrapAnthropicClient(mockClient, collector);
+
+      await wrapped.messages.create({
+        model: 'claude-sonnet-4-5',
+        max_tokens: 256,
+        messages: [{ role: 'user', content: 'Weather in Paris?' }],
+        tools: [{ name: 'get_weather', input_schema: { type: 'object' } }],
+      });
+
+      const event = recordedEvents[0] as {
+        request: { other: Record<string, unknown> };
+        response: { stop_reason: string; tool_use: Array<{ id: string; name: string; input: unknown }> };
+      };
+
+      expect(event.request.other.tools).toBeDefined();
+      expect(event.response.stop_reason).toBe('tool_use');
+      expect(event.response.tool_use).toEqual([
+        { id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } },
+      ]);
+    });
+
+    it('should capture errors', async () => {
+      const mockClient = {
+        messages: {
+          create: vi.fn().mockRejectedValue(new Error('API Error')),
+        },
+      };
+
+      const wrapped = wrapAnthropicClient(mockClient, collector);
+
+      await expect(
+        wrapped.messages.create({
+          model: 'claude-sonnet-4-5',
+          max_tokens: 10,
+          messages: [{ role: 'user', content: 'Test' }],
+        })
+      ).rejects.toThrow('API Error');
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0] as { error: string; response: unknown };
+      expect(event.error).toContain('Error: API Error');
+      expect(event.response).toBeNull();
+    });
+  });
+
+  describe('streaming', () => {
+    const streamEvents = [
+      {
+        type: 'message_start',
+        message: {
+          id: 'msg_stream',
+          role: 'assistant',
+          model: 'claude-sonnet-4-5',
+          content: [],
+          usage: { input_tokens: 20, output_tokens: 1, cache_read_input_tokens: 5 },
+        },
+      },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hello' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' there' } },
+      { type: 'content_block_stop', index: 0 },
+      {
+        type: 'content_block_start',
+        index: 1,
+        content_block: { type: 'tool_use', id: 'toolu_2', name: 'lookup', input: {} },
+      },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"q":' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"aiobs"}' } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 15 } },
+      { type: 'message_stop' },
+    ];
+
+    it('should record the event only after the stream is consumed', async () => {
+      const mockClient = {
+        messages: {
+          create: vi.fn().mockResolvedValue(mockStream(streamEvents)),
+        },
+      };
+
+      const wrapped = wrapAnthropicClient(mockClient, collector);
+
+      const stream = (await wrapped.messages.create({
+        model: 'claude-sonnet-4-5',
+        max_tokens: 256,
+        stream: true,
+        messages: [{ role: 'user', content: 'Hi' }],
+      })) as AsyncIterable<unknown>;
+
+      expect(recordedEvents).toHaveLength(0);
+
+      const received: unknown[] = [];
+      for await (const chunk of stream) {
+        received.push(chunk);
+      }
+
+      expect(received).toEqual(streamEvents);
+      expect(recordedEvents).toHaveLength(1);
+
+      const event = recordedEvents[0] as {
+        request: { stream: boolean };
+        response: {
+          id: string;
+          text: string;
+          stop_reason: string;
+          usage: Record<string, number>;
+          tool_use: Array<{ id: string; name: string; input: unknown }>;
+        };
+        error: string | null;
+      };
+
+      expect(event.request.stream).toBe(true);
+      expect(event.error).toBeNull();
+      expect(event.response.id).toBe('msg_stream');
+      expect(event.response.text).toBe('Hello there');
+      expect(event.response.stop_reason).toBe('tool_use');
+      expect(event.response.usage.input_tokens).toBe(20);
+      expect(event.response.usage.output_tokens).toBe(15);
+      expect(event.response.usage.cache_read_input_tokens).toBe(5);
+      expect(event.response.tool_use).toEqual([{ id: 'toolu_2', name: 'lookup', input: { q: 'aiobs' } }]);
+    });
+
+    it('should record once when the consumer stops early', async () => {
+      const mockClient = {
+        messages: {
+          create: vi.fn().mockResolvedValue(mockStream(streamEvents)),
+        },
+      };
+
+      const wrapped = wrapAnthropicClient(mockClient, collector);
+
+      const stream = (await wrapped.messages.create({
+        model: 'claude-sonnet-4-5',
+        max_tokens: 256,
+        stream: true,
+        messages: [{ role: 'user', content: 'Hi' }],
+      })) as AsyncIterable<unknown>;
+
+      for await (const chunk of stream) {
+        if ((chunk as { type: string }).type === 'content_block_stop') {
+          break;
+        }
+      }
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0] as { response: { text: string; stop_reason: string | null } };
+      expect(event.response.text).toBe('Hello there');
+      expect(event.response.stop_reason).toBeNull();
+    });
+
+    it('should preserve other stream properties', async () => {
+      const stream = mockStream(streamEvents);
+      const mockClient = {
+        messages: {
+          create: vi.fn().mockResolvedValue(stream),
+        },
+      };
+
+      const wrapped = wrapAnthropicClient(mockClient, collector);
+
+      const result = (await wrapped.messages.create({
+        model: 'claude-sonnet-4-5',
+        max_tokens: 256,
+        stream: true,
+        messages: [{ role: 'user', content: 'Hi' }],
+      })) as { controller: AbortController };
+
+      expect(result.controller).toBe(stream.controller);
+    });
+  });
+});
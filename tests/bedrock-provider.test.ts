@@ -0,0 +1,394 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { wrapBedrockClient } from '../src/providers/bedrock/index.js';
+import { Collector } from '../src/collector.js';
+
+interface RecordedEvent {
+  provider: string;
+  api: string;
+  error: string | null;
+  request: Record<string, unknown>;
+  response: Record<string, unknown> | null;
+  streaming?: Record<string, unknown>;
+}
+
+// Minimal stand-ins for @aws-sdk/client-bedrock-runtime commands
+class InvokeModelCommand {
+  constructor(public input: Record<string, unknown>) {}
+}
+class ConverseCommand {
+  constructor(public input: Record<string, unknown>) {}
+}
+class ConverseStreamCommand {
+  constructor(public input: Record<string, unknown>) {}
+}
+class ListAsyncInvokesCommand {
+  constructor(public input: Record<string, unknown>) {}
+}
+
+function createMockClient(send: (command: unknown) => Promise<unknown>) {
+  return {
+    config: { region: 'us-east-1' },
+    send: vi.fn().mockImplementation(send),
+  };
+}
+
+function encode(body: unknown): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(body));
+}
+
+describe('Bedrock Provider', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+
+  beforeEach(() => {
+    collector = new Collector();
+    recordedEvents = [];
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+  });
+
+  afterEach(() => {
+    collector.reset();
+    vi.restoreAllMocks();
+  });
+
+  describe('wrapBedrockClient()', () => {
+    it('should pass other commands and properties through', async () => {
+      const client = createMockClient(async () => ({ asyncInvokeSummaries: [] }));
+      const wrapped = wrapBedrockClient(client, collector);
+
+      const result = await wrapped.send(new ListAsyncInvokesCommand({}));
+
+      expect(result).toEqual({ asyncInvokeSummaries: [] });
+      expect(wrapped.config).toBe(client.config);
+      expect(recordedEvents).toHaveLength(0);
+    });
+
+    it('should detect commands by their input when class names are minified', async () => {
+      // Bundlers may rename command classes
+      class e {
+        constructor(public input: Record<string, unknown>) {}
+      }
+      const client = createMockClient(async () => ({ output: { message: { role: 'assistant', content: [] } } }));
+      const wrapped = wrapBedrockClient(client, collector);
+
+      await wrapped.send(new e({ modelId: 'amazon.nova-lite-v1:0', messages: [] }));
+      await wrapped.send(new e({ modelId: 'amazon.nova-lite-v1:0', body: encode({}) }));
+
+      expect(recordedEvents.map((ev) => ev.api)).toEqual(['Converse', 'InvokeModel']);
+    });
+  });
+
+  describe('ConverseCommand', () => {
+    it('should normalize model id, messages, stop reason and usage', async () => {
+      const output = {
+        $metadata: { requestId: 'req-1', httpStatusCode: 200 },
+        output: {
+          message: {
+            role: 'assistant',
+            content: [
+              { text: 'Let me check.' },
+              { toolUse: { toolUseId: 'tu-1', name: 'get_weather', input: { city: 'Paris' } } },
+            ],
+          },
+        },
+        stopReason: 'tool_use',
+        usage: { inputTokens: 20, outputTokens: 12, totalTokens: 32, cacheReadInputTokens: 5 },
+        metrics: { latencyMs: 640 },
+      };
+      const client = createMockClient(async () => output);
+      const wrapped = wrapBedrockClient(client, collector);
+
+      const result = await wrapped.send(
+        new ConverseCommand({
+          modelId: 'us.anthropic.claude-3-5-haiku-20241022-v1:0',
+          system: [{ text: 'Be brief' }],
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { text: 'Weather in Paris?' },
+                { image: { format: 'png', source: { bytes: new Uint8Array([1, 2, 3]) } } },
+              ],
+            },
+          ],
+          inferenceConfig: { maxTokens: 256, temperature: 0.3, topP: 0.9, stopSequences: ['END'] },
+          toolConfig: { tools: [{ toolSpec: { name: 'get_weather', inputSchema: { json: {} } } }] },
+        })
+      );
+
+      expect(result).toBe(output);
+      expect(recordedEvents).toHaveLength(1);
+
+      const event = recordedEvents[0];
+      expect(event.provider).toBe('bedrock');
+      expect(event.api).toBe('Converse');
+      expect(event.request.model).toBe('anthropic.claude-3-5-haiku-20241022-v1:0');
+      expect(event.request.model_id).toBe('us.anthropic.claude-3-5-haiku-20241022-v1:0');
+      expect(event.request.model_vendor).toBe('anthropic');
+      expect(event.request.system).toEqual([{ text: 'Be brief' }]);
+      expect(event.request.max_tokens).toBe(256);
+      expect(event.request.temperature).toBe(0.3);
+      expect(event.request.top_p).toBe(0.9);
+      expect(event.request.stop_sequences).toEqual(['END']);
+      expect(event.request.tool_names).toEqual(['get_weather']);
+      expect(event.request.stream).toBe(false);
+      expect(event.request.messages).toEqual([
+        {
+          role: 'user',
+          content: [{ text: 'Weather in Paris?' }, { image: { format: 'png', source: {} } }],
+        },
+      ]);
+
+      expect(event.response).toMatchObject({
+        request_id: 'req-1',
+        role: 'assistant',
+        stop_reason: 'tool_use',
+        text: 'Let me check.',
+        tool_use: [{ id: 'tu-1', name: 'get_weather', input: { city: 'Paris' } }],
+        latency_ms: 640,
+        usage: {
+          input_tokens: 20,
+          output_tokens: 12,
+          total_tokens: 32,
+          cache_read_input_tokens: 5,
+          cache_write_input_tokens: null,
+        },
+      });
+    });
+
+    it('should normalize inference profile ARNs', async () => {
+      const client = createMockClient(async () => ({ output: { message: { role: 'assistant', content: [] } } }));
+      const wrapped = wrapBedrockClient(client, collector);
+
+      await wrapped.send(
+        new ConverseCommand({
+          modelId: 'arn:aws:bedrock:eu-west-1:123456789012:inference-profile/eu.meta.llama3-2-3b-instruct-v1:0',
+          messages: [],
+        })
+      );
+
+      expect(recordedEvents[0].request.model).toBe('meta.llama3-2-3b-instruct-v1:0');
+      expect(recordedEvents[0].request.model_vendor).toBe('meta');
+    });
+
+    it('should capture errors', async () => {
+      const error = new Error('Rate exceeded');
+      error.name = 'ThrottlingException';
+      const client = createMockClient(async () => {
+        throw error;
+      });
+      const wrapped = wrapBedrockClient(client, collector);
+
+      await expect(
+        wrapped.send(new ConverseCommand({ modelId: 'amazon.nova-lite-v1:0', messages: [] }))
+      ).rejects.toThrow('Rate exceeded');
+
+      expect(recordedEvents).toHaveLength(1);
+      expect(recordedEvents[0].error).toBe('ThrottlingException: Rate exceeded');
+      expect(recordedEvents[0].response).toBeNull();
+    });
+  });
+
+  describe('ConverseStreamCommand', () => {
+    const streamEvents = [
+      { messageStart: { role: 'assistant' } },
+      { contentBlockDelta: { contentBlockIndex: 0, delta: { text: 'Checking ' } } },
+      { contentBlockDelta: { contentBlockIndex: 0, delta: { text: 'now.' } } },
+      { contentBlockStop: { contentBlockIndex: 0 } },
+      { contentBlockStart: { contentBlockIndex: 1, start: { toolUse: { toolUseId: 'tu-1', name: 'get_weather' } } } },
+      { contentBlockDelta: { contentBlockIndex: 1, delta: { toolUse: { input: '{"city":' } } } },
+      { contentBlockDelta: { contentBlockIndex: 1, delta: { toolUse: { input: '"Paris"}' } } } },
+      { contentBlockStop: { contentBlockIndex: 1 } },
+      { messageStop: { stopReason: 'tool_use' } },
+      { metadata: { usage: { inputTokens: 15, outputTokens: 9, totalTokens: 24 }, metrics: { latencyMs: 300 } } },
+    ];
+
+    async function* generate(events: unknown[]) {
+      for (const ev of events) {
+        yield ev;
+      }
+    }
+
+    it('should rebuild the message when the stream is consumed', async () => {
+      const client = createMockClient(async () => ({
+        $metadata: { requestId: 'req-2' },
+        stream: generate(streamEvents),
+      }));
+      const wrapped = wrapBedrockClient(client, collector);
+
+      const result = (await wrapped.send(
+        new ConverseStreamCommand({ modelId: 'anthropic.claude-3-haiku-20240307-v1:0', messages: [] })
+      )) as { stream: AsyncIterable<unknown> };
+
+      expect(recordedEvents).toHaveLength(0);
+      let count = 0;
+      for await (const ev of result.stream) {
+        expect(ev).toBeDefined();
+        count++;
+      }
+      expect(count).toBe(streamEvents.length);
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0];
+      expect(event.api).toBe('ConverseStream');
+      expect(event.request.stream).toBe(true);
+      expect(event.response).toMatchObject({
+        request_id: 'req-2',
+        role: 'assistant',
+        stop_reason: 'tool_use',
+        text: 'Checking now.',
+        tool_use: [{ id: 'tu-1', name: 'get_weather', input: { city: 'Paris' } }],
+        latency_ms: 300,
+        usage: { input_tokens: 15, output_tokens: 9, total_tokens: 24 },
+      });
+      expect(event.streaming!.chunk_count).toBe(streamEvents.length);
+      expect(event.streaming!.output_tokens).toBe(9);
+    });
+
+    it('should return a wrapped copy of the response', async () => {
+      const original = generate(streamEvents);
+      const response = { $metadata: { requestId: 'req-3' }, stream: original };
+      const client = createMockClient(async () => response);
+      const wrapped = wrapBedrockClient(client, collector);
+
+      const result = (await wrapped.send(
+        new ConverseStreamCommand({ modelId: 'amazon.nova-pro-v1:0', messages: [] })
+      )) as { $metadata: unknown; stream: AsyncIterable<unknown> };
+
+      expect(result).not.toBe(response);
+      expect(result.$metadata).toBe(response.$metadata);
+      expect(result.stream).not.toBe(original);
+      expect(response.stream).toBe(original);
+    });
+
+    it('should record modeled stream exceptions', async () => {
+      const client = createMockClient(async () => ({
+        stream: generate([
+          { messageStart: { role: 'assistant' } },
+          { contentBlockDelta: { contentBlockIndex: 0, delta: { text: 'Hi' } } },
+          { modelStreamErrorException: { message: 'Model stream failed' } },
+        ]),
+      }));
+      const wrapped = wrapBedrockClient(client, collector);
+
+      const result = (await wrapped.send(
+        new ConverseStreamCommand({ modelId: 'amazon.nova-pro-v1:0', messages: [] })
+      )) as { stream: AsyncIterable<unknown> };
+      for await (const ev of result.stream) {
+        expect(ev).toBeDefined();
+      }
+
+      expect(recordedEvents[0].error).toBe('modelStreamErrorException: Model stream failed');
+      expect(recordedEvents[0].response!.text).toBe('Hi');
+    });
+  });
+
+  describe('InvokeModelCommand', () => {
+    it('should decode Anthropic request and response bodies', async () => {
+      const client = createMockClient(async () => ({
+        $metadata: { requestId: 'req-3' },
+        contentType: 'application/json',
+        body: encode({
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          model: 'claude-3-haiku-20240307',
+          content: [{ type: 'text', text: 'Hello!' }],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 8, output_tokens: 3 },
+        }),
+      }));
+      const wrapped = wrapBedrockClient(client, collector);
+
+      await wrapped.send(
+        new InvokeModelCommand({
+          modelId: 'anthropic.claude-3-haiku-20240307-v1:0',
+          contentType: 'application/json',
+          body: JSON.stringify({
+            anthropic_version: 'bedrock-2023-05-31',
+            max_tokens: 100,
+            messages: [{ role: 'user', content: 'Hi' }],
+          }),
+        })
+      );
+
+      const event = recordedEvents[0];
+      expect(event.api).toBe('InvokeModel');
+      expect(event.request.max_tokens).toBe(100);
+      expect(event.request.messages).toEqual([{ role: 'user', content: 'Hi' }]);
+      expect(event.request.other).toEqual({
+        content_type: 'application/json',
+        accept: null,
+        anthropic_version: 'bedrock-2023-05-31',
+      });
+      expect(event.response).toMatchObject({
+        request_id: 'req-3',
+        model: 'claude-3-haiku-20240307',
+        role: 'assistant',
+        stop_reason: 'end_turn',
+        text: 'Hello!',
+        usage: { input_tokens: 8, output_tokens: 3, total_tokens: 11 },
+      });
+    });
+
+    it('should decode Titan bodies', async () => {
+      const client = createMockClient(async () => ({
+        body: encode({
+          inputTextTokenCount: 6,
+          results: [{ tokenCount: 4, outputText: 'Paris.', completionReason: 'FINISH' }],
+        }),
+      }));
+      const wrapped = wrapBedrockClient(client, collector);
+
+      await wrapped.send(
+        new InvokeModelCommand({
+          modelId: 'amazon.titan-text-express-v1',
+          body: encode({ inputText: 'Capital of France?', textGenerationConfig: { maxTokenCount: 50, temperature: 0 } }),
+        })
+      );
+
+      const event = recordedEvents[0];
+      expect(event.request.model_vendor).toBe('amazon');
+      expect(event.request.prompt).toBe('Capital of France?');
+      expect(event.request.max_tokens).toBe(50);
+      expect(event.request.temperature).toBe(0);
+      expect(event.response).toMatchObject({
+        text: 'Paris.',
+        stop_reason: 'FINISH',
+        usage: { input_tokens: 6, output_tokens: 4, total_tokens: 10 },
+      });
+    });
+
+    it('should decode Llama bodies', async () => {
+      const client = createMockClient(async () => ({
+        body: encode({
+          generation: 'Hello there',
+          prompt_token_count: 10,
+          generation_token_count: 2,
+          stop_reason: 'stop',
+        }),
+      }));
+      const wrapped = wrapBedrockClient(client, collector);
+
+      await wrapped.send(
+        new InvokeModelCommand({
+          modelId: 'meta.llama3-8b-instruct-v1:0',
+          body: JSON.stringify({ prompt: 'Say hi', max_gen_len: 64, top_p: 0.5 }),
+        })
+      );
+
+      const event = recordedEvents[0];
+      expect(event.request.prompt).toBe('Say hi');
+      expect(event.request.max_tokens).toBe(64);
+      expect(event.request.top_p).toBe(0.5);
+      expect(event.response).toMatchObject({
+        text: 'Hello there',
+        stop_reason: 'stop',
+        usage: { input_tokens: 10, output_tokens: 2, total_tokens: 12 },
+      });
+    });
+  });
+});
@@ -0,0 +1,382 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import OpenAI from 'openai';
+import {
+  resolveCaptureConfig,
+  createCaptureScope,
+  captureList,
+  captureValue,
+  DEFAULT_CAPTURE_CONFIG,
+} from '../src/capture.js';
+import { observe, setObserver } from '../src/observe.js';
+import { wrapOpenAIClient } from '../src/providers/openai/index.js';
+import { wrapGeminiClient } from '../src/providers/gemini/index.js';
+import { wrapAnthropicClient } from '../src/providers/anthropic/index.js';
+import { wrapBedrockClient } from '../src/providers/bedrock/index.js';
+import { wrapOllamaClient } from '../src/providers/ollama/index.js';
+import { wrapMCPClient } from '../src/providers/mcp/index.js';
+import { createAiobsMiddleware } from '../src/providers/vercel-ai/index.js';
+import { AiobsCallbackHandler } from '../src/providers/langchain/index.js';
+import { instrumentFetch } from '../src/providers/fetch/index.js';
+import { Collector } from '../src/collector.js';
+import { initTracer, resetTracer } from '../src/tracer.js';
+
+interface RecordedEvent {
+  args?: unknown[] | null;
+  result?: unknown;
+  request?: Record<string, unknown> | null;
+  response?: Record<string, unknown> | null;
+  truncated?: Array<Record<string, unknown>>;
+}
+
+const messages = Array.from({ length: 5 }, (_, i) => ({ role: 'user', content: `message ${i}` }));
+
+describe('capture policy', () => {
+  describe('resolveCaptureConfig()', () => {
+    it('should use the default limits when nothing is configured', () => {
+      expect(resolveCaptureConfig()).toEqual(DEFAULT_CAPTURE_CONFIG);
+      expect(resolveCaptureConfig(null, undefined)).toEqual(DEFAULT_CAPTURE_CONFIG);
+    });
+
+    it('should let later configs override earlier ones', () => {
+      const resolved = resolveCaptureConfig({ maxMessages: 10, maxStringLength: 50 }, { maxMessages: 1 });
+
+      expect(resolved.maxMessages).toBe(1);
+      expect(resolved.maxStringLength).toBe(50);
+      expect(resolved.maxDepth).toBe(DEFAULT_CAPTURE_CONFIG.maxDepth);
+    });
+
+    it('should lift every limit in full mode, keeping limits set alongside it', () => {
+      const resolved = resolveCaptureConfig({ full: true, maxMessages: 5 });
+
+      expect(resolved.maxMessages).toBe(5);
+      expect(resolved.maxStringLength).toBe(Infinity);
+      expect(resolved.maxArrayItems).toBe(Infinity);
+    });
+
+    it('should restore the defaults when a later config sets full: false', () => {
+      const resolved = resolveCaptureConfig({ full: true }, { full: false });
+
+      expect(resolved).toEqual(DEFAULT_CAPTURE_CONFIG);
+    });
+  });
+
+  describe('truncation markers', () => {
+    it('should mark dropped list items', () => {
+      const scope = createCaptureScope();
+
+      expect(captureList(scope, 'request.messages', messages)).toHaveLength(3);
+      expect(scope.truncated).toEqual([
+        { field: 'request.messages', limit: 'messages', original_size: 5, kept: 3 },
+      ]);
+    });
+
+    it('should mark long strings, wide objects and deep nesting by path', () => {
+      const scope = createCaptureScope({ maxStringLength: 3, maxObjectKeys: 1, maxDepth: 1 });
+
+      const captured = captureValue(scope, 'args[0]', { a: 'abcdef', b: 1 });
+      expect(captured).toEqual({ a: 'abc...' });
+
+      captureValue(scope, 'result', { nested: { deep: true } });
+
+      expect(scope.truncated).toEqual([
+        { field: 'args[0]', limit: 'object_keys', original_size: 2, kept: 1 },
+        { field: 'args[0].a', limit: 'string_length', original_size: 6, kept: 3 },
+        { field: 'result.nested.deep', limit: 'depth', original_size: null, kept: 1 },
+      ]);
+    });
+
+    it('should replace circular references in full mode, keeping shared ones', () => {
+      const scope = createCaptureScope({ full: true });
+      const shared = { id: 1 };
+      const node: Record<string, unknown> = { name: 'root', left: shared, right: shared };
+      node.self = node;
+      node.children = [node];
+
+      expect(captureValue(scope, 'args[0]', node)).toEqual({
+        name: 'root',
+        left: { id: 1 },
+        right: { id: 1 },
+        self: '<circular>',
+        children: ['<circular>'],
+      });
+    });
+
+    it('should keep everything without markers in full mode', () => {
+      const scope = createCaptureScope({ full: true });
+      const long = 'x'.repeat(2000);
+
+      expect(captureList(scope, 'request.messages', messages)).toHaveLength(5);
+      expect(captureValue(scope, 'result', long)).toBe(long);
+      expect(scope.truncated).toEqual([]);
+    });
+  });
+
+  describe('wrappers', () => {
+    let collector: Collector;
+    let recordedEvents: RecordedEvent[];
+
+    beforeEach(() => {
+      initTracer();
+      collector = new Collector();
+      recordedEvents = [];
+
+      vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+        recordedEvents.push(event as unknown as RecordedEvent);
+      });
+      setObserver(collector);
+    });
+
+    afterEach(() => {
+      collector.reset();
+      resetTracer();
+      vi.restoreAllMocks();
+    });
+
+    it('should apply the session config to observe() and let the call override it', () => {
+      vi.spyOn(collector, 'getCaptureConfig').mockReturnValue({ maxStringLength: 5 });
+
+      const echo = observe((s: string) => s);
+      const echoFull = observe((s: string) => s, { capture: { full: true } });
+
+      echo('abcdefgh');
+      echoFull('abcdefgh');
+
+      expect(recordedEvents[0].args).toEqual(['abcde...']);
+      expect(recordedEvents[0].result).toBe('abcde...');
+      expect(recordedEvents[0].truncated).toEqual([
+        { field: 'args[0]', limit: 'string_length', original_size: 8, kept: 5 },
+        { field: 'result', limit: 'string_length', original_size: 8, kept: 5 },
+      ]);
+      expect(recordedEvents[1].args).toEqual(['abcdefgh']);
+      expect(recordedEvents[1].truncated).toBeUndefined();
+    });
+
+    it('should capture a self-referencing argument without overflowing the stack', () => {
+      const config: Record<string, unknown> = { retries: 3 };
+      config.parent = config;
+      const configure = observe((c: Record<string, unknown>) => c.retries, { capture: { full: true } });
+
+      expect(configure(config)).toBe(3);
+      expect(recordedEvents[0].args).toEqual([{ retries: 3, parent: '<circular>' }]);
+    });
+
+    it('should let a wrapped OpenAI client override the session config', async () => {
+      vi.spyOn(collector, 'getCaptureConfig').mockReturnValue({ maxMessages: 1 });
+      const mockFetch = vi.fn().mockImplementation(
+        async () =>
+          new Response(
+            JSON.stringify({
+              id: 'chatcmpl-1',
+              object: 'chat.completion',
+              model: 'gpt-4o-mini',
+              choices: [{ index: 0, message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+            }),
+            { headers: { 'content-type': 'application/json' } }
+          )
+      );
+      const openai = new OpenAI({ apiKey: 'sk-test', fetch: mockFetch as unknown as typeof fetch, maxRetries: 0 });
+
+      await wrapOpenAIClient(openai, collector).chat.completions.create({ model: 'gpt-4o-mini', messages });
+      await wrapOpenAIClient(openai, collector, { capture: { full: true } }).chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages,
+      });
+
+      expect(recordedEvents[0].request?.messages).toHaveLength(1);
+      expect(recordedEvents[0].truncated).toEqual([
+        { field: 'request.messages', limit: 'messages', original_size: 5, kept: 1 },
+      ]);
+      expect(recordedEvents[1].request?.messages).toHaveLength(5);
+      expect(recordedEvents[1].truncated).toBeUndefined();
+    });
+
+    it('should apply the wrapped OpenAI client config to images and audio', async () => {
+      const client = {
+        images: { edit: vi.fn().mockResolvedValue({ created: 1, data: [] }) },
+        audio: { speech: { create: vi.fn().mockResolvedValue({ status: 200 }) } },
+      };
+      const wrapped = wrapOpenAIClient(client, collector, { capture: { maxMessages: 2, maxStringLength: 4 } });
+      const uploads = ['file-1', 'file-2', 'file-3'];
+
+      await wrapped.images.edit({ model: 'gpt-image-1', prompt: 'Add a hat', image: uploads, user: 'user-1234' });
+      await wrapped.audio.speech.create({ model: 'tts-1', input: 'Hi', voice: 'alloy', user: 'user-1234' });
+
+      expect(recordedEvents[0].request?.image).toHaveLength(2);
+      expect(recordedEvents[0].request?.other).toEqual({ user: 'user...' });
+      expect(recordedEvents[0].truncated).toEqual([
+        { field: 'request.image', limit: 'messages', original_size: 3, kept: 2 },
+        { field: 'request.other.user', limit: 'string_length', original_size: 9, kept: 4 },
+      ]);
+      expect(recordedEvents[1].request?.other).toEqual({ user: 'user...' });
+    });
+
+    it('should apply the wrapped Gemini client config to request contents', async () => {
+      const client = {
+        models: { generateContent: vi.fn().mockResolvedValue({ text: 'ok' }) },
+      };
+      const contents = messages.map((m) => ({ role: m.role, parts: [{ text: m.content }] }));
+
+      await wrapGeminiClient(client, collector, { capture: { maxMessages: 2 } }).models.generateContent({
+        model: 'gemini-2.0-flash',
+        contents,
+      });
+
+      expect(recordedEvents[0].request?.contents).toHaveLength(2);
+      expect(recordedEvents[0].truncated).toEqual([
+        { field: 'request.contents', limit: 'messages', original_size: 5, kept: 2 },
+      ]);
+    });
+
+    it('should apply the wrapped Gemini client config to chat turns and media generation', async () => {
+      vi.spyOn(collector, 'getCaptureConfig').mockReturnValue({ maxMessages: 1 });
+      const sendMessage = vi.fn().mockResolvedValue({ text: 'ok' });
+      const client = {
+        chats: { create: () => ({ sendMessage, getHistory: () => [] }) },
+        models: { generateImages: vi.fn().mockResolvedValue({ generatedImages: [] }) },
+        getGenerativeModel: () => ({ startChat: () => ({ sendMessage }) }),
+      };
+      const wrapped = wrapGeminiClient(client, collector, { capture: { maxMessages: 2, maxStringLength: 4 } });
+      const parts = ['a', 'b', 'c'].map((text) => ({ text }));
+
+      await wrapped.chats.create({ model: 'gemini-2.0-flash' }).sendMessage({ message: parts });
+      await wrapped.getGenerativeModel({ model: 'gemini-1.5-pro' }).startChat().sendMessage(parts);
+      await wrapped.models.generateImages({ model: 'imagen-3.0', prompt: 'A cat', user: 'user-1234' });
+
+      for (const event of recordedEvents.slice(0, 2)) {
+        expect(event.request?.contents).toEqual([{ text: 'a' }, { text: 'b' }]);
+        expect(event.truncated).toEqual([{ field: 'request.contents', limit: 'messages', original_size: 3, kept: 2 }]);
+      }
+      expect(recordedEvents[2].request?.other).toEqual({ user: 'user...' });
+    });
+
+    it('should let a wrapped Anthropic client override the session config', async () => {
+      vi.spyOn(collector, 'getCaptureConfig').mockReturnValue({ maxMessages: 1 });
+      const client = {
+        messages: { create: vi.fn().mockResolvedValue({ id: 'msg_1', content: [{ type: 'text', text: 'Hi' }] }) },
+      };
+
+      await wrapAnthropicClient(client, collector).messages.create({ model: 'claude-3-5-haiku', messages });
+      await wrapAnthropicClient(client, collector, { capture: { maxMessages: 4 } }).messages.create({
+        model: 'claude-3-5-haiku',
+        messages,
+      });
+
+      expect(recordedEvents[0].request?.messages).toHaveLength(1);
+      expect(recordedEvents[1].request?.messages).toHaveLength(4);
+      expect(recordedEvents[1].truncated).toEqual([
+        { field: 'request.messages', limit: 'messages', original_size: 5, kept: 4 },
+      ]);
+    });
+
+    it('should let a wrapped Bedrock client override the session config', async () => {
+      vi.spyOn(collector, 'getCaptureConfig').mockReturnValue({ maxMessages: 1 });
+      class ConverseCommand {
+        constructor(public input: Record<string, unknown>) {}
+      }
+      const client = { send: vi.fn().mockResolvedValue({ output: { message: { role: 'assistant', content: [] } } }) };
+      const converseMessages = messages.map((m) => ({ role: m.role, content: [{ text: m.content }] }));
+
+      await wrapBedrockClient(client, collector).send(
+        new ConverseCommand({ modelId: 'amazon.nova-lite-v1:0', messages: converseMessages })
+      );
+      await wrapBedrockClient(client, collector, { capture: { full: true } }).send(
+        new ConverseCommand({ modelId: 'amazon.nova-lite-v1:0', messages: converseMessages })
+      );
+
+      expect(recordedEvents[0].request?.messages).toHaveLength(1);
+      expect(recordedEvents[1].request?.messages).toHaveLength(5);
+      expect(recordedEvents[1].truncated).toBeUndefined();
+    });
+
+    it('should let a wrapped Ollama client override the session config for every method', async () => {
+      vi.spyOn(collector, 'getCaptureConfig').mockReturnValue({ maxMessages: 1, maxStringLength: 1 });
+      const client = {
+        chat: vi.fn().mockResolvedValue({ model: 'llama3.2', message: { role: 'assistant', content: 'Hi' } }),
+        embed: vi.fn().mockResolvedValue({ model: 'nomic-embed-text', embeddings: [[0.1], [0.2], [0.3]] }),
+        generate: vi.fn().mockResolvedValue({ model: 'llama3.2', response: 'Hi' }),
+      };
+      const wrapped = wrapOllamaClient(client, collector, { capture: { maxMessages: 2, maxStringLength: 500 } });
+
+      await wrapped.chat({ model: 'llama3.2', messages });
+      await wrapped.embed({ model: 'nomic-embed-text', input: ['a', 'b', 'c'] });
+      await wrapped.generate({ model: 'llama3.2', prompt: 'Hi', keep_alive: '5m' });
+
+      expect(recordedEvents[0].request?.messages).toHaveLength(2);
+      expect(recordedEvents[0].truncated).toEqual([
+        { field: 'request.messages', limit: 'messages', original_size: 5, kept: 2 },
+      ]);
+      expect(recordedEvents[1].truncated).toEqual([
+        { field: 'request.input', limit: 'messages', original_size: 3, kept: 2 },
+      ]);
+      expect(recordedEvents[2].request?.other).toEqual({ keep_alive: '5m' });
+      expect(recordedEvents[2].truncated).toBeUndefined();
+    });
+
+    it('should let a wrapped MCP client override the session config', async () => {
+      vi.spyOn(collector, 'getCaptureConfig').mockReturnValue({ maxMessages: 1 });
+      const promptMessages = messages.map((m) => ({ role: m.role, content: { type: 'text', text: m.content } }));
+      const client = {
+        getServerVersion: () => ({ name: 'prompts', version: '1.0.0' }),
+        getPrompt: vi.fn().mockResolvedValue({ messages: promptMessages }),
+      };
+
+      await wrapMCPClient(client, collector).getPrompt({ name: 'summarize' });
+      await wrapMCPClient(client, collector, { capture: { maxMessages: 3 } }).getPrompt({ name: 'summarize' });
+
+      expect(recordedEvents[0].response?.messages).toHaveLength(1);
+      expect(recordedEvents[1].response?.messages).toHaveLength(3);
+      expect(recordedEvents[1].truncated).toEqual([
+        { field: 'response.messages', limit: 'messages', original_size: 5, kept: 3 },
+      ]);
+    });
+
+    it('should apply the session config to Vercel AI middleware and LangChain runs', async () => {
+      vi.spyOn(collector, 'getCaptureConfig').mockReturnValue({ maxMessages: 2, maxStringLength: 4 });
+      const middleware = createAiobsMiddleware(collector);
+      await middleware.wrapGenerate({
+        doGenerate: async () => ({ text: 'Hi', finishReason: 'stop' }),
+        params: { prompt: messages.map((m) => ({ role: m.role, content: [{ type: 'text', text: m.content }] })) },
+        model: { provider: 'openai.chat', modelId: 'gpt-4o-mini' },
+      });
+
+      const handler = new AiobsCallbackHandler(collector);
+      handler.handleToolStart({ name: 'search' }, 'long query', 'run-1');
+      handler.handleToolEnd('long result', 'run-1');
+
+      expect(recordedEvents[0].request?.messages).toHaveLength(2);
+      expect(recordedEvents[0].truncated).toEqual([
+        { field: 'request.messages', limit: 'messages', original_size: 5, kept: 2 },
+      ]);
+      expect(recordedEvents[1].args).toEqual(['long...']);
+      expect(recordedEvents[1].result).toBe('long...');
+      expect(recordedEvents[1].truncated).toEqual([
+        { field: 'args[0]', limit: 'string_length', original_size: 10, kept: 4 },
+        { field: 'result', limit: 'string_length', original_size: 11, kept: 4 },
+      ]);
+    });
+
+    it('should let instrumented fetch override the session config', async () => {
+      vi.spyOn(collector, 'getCaptureConfig').mockReturnValue({ maxMessages: 1 });
+      const originalFetch = globalThis.fetch;
+      globalThis.fetch = vi.fn().mockImplementation(
+        async () => new Response(JSON.stringify({ id: 'msg_1' }), { headers: { 'content-type': 'application/json' } })
+      ) as unknown as typeof fetch;
+      const uninstall = instrumentFetch(collector, { capture: { maxMessages: 2 } });
+
+      try {
+        await fetch('https://api.anthropic.com/v1/messages', {
+          method: 'POST',
+          body: JSON.stringify({ model: 'claude-3-5-haiku', messages }),
+        });
+      } finally {
+        uninstall();
+        globalThis.fetch = originalFetch;
+      }
+
+      expect(recordedEvents[0].request?.messages).toHaveLength(2);
+      expect(recordedEvents[0].truncated).toEqual([
+        { field: 'request.messages', limit: 'messages', original_size: 5, kept: 2 },
+      ]);
+    });
+  });
+});
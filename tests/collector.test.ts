@@ -301,6 +301,55 @@ describe('Collector', () => {
       expect(mockFetch).toHaveBeenCalledTimes(3); // validate + flush + usage
     });
 
+    it('should carry streaming metrics into the trace tree', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ success: true, usage: {} }),
+      });
+
+      const streaming = {
+        first_chunk_at: 1000.2,
+        time_to_first_chunk_ms: 200,
+        chunk_count: 5,
+        inter_chunk_avg_ms: 50,
+        inter_chunk_min_ms: 40,
+        inter_chunk_max_ms: 60,
+        output_tokens: 20,
+        tokens_per_second: 100,
+      };
+
+      collector.recordEvent({
+        provider: 'openai',
+        api: 'chat.completions.create',
+        request: {},
+        response: null,
+        error: null,
+        started_at: 1000,
+        ended_at: 1000.4,
+        duration_ms: 400,
+        callsite: null,
+        span_id: 'span-stream',
+        parent_span_id: null,
+        trace_id: null,
+        streaming,
+      });
+
+      let exported: { events: Array<{ streaming?: unknown }>; trace_tree: Array<{ streaming?: unknown }> } | null =
+        null;
+      await collector.flush({
+        exporter: {
+          name: 'capture',
+          export: async (data) => {
+            exported = data as unknown as typeof exported;
+            return { success: true, metadata: {} };
+          },
+        },
+      });
+
+      expect(exported!.events[0].streaming).toEqual(streaming);
+      expect(exported!.trace_tree[0].streaming).toEqual(streaming);
+    });
+
     it('should return output path when persist is true', async () => {
       // Mock flush server call
       mockFetch.mockResolvedValueOnce({
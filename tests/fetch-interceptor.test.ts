@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { instrumentFetch } from '../src/providers/fetch/index.js';
+import { runInWrappedCall } from '../src/providers/context.js';
+import { Collector } from '../src/collector.js';
+
+interface RecordedEvent {
+  provider: string;
+  api: string;
+  error: string | null;
+  request: Record<string, unknown>;
+  response: Record<string, unknown> | null;
+  streaming?: Record<string, unknown>;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function sseResponse(payloads: unknown[]): Response {
+  const text = payloads
+    .map((p) => `data: ${typeof p === 'string' ? p : JSON.stringify(p)}\n\n`)
+    .join('');
+  const bytes = new TextEncoder().encode(text);
+  // Split into uneven chunks so events span chunk boundaries
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += 7) {
+        controller.enqueue(bytes.slice(i, i + 7));
+      }
+      controller.close();
+    },
+  });
+  return new Response(stream, { headers: { 'content-type': 'text/event-stream' } });
+}
+
+describe('fetch interceptor', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let uninstall: () => void;
+  const realFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    collector = new Collector();
+    recordedEvents = [];
+    mockFetch = vi.fn();
+    globalThis.fetch = mockFetch as unknown as typeof fetch;
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+  });
+
+  afterEach(() => {
+    uninstall?.();
+    globalThis.fetch = realFetch;
+    collector.reset();
+    vi.restoreAllMocks();
+  });
+
+  it('should record OpenAI chat completions', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({
+        id: 'chatcmpl-1',
+        model: 'gpt-4o-mini',
+        choices: [{ message: { role: 'assistant', content: 'Hi!' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 },
+      })
+    );
+    uninstall = instrumentFetch(collector);
+
+    const resp = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hello' }], temperature: 0 }),
+    });
+
+    // The caller can still read the body
+    expect((await resp.json()).id).toBe('chatcmpl-1');
+    expect(recordedEvents).toHaveLength(1);
+    const event = recordedEvents[0];
+    expect(event.provider).toBe('openai');
+    expect(event.api).toBe('chat.completions.create');
+    expect(event.request).toEqual({
+      url: 'https://api.openai.com/v1/chat/completions',
+      method: 'POST',
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Hello' }],
+      stream: false,
+      other: { temperature: 0 },
+    });
+    expect(event.response).toEqual({
+      status: 200,
+      id: 'chatcmpl-1',
+      model: 'gpt-4o-mini',
+      text: 'Hi!',
+      finish_reason: 'stop',
+      usage: { prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 },
+    });
+    expect(event.error).toBeNull();
+  });
+
+  it('should record OpenAI SSE streams when the caller consumes them', async () => {
+    mockFetch.mockResolvedValue(
+      sseResponse([
+        { id: 'c1', model: 'gpt-4o-mini', choices: [{ delta: { content: 'Hel' } }] },
+        { id: 'c1', model: 'gpt-4o-mini', choices: [{ delta: { content: 'lo' }, finish_reason: 'stop' }] },
+        { id: 'c1', model: 'gpt-4o-mini', choices: [], usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 } },
+        '[DONE]',
+      ])
+    );
+    uninstall = instrumentFetch(collector);
+
+    const resp = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      body: JSON.stringify({ model: 'gpt-4o-mini', messages: [], stream: true }),
+    });
+    expect(recordedEvents).toHaveLength(0);
+
+    const text = await resp.text();
+    expect(text).toContain('data: [DONE]');
+    expect(recordedEvents).toHaveLength(1);
+    const event = recordedEvents[0];
+    expect(event.request.stream).toBe(true);
+    expect(event.response).toMatchObject({
+      id: 'c1',
+      text: 'Hello',
+      finish_reason: 'stop',
+      usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 },
+    });
+    expect(event.streaming).toMatchObject({ chunk_count: 3, output_tokens: 2 });
+  });
+
+  it('should rebuild Anthropic message streams', async () => {
+    mockFetch.mockResolvedValue(
+      sseResponse([
+        { type: 'message_start', message: { id: 'msg_1', model: 'claude-3-5-haiku', usage: { input_tokens: 12 } } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Bonjour' } },
+        { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 3 } },
+        { type: 'message_stop' },
+      ])
+    );
+    uninstall = instrumentFetch(collector);
+
+    const resp = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      body: JSON.stringify({ model: 'claude-3-5-haiku', max_tokens: 50, messages: [], stream: true }),
+    });
+    await resp.text();
+
+    const event = recordedEvents[0];
+    expect(event.provider).toBe('anthropic');
+    expect(event.api).toBe('messages.create');
+    expect(event.response).toMatchObject({
+      id: 'msg_1',
+      text: 'Bonjour',
+      finish_reason: 'end_turn',
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    });
+  });
+
+  it('should take the Gemini model from the path and drop the API key query', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({
+        candidates: [{ content: { parts: [{ text: 'Hola' }] }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 1, totalTokenCount: 6 },
+        modelVersion: 'gemini-2.0-flash',
+      })
+    );
+    uninstall = instrumentFetch(collector);
+
+    await fetch(
+      new Request('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=SECRET', {
+        method: 'POST',
+        body: JSON.stringify({
+          contents: [{ role: 'user', parts: [{ text: 'Hi' }, { inlineData: { mimeType: 'image/png', data: 'AAAA' } }] }],
+        }),
+      })
+    );
+
+    const event = recordedEvents[0];
+    expect(event.provider).toBe('gemini');
+    expect(event.api).toBe('models.generateContent');
+    expect(event.request.url).toBe(
+      'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent'
+    );
+    expect(event.request.model).toBe('gemini-2.0-flash');
+    expect(event.request.messages).toEqual([
+      { role: 'user', parts: [{ text: 'Hi' }, { inlineData: { mimeType: 'image/png' } }] },
+    ]);
+    expect(event.response).toMatchObject({ text: 'Hola', finish_reason: 'STOP', usage: { total_tokens: 6 } });
+  });
+
+  it('should pass through unknown hosts, GET requests and wrapped client calls', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse({}));
+    uninstall = instrumentFetch(collector);
+
+    await fetch('https://example.com/v1/chat/completions', { method: 'POST', body: '{}' });
+    await fetch('https://api.openai.com/v1/models');
+    await runInWrappedCall(() =>
+      fetch('https://api.openai.com/v1/chat/completions', { method: 'POST', body: '{}' })
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(recordedEvents).toHaveLength(0);
+  });
+
+  it('should use user-registered endpoints and parsers', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ output: 'ok', tokens: 7 }));
+    uninstall = instrumentFetch(collector, {
+      endpoints: [
+        {
+          provider: 'internal-llm',
+          host: 'llm.internal.example',
+          path: /^\/generate$/,
+          api: 'generate',
+          parseRequest: (body) => ({ model: (body as Record<string, unknown>).model }),
+          parseResponse: (body) => ({ text: (body as Record<string, unknown>).output }),
+        },
+      ],
+    });
+
+    await fetch('https://llm.internal.example/generate', { method: 'POST', body: '{"model":"in-house-7b"}' });
+
+    expect(recordedEvents[0]).toMatchObject({
+      provider: 'internal-llm',
+      api: 'generate',
+      request: { model: 'in-house-7b' },
+      response: { status: 200, text: 'ok' },
+    });
+  });
+
+  it('should record HTTP and network errors', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ error: { message: 'Rate limited' } }, 429))
+      .mockRejectedValueOnce(new TypeError('fetch failed'));
+    uninstall = instrumentFetch(collector);
+
+    const resp = await fetch('https://api.openai.com/v1/embeddings', { method: 'POST', body: '{"input":"x"}' });
+    expect(resp.status).toBe(429);
+    await expect(
+      fetch('https://api.openai.com/v1/embeddings', { method: 'POST', body: '{"input":"x"}' })
+    ).rejects.toThrow('fetch failed');
+
+    expect(recordedEvents[0]).toMatchObject({ api: 'embeddings.create', error: 'HTTPError: 429', response: { status: 429 } });
+    expect(recordedEvents[1]).toMatchObject({ error: 'TypeError: fetch failed', response: null });
+  });
+
+  it('should restore the previous fetch on uninstall', () => {
+    uninstall = instrumentFetch(collector);
+    expect(globalThis.fetch).not.toBe(mockFetch);
+    expect(instrumentFetch(collector)).toBe(uninstall);
+
+    uninstall();
+    expect(globalThis.fetch).toBe(mockFetch);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { wrapGeminiClient } from '../src/providers/gemini/index.js';
+import { Collector } from '../src/collector.js';
+
+interface RecordedEvent {
+  provider: string;
+  api: string;
+  error: string | null;
+  parent_span_id: string | null;
+  request: Record<string, unknown>;
+  response: Record<string, unknown> | null;
+}
+
+describe('Gemini embedContent, countTokens and generateImages', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+
+  beforeEach(() => {
+    collector = new Collector();
+    recordedEvents = [];
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+  });
+
+  afterEach(() => {
+    collector.reset();
+    vi.restoreAllMocks();
+  });
+
+  describe('models.embedContent()', () => {
+    it('should record embedding summaries without vector values', async () => {
+      const mockClient = {
+        models: {
+          embedContent: vi.fn().mockResolvedValue({
+            embeddings: [
+              { values: [0.1, 0.2, 0.3, 0.4], statistics: { tokenCount: 5, truncated: false } },
+              { values: [0.5, 0.6, 0.7, 0.8] },
+            ],
+            metadata: { billableCharacterCount: 42 },
+          }),
+        },
+      };
+
+      const wrapped = wrapGeminiClient(mockClient, collector);
+
+      await wrapped.models.embedContent({
+        model: 'text-embedding-004',
+        contents: ['What is RAG?', 'Retrieval augmented generation'],
+        config: { taskType: 'RETRIEVAL_DOCUMENT', outputDimensionality: 4 },
+      });
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0];
+      expect(event.provider).toBe('gemini');
+      expect(event.api).toBe('models.embedContent');
+      expect(event.request.model).toBe('text-embedding-004');
+      expect(event.request.contents).toEqual(['What is RAG?', 'Retrieval augmented generation']);
+      expect(event.request.config).toEqual({ taskType: 'RETRIEVAL_DOCUMENT', outputDimensionality: 4 });
+      expect(event.response).toEqual({
+        model: 'text-embedding-004',
+        embeddings: [
+          { dimensions: 4, token_count: 5, truncated: false },
+          { dimensions: 4, token_count: null, truncated: null },
+        ],
+        embedding_count: 2,
+        billable_character_count: 42,
+        usage: null,
+      });
+    });
+
+    it('should capture errors', async () => {
+      const mockClient = {
+        models: {
+          embedContent: vi.fn().mockRejectedValue(new Error('Quota exceeded')),
+        },
+      };
+
+      const wrapped = wrapGeminiClient(mockClient, collector);
+
+      await expect(wrapped.models.embedContent({ model: 'text-embedding-004', contents: 'x' })).rejects.toThrow(
+        'Quota exceeded'
+      );
+
+      expect(recordedEvents).toHaveLength(1);
+      expect(recordedEvents[0].error).toBe('Error: Quota exceeded');
+      expect(recordedEvents[0].response).toBeNull();
+    });
+  });
+
+  describe('models.countTokens()', () => {
+    it('should record the token count', async () => {
+      const mockClient = {
+        models: {
+          countTokens: vi.fn().mockResolvedValue({ totalTokens: 17, cachedContentTokenCount: 3 }),
+        },
+      };
+
+      const wrapped = wrapGeminiClient(mockClient, collector);
+
+      await wrapped.models.countTokens({ model: 'gemini-2.0-flash', contents: 'How many tokens is this?' });
+
+      const event = recordedEvents[0];
+      expect(event.api).toBe('models.countTokens');
+      expect(event.request.contents).toBe('How many tokens is this?');
+      expect(event.response).toEqual({
+        model: 'gemini-2.0-flash',
+        total_tokens: 17,
+        cached_content_token_count: 3,
+        usage: { total_token_count: 17 },
+      });
+    });
+  });
+
+  describe('models.generateImages()', () => {
+    it('should record generated images with image bytes stripped', async () => {
+      const mockClient = {
+        models: {
+          generateImages: vi.fn().mockResolvedValue({
+            generatedImages: [
+              {
+                image: { imageBytes: 'iVBORw0KGgo', mimeType: 'image/png' },
+                enhancedPrompt: 'A red lighthouse on a cliff',
+              },
+            ],
+            positivePromptSafetyAttributes: { categories: ['Safe'] },
+          }),
+        },
+      };
+
+      const wrapped = wrapGeminiClient(mockClient, collector);
+
+      await wrapped.models.generateImages({
+        model: 'imagen-3.0-generate-002',
+        prompt: 'A lighthouse',
+        config: { numberOfImages: 1, aspectRatio: '16:9' },
+      });
+
+      const event = recordedEvents[0];
+      expect(event.api).toBe('models.generateImages');
+      expect(event.request.prompt).toBe('A lighthouse');
+      expect(event.request.config).toEqual({ numberOfImages: 1, aspectRatio: '16:9' });
+      expect(event.response!.generated_images).toEqual([
+        { image: { mimeType: 'image/png' }, enhancedPrompt: 'A red lighthouse on a cliff' },
+      ]);
+      expect(event.response!.positive_prompt_safety_attributes).toEqual({ categories: ['Safe'] });
+      expect(JSON.stringify(event)).not.toContain('iVBORw0KGgo');
+    });
+  });
+
+  it('should parent calls to the current span', async () => {
+    vi.spyOn(collector, 'getCurrentSpanId').mockReturnValue('rag-span');
+    const mockClient = {
+      models: {
+        embedContent: vi.fn().mockResolvedValue({ embeddings: [] }),
+        countTokens: vi.fn().mockResolvedValue({ totalTokens: 1 }),
+      },
+    };
+
+    const wrapped = wrapGeminiClient(mockClient, collector);
+
+    await wrapped.models.countTokens({ model: 'gemini-2.0-flash', contents: 'q' });
+    await wrapped.models.embedContent({ model: 'text-embedding-004', contents: 'q' });
+
+    expect(recordedEvents.map((e) => e.api)).toEqual(['models.countTokens', 'models.embedContent']);
+    expect(recordedEvents.every((e) => e.parent_span_id === 'rag-span')).toBe(true);
+  });
+});
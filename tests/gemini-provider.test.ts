@@ -428,5 +428,297 @@ describe('Gemini Provider', () => {
       expect(event.request.contents).toHaveLength(3);
     });
   });
-});
 
+  describe('streaming', () => {
+    const chunks = [
+      {
+        candidates: [{ index: 0, content: { role: 'model', parts: [{ text: 'Hello' }] } }],
+        modelVersion: 'gemini-2.0-flash',
+      },
+      {
+        candidates: [{ index: 0, content: { role: 'model', parts: [{ text: ' from' }] } }],
+      },
+      {
+        candidates: [
+          { index: 0, content: { role: 'model', parts: [{ text: ' Gemini' }] }, finishReason: 'STOP' },
+        ],
+        usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 3, totalTokenCount: 7 },
+      },
+    ];
+
+    async function* generate(items: unknown[], delayMs = 0) {
+      for (const item of items) {
+        if (delayMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+        }
+        yield item;
+      }
+    }
+
+    async function drain(stream: AsyncIterable<unknown>): Promise<unknown[]> {
+      const received: unknown[] = [];
+      for await (const chunk of stream) {
+        received.push(chunk);
+      }
+      return received;
+    }
+
+    it('should collect @google/genai stream chunks into a response', async () => {
+      const mockClient = {
+        models: {
+          generateContentStream: vi.fn().mockImplementation(async () => generate(chunks, 15)),
+        },
+      };
+
+      const wrapped = wrapGeminiClient(mockClient, collector);
+
+      const stream = (await wrapped.models.generateContentStream({
+        model: 'gemini-2.0-flash',
+        contents: 'Say hello',
+      })) as AsyncIterable<unknown>;
+
+      expect(recordedEvents).toHaveLength(0);
+      expect(await drain(stream)).toEqual(chunks);
+      expect(recordedEvents).toHaveLength(1);
+
+      const event = recordedEvents[0] as {
+        api: string;
+        duration_ms: number;
+        response: {
+          text: string;
+          candidates: Array<{ finish_reason: string; content: { parts: Array<{ text: string }> } }>;
+          usage: Record<string, number>;
+        };
+      };
+
+      expect(event.api).toBe('models.generateContentStream');
+      expect(event.duration_ms).toBeGreaterThan(40);
+      expect(event.response.text).toBe('Hello from Gemini');
+      expect(event.response.candidates).toHaveLength(1);
+      expect(event.response.candidates[0].finish_reason).toBe('STOP');
+      expect(event.response.candidates[0].content.parts).toHaveLength(1);
+      expect(event.response.usage.total_token_count).toBe(7);
+    });
+
+    it('should record streaming metrics', async () => {
+      const mockClient = {
+        models: {
+          generateContentStream: vi.fn().mockImplementation(async () => generate(chunks, 15)),
+        },
+      };
+
+      const wrapped = wrapGeminiClient(mockClient, collector);
+
+      const stream = (await wrapped.models.generateContentStream({
+        model: 'gemini-2.0-flash',
+        contents: 'Say hello',
+      })) as AsyncIterable<unknown>;
+      await drain(stream);
+
+      const event = recordedEvents[0] as {
+        streaming: {
+          time_to_first_chunk_ms: number;
+          chunk_count: number;
+          inter_chunk_avg_ms: number;
+          output_tokens: number;
+          tokens_per_second: number;
+        };
+      };
+
+      expect(event.streaming.chunk_count).toBe(3);
+      expect(event.streaming.time_to_first_chunk_ms).toBeGreaterThan(10);
+      expect(event.streaming.inter_chunk_avg_ms).toBeGreaterThan(5);
+      expect(event.streaming.output_tokens).toBe(3);
+      expect(event.streaming.tokens_per_second).toBeGreaterThan(0);
+    });
+
+    it('should record VertexAI generateContentStream with the aggregated response', async () => {
+      const aggregated = {
+        candidates: [{ content: { role: 'model', parts: [{ text: 'Hello from Gemini' }] }, finishReason: 'STOP' }],
+        usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 3, totalTokenCount: 7 },
+      };
+      const mockModel = {
+        generateContentStream: vi.fn().mockResolvedValue({
+          stream: generate(chunks),
+          response: Promise.resolve(aggregated),
+        }),
+      };
+      const mockClient = {
+        getGenerativeModel: vi.fn().mockReturnValue(mockModel),
+      };
+
+      const wrapped = wrapGeminiClient(mockClient, collector);
+      const model = wrapped.getGenerativeModel({ model: 'gemini-1.5-pro' });
+
+      const result = (await model.generateContentStream('Say hello')) as {
+        stream: AsyncIterable<unknown>;
+        response: Promise<unknown>;
+      };
+
+      expect(await result.response).toBe(aggregated);
+      expect(await drain(result.stream)).toEqual(chunks);
+      expect(recordedEvents).toHaveLength(1);
+
+      const event = recordedEvents[0] as {
+        request: { model: string };
+        response: { text: string; usage: Record<string, number> };
+      };
+      expect(event.request.model).toBe('gemini-1.5-pro');
+      expect(event.response.text).toBe('Hello from Gemini');
+      expect(event.response.usage.prompt_token_count).toBe(4);
+    });
+
+    it('should record chat.sendMessageStream responses', async () => {
+      const mockChatSession = {
+        sendMessageStream: vi.fn().mockImplementation(async () => ({
+          stream: generate(chunks),
+          response: new Promise(() => {
+            // Never resolves; the stream end finishes the event
+          }),
+        })),
+      };
+      const mockModel = {
+        startChat: vi.fn().mockReturnValue(mockChatSession),
+      };
+      const mockClient = {
+        getGenerativeModel: vi.fn().mockReturnValue(mockModel),
+      };
+
+      const wrapped = wrapGeminiClient(mockClient, collector);
+      const chat = wrapped.getGenerativeModel({ model: 'gemini-pro' }).startChat();
+
+      const result = (await chat.sendMessageStream('Hi')) as { stream: AsyncIterable<unknown> };
+      await drain(result.stream);
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0] as { api: string; response: { text: string } };
+      expect(event.api).toBe('chat.sendMessageStream');
+      expect(event.response.text).toBe('Hello from Gemini');
+    });
+
+    it('should record errors raised mid-stream', async () => {
+      async function* failing() {
+        yield chunks[0];
+        throw new Error('Stream broken');
+      }
+      const mockClient = {
+        models: {
+          generateContentStream: vi.fn().mockImplementation(async () => failing()),
+        },
+      };
+
+      const wrapped = wrapGeminiClient(mockClient, collector);
+      const stream = (await wrapped.models.generateContentStream({
+        model: 'gemini-2.0-flash',
+        contents: 'Say hello',
+      })) as AsyncIterable<unknown>;
+
+      await expect(drain(stream)).rejects.toThrow('Stream broken');
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0] as { error: string; response: { text: string } };
+      expect(event.error).toBe('Error: Stream broken');
+      expect(event.response.text).toBe('Hello');
+    });
+  });
+
+  describe('chats.create()', () => {
+    function createMockChats() {
+      return {
+        create: vi.fn().mockImplementation((params: { history?: unknown[] }) => {
+          const history: unknown[] = [...(params.history ?? [])];
+          return {
+            getHistory: () => [...history],
+            sendMessage: vi.fn().mockImplementation(async ({ message }: { message: string }) => {
+              history.push({ role: 'user', parts: [{ text: message }] });
+              history.push({ role: 'model', parts: [{ text: `Echo: ${message}` }] });
+              return { candidates: [{ content: { role: 'model', parts: [{ text: `Echo: ${message}` }] } }] };
+            }),
+            sendMessageStream: vi.fn().mockImplementation(async ({ message }: { message: string }) => {
+              history.push({ role: 'user', parts: [{ text: message }] });
+              return (async function* () {
+                yield { candidates: [{ content: { role: 'model', parts: [{ text: 'Streamed ' }] } }] };
+                yield { candidates: [{ content: { role: 'model', parts: [{ text: 'reply' }] } }] };
+              })();
+            }),
+          };
+        }),
+      };
+    }
+
+    it('should tie all turns of a chat to a shared chat id with growing history', async () => {
+      const mockClient = { chats: createMockChats() };
+
+      const wrapped = wrapGeminiClient(mockClient, collector);
+      const chat = wrapped.chats.create({
+        model: 'gemini-2.0-flash',
+        config: { systemInstruction: 'Be terse', temperature: 0.2 },
+        history: [
+          { role: 'user', parts: [{ text: 'Hi' }] },
+          { role: 'model', parts: [{ text: 'Hello' }] },
+        ],
+      });
+
+      await chat.sendMessage({ message: 'First' });
+      await chat.sendMessage({ message: 'Second', config: { temperature: 0.9 } });
+
+      expect(recordedEvents).toHaveLength(2);
+      const [first, second] = recordedEvents as Array<{
+        api: string;
+        request: Record<string, unknown>;
+        response: { text: string };
+      }>;
+
+      expect(first.api).toBe('chats.sendMessage');
+      expect(first.request.model).toBe('gemini-2.0-flash');
+      expect(first.request.contents).toBe('First');
+      expect(first.request.system_instruction).toBe('Be terse');
+      expect(first.request.turn).toBe(1);
+      expect(first.request.history_length).toBe(3);
+      expect(first.response.text).toBe('Echo: First');
+
+      expect(second.request.chat_id).toBe(first.request.chat_id);
+      expect(second.request.turn).toBe(2);
+      expect(second.request.history_length).toBe(5);
+      expect(second.request.config).toEqual({ systemInstruction: 'Be terse', temperature: 0.9 });
+    });
+
+    it('should use a different chat id for each chat', async () => {
+      const mockClient = { chats: createMockChats() };
+
+      const wrapped = wrapGeminiClient(mockClient, collector);
+      await wrapped.chats.create({ model: 'gemini-2.0-flash' }).sendMessage({ message: 'A' });
+      await wrapped.chats.create({ model: 'gemini-2.0-flash' }).sendMessage({ message: 'B' });
+
+      const [a, b] = recordedEvents as Array<{ request: { chat_id: string; turn: number } }>;
+      expect(a.request.chat_id).not.toBe(b.request.chat_id);
+      expect(b.request.turn).toBe(1);
+    });
+
+    it('should record streamed turns when the stream ends', async () => {
+      const mockClient = { chats: createMockChats() };
+
+      const wrapped = wrapGeminiClient(mockClient, collector);
+      const chat = wrapped.chats.create({ model: 'gemini-2.0-flash' });
+
+      const stream = (await chat.sendMessageStream({ message: 'Stream it' })) as AsyncIterable<unknown>;
+      expect(recordedEvents).toHaveLength(0);
+      for await (const chunk of stream) {
+        expect(chunk).toBeDefined();
+      }
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0] as {
+        api: string;
+        request: { turn: number; history_length: number };
+        response: { text: string };
+        streaming: { chunk_count: number };
+      };
+      expect(event.api).toBe('chats.sendMessageStream');
+      expect(event.request.turn).toBe(1);
+      expect(event.request.history_length).toBe(1);
+      expect(event.response.text).toBe('Streamed reply');
+      expect(event.streaming.chunk_count).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { wrapGeminiClient } from '../src/providers/gemini/index.js';
+import { Collector } from '../src/collector.js';
+import { initTracer, resetTracer, getFinishedSpans } from '../src/tracer.js';
+
+interface RecordedEvent {
+  api: string;
+  request: Record<string, unknown>;
+  response: Record<string, unknown> | null;
+  error: string | null;
+  started_at: number;
+  ended_at: number;
+  duration_ms: number;
+  span_id: string;
+  parent_span_id: string | null;
+  trace_id: string | null;
+}
+
+describe('Gemini Video Generation', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+
+  beforeEach(() => {
+    collector = new Collector();
+    recordedEvents = [];
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+  });
+
+  afterEach(() => {
+    collector.reset();
+    vi.restoreAllMocks();
+  });
+
+  function createMockClient(pollResults: unknown[]) {
+    return {
+      models: {
+        generateVideos: vi.fn().mockResolvedValue({ name: 'operations/video-123', done: false }),
+      },
+      operations: {
+        getVideosOperation: vi.fn().mockImplementation(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          return pollResults.shift();
+        }),
+      },
+    };
+  }
+
+  it('should record the initial generateVideos operation', async () => {
+    const mockClient = createMockClient([]);
+    const wrapped = wrapGeminiClient(mockClient, collector);
+
+    await wrapped.models.generateVideos({
+      model: 'veo-2.0-generate-001',
+      prompt: 'A cat surfing',
+      image: { imageBytes: 'AAAA', mimeType: 'image/png' },
+    });
+
+    expect(recordedEvents).toHaveLength(1);
+    const event = recordedEvents[0];
+    expect(event.api).toBe('models.generateVideos');
+    expect(event.request.prompt).toBe('A cat surfing');
+    expect(event.request.image).toEqual({ mimeType: 'image/png' });
+    expect(event.response!.operation_name).toBe('operations/video-123');
+    expect(event.response!.done).toBe(false);
+  });
+
+  it('should link polls to the generateVideos span and record the final result', async () => {
+    const mockClient = createMockClient([
+      { name: 'operations/video-123', done: false },
+      {
+        name: 'operations/video-123',
+        done: true,
+        response: {
+          generatedVideos: [
+            { video: { uri: 'gs://bucket/video-1.mp4', videoBytes: 'AAAA' } },
+            { video: { uri: 'gs://bucket/video-2.mp4' } },
+          ],
+        },
+      },
+    ]);
+    const wrapped = wrapGeminiClient(mockClient, collector);
+
+    let operation = (await wrapped.models.generateVideos({
+      model: 'veo-2.0-generate-001',
+      prompt: 'A cat surfing',
+    })) as { name: string; done: boolean };
+
+    while (!operation.done) {
+      operation = (await wrapped.operations.getVideosOperation({ operation })) as typeof operation;
+    }
+
+    expect(recordedEvents.map((e) => e.api)).toEqual([
+      'models.generateVideos',
+      'operations.getVideosOperation',
+      'operations.getVideosOperation',
+      'models.generateVideos.complete',
+    ]);
+
+    const [initial, poll1, poll2, final] = recordedEvents;
+    expect(poll1.parent_span_id).toBe(initial.span_id);
+    expect(poll2.parent_span_id).toBe(initial.span_id);
+    expect(poll1.request.poll_number).toBe(1);
+    expect(poll2.request.poll_number).toBe(2);
+    expect(poll1.request.model).toBe('veo-2.0-generate-001');
+
+    expect(final.parent_span_id).toBe(initial.span_id);
+    expect(final.started_at).toBe(initial.started_at);
+    expect(final.ended_at).toBe(poll2.ended_at);
+    expect(final.duration_ms).toBeGreaterThan(15);
+    expect(final.error).toBeNull();
+    expect(final.response!.poll_count).toBe(2);
+    expect(final.response!.total_duration_ms).toBe(final.duration_ms);
+    expect(final.response!.video_uris).toEqual(['gs://bucket/video-1.mp4', 'gs://bucket/video-2.mp4']);
+
+    const videos = final.response!.generated_videos as Array<{ video: Record<string, unknown> }>;
+    expect(videos[0].video).toEqual({ uri: 'gs://bucket/video-1.mp4' });
+  });
+
+  it('should record failed operations', async () => {
+    const mockClient = createMockClient([
+      { name: 'operations/video-123', done: true, error: { code: 3, message: 'Prompt rejected' } },
+    ]);
+    const wrapped = wrapGeminiClient(mockClient, collector);
+
+    const operation = await wrapped.models.generateVideos({ model: 'veo-2.0-generate-001', prompt: 'x' });
+    await wrapped.operations.getVideosOperation({ operation });
+
+    const final = recordedEvents[recordedEvents.length - 1];
+    expect(final.api).toBe('models.generateVideos.complete');
+    expect(final.error).toBe('OperationError: 3: Prompt rejected');
+    expect(final.response!.poll_count).toBe(1);
+    expect(final.response!.video_uris).toBeNull();
+  });
+
+  it('should record polls for untracked operations without a final event', async () => {
+    const mockClient = createMockClient([{ name: 'operations/other', done: true, response: {} }]);
+    const wrapped = wrapGeminiClient(mockClient, collector);
+
+    await wrapped.operations.getVideosOperation({ operation: { name: 'operations/other' } });
+
+    expect(recordedEvents).toHaveLength(1);
+    expect(recordedEvents[0].api).toBe('operations.getVideosOperation');
+    expect(recordedEvents[0].request.operation_name).toBe('operations/other');
+    expect(recordedEvents[0].request.poll_number).toBeNull();
+  });
+
+  it('should record operations.get polls only for tracked video operations', async () => {
+    const get = vi.fn().mockImplementation(async ({ operation }: { operation: { name: string } }) => ({
+      name: operation.name,
+      done: true,
+      response: {},
+    }));
+    const mockClient = { ...createMockClient([]), operations: { get } };
+    const wrapped = wrapGeminiClient(mockClient, collector);
+
+    const operation = await wrapped.models.generateVideos({ model: 'veo-2.0-generate-001', prompt: 'x' });
+    const other = await wrapped.operations.get({ operation: { name: 'operations/batch-1' } });
+    await wrapped.operations.get({ operation });
+
+    expect(other).toEqual({ name: 'operations/batch-1', done: true, response: {} });
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(recordedEvents.map((e) => e.api)).toEqual([
+      'models.generateVideos',
+      'operations.get',
+      'models.generateVideos.complete',
+    ]);
+    expect(recordedEvents[1].request.operation_name).toBe('operations/video-123');
+  });
+
+  it('should keep polls and the final event in the generateVideos trace', async () => {
+    initTracer();
+    try {
+      const mockClient = createMockClient([{ name: 'operations/video-123', done: true, response: {} }]);
+      const wrapped = wrapGeminiClient(mockClient, collector);
+
+      await wrapped.models.generateVideos({ model: 'veo-2.0-generate-001', prompt: 'A cat' });
+      await wrapped.operations.getVideosOperation({ operation: { name: 'operations/video-123' } });
+
+      const [start, poll, complete] = recordedEvents;
+      expect(start.trace_id).not.toBeNull();
+      expect(poll.trace_id).toBe(start.trace_id);
+      expect(complete.api).toBe('models.generateVideos.complete');
+      expect(complete.trace_id).toBe(start.trace_id);
+
+      const spans = new Map(getFinishedSpans().map((span) => [span.spanContext().spanId, span]));
+      expect(spans.get(poll.span_id)?.parentSpanId).toBe(start.span_id);
+      expect(spans.get(complete.span_id)?.parentSpanId).toBe(start.span_id);
+    } finally {
+      resetTracer();
+    }
+  });
+
+  it('should forget in-flight operations on reset', async () => {
+    const mockClient = createMockClient([{ name: 'operations/video-123', done: true, response: {} }]);
+    const wrapped = wrapGeminiClient(mockClient, collector);
+
+    await wrapped.models.generateVideos({ model: 'veo-2.0-generate-001', prompt: 'A cat' });
+    collector.reset();
+    await wrapped.operations.getVideosOperation({ operation: { name: 'operations/video-123' } });
+
+    expect(recordedEvents.map((e) => e.api)).toEqual(['models.generateVideos', 'operations.getVideosOperation']);
+    expect(recordedEvents[1].request.poll_number).toBeNull();
+  });
+
+  it('should cap the number of tracked operations', async () => {
+    let counter = 0;
+    const mockClient = {
+      models: {
+        generateVideos: vi.fn().mockImplementation(async () => ({ name: `operations/video-${counter++}`, done: false })),
+      },
+      operations: {
+        getVideosOperation: vi.fn().mockImplementation(async ({ operation }: { operation: { name: string } }) => ({
+          name: operation.name,
+          done: false,
+        })),
+      },
+    };
+    const wrapped = wrapGeminiClient(mockClient, collector);
+
+    for (let i = 0; i < 1001; i++) {
+      await wrapped.models.generateVideos({ model: 'veo-2.0-generate-001', prompt: 'A cat' });
+    }
+    recordedEvents = [];
+    await wrapped.operations.getVideosOperation({ operation: { name: 'operations/video-0' } });
+    await wrapped.operations.getVideosOperation({ operation: { name: 'operations/video-1000' } });
+
+    expect(recordedEvents[0].request.poll_number).toBeNull();
+    expect(recordedEvents[1].request.poll_number).toBe(1);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AiobsCallbackHandler } from '../src/providers/langchain/index.js';
+import { Collector } from '../src/collector.js';
+
+interface RecordedEvent {
+  provider: string;
+  api: string;
+  name?: string;
+  module?: string | null;
+  args?: unknown[] | null;
+  kwargs?: Record<string, unknown> | null;
+  result?: unknown;
+  error: string | null;
+  request?: Record<string, unknown>;
+  response?: Record<string, unknown> | null;
+  span_id: string | null;
+  parent_span_id: string | null;
+  streaming?: Record<string, unknown>;
+}
+
+describe('LangChain callback handler', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+  let handler: AiobsCallbackHandler;
+
+  const chatModel = { id: ['langchain', 'chat_models', 'openai', 'ChatOpenAI'] };
+
+  beforeEach(() => {
+    collector = new Collector();
+    recordedEvents = [];
+    handler = new AiobsCallbackHandler(collector);
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+  });
+
+  afterEach(() => {
+    collector.reset();
+    vi.restoreAllMocks();
+  });
+
+  it('should link chain, retriever, chat model and tool runs', () => {
+    vi.spyOn(collector, 'getCurrentSpanId').mockReturnValue('observe-span');
+
+    handler.handleChainStart({ id: ['langchain', 'agents', 'AgentExecutor'] }, { input: 'Weather?' }, 'chain-1');
+    handler.handleRetrieverStart({ name: 'VectorStoreRetriever' }, 'weather docs', 'ret-1', 'chain-1');
+    handler.handleRetrieverEnd(
+      [{ pageContent: 'It is sunny.', metadata: { source: 'a.txt' }, id: 'doc-1' }],
+      'ret-1'
+    );
+    handler.handleChatModelStart(
+      chatModel,
+      [[
+        { getType: () => 'system', content: 'Be brief.' },
+        { getType: () => 'human', content: 'Weather?' },
+      ]],
+      'llm-1',
+      'chain-1',
+      { invocation_params: { model: 'gpt-4o-mini', temperature: 0 } },
+      ['seq:step:1'],
+      { ls_provider: 'openai', ls_model_name: 'gpt-4o-mini' }
+    );
+    handler.handleLLMEnd(
+      {
+        generations: [[{
+          text: '',
+          message: {
+            tool_calls: [{ id: 'call_1', name: 'get_weather', args: { city: 'Paris' } }],
+            response_metadata: { finish_reason: 'tool_calls' },
+            usage_metadata: { input_tokens: 30, output_tokens: 10, total_tokens: 40 },
+          },
+        }]],
+        llmOutput: {},
+      },
+      'llm-1'
+    );
+    handler.handleToolStart({ name: 'get_weather' }, '{"city":"Paris"}', 'tool-1', 'chain-1');
+    handler.handleToolEnd('Sunny, 22C', 'tool-1');
+    handler.handleChainEnd({ output: 'Sunny.' }, 'chain-1');
+
+    expect(recordedEvents.map((e) => e.api)).toEqual([
+      'langchain.retriever',
+      'langchain.chat_model',
+      'langchain.tool',
+      'langchain.chain',
+    ]);
+
+    const [retriever, llm, tool, chain] = recordedEvents;
+    expect(chain).toMatchObject({
+      provider: 'function',
+      name: 'AgentExecutor',
+      module: 'langchain',
+      args: [{ input: 'Weather?' }],
+      result: { output: 'Sunny.' },
+      span_id: 'chain-1',
+      parent_span_id: 'observe-span',
+    });
+    expect(retriever).toMatchObject({
+      name: 'VectorStoreRetriever',
+      args: ['weather docs'],
+      result: [{ page_content: 'It is sunny.', metadata: { source: 'a.txt' } }],
+      parent_span_id: 'chain-1',
+    });
+    expect(tool).toMatchObject({ name: 'get_weather', result: 'Sunny, 22C', parent_span_id: 'chain-1' });
+
+    expect(llm.provider).toBe('openai');
+    expect(llm.span_id).toBe('llm-1');
+    expect(llm.parent_span_id).toBe('chain-1');
+    expect(llm.request).toMatchObject({
+      model: 'gpt-4o-mini',
+      run_name: 'ChatOpenAI',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'human', content: 'Weather?' },
+      ],
+      prompts: null,
+      invocation_params: { model: 'gpt-4o-mini', temperature: 0 },
+      tags: ['seq:step:1'],
+    });
+    expect(llm.response).toEqual({
+      text: '',
+      finish_reason: 'tool_calls',
+      tool_calls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }],
+      generation_count: 1,
+      usage: { prompt_tokens: 30, completion_tokens: 10, total_tokens: 40 },
+    });
+  });
+
+  it('should record text LLM runs with llmOutput token usage and streaming metrics', () => {
+    handler.handleLLMStart(
+      { id: ['langchain', 'llms', 'ollama', 'Ollama'] },
+      ['Say hi'],
+      'llm-2',
+      undefined,
+      { invocation_params: { model: 'llama3.2' } }
+    );
+    handler.handleLLMNewToken('Hi', { prompt: 0, completion: 0 }, 'llm-2');
+    handler.handleLLMNewToken('!', { prompt: 0, completion: 0 }, 'llm-2');
+    handler.handleLLMEnd(
+      {
+        generations: [[{ text: 'Hi!', generationInfo: { finish_reason: 'stop' } }]],
+        llmOutput: { tokenUsage: { promptTokens: 3, completionTokens: 2, totalTokens: 5 } },
+      },
+      'llm-2'
+    );
+
+    const event = recordedEvents[0];
+    expect(event.provider).toBe('ollama');
+    expect(event.api).toBe('langchain.llm');
+    expect(event.parent_span_id).toBeNull();
+    expect(event.request).toMatchObject({ model: 'llama3.2', prompts: ['Say hi'], messages: null });
+    expect(event.response).toMatchObject({
+      text: 'Hi!',
+      finish_reason: 'stop',
+      usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 },
+    });
+    expect(event.streaming).toMatchObject({ chunk_count: 2, output_tokens: 2 });
+  });
+
+  it('should record errors for failed runs', () => {
+    handler.handleToolStart({ name: 'search' }, 'query', 'tool-2');
+    handler.handleToolError(new RangeError('quota exceeded'), 'tool-2');
+    handler.handleChatModelStart(chatModel, [[]], 'llm-3');
+    handler.handleLLMError(new Error('rate limited'), 'llm-3');
+
+    expect(recordedEvents[0]).toMatchObject({ api: 'langchain.tool', error: 'RangeError: quota exceeded', result: null });
+    expect(recordedEvents[1]).toMatchObject({ api: 'langchain.chat_model', error: 'Error: rate limited', response: null });
+  });
+
+  it('should ignore end callbacks for unknown runs', () => {
+    handler.handleChainEnd({}, 'missing');
+    handler.handleLLMEnd({}, 'missing');
+
+    expect(recordedEvents).toHaveLength(0);
+  });
+});
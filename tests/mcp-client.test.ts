@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { wrapMCPClient } from '../src/providers/mcp/index.js';
+import { Collector } from '../src/collector.js';
+
+interface RecordedEvent {
+  provider: string;
+  api: string;
+  error: string | null;
+  request: Record<string, unknown>;
+  response: Record<string, unknown> | null;
+  parent_span_id: string | null;
+}
+
+describe('MCP Client', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+
+  const createMockClient = (overrides: Record<string, unknown> = {}) => ({
+    getServerVersion: () => ({ name: 'weather-server', version: '1.2.0' }),
+    callTool: vi.fn(),
+    readResource: vi.fn(),
+    getPrompt: vi.fn(),
+    listTools: vi.fn(),
+    ping: vi.fn().mockResolvedValue({}),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    collector = new Collector();
+    recordedEvents = [];
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+  });
+
+  afterEach(() => {
+    collector.reset();
+    vi.restoreAllMocks();
+  });
+
+  it('should record callTool with server, arguments and result content', async () => {
+    vi.spyOn(collector, 'getCurrentSpanId').mockReturnValue('agent-step');
+    const mockClient = createMockClient();
+    mockClient.callTool.mockResolvedValue({
+      content: [
+        { type: 'text', text: 'Sunny, 22C' },
+        { type: 'image', mimeType: 'image/png', data: 'iVBORw0KGgo=' },
+      ],
+      structuredContent: { temperature: 22 },
+    });
+
+    const client = wrapMCPClient(mockClient, collector);
+    const result = await client.callTool({ name: 'get_weather', arguments: { city: 'Paris' } });
+
+    expect((result as Record<string, unknown>).structuredContent).toEqual({ temperature: 22 });
+    expect(recordedEvents).toHaveLength(1);
+    const event = recordedEvents[0];
+    expect(event.provider).toBe('mcp');
+    expect(event.api).toBe('callTool');
+    expect(event.parent_span_id).toBe('agent-step');
+    expect(event.request).toEqual({
+      server_name: 'weather-server',
+      server_version: '1.2.0',
+      tool_name: 'get_weather',
+      arguments: { city: 'Paris' },
+    });
+    expect(event.response).toEqual({
+      content: [
+        { type: 'text', text: 'Sunny, 22C' },
+        { type: 'image', mimeType: 'image/png', data_length: 12 },
+      ],
+      structured_content: { temperature: 22 },
+      is_error: false,
+    });
+  });
+
+  it('should record isError tool results without an exception', async () => {
+    const mockClient = createMockClient();
+    mockClient.callTool.mockResolvedValue({ content: [{ type: 'text', text: 'City not found' }], isError: true });
+
+    const client = wrapMCPClient(mockClient, collector);
+    await client.callTool({ name: 'get_weather', arguments: { city: 'Atlantis' } });
+
+    expect(recordedEvents[0].error).toBeNull();
+    expect(recordedEvents[0].response?.is_error).toBe(true);
+  });
+
+  it('should record readResource with blob contents summarized', async () => {
+    const mockClient = createMockClient();
+    mockClient.readResource.mockResolvedValue({
+      contents: [
+        { uri: 'file:///notes.md', mimeType: 'text/markdown', text: '# Notes' },
+        { uri: 'file:///logo.png', mimeType: 'image/png', blob: 'AAAAAAAA' },
+      ],
+    });
+
+    const client = wrapMCPClient(mockClient, collector);
+    await client.readResource({ uri: 'file:///notes.md' });
+
+    expect(recordedEvents[0].api).toBe('readResource');
+    expect(recordedEvents[0].request.uri).toBe('file:///notes.md');
+    expect(recordedEvents[0].response).toEqual({
+      contents: [
+        { uri: 'file:///notes.md', mimeType: 'text/markdown', text: '# Notes' },
+        { uri: 'file:///logo.png', mimeType: 'image/png', blob_length: 8 },
+      ],
+    });
+  });
+
+  it('should record getPrompt and listTools', async () => {
+    const mockClient = createMockClient();
+    mockClient.getPrompt.mockResolvedValue({
+      description: 'Summarize a document',
+      messages: [
+        { role: 'user', content: { type: 'text', text: 'Summarize:' } },
+        { role: 'user', content: { type: 'resource', resource: { uri: 'file:///a.pdf', blob: 'JVBERi0=' } } },
+      ],
+    });
+    mockClient.listTools.mockResolvedValue({
+      tools: [{ name: 'get_weather', inputSchema: {} }, { name: 'get_forecast', inputSchema: {} }],
+      nextCursor: 'page-2',
+    });
+
+    const client = wrapMCPClient(mockClient, collector);
+    await client.getPrompt({ name: 'summarize', arguments: { style: 'brief' } });
+    await client.listTools();
+
+    expect(recordedEvents[0]).toMatchObject({
+      api: 'getPrompt',
+      request: { prompt_name: 'summarize', arguments: { style: 'brief' } },
+      response: {
+        description: 'Summarize a document',
+        messages: [
+          { role: 'user', content: { type: 'text', text: 'Summarize:' } },
+          { role: 'user', content: { type: 'resource', resource: { uri: 'file:///a.pdf', blob_length: 8 } } },
+        ],
+      },
+    });
+    expect(recordedEvents[1]).toMatchObject({
+      api: 'listTools',
+      request: { cursor: null },
+      response: { tool_names: ['get_weather', 'get_forecast'], next_cursor: 'page-2' },
+    });
+  });
+
+  it('should record errors and rethrow', async () => {
+    const mockClient = createMockClient({ getServerVersion: () => undefined });
+    mockClient.callTool.mockRejectedValue(new Error('MCP error -32602: Unknown tool'));
+
+    const client = wrapMCPClient(mockClient, collector);
+    await expect(client.callTool({ name: 'missing' })).rejects.toThrow('Unknown tool');
+
+    expect(recordedEvents[0]).toMatchObject({
+      error: 'Error: MCP error -32602: Unknown tool',
+      request: { server_name: null, tool_name: 'missing', arguments: null },
+      response: null,
+    });
+  });
+
+  it('should pass through other methods', async () => {
+    const mockClient = createMockClient();
+
+    const client = wrapMCPClient(mockClient, collector);
+    await client.ping();
+
+    expect(mockClient.ping).toHaveBeenCalled();
+    expect(recordedEvents).toHaveLength(0);
+  });
+});
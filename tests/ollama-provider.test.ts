@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { wrapOllamaClient } from '../src/providers/ollama/index.js';
+import { Collector } from '../src/collector.js';
+
+interface RecordedEvent {
+  provider: string;
+  api: string;
+  error: string | null;
+  request: Record<string, unknown>;
+  response: Record<string, unknown> | null;
+  streaming?: Record<string, unknown>;
+}
+
+describe('Ollama Provider', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+
+  // Durations are reported by Ollama in nanoseconds
+  const stats = {
+    total_duration: 2_500_000_000,
+    load_duration: 500_000_000,
+    prompt_eval_count: 26,
+    prompt_eval_duration: 130_000_000,
+    eval_count: 40,
+    eval_duration: 1_600_000_000,
+  };
+
+  beforeEach(() => {
+    collector = new Collector();
+    recordedEvents = [];
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+  });
+
+  afterEach(() => {
+    collector.reset();
+    vi.restoreAllMocks();
+  });
+
+  describe('chat()', () => {
+    it('should record messages, token counts and durations', async () => {
+      const mockResponse = {
+        model: 'llama3.2',
+        created_at: '2024-10-01T12:00:00Z',
+        message: { role: 'assistant', content: 'TypeScript is typed JavaScript.' },
+        done: true,
+        done_reason: 'stop',
+        ...stats,
+      };
+      const mockClient = { chat: vi.fn().mockResolvedValue(mockResponse), list: vi.fn() };
+
+      const wrapped = wrapOllamaClient(mockClient, collector);
+
+      const response = await wrapped.chat({
+        model: 'llama3.2',
+        messages: [{ role: 'user', content: 'What is TypeScript?', images: ['aGVsbG8='] }],
+        options: { temperature: 0.1 },
+        keep_alive: '5m',
+      });
+
+      expect(response).toBe(mockResponse);
+      expect(wrapped.list).toBe(mockClient.list);
+      expect(recordedEvents).toHaveLength(1);
+
+      const event = recordedEvents[0];
+      expect(event.provider).toBe('ollama');
+      expect(event.api).toBe('chat');
+      expect(event.request.model).toBe('llama3.2');
+      expect(event.request.messages).toEqual([{ role: 'user', content: 'What is TypeScript?', image_count: 1 }]);
+      expect(event.request.options).toEqual({ temperature: 0.1 });
+      expect(event.request.other).toEqual({ keep_alive: '5m' });
+      expect(event.request.stream).toBe(false);
+
+      expect(event.response).toMatchObject({
+        model: 'llama3.2',
+        role: 'assistant',
+        content: 'TypeScript is typed JavaScript.',
+        done_reason: 'stop',
+        usage: { prompt_tokens: 26, completion_tokens: 40, total_tokens: 66 },
+        metrics: {
+          total_duration_ms: 2500,
+          load_duration_ms: 500,
+          prompt_eval_duration_ms: 130,
+          eval_duration_ms: 1600,
+          prompt_eval_count: 26,
+          eval_count: 40,
+          eval_tokens_per_second: 25,
+        },
+      });
+    });
+
+    it('should rebuild streamed responses from chunks', async () => {
+      const chunks = [
+        { model: 'llama3.2', message: { role: 'assistant', content: 'Hello' }, done: false },
+        { model: 'llama3.2', message: { role: 'assistant', content: ' there' }, done: false },
+        { model: 'llama3.2', message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop', ...stats },
+      ];
+      const stream = {
+        abort: vi.fn(),
+        async *[Symbol.asyncIterator]() {
+          for (const chunk of chunks) {
+            yield chunk;
+          }
+        },
+      };
+      const mockClient = { chat: vi.fn().mockResolvedValue(stream) };
+
+      const wrapped = wrapOllamaClient(mockClient, collector);
+      const result = (await wrapped.chat({
+        model: 'llama3.2',
+        messages: [{ role: 'user', content: 'Hi' }],
+        stream: true,
+      })) as typeof stream;
+
+      expect(result.abort).toBe(stream.abort);
+      expect(recordedEvents).toHaveLength(0);
+      for await (const chunk of result) {
+        expect(chunk).toBeDefined();
+      }
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0];
+      expect(event.request.stream).toBe(true);
+      expect(event.response!.content).toBe('Hello there');
+      expect(event.response!.done_reason).toBe('stop');
+      expect(event.response!.usage).toEqual({ prompt_tokens: 26, completion_tokens: 40, total_tokens: 66 });
+      expect(event.streaming!.chunk_count).toBe(3);
+      expect(event.streaming!.output_tokens).toBe(40);
+    });
+
+    it('should leave the total unset when the prompt was cached', async () => {
+      const mockClient = {
+        chat: vi.fn().mockResolvedValue({
+          model: 'llama3.2',
+          message: { role: 'assistant', content: 'Again' },
+          done: true,
+          eval_count: 12,
+        }),
+      };
+
+      const wrapped = wrapOllamaClient(mockClient, collector);
+      await wrapped.chat({ model: 'llama3.2', messages: [{ role: 'user', content: 'Hi' }] });
+
+      expect(recordedEvents[0].response!.usage).toEqual({ prompt_tokens: null, completion_tokens: 12, total_tokens: null });
+    });
+
+    it('should capture errors', async () => {
+      const mockClient = { chat: vi.fn().mockRejectedValue(new Error('model "nope" not found')) };
+
+      const wrapped = wrapOllamaClient(mockClient, collector);
+
+      await expect(wrapped.chat({ model: 'nope', messages: [] })).rejects.toThrow('not found');
+
+      expect(recordedEvents).toHaveLength(1);
+      expect(recordedEvents[0].error).toBe('Error: model "nope" not found');
+      expect(recordedEvents[0].response).toBeNull();
+    });
+  });
+
+  describe('generate()', () => {
+    it('should record the prompt and drop context token ids', async () => {
+      const mockClient = {
+        generate: vi.fn().mockResolvedValue({
+          model: 'qwen2.5:7b',
+          response: 'Blue.',
+          done: true,
+          done_reason: 'stop',
+          context: [1, 2, 3, 4, 5],
+          ...stats,
+        }),
+      };
+
+      const wrapped = wrapOllamaClient(mockClient, collector);
+
+      await wrapped.generate({
+        model: 'qwen2.5:7b',
+        prompt: 'Sky color?',
+        system: 'One word answers',
+        context: [9, 9, 9],
+      });
+
+      const event = recordedEvents[0];
+      expect(event.api).toBe('generate');
+      expect(event.request.prompt).toBe('Sky color?');
+      expect(event.request.system).toBe('One word answers');
+      expect(event.request.other).toEqual({});
+      expect(event.response).toMatchObject({
+        response: 'Blue.',
+        context_length: 5,
+        usage: { prompt_tokens: 26, completion_tokens: 40, total_tokens: 66 },
+      });
+      expect(JSON.stringify(event.response)).not.toContain('[1,2,3,4,5]');
+    });
+
+    it('should rebuild streamed responses from chunks', async () => {
+      async function* chunks() {
+        yield { model: 'qwen2.5:7b', response: 'Bl', done: false };
+        yield { model: 'qwen2.5:7b', response: 'ue.', done: false };
+        yield { model: 'qwen2.5:7b', response: '', done: true, done_reason: 'stop', ...stats };
+      }
+      const mockClient = { generate: vi.fn().mockImplementation(async () => chunks()) };
+
+      const wrapped = wrapOllamaClient(mockClient, collector);
+      const result = (await wrapped.generate({ model: 'qwen2.5:7b', prompt: 'Sky?', stream: true })) as AsyncIterable<unknown>;
+      for await (const chunk of result) {
+        expect(chunk).toBeDefined();
+      }
+
+      const event = recordedEvents[0];
+      expect(event.response!.response).toBe('Blue.');
+      expect((event.response!.metrics as Record<string, unknown>).eval_count).toBe(40);
+    });
+  });
+
+  describe('embed()', () => {
+    it('should record embedding counts and dimensions', async () => {
+      const mockClient = {
+        embed: vi.fn().mockResolvedValue({
+          model: 'nomic-embed-text',
+          embeddings: [
+            [0.1, 0.2, 0.3],
+            [0.4, 0.5, 0.6],
+          ],
+          total_duration: 50_000_000,
+          load_duration: 10_000_000,
+          prompt_eval_count: 8,
+        }),
+      };
+
+      const wrapped = wrapOllamaClient(mockClient, collector);
+
+      await wrapped.embed({ model: 'nomic-embed-text', input: ['first', 'second'] });
+
+      const event = recordedEvents[0];
+      expect(event.api).toBe('embed');
+      expect(event.request.input).toEqual(['first', 'second']);
+      expect(event.response).toEqual({
+        model: 'nomic-embed-text',
+        embedding_count: 2,
+        embedding_dimensions: 3,
+        usage: { prompt_tokens: 8, completion_tokens: null, total_tokens: 8 },
+        metrics: {
+          total_duration_ms: 50,
+          load_duration_ms: 10,
+          prompt_eval_duration_ms: null,
+          eval_duration_ms: null,
+          prompt_eval_count: 8,
+          eval_count: null,
+          eval_tokens_per_second: null,
+        },
+      });
+    });
+  });
+});
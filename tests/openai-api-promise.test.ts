@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import OpenAI from 'openai';
+import { wrapOpenAIClient } from '../src/providers/openai/index.js';
+import { Collector } from '../src/collector.js';
+
+interface RecordedEvent {
+  api: string;
+  error: string | null;
+  response: Record<string, unknown> | null;
+  http?: Record<string, unknown>;
+}
+
+const RATE_LIMIT_HEADERS = {
+  'x-request-id': 'req_123',
+  'x-ratelimit-limit-requests': '500',
+  'x-ratelimit-remaining-requests': '499',
+  'x-ratelimit-limit-tokens': '200000',
+  'x-ratelimit-remaining-tokens': '199990',
+  'x-ratelimit-reset-requests': '120ms',
+  'x-ratelimit-reset-tokens': '3ms',
+};
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = RATE_LIMIT_HEADERS): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+const completion = {
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  model: 'gpt-4o-mini',
+  choices: [{ index: 0, message: { role: 'assistant', content: 'Hi!' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 },
+};
+
+describe('OpenAI APIPromise support', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let client: OpenAI;
+
+  beforeEach(() => {
+    collector = new Collector();
+    recordedEvents = [];
+    mockFetch = vi.fn();
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+
+    client = wrapOpenAIClient(
+      new OpenAI({ apiKey: 'sk-test', fetch: mockFetch as unknown as typeof fetch, maxRetries: 0 }),
+      collector
+    );
+  });
+
+  afterEach(() => {
+    collector.reset();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep .withResponse() working and record HTTP metadata', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(completion));
+
+    const { data, response, request_id } = await client.chat.completions
+      .create({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hello' }] })
+      .withResponse();
+
+    expect(data.id).toBe('chatcmpl-1');
+    expect(response.status).toBe(200);
+    expect(request_id).toBe('req_123');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    expect(recordedEvents).toHaveLength(1);
+    expect(recordedEvents[0].response?.text).toBe('Hi!');
+    expect(recordedEvents[0].http).toEqual({
+      status: 200,
+      request_id: 'req_123',
+      rate_limit: {
+        limit_requests: 500,
+        limit_tokens: 200000,
+        remaining_requests: 499,
+        remaining_tokens: 199990,
+        reset_requests: '120ms',
+        reset_tokens: '3ms',
+      },
+    });
+  });
+
+  it('should keep .asResponse() and plain await working with a single request', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(completion));
+
+    const promise = client.chat.completions.create({ model: 'gpt-4o-mini', messages: [] });
+    const raw = await promise.asResponse();
+    const data = await promise;
+
+    expect(raw.headers.get('x-request-id')).toBe('req_123');
+    expect(data.choices[0].message.content).toBe('Hi!');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(recordedEvents).toHaveLength(1);
+    expect(recordedEvents[0].response?.text).toBe('Hi!');
+  });
+
+  it('should leave the body unread for .asResponse() and still record the event', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(completion));
+
+    const raw = await client.chat.completions
+      .create({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hello' }] })
+      .asResponse();
+
+    expect(await raw.text()).toBe(JSON.stringify(completion));
+    await vi.waitFor(() => expect(recordedEvents).toHaveLength(1));
+    expect(recordedEvents[0].response?.text).toBe('Hi!');
+    expect(recordedEvents[0].http).toMatchObject({ status: 200, request_id: 'req_123' });
+  });
+
+  it('should leave a stream read through .asResponse() unread and record its HTTP metadata', async () => {
+    const sse = [
+      { id: 'c1', object: 'chat.completion.chunk', model: 'gpt-4o-mini', choices: [{ index: 0, delta: { content: 'Hel' } }] },
+      { id: 'c1', object: 'chat.completion.chunk', model: 'gpt-4o-mini', choices: [{ index: 0, delta: { content: 'lo' }, finish_reason: 'stop' }] },
+    ]
+      .map((c) => `data: ${JSON.stringify(c)}\n\n`)
+      .join('') + 'data: [DONE]\n\n';
+    mockFetch.mockResolvedValue(
+      new Response(sse, { headers: { 'content-type': 'text/event-stream', 'x-request-id': 'req_stream' } })
+    );
+
+    const raw = await client.chat.completions
+      .create({ model: 'gpt-4o-mini', messages: [], stream: true })
+      .asResponse();
+
+    expect(await raw.text()).toBe(sse);
+    await vi.waitFor(() => expect(recordedEvents).toHaveLength(1));
+    expect(recordedEvents[0].response?.text).toBeNull();
+    expect(recordedEvents[0].http).toMatchObject({ status: 200, request_id: 'req_stream' });
+  });
+
+  it('should return the observed stream from .withResponse()', async () => {
+    const sse = [
+      { id: 'c1', object: 'chat.completion.chunk', model: 'gpt-4o-mini', choices: [{ index: 0, delta: { content: 'Hel' } }] },
+      { id: 'c1', object: 'chat.completion.chunk', model: 'gpt-4o-mini', choices: [{ index: 0, delta: { content: 'lo' }, finish_reason: 'stop' }] },
+    ]
+      .map((c) => `data: ${JSON.stringify(c)}\n\n`)
+      .join('') + 'data: [DONE]\n\n';
+    mockFetch.mockResolvedValue(
+      new Response(sse, { headers: { 'content-type': 'text/event-stream', 'x-request-id': 'req_stream' } })
+    );
+    const clone = vi.spyOn(Response.prototype, 'clone');
+
+    const { data: stream } = await client.chat.completions
+      .create({ model: 'gpt-4o-mini', messages: [], stream: true })
+      .withResponse();
+    expect(recordedEvents).toHaveLength(0);
+
+    const chunks: unknown[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toHaveLength(2);
+    expect(clone).not.toHaveBeenCalled();
+
+    expect(recordedEvents).toHaveLength(1);
+    expect(recordedEvents[0].response?.text).toBe('Hello');
+    expect(recordedEvents[0].http).toMatchObject({ status: 200, request_id: 'req_stream', rate_limit: null });
+  });
+
+  it('should keep APIPromise helpers on images and audio calls', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ created: 1, data: [{ url: 'https://img/1.png' }] }))
+      .mockResolvedValueOnce(
+        new Response(new Uint8Array([1, 2, 3]), {
+          headers: { 'content-type': 'audio/mpeg', 'x-request-id': 'req_speech' },
+        })
+      );
+
+    const { data: images, request_id } = await client.images
+      .generate({ model: 'dall-e-3', prompt: 'A cat' })
+      .withResponse();
+    const raw = await client.audio.speech
+      .create({ model: 'tts-1', voice: 'alloy', input: 'Hello' })
+      .asResponse();
+
+    expect(images.data?.[0].url).toBe('https://img/1.png');
+    expect(request_id).toBe('req_123');
+    expect(new Uint8Array(await raw.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+
+    await vi.waitFor(() => expect(recordedEvents).toHaveLength(2));
+    expect(recordedEvents[0]).toMatchObject({ api: 'images.generate', http: { status: 200, request_id: 'req_123' } });
+    expect(recordedEvents[1]).toMatchObject({
+      api: 'audio.speech.create',
+      response: { content_type: 'audio/mpeg' },
+      http: { status: 200, request_id: 'req_speech' },
+    });
+  });
+
+  it('should record status and rate limits from API errors', async () => {
+    mockFetch.mockResolvedValue(
+      jsonResponse({ error: { message: 'Rate limit reached', type: 'requests' } }, 429, {
+        'x-request-id': 'req_429',
+        'x-ratelimit-remaining-requests': '0',
+      })
+    );
+
+    await expect(client.embeddings.create({ model: 'text-embedding-3-small', input: 'hi' })).rejects.toThrow(
+      'Rate limit reached'
+    );
+
+    expect(recordedEvents[0].api).toBe('embeddings.create');
+    expect(recordedEvents[0].error).toContain('Rate limit reached');
+    expect(recordedEvents[0].http).toMatchObject({
+      status: 429,
+      request_id: 'req_429',
+      rate_limit: { remaining_requests: 0, limit_requests: null },
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { wrapOpenAIClient, detectOpenAIBackend } from '../src/providers/openai/index.js';
+import { Collector } from '../src/collector.js';
+
+interface RecordedEvent {
+  provider: string;
+  api: string;
+  request: Record<string, unknown>;
+}
+
+describe('OpenAI-compatible backend detection', () => {
+  describe('detectOpenAIBackend()', () => {
+    it.each([
+      ['https://api.openai.com/v1', 'openai'],
+      ['https://api.groq.com/openai/v1', 'groq'],
+      ['https://api.together.xyz/v1', 'together'],
+      ['https://api.fireworks.ai/inference/v1', 'fireworks'],
+      ['https://openrouter.ai/api/v1', 'openrouter'],
+      ['http://localhost:11434/v1', 'ollama'],
+      ['http://127.0.0.1:8000/v1', 'vllm'],
+      ['http://localhost:9999/v1', 'openai_compatible'],
+      ['https://llm.internal.example.com/v1', 'openai_compatible'],
+    ])('should map %s to %s', (baseURL, provider) => {
+      expect(detectOpenAIBackend({ baseURL }).provider).toBe(provider);
+    });
+
+    it('should default to openai when the client has no baseURL', () => {
+      expect(detectOpenAIBackend({})).toEqual({
+        provider: 'openai',
+        base_url: null,
+        deployment: null,
+        api_version: null,
+      });
+    });
+
+    it('should read Azure deployment and api-version from the client', () => {
+      const client = {
+        baseURL: 'https://my-resource.openai.azure.com/openai',
+        apiVersion: '2024-10-21',
+        _deployment: 'gpt-4o-prod',
+      };
+
+      expect(detectOpenAIBackend(client)).toEqual({
+        provider: 'azure_openai',
+        base_url: 'https://my-resource.openai.azure.com/openai',
+        deployment: 'gpt-4o-prod',
+        api_version: '2024-10-21',
+      });
+    });
+
+    it('should read Azure settings from the base URL and default query', () => {
+      const client = {
+        baseURL: 'https://gateway.example.com/openai/deployments/gpt-4o-mini',
+        _options: { defaultQuery: { 'api-version': '2024-06-01' } },
+      };
+
+      const backend = detectOpenAIBackend(client);
+      expect(backend.provider).toBe('azure_openai');
+      expect(backend.deployment).toBe('gpt-4o-mini');
+      expect(backend.api_version).toBe('2024-06-01');
+    });
+
+    it('should prefer the provider override', () => {
+      expect(detectOpenAIBackend({ baseURL: 'http://gpu-box:8000/v1' }, { provider: 'vllm' }).provider).toBe('vllm');
+    });
+  });
+
+  describe('wrapOpenAIClient()', () => {
+    let collector: Collector;
+    let recordedEvents: RecordedEvent[];
+
+    const completion = {
+      id: 'chatcmpl-1',
+      model: 'llama-3.1-70b',
+      choices: [{ message: { role: 'assistant', content: 'Hi' }, finish_reason: 'stop' }],
+    };
+
+    beforeEach(() => {
+      collector = new Collector();
+      recordedEvents = [];
+
+      vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+        recordedEvents.push(event as unknown as RecordedEvent);
+      });
+    });
+
+    afterEach(() => {
+      collector.reset();
+      vi.restoreAllMocks();
+    });
+
+    it('should record the detected backend as the provider', async () => {
+      const mockClient = {
+        baseURL: 'https://api.groq.com/openai/v1',
+        chat: { completions: { create: vi.fn().mockResolvedValue(completion) } },
+        embeddings: { create: vi.fn().mockResolvedValue({ data: [] }) },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+      await wrapped.chat.completions.create({ model: 'llama-3.1-70b', messages: [] });
+      await wrapped.embeddings.create({ model: 'nomic-embed', input: 'x' });
+
+      expect(recordedEvents.map((e) => e.provider)).toEqual(['groq', 'groq']);
+      expect(recordedEvents[0].request.backend).toEqual({
+        provider: 'groq',
+        base_url: 'https://api.groq.com/openai/v1',
+        deployment: null,
+        api_version: null,
+      });
+    });
+
+    it('should record Azure deployment details on the request', async () => {
+      const mockClient = {
+        baseURL: 'https://my-resource.openai.azure.com/openai',
+        apiVersion: '2024-10-21',
+        _deployment: 'gpt-4o-prod',
+        responses: { create: vi.fn().mockResolvedValue({ id: 'resp_1', output: [] }) },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+      await wrapped.responses.create({ model: 'gpt-4o', input: 'Hi' });
+
+      const event = recordedEvents[0];
+      expect(event.provider).toBe('azure_openai');
+      expect(event.request.backend).toMatchObject({ deployment: 'gpt-4o-prod', api_version: '2024-10-21' });
+    });
+
+    it('should use the provider override for every resource', async () => {
+      const mockClient = {
+        baseURL: 'http://gpu-box:8000/v1',
+        chat: { completions: { create: vi.fn().mockResolvedValue(completion) } },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector, { provider: 'vllm' });
+      await wrapped.chat.completions.create({ model: 'llama', messages: [] });
+
+      expect(recordedEvents[0].provider).toBe('vllm');
+    });
+
+    it('should leave plain OpenAI requests unchanged', async () => {
+      const mockClient = {
+        baseURL: 'https://api.openai.com/v1',
+        chat: { completions: { create: vi.fn().mockResolvedValue(completion) } },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+      await wrapped.chat.completions.create({ model: 'gpt-4o', messages: [] });
+
+      expect(recordedEvents[0].provider).toBe('openai');
+      expect(recordedEvents[0].request).not.toHaveProperty('backend');
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import OpenAI from 'openai';
+import { wrapOpenAIClient } from '../src/providers/openai/index.js';
+import { Collector } from '../src/collector.js';
+import { initTracer, resetTracer } from '../src/tracer.js';
+
+interface RecordedEvent {
+  provider: string;
+  api: string;
+  name?: string;
+  args?: unknown[] | null;
+  result?: unknown;
+  error: string | null;
+  response?: Record<string, unknown> | null;
+  streaming?: Record<string, unknown> | null;
+  span_id: string;
+  parent_span_id: string | null;
+  tool_call_id?: string | null;
+  tool_call_span_id?: string | null;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+}
+
+function completion(message: Record<string, unknown>, finishReason = 'stop', totalTokens = 10): Record<string, unknown> {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    model: 'gpt-4o-mini',
+    choices: [{ index: 0, message: { role: 'assistant', content: null, ...message }, finish_reason: finishReason }],
+    usage: { prompt_tokens: totalTokens - 2, completion_tokens: 2, total_tokens: totalTokens },
+  };
+}
+
+const responseFormat = {
+  type: 'json_schema' as const,
+  json_schema: { name: 'city', strict: true, schema: { type: 'object', properties: { name: { type: 'string' } } } },
+};
+
+describe('OpenAI beta chat completion helpers', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+  let mockFetch: ReturnType<typeof vi.fn>;
+  let client: OpenAI;
+
+  beforeEach(() => {
+    initTracer();
+    collector = new Collector();
+    recordedEvents = [];
+    mockFetch = vi.fn();
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+
+    client = wrapOpenAIClient(
+      new OpenAI({ apiKey: 'sk-test', fetch: mockFetch as unknown as typeof fetch, maxRetries: 0 }),
+      collector
+    );
+  });
+
+  afterEach(() => {
+    collector.reset();
+    resetTracer();
+    vi.restoreAllMocks();
+  });
+
+  it('should record the parsed object from parse()', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(completion({ content: '{"name":"Paris"}' })));
+
+    const result = await client.beta.chat.completions.parse({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Capital of France?' }],
+      response_format: responseFormat,
+    });
+
+    expect(result.choices[0].message.parsed).toEqual({ name: 'Paris' });
+    expect(recordedEvents).toHaveLength(1);
+    expect(recordedEvents[0].api).toBe('beta.chat.completions.parse');
+    expect(recordedEvents[0].error).toBeNull();
+    expect(recordedEvents[0].response).toMatchObject({
+      text: '{"name":"Paris"}',
+      parsed: { name: 'Paris' },
+      refusal: null,
+    });
+  });
+
+  it('should record parse failures as the event error', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(completion({ content: '{"name":' })));
+
+    await expect(
+      client.beta.chat.completions.parse({ model: 'gpt-4o-mini', messages: [], response_format: responseFormat })
+    ).rejects.toThrow(SyntaxError);
+
+    expect(recordedEvents).toHaveLength(1);
+    expect(recordedEvents[0].response).toBeNull();
+    expect(recordedEvents[0].error).toMatch(/^SyntaxError: /);
+  });
+
+  it('should record runTools round trips and tool invocations as child events', async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse(
+          completion(
+            {
+              tool_calls: [
+                { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } },
+              ],
+            },
+            'tool_calls',
+            20
+          )
+        )
+      )
+      .mockResolvedValueOnce(jsonResponse(completion({ content: 'Sunny in Paris' }, 'stop', 30)));
+
+    const getWeather = vi.fn().mockResolvedValue({ forecast: 'sunny' });
+    const runner = client.beta.chat.completions.runTools({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Weather in Paris?' }],
+      tools: [
+        {
+          type: 'function',
+          function: { name: 'get_weather', function: getWeather, parse: JSON.parse, parameters: { type: 'object' } },
+        },
+      ],
+    });
+    expect(await runner.finalContent()).toBe('Sunny in Paris');
+    expect(getWeather).toHaveBeenCalledWith({ city: 'Paris' }, expect.anything());
+
+    expect(recordedEvents.map((e) => e.api)).toEqual([
+      'chat.completions.create',
+      'get_weather',
+      'chat.completions.create',
+      'beta.chat.completions.runTools',
+    ]);
+    const [firstTrip, tool, secondTrip, run] = recordedEvents;
+
+    expect(firstTrip.parent_span_id).toBe(run.span_id);
+    expect(secondTrip.parent_span_id).toBe(run.span_id);
+    expect(tool).toMatchObject({
+      provider: 'function',
+      name: 'get_weather',
+      args: [{ city: 'Paris' }],
+      result: { forecast: 'sunny' },
+      error: null,
+      parent_span_id: run.span_id,
+      tool_call_id: 'call_1',
+      tool_call_span_id: firstTrip.span_id,
+    });
+    expect(run.error).toBeNull();
+    expect(run.response).toMatchObject({
+      text: 'Sunny in Paris',
+      usage: null,
+      round_trips: 2,
+      tool_invocations: 1,
+      total_usage: { prompt_tokens: 46, completion_tokens: 4, total_tokens: 50 },
+    });
+  });
+
+  it('should record a failed runTools run without swallowing its error', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: { message: 'Server error' } }, 500));
+
+    const runner = client.beta.chat.completions.runTools({
+      model: 'gpt-4o-mini',
+      messages: [],
+      tools: [{ type: 'function', function: { name: 'noop', function: () => 'ok', parameters: {} } }],
+    });
+    await expect(runner.done()).rejects.toThrow('Server error');
+
+    expect(recordedEvents.map((e) => e.api)).toEqual(['chat.completions.create', 'beta.chat.completions.runTools']);
+    expect(recordedEvents[0].error).toContain('Server error');
+    expect(recordedEvents[1].error).toBe(recordedEvents[0].error);
+    expect(recordedEvents[1].response).toBeNull();
+  });
+
+  it('should record the real error of a failed stream()', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ error: { message: 'Invalid model' } }, 400));
+
+    const stream = client.beta.chat.completions.stream({ model: 'nope', messages: [] });
+    await expect(stream.done()).rejects.toThrow('400 Invalid model');
+
+    expect(recordedEvents).toHaveLength(1);
+    expect(recordedEvents[0].api).toBe('beta.chat.completions.stream');
+    expect(recordedEvents[0].error).toBe('Error: 400 Invalid model');
+  });
+
+  it('should record the final aggregated completion from stream()', async () => {
+    const sse = [
+      { id: 'c1', object: 'chat.completion.chunk', model: 'gpt-4o-mini', choices: [{ index: 0, delta: { role: 'assistant', content: '{"name":' } }] },
+      { id: 'c1', object: 'chat.completion.chunk', model: 'gpt-4o-mini', choices: [{ index: 0, delta: { content: '"Rome"}' }, finish_reason: 'stop' }] },
+    ]
+      .map((c) => `data: ${JSON.stringify(c)}\n\n`)
+      .join('') + 'data: [DONE]\n\n';
+    mockFetch.mockResolvedValue(new Response(sse, { headers: { 'content-type': 'text/event-stream' } }));
+
+    const stream = client.beta.chat.completions.stream({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Capital of Italy?' }],
+    });
+    const final = await stream.finalChatCompletion();
+
+    expect(final.choices[0].message.content).toBe('{"name":"Rome"}');
+    expect(recordedEvents).toHaveLength(1);
+    expect(recordedEvents[0].api).toBe('beta.chat.completions.stream');
+    expect(recordedEvents[0].response).toMatchObject({
+      id: 'c1',
+      text: '{"name":"Rome"}',
+      finish_reason: 'stop',
+      refusal: null,
+    });
+    expect(recordedEvents[0].streaming).toMatchObject({ chunk_count: 2 });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { wrapOpenAIClient } from '../src/providers/openai/index.js';
+import { Collector } from '../src/collector.js';
+
+interface RecordedEvent {
+  api: string;
+  error: string | null;
+  request: Record<string, unknown>;
+  response: Record<string, unknown> | null;
+}
+
+describe('OpenAI Images and Audio Providers', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+
+  beforeEach(() => {
+    collector = new Collector();
+    recordedEvents = [];
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+  });
+
+  afterEach(() => {
+    collector.reset();
+    vi.restoreAllMocks();
+  });
+
+  describe('images.generate()', () => {
+    it('should record parameters and strip base64 image data', async () => {
+      const b64 = 'A'.repeat(2048);
+      const mockResponse = {
+        created: 1700000000,
+        data: [{ b64_json: b64, revised_prompt: 'A tall lighthouse at dusk' }],
+        usage: { input_tokens: 10, output_tokens: 4160, total_tokens: 4170 },
+      };
+      const mockClient = {
+        images: {
+          generate: vi.fn().mockResolvedValue(mockResponse),
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      const response = await wrapped.images.generate({
+        model: 'gpt-image-1',
+        prompt: 'A lighthouse',
+        size: '1024x1024',
+        quality: 'high',
+        background: 'transparent',
+      });
+
+      expect(response).toBe(mockResponse);
+      expect(recordedEvents).toHaveLength(1);
+
+      const event = recordedEvents[0];
+      expect(event.api).toBe('images.generate');
+      expect(event.request.model).toBe('gpt-image-1');
+      expect(event.request.prompt).toBe('A lighthouse');
+      expect(event.request.size).toBe('1024x1024');
+      expect(event.request.quality).toBe('high');
+      expect(event.request.other).toEqual({ background: 'transparent' });
+
+      expect(event.response!.created).toBe(1700000000);
+      expect(event.response!.data).toEqual([
+        { url: null, revised_prompt: 'A tall lighthouse at dusk', b64_json_length: 2048 },
+      ]);
+      expect(event.response!.usage).toEqual(mockResponse.usage);
+      expect(JSON.stringify(event)).not.toContain(b64);
+    });
+
+    it('should capture errors', async () => {
+      const mockClient = {
+        images: {
+          generate: vi.fn().mockRejectedValue(new Error('Content policy violation')),
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      await expect(wrapped.images.generate({ prompt: 'x' })).rejects.toThrow('Content policy violation');
+
+      expect(recordedEvents).toHaveLength(1);
+      expect(recordedEvents[0].error).toBe('Error: Content policy violation');
+      expect(recordedEvents[0].response).toBeNull();
+    });
+  });
+
+  describe('images.edit()', () => {
+    it('should summarize uploaded images instead of capturing bytes', async () => {
+      const mockClient = {
+        images: {
+          edit: vi.fn().mockResolvedValue({ created: 1, data: [{ url: 'https://img/1.png' }] }),
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      await wrapped.images.edit({
+        model: 'dall-e-2',
+        image: { name: 'input.png', size: 5000, type: 'image/png' },
+        mask: Buffer.from([1, 2, 3, 4]),
+        prompt: 'Add a boat',
+      });
+
+      const event = recordedEvents[0];
+      expect(event.api).toBe('images.edit');
+      expect(event.request.image).toEqual({ type: 'file', name: 'input.png', size: 5000, mime_type: 'image/png' });
+      expect(event.request.mask).toEqual({ type: 'bytes', name: null, size: 4, mime_type: null });
+      expect(event.response!.data).toEqual([{ url: 'https://img/1.png', revised_prompt: null, b64_json_length: null }]);
+    });
+  });
+
+  describe('audio.transcriptions.create()', () => {
+    it('should record transcription details', async () => {
+      const mockClient = {
+        audio: {
+          transcriptions: {
+            create: vi.fn().mockResolvedValue({
+              text: 'Hello world',
+              language: 'english',
+              duration: 2.5,
+              segments: [{ id: 0 }, { id: 1 }],
+              words: [{ word: 'Hello' }, { word: 'world' }],
+            }),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      await wrapped.audio.transcriptions.create({
+        model: 'whisper-1',
+        file: { path: '/tmp/talk.mp3' },
+        response_format: 'verbose_json',
+        timestamp_granularities: ['word', 'segment'],
+      });
+
+      const event = recordedEvents[0];
+      expect(event.api).toBe('audio.transcriptions.create');
+      expect(event.request.file).toEqual({ type: 'file', name: '/tmp/talk.mp3', size: null, mime_type: null });
+      expect(event.request.response_format).toBe('verbose_json');
+      expect(event.request.other).toEqual({ timestamp_granularities: ['word', 'segment'] });
+      expect(event.response).toEqual({
+        text: 'Hello world',
+        language: 'english',
+        duration: 2.5,
+        segment_count: 2,
+        word_count: 2,
+        usage: null,
+      });
+    });
+
+    it('should handle plain text responses', async () => {
+      const mockClient = {
+        audio: {
+          transcriptions: {
+            create: vi.fn().mockResolvedValue('Hello world\n'),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      await wrapped.audio.transcriptions.create({ model: 'whisper-1', file: {}, response_format: 'text' });
+
+      expect(recordedEvents[0].response!.text).toBe('Hello world\n');
+    });
+  });
+
+  describe('audio.speech.create()', () => {
+    it('should record voice parameters and response metadata without reading the body', async () => {
+      const body = vi.fn();
+      const mockResponse = {
+        status: 200,
+        headers: new Headers({ 'content-type': 'audio/mpeg', 'content-length': '12345' }),
+        arrayBuffer: body,
+      };
+      const mockClient = {
+        audio: {
+          speech: {
+            create: vi.fn().mockResolvedValue(mockResponse),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      const response = await wrapped.audio.speech.create({
+        model: 'gpt-4o-mini-tts',
+        voice: 'alloy',
+        input: 'Hello!',
+        speed: 1.25,
+        instructions: 'Speak cheerfully',
+      });
+
+      expect(response).toBe(mockResponse);
+      expect(body).not.toHaveBeenCalled();
+
+      const event = recordedEvents[0];
+      expect(event.api).toBe('audio.speech.create');
+      expect(event.request.voice).toBe('alloy');
+      expect(event.request.input).toBe('Hello!');
+      expect(event.request.speed).toBe(1.25);
+      expect(event.request.instructions).toBe('Speak cheerfully');
+      expect(event.response).toEqual({ status: 200, content_type: 'audio/mpeg', content_length: 12345 });
+    });
+  });
+});
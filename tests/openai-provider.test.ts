@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { wrapOpenAIClient } from '../src/providers/openai/index.js';
 import { Collector } from '../src/collector.js';
+import { initTracer, resetTracer, getFinishedSpans } from '../src/tracer.js';
+import { Stream } from 'openai/streaming';
 
 describe('OpenAI Provider', () => {
   let collector: Collector;
@@ -170,6 +172,79 @@ describe('OpenAI Provider', () => {
       expect(event.response.usage.total_tokens).toBe(30);
     });
 
+    it('should record every choice with logprobs, refusals and usage details', async () => {
+      const mockClient = {
+        chat: {
+          completions: {
+            create: vi.fn().mockResolvedValue({
+              id: 'chatcmpl-n2',
+              model: 'o4-mini',
+              choices: [
+                {
+                  index: 0,
+                  message: { role: 'assistant', content: 'Yes' },
+                  finish_reason: 'stop',
+                  logprobs: {
+                    content: [
+                      { token: 'Ye', logprob: -0.1 },
+                      { token: 's', logprob: -0.5 },
+                    ],
+                  },
+                },
+                {
+                  index: 1,
+                  message: { role: 'assistant', content: null, refusal: 'I cannot help with that.' },
+                  finish_reason: 'stop',
+                  logprobs: { content: null, refusal: [{ token: 'I', logprob: -2 }] },
+                },
+              ],
+              usage: {
+                prompt_tokens: 20,
+                completion_tokens: 300,
+                total_tokens: 320,
+                prompt_tokens_details: { cached_tokens: 16, audio_tokens: 0 },
+                completion_tokens_details: { reasoning_tokens: 256 },
+              },
+            }),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      await wrapped.chat.completions.create({ model: 'o4-mini', messages: [], n: 2, logprobs: true });
+
+      const event = recordedEvents[0] as { response: Record<string, unknown> };
+      expect(event.response.text).toBe('Yes');
+      expect(event.response.refusal).toBeNull();
+      expect(event.response.choices).toEqual([
+        {
+          index: 0,
+          text: 'Yes',
+          refusal: null,
+          finish_reason: 'stop',
+          tool_calls: null,
+          logprobs: { token_count: 2, avg_logprob: -0.3, min_logprob: -0.5, min_token: 's' },
+        },
+        {
+          index: 1,
+          text: null,
+          refusal: 'I cannot help with that.',
+          finish_reason: 'stop',
+          tool_calls: null,
+          logprobs: { token_count: 1, avg_logprob: -2, min_logprob: -2, min_token: 'I' },
+        },
+      ]);
+      expect(event.response.usage_details).toEqual({
+        cached_tokens: 16,
+        reasoning_tokens: 256,
+        audio_input_tokens: 0,
+        audio_output_tokens: null,
+        accepted_prediction_tokens: null,
+        rejected_prediction_tokens: null,
+      });
+    });
+
     it('should capture errors', async () => {
       const mockClient = {
         chat: {
@@ -307,5 +382,396 @@ describe('OpenAI Provider', () => {
       expect(event.request.messages).toHaveLength(3);
     });
   });
-});
 
+  describe('streaming', () => {
+    const chunks = [
+      {
+        id: 'chatcmpl-stream',
+        model: 'gpt-4o-mini',
+        choices: [{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }],
+      },
+      {
+        id: 'chatcmpl-stream',
+        model: 'gpt-4o-mini',
+        choices: [{ index: 0, delta: { content: 'Hello' }, finish_reason: null }],
+      },
+      {
+        id: 'chatcmpl-stream',
+        model: 'gpt-4o-mini',
+        choices: [
+          {
+            index: 0,
+            delta: {
+              content: ' world',
+              tool_calls: [
+                { index: 0, id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":' } },
+              ],
+            },
+            finish_reason: null,
+          },
+        ],
+      },
+      {
+        id: 'chatcmpl-stream',
+        model: 'gpt-4o-mini',
+        choices: [
+          {
+            index: 0,
+            delta: { tool_calls: [{ index: 0, function: { arguments: '"aiobs"}' } }] },
+            finish_reason: 'tool_calls',
+          },
+        ],
+      },
+      {
+        id: 'chatcmpl-stream',
+        model: 'gpt-4o-mini',
+        choices: [],
+        usage: { prompt_tokens: 8, completion_tokens: 4, total_tokens: 12 },
+      },
+    ];
+
+    function mockStream(items: unknown[], delayMs = 0) {
+      return {
+        controller: new AbortController(),
+        async *[Symbol.asyncIterator]() {
+          for (const item of items) {
+            if (delayMs > 0) {
+              await new Promise((resolve) => setTimeout(resolve, delayMs));
+            }
+            yield item;
+          }
+        },
+      };
+    }
+
+    async function drain(stream: AsyncIterable<unknown>): Promise<unknown[]> {
+      const received: unknown[] = [];
+      for await (const chunk of stream) {
+        received.push(chunk);
+      }
+      return received;
+    }
+
+    it('should record the rebuilt completion when the stream finishes', async () => {
+      const mockClient = {
+        chat: {
+          completions: {
+            create: vi.fn().mockResolvedValue(mockStream(chunks)),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      const stream = (await wrapped.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'Hi' }],
+        stream: true,
+        stream_options: { include_usage: true },
+      })) as AsyncIterable<unknown>;
+
+      expect(recordedEvents).toHaveLength(0);
+
+      expect(await drain(stream)).toEqual(chunks);
+      expect(recordedEvents).toHaveLength(1);
+
+      const event = recordedEvents[0] as {
+        error: string | null;
+        response: {
+          id: string;
+          model: string;
+          text: string;
+          finish_reason: string;
+          tool_calls: unknown[];
+          usage: Record<string, number>;
+        };
+      };
+
+      expect(event.error).toBeNull();
+      expect(event.response.id).toBe('chatcmpl-stream');
+      expect(event.response.model).toBe('gpt-4o-mini');
+      expect(event.response.text).toBe('Hello world');
+      expect(event.response.finish_reason).toBe('tool_calls');
+      expect(event.response.tool_calls).toEqual([
+        { id: 'call_1', name: 'lookup', arguments: { q: 'aiobs' } },
+      ]);
+      expect(event.response.usage.total_tokens).toBe(12);
+    });
+
+    it('should accumulate refusals and logprobs per streamed choice', async () => {
+      const refusalChunks = [
+        {
+          id: 'chatcmpl-r',
+          choices: [
+            { index: 0, delta: { refusal: 'I cannot' }, logprobs: { refusal: [{ token: 'I', logprob: -1 }] } },
+            { index: 1, delta: { content: 'Sure' }, logprobs: { content: [{ token: 'Sure', logprob: -0.2 }] } },
+          ],
+        },
+        {
+          id: 'chatcmpl-r',
+          choices: [
+            { index: 0, delta: { refusal: ' help.' }, logprobs: { refusal: [{ token: ' help.', logprob: -3 }] }, finish_reason: 'stop' },
+            { index: 1, delta: {}, finish_reason: 'stop' },
+          ],
+        },
+      ];
+      const mockClient = {
+        chat: {
+          completions: {
+            create: vi.fn().mockResolvedValue(mockStream(refusalChunks)),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+      const stream = (await wrapped.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [],
+        stream: true,
+        n: 2,
+      })) as AsyncIterable<unknown>;
+      await drain(stream);
+
+      const event = recordedEvents[0] as { response: Record<string, unknown> };
+      expect(event.response.refusal).toBe('I cannot help.');
+      expect(event.response.choices).toMatchObject([
+        { index: 0, text: null, refusal: 'I cannot help.', logprobs: { token_count: 2, avg_logprob: -2, min_token: ' help.' } },
+        { index: 1, text: 'Sure', refusal: null, logprobs: { token_count: 1, min_logprob: -0.2 } },
+      ]);
+    });
+
+    it('should measure duration until the end of the stream', async () => {
+      const mockClient = {
+        chat: {
+          completions: {
+            create: vi.fn().mockResolvedValue(mockStream(chunks, 15)),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      const stream = (await wrapped.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'Hi' }],
+        stream: true,
+      })) as AsyncIterable<unknown>;
+
+      await drain(stream);
+
+      const event = recordedEvents[0] as { duration_ms: number };
+      expect(event.duration_ms).toBeGreaterThan(60);
+    });
+
+    it('should record time-to-first-token and throughput metrics', async () => {
+      const mockClient = {
+        chat: {
+          completions: {
+            create: vi.fn().mockResolvedValue(mockStream(chunks, 15)),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      const stream = (await wrapped.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'Hi' }],
+        stream: true,
+        stream_options: { include_usage: true },
+      })) as AsyncIterable<unknown>;
+
+      await drain(stream);
+
+      const event = recordedEvents[0] as {
+        started_at: number;
+        streaming: {
+          first_chunk_at: number;
+          time_to_first_chunk_ms: number;
+          chunk_count: number;
+          inter_chunk_avg_ms: number;
+          inter_chunk_min_ms: number;
+          inter_chunk_max_ms: number;
+          output_tokens: number;
+          tokens_per_second: number;
+        };
+      };
+
+      expect(event.streaming.chunk_count).toBe(chunks.length);
+      expect(event.streaming.first_chunk_at).toBeGreaterThan(event.started_at);
+      expect(event.streaming.time_to_first_chunk_ms).toBeGreaterThan(10);
+      expect(event.streaming.inter_chunk_min_ms).toBeGreaterThan(5);
+      expect(event.streaming.inter_chunk_max_ms).toBeGreaterThanOrEqual(event.streaming.inter_chunk_avg_ms);
+      expect(event.streaming.output_tokens).toBe(4);
+      expect(event.streaming.tokens_per_second).toBeGreaterThan(0);
+    });
+
+    it('should not attach streaming metrics to non-streamed calls', async () => {
+      const mockClient = {
+        chat: {
+          completions: {
+            create: vi.fn().mockResolvedValue({ id: 'resp-1', choices: [{ message: { content: 'Hi' } }] }),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      await wrapped.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'Hi' }],
+      });
+
+      expect(recordedEvents[0]).not.toHaveProperty('streaming');
+    });
+
+    it('should record once when the consumer aborts early', async () => {
+      const mockClient = {
+        chat: {
+          completions: {
+            create: vi.fn().mockResolvedValue(mockStream(chunks)),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      const stream = (await wrapped.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'Hi' }],
+        stream: true,
+      })) as AsyncIterable<unknown>;
+
+      let count = 0;
+      for await (const chunk of stream) {
+        expect(chunk).toBeDefined();
+        if (++count === 2) {
+          break;
+        }
+      }
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0] as { response: { text: string; finish_reason: string | null } };
+      expect(event.response.text).toBe('Hello');
+      expect(event.response.finish_reason).toBeNull();
+    });
+
+    it('should end the span and mark the stream partial when the consumer breaks early', async () => {
+      initTracer();
+      try {
+        const mockClient = {
+          chat: {
+            completions: {
+              create: vi.fn().mockResolvedValue(mockStream(chunks)),
+            },
+          },
+        };
+
+        const wrapped = wrapOpenAIClient(mockClient, collector);
+
+        const stream = (await wrapped.chat.completions.create({
+          model: 'gpt-4o-mini',
+          messages: [{ role: 'user', content: 'Hi' }],
+          stream: true,
+        })) as AsyncIterable<unknown>;
+
+        for await (const chunk of stream) {
+          expect(chunk).toBeDefined();
+          break;
+        }
+
+        const event = recordedEvents[0] as { span_id: string; streaming: { consumption: string; chunk_count: number } };
+        expect(event.streaming).toMatchObject({ consumption: 'partial', chunk_count: 1 });
+        const span = getFinishedSpans().find((s) => s.spanContext().spanId === event.span_id);
+        expect(span).toBeDefined();
+      } finally {
+        resetTracer();
+      }
+    });
+
+    it('should mark a stream returned before any chunk as not consumed', async () => {
+      const mockClient = {
+        chat: {
+          completions: {
+            create: vi.fn().mockResolvedValue(mockStream(chunks)),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      const stream = (await wrapped.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'Hi' }],
+        stream: true,
+      })) as AsyncIterable<unknown>;
+
+      await stream[Symbol.asyncIterator]().return!();
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0] as { streaming: Record<string, unknown> };
+      expect(event.streaming).toMatchObject({ consumption: 'not_consumed', chunk_count: 0, first_chunk_at: null });
+    });
+
+    it('should observe each chunk once when the stream is teed', async () => {
+      const source = new Stream(async function* () {
+        yield* chunks;
+      }, new AbortController());
+      const mockClient = {
+        chat: {
+          completions: {
+            create: vi.fn().mockResolvedValue(source),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      const stream = (await wrapped.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'Hi' }],
+        stream: true,
+      })) as unknown as Stream<unknown>;
+
+      const [left, right] = stream.tee();
+      expect(await drain(left)).toEqual(chunks);
+      expect(await drain(right)).toEqual(chunks);
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0] as { response: { text: string }; streaming: Record<string, unknown> };
+      expect(event.response.text).toBe('Hello world');
+      expect(event.streaming).toMatchObject({ consumption: 'complete', chunk_count: chunks.length });
+    });
+
+    it('should record errors raised mid-stream', async () => {
+      const failing = {
+        async *[Symbol.asyncIterator]() {
+          yield chunks[1];
+          throw new Error('Connection reset');
+        },
+      };
+      const mockClient = {
+        chat: {
+          completions: {
+            create: vi.fn().mockResolvedValue(failing),
+          },
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      const stream = (await wrapped.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'Hi' }],
+        stream: true,
+      })) as AsyncIterable<unknown>;
+
+      await expect(drain(stream)).rejects.toThrow('Connection reset');
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0] as { error: string; response: { text: string } };
+      expect(event.error).toBe('Error: Connection reset');
+      expect(event.response.text).toBe('Hello');
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { wrapOpenAIClient } from '../src/providers/openai/index.js';
+import { Collector } from '../src/collector.js';
+
+interface RecordedEvent {
+  api: string;
+  span_id: string;
+  error: string | null;
+  request: Record<string, unknown>;
+  response: Record<string, unknown>;
+  streaming?: Record<string, unknown>;
+}
+
+describe('OpenAI Responses Provider', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+
+  const completedResponse = {
+    id: 'resp_1',
+    object: 'response',
+    model: 'o4-mini',
+    status: 'completed',
+    previous_response_id: null,
+    output: [
+      {
+        type: 'reasoning',
+        id: 'rs_1',
+        summary: [{ type: 'summary_text', text: 'Thinking about the weather' }],
+      },
+      {
+        type: 'function_call',
+        id: 'fc_1',
+        call_id: 'call_1',
+        name: 'get_weather',
+        arguments: '{"city":"Paris"}',
+        status: 'completed',
+      },
+      {
+        type: 'message',
+        id: 'msg_1',
+        role: 'assistant',
+        status: 'completed',
+        content: [{ type: 'output_text', text: 'It is sunny.', annotations: [] }],
+      },
+    ],
+    usage: {
+      input_tokens: 30,
+      output_tokens: 120,
+      total_tokens: 150,
+      input_tokens_details: { cached_tokens: 0 },
+      output_tokens_details: { reasoning_tokens: 96 },
+    },
+  };
+
+  beforeEach(() => {
+    collector = new Collector();
+    recordedEvents = [];
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+  });
+
+  afterEach(() => {
+    collector.reset();
+    vi.restoreAllMocks();
+  });
+
+  describe('responses.create()', () => {
+    it('should record request and response details', async () => {
+      const mockClient = {
+        responses: {
+          create: vi.fn().mockResolvedValue(completedResponse),
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      const response = await wrapped.responses.create({
+        model: 'o4-mini',
+        instructions: 'Be brief',
+        input: 'Weather in Paris?',
+        reasoning: { effort: 'low' },
+        tools: [{ type: 'web_search_preview' }],
+        max_output_tokens: 500,
+      });
+
+      expect(response).toBe(completedResponse);
+      expect(recordedEvents).toHaveLength(1);
+
+      const event = recordedEvents[0];
+      expect(event.api).toBe('responses.create');
+      expect(event.request.model).toBe('o4-mini');
+      expect(event.request.instructions).toBe('Be brief');
+      expect(event.request.input).toBe('Weather in Paris?');
+      expect(event.request.reasoning).toEqual({ effort: 'low' });
+      expect(event.request.tools).toEqual([{ type: 'web_search_preview' }]);
+      expect(event.request.max_output_tokens).toBe(500);
+      expect(event.request.stream).toBe(false);
+
+      expect(event.response.id).toBe('resp_1');
+      expect(event.response.status).toBe('completed');
+      expect(event.response.output_text).toBe('It is sunny.');
+      expect(event.response.reasoning_tokens).toBe(96);
+      expect(event.response.stream_events).toBeNull();
+
+      const output = event.response.output as Array<Record<string, unknown>>;
+      expect(output.map((item) => item.type)).toEqual(['reasoning', 'function_call', 'message']);
+      expect(output[0].summary).toEqual(['Thinking about the weather']);
+      expect(output[1].name).toBe('get_weather');
+      expect(output[1].call_id).toBe('call_1');
+      expect(output[1].arguments).toBe('{"city":"Paris"}');
+      expect(output[2].text).toBe('It is sunny.');
+    });
+
+    it('should link chained responses through previous_response_id', async () => {
+      const mockClient = {
+        responses: {
+          create: vi
+            .fn()
+            .mockResolvedValueOnce(completedResponse)
+            .mockResolvedValueOnce({ ...completedResponse, id: 'resp_2', previous_response_id: 'resp_1' }),
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      await wrapped.responses.create({ model: 'o4-mini', input: 'Weather in Paris?' });
+      await wrapped.responses.create({
+        model: 'o4-mini',
+        previous_response_id: 'resp_1',
+        input: [{ type: 'function_call_output', call_id: 'call_1', output: 'sunny' }],
+      });
+
+      expect(recordedEvents).toHaveLength(2);
+      const [first, second] = recordedEvents;
+      expect(second.request.previous_response_id).toBe('resp_1');
+      expect(second.request.previous_span_id).toBe(first.span_id);
+      expect(second.response.previous_response_id).toBe('resp_1');
+      expect(first.request.previous_span_id).toBeNull();
+    });
+
+    it('should capture errors', async () => {
+      const mockClient = {
+        responses: {
+          create: vi.fn().mockRejectedValue(new Error('Bad request')),
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      await expect(wrapped.responses.create({ model: 'o4-mini', input: 'x' })).rejects.toThrow('Bad request');
+
+      expect(recordedEvents).toHaveLength(1);
+      expect(recordedEvents[0].error).toBe('Error: Bad request');
+    });
+  });
+
+  describe('streaming', () => {
+    const streamEvents = [
+      { type: 'response.created', response: { ...completedResponse, status: 'in_progress', output: [], usage: null } },
+      { type: 'response.output_item.added', output_index: 0, item: { type: 'message', id: 'msg_1', content: [] } },
+      { type: 'response.output_text.delta', output_index: 0, delta: 'It is ' },
+      { type: 'response.output_text.delta', output_index: 0, delta: 'sunny.' },
+      {
+        type: 'response.output_item.done',
+        output_index: 0,
+        item: completedResponse.output[2],
+      },
+      { type: 'response.completed', response: { ...completedResponse, output: [completedResponse.output[2]] } },
+    ];
+
+    function mockStream(events: unknown[]) {
+      return {
+        async *[Symbol.asyncIterator]() {
+          for (const ev of events) {
+            yield ev;
+          }
+        },
+      };
+    }
+
+    async function drain(stream: AsyncIterable<unknown>, limit = Infinity): Promise<void> {
+      let count = 0;
+      for await (const ev of stream) {
+        expect(ev).toBeDefined();
+        if (++count >= limit) {
+          break;
+        }
+      }
+    }
+
+    it('should record the completed response with stream event counts', async () => {
+      const mockClient = {
+        responses: {
+          create: vi.fn().mockResolvedValue(mockStream(streamEvents)),
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      const stream = (await wrapped.responses.create({
+        model: 'o4-mini',
+        input: 'Weather?',
+        stream: true,
+      })) as AsyncIterable<unknown>;
+
+      expect(recordedEvents).toHaveLength(0);
+      await drain(stream);
+      expect(recordedEvents).toHaveLength(1);
+
+      const event = recordedEvents[0];
+      expect(event.request.stream).toBe(true);
+      expect(event.response.status).toBe('completed');
+      expect(event.response.output_text).toBe('It is sunny.');
+      expect(event.response.reasoning_tokens).toBe(96);
+      expect(event.response.stream_events).toEqual({
+        'response.created': 1,
+        'response.output_item.added': 1,
+        'response.output_text.delta': 2,
+        'response.output_item.done': 1,
+        'response.completed': 1,
+      });
+      expect(event.streaming!.chunk_count).toBe(6);
+      expect(event.streaming!.output_tokens).toBe(120);
+    });
+
+    it('should rebuild partial output when the stream is abandoned', async () => {
+      const mockClient = {
+        responses: {
+          create: vi.fn().mockResolvedValue(mockStream(streamEvents)),
+        },
+      };
+
+      const wrapped = wrapOpenAIClient(mockClient, collector);
+
+      const stream = (await wrapped.responses.create({
+        model: 'o4-mini',
+        input: 'Weather?',
+        stream: true,
+      })) as AsyncIterable<unknown>;
+
+      await drain(stream, 4);
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0];
+      expect(event.response.status).toBe('in_progress');
+      expect(event.response.output_text).toBe('It is sunny.');
+      expect(event.response.output).toHaveLength(1);
+    });
+  });
+});
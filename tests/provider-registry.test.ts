@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  registerProvider,
+  unregisterProvider,
+  getRegisteredProviders,
+  installProviders,
+} from '../src/providers/registry.js';
+import type { BaseProvider } from '../src/providers/base.js';
+import { Collector } from '../src/collector.js';
+
+// Mock fetch for API key validation
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function createProvider(name: string, available = true): BaseProvider & { cleanup: ReturnType<typeof vi.fn> } {
+  const cleanup = vi.fn();
+  return {
+    name,
+    cleanup,
+    isAvailable: vi.fn(() => available),
+    install: vi.fn(() => cleanup),
+  };
+}
+
+describe('Provider registry', () => {
+  let collector: Collector;
+  const registered: string[] = [];
+
+  const register = (provider: BaseProvider): void => {
+    registerProvider(provider);
+    registered.push(provider.name);
+  };
+
+  beforeEach(() => {
+    collector = new Collector();
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, usage: {} }),
+    });
+  });
+
+  afterEach(() => {
+    collector.reset();
+    for (const name of registered.splice(0)) {
+      unregisterProvider(name);
+    }
+    vi.restoreAllMocks();
+  });
+
+  it('should include the built-in OpenAI provider', () => {
+    expect(getRegisteredProviders().map((p) => p.name)).toContain('openai');
+  });
+
+  it('should install available providers and skip unavailable ones', () => {
+    const available = createProvider('test-available');
+    const unavailable = createProvider('test-unavailable', false);
+    register(available);
+    register(unavailable);
+
+    const installed = installProviders(collector, { include: ['test-available', 'test-unavailable'] });
+
+    expect(installed.map((p) => p.name)).toEqual(['test-available']);
+    expect(available.install).toHaveBeenCalledWith(collector);
+    expect(unavailable.install).not.toHaveBeenCalled();
+  });
+
+  it('should skip providers whose install throws', () => {
+    const broken = createProvider('test-broken');
+    (broken.install as ReturnType<typeof vi.fn>).mockImplementation(() => {
+      throw new Error('boom');
+    });
+    register(broken);
+
+    expect(installProviders(collector, { include: ['test-broken'] })).toEqual([]);
+  });
+
+  it('should replace a provider registered under the same name', () => {
+    const first = createProvider('test-replaced');
+    const second = createProvider('test-replaced');
+    register(first);
+    register(second);
+
+    installProviders(collector, { include: ['test-replaced'] });
+
+    expect(first.install).not.toHaveBeenCalled();
+    expect(second.install).toHaveBeenCalled();
+  });
+
+  it('should reject providers without a name', () => {
+    expect(() => registerProvider(createProvider(''))).toThrow('non-empty name');
+  });
+
+  it('should install providers on observe() and clean them up on reset()', async () => {
+    const included = createProvider('test-included');
+    const excluded = createProvider('test-excluded');
+    register(included);
+    register(excluded);
+
+    await collector.observe({ apiKey: 'aiobs_sk_valid', providers: { exclude: ['test-excluded', 'openai'] } });
+
+    expect(included.install).toHaveBeenCalledWith(collector);
+    expect(excluded.install).not.toHaveBeenCalled();
+
+    // Providers are only installed once
+    await collector.observe({ apiKey: 'aiobs_sk_valid' });
+    expect(included.install).toHaveBeenCalledTimes(1);
+
+    collector.reset();
+    expect(included.cleanup).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { wrapOpenAIClient } from '../src/providers/openai/index.js';
+import { wrapGeminiClient } from '../src/providers/gemini/index.js';
+import { observe, setObserver } from '../src/observe.js';
+import { Collector } from '../src/collector.js';
+import { initTracer, resetTracer, getFinishedSpans } from '../src/tracer.js';
+
+interface RecordedEvent {
+  provider: string;
+  api: string;
+  span_id: string;
+  parent_span_id: string | null;
+  trace_id: string | null;
+}
+
+describe('Provider spans', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+
+  beforeEach(() => {
+    initTracer();
+    collector = new Collector();
+    recordedEvents = [];
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+
+    setObserver(collector);
+  });
+
+  afterEach(() => {
+    collector.reset();
+    resetTracer();
+    vi.restoreAllMocks();
+  });
+
+  it('should record OpenAI calls as active OTel spans with GenAI attributes', async () => {
+    let spanIdInsideCall: string | null = null;
+    const create = vi.fn().mockImplementation(async () => {
+      spanIdInsideCall = collector.getCurrentSpanId();
+      return {
+        id: 'chatcmpl-1',
+        model: 'gpt-4o-mini-2024-07-18',
+        choices: [{ message: { content: 'Hi' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 },
+      };
+    });
+    const client = wrapOpenAIClient({ chat: { completions: { create } } }, collector);
+
+    const run = observe(async function run() {
+      return client.chat.completions.create({
+        model: 'gpt-4o-mini',
+        messages: [{ role: 'user', content: 'Hello' }],
+        temperature: 0.2,
+        max_tokens: 50,
+      });
+    });
+    await run();
+
+    const [providerEvent, functionEvent] = recordedEvents;
+    expect(providerEvent.span_id).toMatch(/^[0-9a-f]{16}$/);
+    expect(providerEvent.trace_id).toBe(functionEvent.trace_id);
+    expect(providerEvent.parent_span_id).toBe(functionEvent.span_id);
+    // Anything called inside the provider call nests under its span
+    expect(spanIdInsideCall).toBe(providerEvent.span_id);
+
+    const span = getFinishedSpans().find((s) => s.spanContext().spanId === providerEvent.span_id);
+    expect(span?.name).toBe('chat gpt-4o-mini');
+    expect(span?.parentSpanId).toBe(functionEvent.span_id);
+    expect(span?.attributes).toMatchObject({
+      'gen_ai.system': 'openai',
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.request.model': 'gpt-4o-mini',
+      'gen_ai.request.temperature': 0.2,
+      'gen_ai.request.max_tokens': 50,
+      'gen_ai.response.id': 'chatcmpl-1',
+      'gen_ai.response.model': 'gpt-4o-mini-2024-07-18',
+      'gen_ai.response.finish_reasons': ['stop'],
+      'gen_ai.usage.input_tokens': 9,
+      'gen_ai.usage.output_tokens': 2,
+    });
+  });
+
+  it('should mark the span as an error when the call fails', async () => {
+    const create = vi.fn().mockRejectedValue(new Error('Rate limited'));
+    const client = wrapOpenAIClient({ chat: { completions: { create } } }, collector);
+
+    await expect(client.chat.completions.create({ model: 'gpt-4o-mini', messages: [] })).rejects.toThrow();
+
+    const span = getFinishedSpans().find((s) => s.spanContext().spanId === recordedEvents[0].span_id);
+    expect(span?.status).toMatchObject({ code: 2, message: 'Error: Rate limited' });
+  });
+
+  it('should read Gemini config parameters and candidate finish reasons', async () => {
+    const generateContent = vi.fn().mockResolvedValue({
+      candidates: [{ content: { parts: [{ text: 'Hola' }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 5, candidatesTokenCount: 1, totalTokenCount: 6 },
+    });
+    const client = wrapGeminiClient({ models: { generateContent } }, collector);
+
+    await client.models.generateContent({
+      model: 'gemini-2.0-flash',
+      contents: 'Hi',
+      config: { temperature: 0.5, maxOutputTokens: 100 },
+    });
+
+    const span = getFinishedSpans().find((s) => s.spanContext().spanId === recordedEvents[0].span_id);
+    expect(recordedEvents[0].trace_id).toBe(span?.spanContext().traceId);
+    expect(span?.name).toBe('generate_content gemini-2.0-flash');
+    expect(span?.attributes).toMatchObject({
+      'gen_ai.system': 'gemini',
+      'gen_ai.request.temperature': 0.5,
+      'gen_ai.request.max_tokens': 100,
+      'gen_ai.response.finish_reasons': ['STOP'],
+      'gen_ai.usage.input_tokens': 5,
+      'gen_ai.usage.output_tokens': 1,
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { trace } from '@opentelemetry/api';
+import { reconcileEvents } from '../src/reconcile.js';
+import { wrapOpenAIClient } from '../src/providers/openai/index.js';
+import { Collector } from '../src/collector.js';
+import type { Event, ObservabilityExport } from '../src/models/observability.js';
+
+// Mock fetch for API calls
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+function createEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    provider: 'openai',
+    api: 'chat.completions.create',
+    request: { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }], temperature: null },
+    response: { id: 'chatcmpl-1', text: 'Hello', usage: null },
+    error: null,
+    started_at: 100,
+    ended_at: 101,
+    duration_ms: 1000,
+    callsite: { file: 'app.ts', line: 10, function: 'main' },
+    span_id: 'proxy-span',
+    parent_span_id: 'agent-span',
+    trace_id: 'trace-1',
+    source: 'proxy',
+    ...overrides,
+  };
+}
+
+describe('reconcileEvents()', () => {
+  it('should merge an OTel span nested under a wrapper event', () => {
+    const proxy = createEvent();
+    const otel = createEvent({
+      request: { model: 'gpt-4o-mini', temperature: 0.2 },
+      response: { id: 'chatcmpl-1', model: 'gpt-4o-mini-2024-07-18', usage: { prompt_tokens: 5 } },
+      callsite: null,
+      started_at: 100.01,
+      ended_at: 100.99,
+      span_id: 'otel-span',
+      parent_span_id: 'proxy-span',
+      source: 'otel',
+    });
+    const child = createEvent({ provider: 'function', span_id: 'child', parent_span_id: 'otel-span', source: undefined });
+
+    const result = reconcileEvents([proxy, otel, child]) as Event[];
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({
+      span_id: 'proxy-span',
+      parent_span_id: 'agent-span',
+      callsite: { file: 'app.ts', line: 10, function: 'main' },
+      request: { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }], temperature: 0.2 },
+      response: { id: 'chatcmpl-1', text: 'Hello', model: 'gpt-4o-mini-2024-07-18', usage: { prompt_tokens: 5 } },
+    });
+    expect(result[0].field_sources).toEqual({
+      'request.model': 'proxy',
+      'request.messages': 'proxy',
+      'request.temperature': 'otel',
+      'response.id': 'proxy',
+      'response.text': 'proxy',
+      'response.model': 'otel',
+      'response.usage': 'otel',
+    });
+    expect(result[1].parent_span_id).toBe('proxy-span');
+  });
+
+  it('should match by provider, API, model and time when spans are not nested', () => {
+    const proxy = createEvent({ api: 'models.generateContent', provider: 'gemini', request: { model: 'gemini-2.0-flash' } });
+    const otel = createEvent({
+      provider: 'gemini',
+      api: 'models.generate_content',
+      request: { model: 'gemini-2.0-flash' },
+      span_id: 'otel-span',
+      parent_span_id: null,
+      started_at: 100.2,
+      ended_at: 100.8,
+      source: 'otel',
+    });
+
+    expect(reconcileEvents([proxy, otel])).toHaveLength(1);
+  });
+
+  it('should keep events that do not describe the same call', () => {
+    const proxy = createEvent();
+    const otherModel = createEvent({ request: { model: 'gpt-4o' }, span_id: 'o1', parent_span_id: null, source: 'otel' });
+    const later = createEvent({ started_at: 105, ended_at: 106, span_id: 'o2', parent_span_id: null, source: 'otel' });
+    const events = [proxy, otherModel, later];
+
+    expect(reconcileEvents(events)).toEqual(events);
+  });
+
+  it('should merge each wrapper event at most once', () => {
+    const proxy = createEvent();
+    const first = createEvent({ span_id: 'o1', parent_span_id: 'proxy-span', source: 'otel' });
+    const second = createEvent({ span_id: 'o2', parent_span_id: 'proxy-span', source: 'otel' });
+
+    const result = reconcileEvents([proxy, first, second]) as Event[];
+
+    expect(result.map((e) => e.span_id)).toEqual(['proxy-span', 'o2']);
+  });
+});
+
+describe('Collector flush reconciliation', () => {
+  let collector: Collector;
+
+  beforeEach(async () => {
+    collector = new Collector();
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, usage: {} }),
+    });
+    await collector.observe({ apiKey: 'aiobs_sk_valid', providers: { include: [] } });
+  });
+
+  afterEach(() => {
+    collector.reset();
+  });
+
+  it('should export one event for a call captured by the wrapper and OTel instrumentation', async () => {
+    // Stand-in for @opentelemetry/instrumentation-openai creating a span inside the SDK call
+    const create = vi.fn().mockImplementation(async () => {
+      const span = trace.getTracer('@opentelemetry/instrumentation-openai').startSpan('chat gpt-4o-mini', {
+        attributes: {
+          'gen_ai.system': 'openai',
+          'gen_ai.operation.name': 'chat',
+          'gen_ai.request.model': 'gpt-4o-mini',
+          'gen_ai.request.top_p': 0.9,
+          'gen_ai.usage.input_tokens': 7,
+          'gen_ai.usage.output_tokens': 1,
+        },
+      });
+      span.end();
+      return { id: 'chatcmpl-1', model: 'gpt-4o-mini', choices: [{ message: { content: 'Hi' }, finish_reason: 'stop' }] };
+    });
+    const client = wrapOpenAIClient({ chat: { completions: { create } } }, collector);
+    await client.chat.completions.create({ model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hello' }] });
+
+    let exported: ObservabilityExport | null = null;
+    await collector.flush({
+      exporter: {
+        name: 'capture',
+        export: async (data) => {
+          exported = data;
+          return { success: true, metadata: {} };
+        },
+      },
+    });
+
+    const events = exported!.events;
+    expect(events).toHaveLength(1);
+    expect(events[0].request).toMatchObject({ model: 'gpt-4o-mini', top_p: 0.9 });
+    expect(events[0].response).toMatchObject({
+      text: 'Hi',
+      usage: { prompt_tokens: 7, completion_tokens: 1, total_tokens: 8 },
+    });
+    expect(events[0].field_sources).toMatchObject({
+      'request.messages': 'proxy',
+      'request.top_p': 'otel',
+      'response.text': 'proxy',
+      'response.usage': 'otel',
+    });
+  });
+});
@@ -0,0 +1,303 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { wrapOpenAIClient } from '../src/providers/openai/index.js';
+import { wrapGeminiClient } from '../src/providers/gemini/index.js';
+import { observe, setObserver } from '../src/observe.js';
+import { Collector } from '../src/collector.js';
+import { initTracer, resetTracer } from '../src/tracer.js';
+
+interface RecordedEvent {
+  provider: string;
+  api: string;
+  span_id: string;
+  request?: Record<string, unknown>;
+  response?: Record<string, unknown> | null;
+  tool_call_id?: string | null;
+  tool_call_span_id?: string | null;
+}
+
+describe('Tool call capture', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+
+  beforeEach(() => {
+    initTracer();
+    collector = new Collector();
+    recordedEvents = [];
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+
+    setObserver(collector);
+  });
+
+  afterEach(() => {
+    collector.reset();
+    resetTracer();
+    vi.restoreAllMocks();
+  });
+
+  const weatherTool = {
+    type: 'function',
+    function: {
+      name: 'get_weather',
+      description: 'Get the weather for a city',
+      parameters: { type: 'object', properties: { city: { type: 'string' } } },
+    },
+  };
+
+  it('should link OpenAI tool calls to tool executions and follow-up results', async () => {
+    const create = vi
+      .fn()
+      .mockResolvedValueOnce({
+        id: 'chatcmpl-1',
+        model: 'gpt-4o-mini',
+        choices: [
+          {
+            message: {
+              role: 'assistant',
+              content: null,
+              tool_calls: [
+                { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } },
+              ],
+            },
+            finish_reason: 'tool_calls',
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        id: 'chatcmpl-2',
+        model: 'gpt-4o-mini',
+        choices: [{ message: { role: 'assistant', content: 'Sunny in Paris' }, finish_reason: 'stop' }],
+      });
+    const client = wrapOpenAIClient({ chat: { completions: { create } } }, collector);
+
+    await client.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [{ role: 'user', content: 'Weather in Paris?' }],
+      tools: [weatherTool],
+    });
+
+    const getWeather = observe(async function get_weather(city: string) {
+      return `Sunny in ${city}`;
+    });
+    const weather = await getWeather('Paris');
+
+    await client.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [
+        { role: 'user', content: 'Weather in Paris?' },
+        { role: 'assistant', tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }] },
+        { role: 'tool', tool_call_id: 'call_1', content: weather },
+      ],
+      tools: [weatherTool],
+    });
+
+    const [first, execution, second] = recordedEvents;
+    expect(first.request?.tools).toEqual([
+      {
+        name: 'get_weather',
+        description: 'Get the weather for a city',
+        parameters: { type: 'object', properties: { city: { type: 'string' } } },
+      },
+    ]);
+    expect(first.request?.other).not.toHaveProperty('tools');
+    expect(first.response?.tool_calls).toEqual([{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }]);
+
+    expect(execution.provider).toBe('function');
+    expect(execution.tool_call_id).toBe('call_1');
+    expect(execution.tool_call_span_id).toBe(first.span_id);
+
+    expect(second.request?.tool_results).toEqual([
+      { tool_call_id: 'call_1', name: null, content: 'Sunny in Paris', tool_call_span_id: first.span_id },
+    ]);
+  });
+
+  it('should claim tool calls of the same name in order', async () => {
+    const create = vi.fn().mockResolvedValue({
+      choices: [
+        {
+          message: {
+            tool_calls: [
+              { id: 'call_a', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Oslo"}' } },
+              { id: 'call_b', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Rome"}' } },
+            ],
+          },
+          finish_reason: 'tool_calls',
+        },
+      ],
+    });
+    const client = wrapOpenAIClient({ chat: { completions: { create } } }, collector);
+    await client.chat.completions.create({ model: 'gpt-4o-mini', messages: [], tools: [weatherTool] });
+
+    const getWeather = observe(function get_weather(city: string) {
+      return city;
+    });
+    getWeather('Oslo');
+    getWeather('Rome');
+    getWeather('Lima');
+
+    expect(recordedEvents.slice(1).map((e) => e.tool_call_id)).toEqual(['call_a', 'call_b', undefined]);
+  });
+
+  it('should link tool calls from every streamed choice', async () => {
+    async function* chunks() {
+      yield {
+        id: 'chatcmpl-1',
+        choices: [
+          { index: 0, delta: { tool_calls: [{ index: 0, id: 'call_a', function: { name: 'get_weather', arguments: '{}' } }] } },
+          { index: 1, delta: { tool_calls: [{ index: 0, id: 'call_b', function: { name: 'get_time', arguments: '{}' } }] } },
+        ],
+      };
+      yield { id: 'chatcmpl-1', choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] };
+    }
+    const create = vi.fn().mockResolvedValue(chunks());
+    const client = wrapOpenAIClient({ chat: { completions: { create } } }, collector);
+    const stream = (await client.chat.completions.create({
+      model: 'gpt-4o-mini',
+      messages: [],
+      n: 2,
+      stream: true,
+    })) as AsyncIterable<unknown>;
+    for await (const chunk of stream) {
+      void chunk;
+    }
+
+    observe(function get_time() {
+      return null;
+    })();
+
+    expect(recordedEvents[1].tool_call_id).toBe('call_b');
+    expect(recordedEvents[1].tool_call_span_id).toBe(recordedEvents[0].span_id);
+  });
+
+  it('should link Responses API function calls', async () => {
+    const create = vi.fn().mockResolvedValue({
+      id: 'resp_1',
+      output: [
+        { type: 'function_call', id: 'fc_1', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+        { type: 'function_call', id: 'fc_2', call_id: 'call_2', name: 'get_weather', arguments: '{"city":"Rome"}' },
+      ],
+    });
+    const client = wrapOpenAIClient({ responses: { create } }, collector);
+    await client.responses.create({ model: 'gpt-4o-mini', input: 'Weather?' });
+
+    const getWeather = observe(function get_weather(city: string) {
+      return city;
+    });
+    getWeather('Oslo');
+    getWeather('Rome');
+
+    expect(recordedEvents.slice(1).map((e) => e.tool_call_id)).toEqual(['call_1', 'call_2']);
+    expect(recordedEvents[2].tool_call_span_id).toBe(recordedEvents[0].span_id);
+  });
+
+  it('should not link functions after the collector is reset', async () => {
+    const create = vi.fn().mockResolvedValue({
+      choices: [{ message: { tool_calls: [{ id: 'call_1', function: { name: 'lookup', arguments: 'not json' } }] } }],
+    });
+    const client = wrapOpenAIClient({ chat: { completions: { create } } }, collector);
+    await client.chat.completions.create({ model: 'gpt-4o-mini', messages: [] });
+
+    // Unparseable arguments are kept as the raw string
+    expect(recordedEvents[0].response?.tool_calls).toEqual([{ id: 'call_1', name: 'lookup', arguments: 'not json' }]);
+
+    collector.reset();
+    initTracer();
+    observe(function lookup() {
+      return null;
+    })();
+
+    expect(recordedEvents[1].tool_call_id).toBeUndefined();
+  });
+
+  it('should only link functions in the trace that requested the tool call', async () => {
+    const create = vi.fn().mockResolvedValue({
+      choices: [{ message: { tool_calls: [{ id: 'call_1', function: { name: 'lookup', arguments: '{}' } }] } }],
+    });
+    const client = wrapOpenAIClient({ chat: { completions: { create } } }, collector);
+    const lookup = observe(function lookup() {
+      return null;
+    });
+
+    const agent = observe(async function agent() {
+      await client.chat.completions.create({ model: 'gpt-4o-mini', messages: [] });
+    });
+    const otherAgent = observe(async function other_agent() {
+      lookup();
+    });
+    await agent();
+    await otherAgent();
+
+    const otherLookup = recordedEvents.find((e) => e.provider === 'function' && e.api === 'lookup');
+    expect(otherLookup?.tool_call_id).toBeUndefined();
+  });
+
+  it('should not link functions to tool calls from an ended session', async () => {
+    const create = vi.fn().mockResolvedValue({
+      choices: [{ message: { tool_calls: [{ id: 'call_1', function: { name: 'lookup', arguments: '{}' } }] } }],
+    });
+    const client = wrapOpenAIClient({ chat: { completions: { create } } }, collector);
+    const lookup = observe(function lookup() {
+      return null;
+    });
+
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, usage: {} }),
+    } as Response);
+
+    await collector.observe({ apiKey: 'aiobs_sk_valid', sessionName: 'first', providers: { include: [] } });
+    await client.chat.completions.create({ model: 'gpt-4o-mini', messages: [] });
+    collector.end();
+
+    await collector.observe({ apiKey: 'aiobs_sk_valid', sessionName: 'second', providers: { include: [] } });
+    lookup();
+
+    expect(recordedEvents[1].tool_call_id).toBeUndefined();
+  });
+
+  it('should capture Gemini function declarations, calls and responses', async () => {
+    const generateContent = vi
+      .fn()
+      .mockResolvedValueOnce({
+        candidates: [
+          {
+            content: { role: 'model', parts: [{ functionCall: { id: 'fc_1', name: 'get_weather', args: { city: 'Paris' } } }] },
+            finishReason: 'STOP',
+          },
+        ],
+      })
+      .mockResolvedValueOnce({
+        candidates: [{ content: { role: 'model', parts: [{ text: 'Sunny' }] }, finishReason: 'STOP' }],
+      });
+    const client = wrapGeminiClient({ models: { generateContent } }, collector);
+    const tools = [
+      {
+        functionDeclarations: [
+          { name: 'get_weather', description: 'Get the weather', parametersJsonSchema: { type: 'object' } },
+        ],
+      },
+    ];
+
+    await client.models.generateContent({ model: 'gemini-2.0-flash', contents: 'Weather in Paris?', config: { tools } });
+    await client.models.generateContent({
+      model: 'gemini-2.0-flash',
+      contents: [
+        { role: 'user', parts: [{ text: 'Weather in Paris?' }] },
+        { role: 'model', parts: [{ functionCall: { id: 'fc_1', name: 'get_weather', args: { city: 'Paris' } } }] },
+        { role: 'user', parts: [{ functionResponse: { id: 'fc_1', name: 'get_weather', response: { output: 'Sunny' } } }] },
+      ],
+      config: { tools },
+    });
+
+    const [first, second] = recordedEvents;
+    expect(first.request?.tools).toEqual([
+      { name: 'get_weather', description: 'Get the weather', parameters: { type: 'object' } },
+    ]);
+    expect(first.response?.tool_calls).toEqual([{ id: 'fc_1', name: 'get_weather', arguments: { city: 'Paris' } }]);
+    expect(second.request?.tool_results).toEqual([
+      { tool_call_id: 'fc_1', name: 'get_weather', content: { output: 'Sunny' }, tool_call_span_id: first.span_id },
+    ]);
+  });
+});
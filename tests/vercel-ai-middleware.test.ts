@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createAiobsMiddleware } from '../src/providers/vercel-ai/index.js';
+import { Collector } from '../src/collector.js';
+
+interface RecordedEvent {
+  provider: string;
+  api: string;
+  error: string | null;
+  request: Record<string, unknown>;
+  response: Record<string, unknown> | null;
+  parent_span_id: string | null;
+  streaming?: Record<string, unknown>;
+}
+
+function toStream(parts: unknown[]): ReadableStream<unknown> {
+  return new ReadableStream({
+    start(controller) {
+      for (const part of parts) {
+        controller.enqueue(part);
+      }
+      controller.close();
+    },
+  });
+}
+
+async function drain(stream: ReadableStream<unknown>): Promise<unknown[]> {
+  const parts: unknown[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return parts;
+    }
+    parts.push(value);
+  }
+}
+
+describe('Vercel AI SDK middleware', () => {
+  let collector: Collector;
+  let recordedEvents: RecordedEvent[];
+
+  const model = { provider: 'openai.chat', modelId: 'gpt-4o-mini' };
+
+  beforeEach(() => {
+    collector = new Collector();
+    recordedEvents = [];
+
+    vi.spyOn(collector, 'recordEvent').mockImplementation((event) => {
+      recordedEvents.push(event as unknown as RecordedEvent);
+    });
+  });
+
+  afterEach(() => {
+    collector.reset();
+    vi.restoreAllMocks();
+  });
+
+  describe('wrapGenerate()', () => {
+    it('should record a V2 (AI SDK 5) call with tool calls', async () => {
+      vi.spyOn(collector, 'getCurrentSpanId').mockReturnValue('agent-span');
+      const result = {
+        content: [
+          { type: 'text', text: 'Checking the weather.' },
+          { type: 'tool-call', toolCallId: 'call_1', toolName: 'getWeather', input: '{"city":"Paris"}' },
+        ],
+        finishReason: 'tool-calls',
+        usage: { inputTokens: 20, outputTokens: 12, totalTokens: 32 },
+        response: { id: 'resp_1', modelId: 'gpt-4o-mini-2024-07-18' },
+        warnings: [],
+      };
+      const doGenerate = vi.fn().mockResolvedValue(result);
+
+      const middleware = createAiobsMiddleware(collector);
+      const returned = await middleware.wrapGenerate({
+        doGenerate,
+        model,
+        params: {
+          prompt: [
+            { role: 'system', content: 'You are helpful.' },
+            { role: 'user', content: [{ type: 'text', text: 'Weather in Paris?' }] },
+          ],
+          maxOutputTokens: 100,
+          temperature: 0.2,
+          tools: [{ type: 'function', name: 'getWeather', inputSchema: {} }],
+          toolChoice: { type: 'auto' },
+          seed: 7,
+        },
+      });
+
+      expect(returned).toBe(result);
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0];
+      expect(event.provider).toBe('openai');
+      expect(event.api).toBe('languageModel.doGenerate');
+      expect(event.parent_span_id).toBe('agent-span');
+      expect(event.request).toMatchObject({
+        model: 'gpt-4o-mini',
+        model_provider: 'openai.chat',
+        system: 'You are helpful.',
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'Weather in Paris?' }] }],
+        max_tokens: 100,
+        temperature: 0.2,
+        tool_names: ['getWeather'],
+        tool_choice: { type: 'auto' },
+        stream: false,
+        other: { seed: 7 },
+      });
+      expect(event.response).toMatchObject({
+        id: 'resp_1',
+        model: 'gpt-4o-mini-2024-07-18',
+        text: 'Checking the weather.',
+        finish_reason: 'tool-calls',
+        tool_calls: [{ id: 'call_1', name: 'getWeather', arguments: { city: 'Paris' } }],
+        usage: { prompt_tokens: 20, completion_tokens: 12, total_tokens: 32 },
+      });
+    });
+
+    it('should record a V1 (AI SDK 4) object-json call with the parsed object', async () => {
+      const doGenerate = vi.fn().mockResolvedValue({
+        text: '{"name":"Ada","age":36}',
+        finishReason: 'stop',
+        usage: { promptTokens: 15, completionTokens: 9 },
+      });
+
+      const middleware = createAiobsMiddleware(collector);
+      await middleware.wrapGenerate({
+        doGenerate,
+        model: { provider: 'anthropic.messages', modelId: 'claude-3-5-haiku-latest' },
+        params: {
+          inputFormat: 'prompt',
+          mode: { type: 'object-json', schema: { type: 'object' } },
+          prompt: [{ role: 'user', content: [{ type: 'text', text: 'Invent a person.' }] }],
+          maxTokens: 50,
+        },
+      });
+
+      const event = recordedEvents[0];
+      expect(event.provider).toBe('anthropic');
+      expect(event.request.max_tokens).toBe(50);
+      expect(event.request.response_format).toEqual({ type: 'json', schema: { type: 'object' } });
+      expect(event.request.other).toEqual({});
+      expect(event.response).toMatchObject({
+        object: { name: 'Ada', age: 36 },
+        usage: { prompt_tokens: 15, completion_tokens: 9, total_tokens: 24 },
+      });
+    });
+
+    it('should take V1 object-tool output from the forced tool call', async () => {
+      const doGenerate = vi.fn().mockResolvedValue({
+        toolCalls: [{ toolCallType: 'function', toolCallId: 'c1', toolName: 'json', args: '{"ok":true}' }],
+        finishReason: 'tool-calls',
+        usage: { promptTokens: 5, completionTokens: 3 },
+      });
+
+      const middleware = createAiobsMiddleware(collector);
+      await middleware.wrapGenerate({
+        doGenerate,
+        model,
+        params: { mode: { type: 'object-tool', tool: { type: 'function', name: 'json', parameters: {} } }, prompt: [] },
+      });
+
+      const event = recordedEvents[0];
+      expect(event.request.tool_names).toEqual(['json']);
+      expect(event.response?.object).toEqual({ ok: true });
+    });
+
+    it('should strip inline file data from messages', async () => {
+      const doGenerate = vi.fn().mockResolvedValue({ content: [], finishReason: 'stop', usage: {} });
+
+      const middleware = createAiobsMiddleware(collector);
+      await middleware.wrapGenerate({
+        doGenerate,
+        model,
+        params: {
+          prompt: [{ role: 'user', content: [{ type: 'file', mediaType: 'image/png', data: new Uint8Array(8) }] }],
+        },
+      });
+
+      const messages = recordedEvents[0].request.messages as Array<Record<string, unknown>>;
+      expect(messages[0].content).toEqual([{ type: 'file', mediaType: 'image/png' }]);
+      expect(recordedEvents[0].response?.usage).toBeNull();
+    });
+
+    it('should record errors and rethrow', async () => {
+      const doGenerate = vi.fn().mockRejectedValue(new TypeError('bad request'));
+
+      const middleware = createAiobsMiddleware(collector);
+      await expect(middleware.wrapGenerate({ doGenerate, model, params: { prompt: [] } })).rejects.toThrow(
+        'bad request'
+      );
+
+      expect(recordedEvents).toHaveLength(1);
+      expect(recordedEvents[0].error).toBe('TypeError: bad request');
+      expect(recordedEvents[0].response).toBeNull();
+    });
+  });
+
+  describe('wrapStream()', () => {
+    it('should record the streamed text, tool calls and streaming metrics', async () => {
+      const parts = [
+        { type: 'stream-start', warnings: [] },
+        { type: 'response-metadata', id: 'resp_2', modelId: 'gpt-4o-mini' },
+        { type: 'text-delta', id: 't1', delta: 'Hello' },
+        { type: 'text-delta', id: 't1', delta: ' world' },
+        { type: 'tool-call', toolCallId: 'call_2', toolName: 'lookup', input: '{"q":"x"}' },
+        { type: 'finish', finishReason: 'stop', usage: { inputTokens: 8, outputTokens: 4, totalTokens: 12 } },
+      ];
+      const doStream = vi.fn().mockResolvedValue({ stream: toStream(parts), request: {} });
+
+      const middleware = createAiobsMiddleware(collector);
+      const result = await middleware.wrapStream({ doStream, model, params: { prompt: [] } });
+
+      // Nothing is recorded until the stream is consumed
+      expect(recordedEvents).toHaveLength(0);
+
+      const received = await drain(result.stream);
+      expect(received).toEqual(parts);
+      expect(result.request).toEqual({});
+
+      expect(recordedEvents).toHaveLength(1);
+      const event = recordedEvents[0];
+      expect(event.api).toBe('languageModel.doStream');
+      expect(event.request.stream).toBe(true);
+      expect(event.response).toMatchObject({
+        id: 'resp_2',
+        text: 'Hello world',
+        finish_reason: 'stop',
+        tool_calls: [{ id: 'call_2', name: 'lookup', arguments: { q: 'x' } }],
+        usage: { prompt_tokens: 8, completion_tokens: 4, total_tokens: 12 },
+      });
+      expect(event.streaming).toMatchObject({ chunk_count: 3, consumption: 'complete' });
+    });
+
+    it('should accept V1 text deltas and record stream error parts', async () => {
+      const parts = [
+        { type: 'text-delta', textDelta: 'Partial' },
+        { type: 'error', error: new Error('overloaded') },
+        { type: 'finish', finishReason: 'error', usage: { promptTokens: 3, completionTokens: 1 } },
+      ];
+      const doStream = vi.fn().mockResolvedValue({ stream: toStream(parts), rawCall: {} });
+
+      const middleware = createAiobsMiddleware(collector);
+      const result = await middleware.wrapStream({ doStream, model, params: { prompt: [] } });
+      await drain(result.stream);
+
+      const event = recordedEvents[0];
+      expect(event.error).toBe('Error: overloaded');
+      expect(event.response).toMatchObject({ text: 'Partial', finish_reason: 'error' });
+    });
+
+    it('should record a stream cancelled before any part as not consumed', async () => {
+      const source = toStream([{ type: 'text-delta', id: 't1', delta: 'Hello' }]);
+      const doStream = vi.fn().mockResolvedValue({ stream: source });
+
+      const middleware = createAiobsMiddleware(collector);
+      const result = await middleware.wrapStream({ doStream, model, params: { prompt: [] } });
+      await result.stream.cancel();
+
+      expect(recordedEvents).toHaveLength(1);
+      expect(recordedEvents[0].error).toBeNull();
+      expect(recordedEvents[0].streaming).toMatchObject({ consumption: 'not_consumed', chunk_count: 0 });
+    });
+
+    it('should record an error when the source stream fails', async () => {
+      let pulls = 0;
+      const stream = new ReadableStream({
+        pull(controller) {
+          if (pulls++ === 0) {
+            controller.enqueue({ type: 'text-delta', delta: 'Hi' });
+          } else {
+            controller.error(new Error('connection reset'));
+          }
+        },
+      });
+      const doStream = vi.fn().mockResolvedValue({ stream });
+
+      const middleware = createAiobsMiddleware(collector);
+      const result = await middleware.wrapStream({ doStream, model, params: { prompt: [] } });
+      await expect(drain(result.stream)).rejects.toThrow('connection reset');
+
+      expect(recordedEvents).toHaveLength(1);
+      expect(recordedEvents[0].error).toBe('Error: connection reset');
+      expect(recordedEvents[0].response).toMatchObject({ text: 'Hi' });
+    });
+  });
+});